@@ -0,0 +1,161 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BlobService } from "azure-storage";
+import * as ai from "applicationinsights";
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { DAY_MS } from "../../utils/userDataCleanup";
+import { getCleanupUserDataArchivesHandler } from "../handler";
+
+const aContainerName = "user-data-download";
+
+const anArchiveCreatedDaysAgo = (name: string, days: number) => ({
+  creationTime: new Date(Date.now() - days * DAY_MS).toUTCString(),
+  lastModified: new Date(Date.now() - days * DAY_MS).toUTCString(),
+  name
+});
+
+// two pages of archives, linked by a continuation token
+const aContinuationToken = { nextMarker: "a-marker" };
+const mockListBlobsSegmented = jest.fn((_, token, cb) =>
+  token === undefined
+    ? cb(null, {
+        continuationToken: aContinuationToken,
+        entries: [
+          anArchiveCreatedDaysAgo("AAAAAA00A00A000A-1.zip", 20),
+          anArchiveCreatedDaysAgo("AAAAAA00A00A000A-2.zip", 1)
+        ]
+      })
+    : cb(null, {
+        entries: [anArchiveCreatedDaysAgo("BBBBBB00B00B000B-1.zip", 30)]
+      })
+);
+const mockDeleteBlobIfExists = jest.fn((_, __, cb) => cb(null, true));
+
+const blobServiceMock = ({
+  deleteBlobIfExists: mockDeleteBlobIfExists,
+  listBlobsSegmented: mockListBlobsSegmented
+} as any) as BlobService;
+
+describe("getCleanupUserDataArchivesHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should delete the archives older than the retention period", async () => {
+    const result = await getCleanupUserDataArchivesHandler(
+      blobServiceMock,
+      aContainerName,
+      15,
+      false
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 2,
+      expired: 0,
+      failed: 0,
+      isDryRun: false
+    });
+    expect(mockListBlobsSegmented).toHaveBeenCalledTimes(2);
+    expect(mockListBlobsSegmented).toHaveBeenLastCalledWith(
+      aContainerName,
+      aContinuationToken,
+      expect.any(Function)
+    );
+    expect(mockDeleteBlobIfExists).toHaveBeenCalledTimes(2);
+    expect(mockDeleteBlobIfExists).toHaveBeenCalledWith(
+      aContainerName,
+      "AAAAAA00A00A000A-1.zip",
+      expect.any(Function)
+    );
+    expect(mockDeleteBlobIfExists).toHaveBeenCalledWith(
+      aContainerName,
+      "BBBBBB00B00B000B-1.zip",
+      expect.any(Function)
+    );
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledTimes(2);
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "user.data.download.archive.deleted",
+        properties: expect.objectContaining({ isDryRun: "false" })
+      })
+    );
+  });
+
+  it("should not track the names of the archives, as they contain fiscal codes", async () => {
+    await getCleanupUserDataArchivesHandler(
+      blobServiceMock,
+      aContainerName,
+      15,
+      false
+    )(contextMock);
+
+    expect(
+      JSON.stringify((ai.defaultClient.trackEvent as jest.Mock).mock.calls)
+    ).not.toContain("AAAAAA00A00A000A");
+  });
+
+  it("should only report the expired archives in dry-run mode", async () => {
+    const result = await getCleanupUserDataArchivesHandler(
+      blobServiceMock,
+      aContainerName,
+      15,
+      true
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 0,
+      expired: 2,
+      failed: 0,
+      isDryRun: true
+    });
+    expect(mockDeleteBlobIfExists).not.toHaveBeenCalled();
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "user.data.download.archive.expired",
+        properties: expect.objectContaining({ isDryRun: "true" })
+      })
+    );
+  });
+
+  it("should go on deleting archives when one cannot be deleted", async () => {
+    mockDeleteBlobIfExists.mockImplementationOnce((_, __, cb) =>
+      cb(new Error("any error"), false)
+    );
+
+    const result = await getCleanupUserDataArchivesHandler(
+      blobServiceMock,
+      aContainerName,
+      15,
+      false
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 1,
+      expired: 0,
+      failed: 1,
+      isDryRun: false
+    });
+    expect(ai.defaultClient.trackException).toHaveBeenCalledWith(
+      expect.objectContaining({
+        properties: expect.objectContaining({
+          name: "user.data.download.archive.delete"
+        })
+      })
+    );
+  });
+
+  it("should fail when archives cannot be listed", async () => {
+    mockListBlobsSegmented.mockImplementationOnce((_, __, cb) =>
+      cb(new Error("any error"))
+    );
+
+    await expect(
+      getCleanupUserDataArchivesHandler(
+        blobServiceMock,
+        aContainerName,
+        15,
+        false
+      )(contextMock)
+    ).rejects.toThrow("any error");
+    expect(mockDeleteBlobIfExists).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import {
+  trackUserDataArchiveEvent,
+  trackUserDataArchiveException
+} from "../utils/appinsightsEvents";
+import { deleteBlob, listBlobs } from "../utils/extensions/azure_storage";
+import {
+  CleanupOutcome,
+  countOutcomes,
+  getEmptyCleanupSummary,
+  getExpiredBefore,
+  ICleanupSummary,
+  logCleanupSummary
+} from "../utils/userDataCleanup";
+
+const getCreationDate = (blob: BlobService.BlobResult): Date =>
+  new Date(blob.creationTime ?? blob.lastModified);
+
+/**
+ * Deletes the archives of user data older than the retention period,
+ * or just reports them when in dry-run mode
+ *
+ * @param blobService the storage the archives are stored in
+ * @param containerName the container the archives are stored in
+ * @param retentionDays how many days archives are kept for
+ * @param isDryRun whether archives are only reported, without deleting them
+ */
+export const getCleanupUserDataArchivesHandler = (
+  blobService: BlobService,
+  containerName: string,
+  retentionDays: number,
+  isDryRun: boolean
+) => async (context: Context): Promise<ICleanupSummary> => {
+  const logPrefix = `CleanupUserDataArchives|DRY_RUN=${isDryRun}`;
+  const expiredBefore = getExpiredBefore(retentionDays);
+
+  const cleanupArchive = async (
+    blob: BlobService.BlobResult
+  ): Promise<CleanupOutcome> => {
+    const properties = {
+      createdAt: getCreationDate(blob).toISOString(),
+      isDryRun: String(isDryRun)
+    };
+    if (isDryRun) {
+      context.log.info(
+        `${logPrefix}|Archive would be deleted|BLOB=${blob.name}|CREATED_AT=${properties.createdAt}`
+      );
+      trackUserDataArchiveEvent("expired", blob.name, properties);
+      return "EXPIRED";
+    }
+    const errorOrDeleted = await deleteBlob(
+      blobService,
+      containerName,
+      blob.name
+    );
+    if (E.isLeft(errorOrDeleted)) {
+      context.log.error(
+        `${logPrefix}|Cannot delete archive|BLOB=${blob.name}|ERROR=${errorOrDeleted.left.message}`
+      );
+      trackUserDataArchiveException("delete", errorOrDeleted.left, blob.name);
+      return "FAILED";
+    }
+    context.log.verbose(`${logPrefix}|Archive deleted|BLOB=${blob.name}`);
+    trackUserDataArchiveEvent("deleted", blob.name, properties);
+    return "DELETED";
+  };
+
+  // eslint-disable-next-line functional/no-let
+  let summary = getEmptyCleanupSummary(isDryRun);
+  for await (const blobs of listBlobs(blobService, containerName)) {
+    summary = countOutcomes(
+      summary,
+      await Promise.all(
+        blobs
+          .filter(blob => getCreationDate(blob) < expiredBefore)
+          .map(cleanupArchive)
+      )
+    );
+  }
+
+  logCleanupSummary(context, logPrefix, "Archives", expiredBefore, summary);
+  return summary;
+};
@@ -0,0 +1,18 @@
+import { createBlobService } from "azure-storage";
+import { getConfigOrThrow } from "../utils/config";
+import { getCleanupUserDataArchivesHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const userDataBlobService = createBlobService(
+  config.UserDataArchiveStorageConnection
+);
+
+const index = getCleanupUserDataArchivesHandler(
+  userDataBlobService,
+  config.USER_DATA_CONTAINER_NAME,
+  config.USER_DATA_ARCHIVE_RETENTION_DAYS,
+  config.USER_DATA_ARCHIVE_CLEANUP_DRY_RUN
+);
+
+export default index;
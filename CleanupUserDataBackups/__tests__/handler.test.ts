@@ -0,0 +1,268 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BlobService } from "azure-storage";
+import * as ai from "applicationinsights";
+import { context as contextMock } from "../../__mocks__/durable-functions";
+import { DAY_MS } from "../../utils/userDataCleanup";
+import { getCleanupUserDataBackupsHandler } from "../handler";
+
+const aContainerName = "user-data-backup";
+const aKeyContainerName = "user-data-backup-keys";
+
+const aBackupFolderCreatedDaysAgo = (fiscalCode: string, days: number) =>
+  `${fiscalCode}-DELETE-${Date.now() - days * DAY_MS}`;
+
+const anExpiredBackupFolder = aBackupFolderCreatedDaysAgo(
+  "AAAAAA00A00A000A",
+  40
+);
+const aRecentBackupFolder = aBackupFolderCreatedDaysAgo("AAAAAA00A00A000A", 1);
+const anotherExpiredBackupFolder = aBackupFolderCreatedDaysAgo(
+  "BBBBBB00B00B000B",
+  60
+);
+
+// two pages of folders, linked by a continuation token
+const aContinuationToken = { nextMarker: "a-marker" };
+const mockListBlobDirectoriesSegmented = jest.fn((_, token, cb) =>
+  token === undefined
+    ? cb(null, {
+        continuationToken: aContinuationToken,
+        entries: [
+          { name: `${anExpiredBackupFolder}/` },
+          { name: `${aRecentBackupFolder}/` },
+          { name: "not-a-backup/" }
+        ]
+      })
+    : cb(null, { entries: [{ name: `${anotherExpiredBackupFolder}/` }] })
+);
+const mockListBlobDirectoriesSegmentedWithPrefix = jest.fn(
+  (_, prefix: string, __, cb) =>
+    cb(null, {
+      entries: [
+        anExpiredBackupFolder,
+        aRecentBackupFolder,
+        anotherExpiredBackupFolder
+      ]
+        .filter(name => name.startsWith(prefix))
+        .map(name => ({ name: `${name}/` }))
+    })
+);
+const mockListBlobsSegmentedWithPrefix = jest.fn((_, prefix: string, __, cb) =>
+  cb(null, {
+    entries: [
+      { name: `${prefix}profile/AAAAAA00A00A000A-0000000000000000.json` },
+      { name: `${prefix}message/A_MESSAGE_ID.json` }
+    ]
+  })
+);
+const mockDeleteBlobIfExists = jest.fn((_, __, cb) => cb(null, true));
+
+const blobServiceMock = ({
+  deleteBlobIfExists: mockDeleteBlobIfExists,
+  listBlobDirectoriesSegmented: mockListBlobDirectoriesSegmented,
+  listBlobDirectoriesSegmentedWithPrefix: mockListBlobDirectoriesSegmentedWithPrefix,
+  listBlobsSegmentedWithPrefix: mockListBlobsSegmentedWithPrefix
+} as any) as BlobService;
+
+describe("getCleanupUserDataBackupsHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should delete the backups older than the retention period, the key of their user first", async () => {
+    const result = await getCleanupUserDataBackupsHandler(
+      blobServiceMock,
+      aContainerName,
+      aKeyContainerName,
+      30,
+      false
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 2,
+      expired: 0,
+      failed: 0,
+      isDryRun: false
+    });
+    expect(mockListBlobDirectoriesSegmented).toHaveBeenCalledTimes(2);
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledTimes(2);
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledWith(
+      aContainerName,
+      `${anExpiredBackupFolder}/`,
+      undefined,
+      expect.any(Function)
+    );
+    // two documents for every expired backup and the key of the user
+    // whose backups have all expired
+    expect(mockDeleteBlobIfExists).toHaveBeenCalledTimes(5);
+    expect(mockDeleteBlobIfExists.mock.calls[2]).toEqual([
+      aKeyContainerName,
+      "BBBBBB00B00B000B.json",
+      expect.any(Function)
+    ]);
+    expect(mockDeleteBlobIfExists).not.toHaveBeenCalledWith(
+      aKeyContainerName,
+      "AAAAAA00A00A000A.json",
+      expect.any(Function)
+    );
+    expect(mockDeleteBlobIfExists).not.toHaveBeenCalledWith(
+      aContainerName,
+      expect.stringContaining(aRecentBackupFolder),
+      expect.any(Function)
+    );
+  });
+
+  it("should track a summary of the cleanup without the names of the backups", async () => {
+    await getCleanupUserDataBackupsHandler(
+      blobServiceMock,
+      aContainerName,
+      aKeyContainerName,
+      30,
+      false
+    )(contextMock);
+
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledTimes(1);
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "user.data.delete.backup.cleanup",
+        properties: expect.objectContaining({
+          deleted: "2",
+          failed: "0",
+          isDryRun: "false"
+        })
+      })
+    );
+    expect(
+      JSON.stringify((ai.defaultClient.trackEvent as jest.Mock).mock.calls)
+    ).not.toContain("AAAAAA00A00A000A");
+  });
+
+  it("should only report the expired backups in report-only mode", async () => {
+    const result = await getCleanupUserDataBackupsHandler(
+      blobServiceMock,
+      aContainerName,
+      aKeyContainerName,
+      30,
+      true
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 0,
+      expired: 2,
+      failed: 0,
+      isDryRun: true
+    });
+    expect(mockDeleteBlobIfExists).not.toHaveBeenCalled();
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "user.data.delete.backup.cleanup",
+        properties: expect.objectContaining({
+          expired: "2",
+          isDryRun: "true"
+        })
+      })
+    );
+  });
+
+  it("should not delete the documents of a backup whose key cannot be destroyed", async () => {
+    // the documents of the first backup, then the key of the second one
+    mockDeleteBlobIfExists
+      .mockImplementationOnce((_, __, cb) => cb(null, true))
+      .mockImplementationOnce((_, __, cb) => cb(null, true))
+      .mockImplementationOnce((_, __, cb) => cb(new Error("any error"), false));
+
+    const result = await getCleanupUserDataBackupsHandler(
+      blobServiceMock,
+      aContainerName,
+      aKeyContainerName,
+      30,
+      false
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 1,
+      expired: 0,
+      failed: 1,
+      isDryRun: false
+    });
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledTimes(1);
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledWith(
+      aContainerName,
+      `${anExpiredBackupFolder}/`,
+      undefined,
+      expect.any(Function)
+    );
+    expect(ai.defaultClient.trackException).toHaveBeenCalledWith(
+      expect.objectContaining({
+        properties: expect.objectContaining({
+          name: "user.data.delete.backup.delete"
+        })
+      })
+    );
+  });
+
+  it("should count as failed a backup whose documents cannot all be deleted", async () => {
+    mockDeleteBlobIfExists
+      .mockImplementationOnce((_, __, cb) => cb(null, true))
+      .mockImplementationOnce((_, __, cb) => cb(new Error("any error"), false));
+
+    const result = await getCleanupUserDataBackupsHandler(
+      blobServiceMock,
+      aContainerName,
+      aKeyContainerName,
+      30,
+      false
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 1,
+      expired: 0,
+      failed: 1,
+      isDryRun: false
+    });
+  });
+
+  it("should count as failed a backup whose documents cannot be listed", async () => {
+    mockListBlobsSegmentedWithPrefix.mockImplementationOnce((_, __, ___, cb) =>
+      cb(new Error("any error"))
+    );
+
+    const result = await getCleanupUserDataBackupsHandler(
+      blobServiceMock,
+      aContainerName,
+      aKeyContainerName,
+      30,
+      false
+    )(contextMock);
+
+    expect(result).toEqual({
+      deleted: 1,
+      expired: 0,
+      failed: 1,
+      isDryRun: false
+    });
+    expect(ai.defaultClient.trackEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "user.data.delete.backup.cleanup",
+        properties: expect.objectContaining({ deleted: "1", failed: "1" })
+      })
+    );
+  });
+
+  it("should fail when backups cannot be listed", async () => {
+    mockListBlobDirectoriesSegmented.mockImplementationOnce((_, __, cb) =>
+      cb(new Error("any error"))
+    );
+
+    await expect(
+      getCleanupUserDataBackupsHandler(
+        blobServiceMock,
+        aContainerName,
+        aKeyContainerName,
+        30,
+        false
+      )(contextMock)
+    ).rejects.toThrow("any error");
+    expect(mockDeleteBlobIfExists).not.toHaveBeenCalled();
+  });
+});
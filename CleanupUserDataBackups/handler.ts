@@ -0,0 +1,144 @@
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import {
+  trackUserDataBackupEvent,
+  trackUserDataBackupException
+} from "../utils/appinsightsEvents";
+import {
+  deleteBlob,
+  listBlobDirectories,
+  listBlobs
+} from "../utils/extensions/azure_storage";
+import {
+  destroyUserDataBackupKey,
+  getBackupCreationDate,
+  getBackupFiscalCode,
+  listUserDataBackupFolders,
+  UserDataBackupFolder
+} from "../utils/userDataBackup";
+import {
+  CleanupOutcome,
+  countOutcomes,
+  getEmptyCleanupSummary,
+  getExpiredBefore,
+  ICleanupSummary,
+  logCleanupSummary,
+  toCleanupEventProperties
+} from "../utils/userDataCleanup";
+
+/**
+ * Deletes the documents of a backup, a page at a time
+ *
+ * @returns the errors of the documents that could not be deleted,
+ * or of the page that could not be listed
+ */
+const deleteBackupDocuments = async (
+  blobService: BlobService,
+  containerName: string,
+  backupFolder: UserDataBackupFolder
+): Promise<ReadonlyArray<Error>> => {
+  // eslint-disable-next-line functional/no-let
+  let errors: ReadonlyArray<Error> = [];
+  try {
+    for await (const blobs of listBlobs(
+      blobService,
+      containerName,
+      `${backupFolder}/`
+    )) {
+      const results = await Promise.all(
+        blobs.map(({ name }) => deleteBlob(blobService, containerName, name))
+      );
+      errors = [...errors, ...results.filter(E.isLeft).map(_ => _.left)];
+    }
+  } catch (error) {
+    errors = [...errors, E.toError(error)];
+  }
+  return errors;
+};
+
+/**
+ * Deletes the backups of user data older than the retention period,
+ * or just reports them when in dry-run mode.
+ * As backups are encrypted with a key of their user, the key is destroyed
+ * along with the latest backup of the user, before its documents,
+ * so that a backup that cannot be completely deleted is unreadable anyway.
+ *
+ * @param blobService the storage the backups and their keys are saved in
+ * @param containerName the container the backups are saved in
+ * @param keyContainerName the container the keys of the backups are saved in
+ * @param retentionDays how many days backups are kept for
+ * @param isDryRun whether backups are only reported, without deleting them
+ */
+export const getCleanupUserDataBackupsHandler = (
+  blobService: BlobService,
+  containerName: string,
+  keyContainerName: string,
+  retentionDays: number,
+  isDryRun: boolean
+) => async (context: Context): Promise<ICleanupSummary> => {
+  const logPrefix = `CleanupUserDataBackups|DRY_RUN=${isDryRun}`;
+  const expiredBefore = getExpiredBefore(retentionDays);
+
+  // the key is left as long as it encrypts a backup within the retention period
+  const destroyExpiredKey = (
+    fiscalCode: FiscalCode
+  ): TE.TaskEither<Error, boolean> =>
+    pipe(
+      listUserDataBackupFolders(blobService, containerName, fiscalCode),
+      TE.chain(folders =>
+        folders.some(folder => getBackupCreationDate(folder) >= expiredBefore)
+          ? TE.of(false)
+          : destroyUserDataBackupKey(blobService, keyContainerName, fiscalCode)
+      )
+    );
+
+  const cleanupBackup = async (
+    backupFolder: UserDataBackupFolder
+  ): Promise<CleanupOutcome> => {
+    if (isDryRun) {
+      context.log.info(
+        `${logPrefix}|Backup would be deleted|FOLDER=${backupFolder}`
+      );
+      return "EXPIRED";
+    }
+    const errorOrDestroyed = await destroyExpiredKey(
+      getBackupFiscalCode(backupFolder)
+    )();
+    const errors = E.isLeft(errorOrDestroyed)
+      ? [errorOrDestroyed.left]
+      : await deleteBackupDocuments(blobService, containerName, backupFolder);
+    if (errors.length > 0) {
+      context.log.error(
+        `${logPrefix}|Cannot delete backup|FOLDER=${backupFolder}|ERRORS=${errors.length}|ERROR=${errors[0].message}`
+      );
+      trackUserDataBackupException("delete", errors[0], backupFolder);
+      return "FAILED";
+    }
+    context.log.verbose(`${logPrefix}|Backup deleted|FOLDER=${backupFolder}`);
+    return "DELETED";
+  };
+
+  // eslint-disable-next-line functional/no-let
+  let summary = getEmptyCleanupSummary(isDryRun);
+  for await (const folders of listBlobDirectories(blobService, containerName)) {
+    const expiredFolders = folders
+      // folders that are not backups of a deletion run are left untouched
+      .filter(UserDataBackupFolder.is)
+      .filter(folder => getBackupCreationDate(folder) < expiredBefore);
+    // a backup at a time, as each one may have thousands of documents
+    for (const folder of expiredFolders) {
+      summary = countOutcomes(summary, [await cleanupBackup(folder)]);
+    }
+  }
+
+  logCleanupSummary(context, logPrefix, "Backups", expiredBefore, summary);
+  trackUserDataBackupEvent(
+    "cleanup",
+    toCleanupEventProperties(expiredBefore, summary)
+  );
+  return summary;
+};
@@ -0,0 +1,19 @@
+import { createBlobService } from "azure-storage";
+import { getConfigOrThrow } from "../utils/config";
+import { getCleanupUserDataBackupsHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const userDataBackupBlobService = createBlobService(
+  config.UserDataBackupStorageConnection
+);
+
+const index = getCleanupUserDataBackupsHandler(
+  userDataBackupBlobService,
+  config.USER_DATA_BACKUP_CONTAINER_NAME,
+  config.USER_DATA_BACKUP_KEY_CONTAINER_NAME,
+  config.USER_DATA_BACKUP_RETENTION_DAYS,
+  config.USER_DATA_BACKUP_CLEANUP_DRY_RUN
+);
+
+export default index;
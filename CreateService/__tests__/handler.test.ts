@@ -1,7 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable sonar/sonar-max-lines-per-function */
+import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
-import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import {
+  CosmosErrors,
+  toCosmosErrorResponse
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import {
   aNewService,
   aRetrievedService,
@@ -32,6 +36,28 @@ describe("CreateServiceHandler", () => {
     expect(response.kind).toBe("IResponseErrorQuery");
   });
 
+  it("should return a conflict error if the service exists already", async () => {
+    const mockServiceModel = {
+      create: jest.fn(_ =>
+        TE.left({
+          kind: "COSMOS_ERROR_RESPONSE",
+          error: { code: 409, name: "", message: "" }
+        } as CosmosErrors)
+      )
+    };
+
+    const createServiceHandler = CreateServiceHandler(mockServiceModel as any);
+
+    const response = await createServiceHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServicePayload
+    );
+
+    expect(mockServiceModel.create).toHaveBeenCalledWith(aNewService);
+    expect(response.kind).toBe("IResponseErrorConflict");
+  });
+
   it("should create a new service using the payload and return the created service", async () => {
     const mockServiceModel = {
       create: jest.fn(_ => {
@@ -53,4 +79,81 @@ describe("CreateServiceHandler", () => {
       expect(response.value).toEqual(aSeralizedService);
     }
   });
+
+  it("should preview the service without creating it when dryRun is set", async () => {
+    const mockServiceModel = {
+      create: jest.fn(),
+      findOneByServiceId: jest.fn(() => TE.of(O.none))
+    };
+
+    const createServiceHandler = CreateServiceHandler(mockServiceModel as any);
+
+    const response = await createServiceHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServicePayload,
+      true
+    );
+
+    expect(mockServiceModel.create).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        changes: expect.arrayContaining([
+          {
+            field: "department_name",
+            new_value: JSON.stringify(aServicePayload.department_name)
+          }
+        ]),
+        service: {
+          ...aServicePayload,
+          id: `${aServicePayload.service_id}-0000000000000000`,
+          version: 0
+        }
+      });
+    }
+  });
+
+  it("should return a conflict error on dryRun if the service exists already", async () => {
+    const mockServiceModel = {
+      create: jest.fn(),
+      findOneByServiceId: jest.fn(() => TE.of(O.some(aRetrievedService)))
+    };
+
+    const createServiceHandler = CreateServiceHandler(mockServiceModel as any);
+
+    const response = await createServiceHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServicePayload,
+      true
+    );
+
+    expect(mockServiceModel.findOneByServiceId).toHaveBeenCalledWith(
+      aServicePayload.service_id
+    );
+    expect(mockServiceModel.create).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseErrorConflict");
+  });
+
+  it("should return a query error on dryRun if the existing service cannot be retrieved", async () => {
+    const mockServiceModel = {
+      create: jest.fn(),
+      findOneByServiceId: jest.fn(() =>
+        TE.left(toCosmosErrorResponse({ kind: "COSMOS_ERROR_RESPONSE" }))
+      )
+    };
+
+    const createServiceHandler = CreateServiceHandler(mockServiceModel as any);
+
+    const response = await createServiceHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServicePayload,
+      true
+    );
+
+    expect(mockServiceModel.create).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseErrorQuery");
+  });
 });
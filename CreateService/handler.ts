@@ -3,10 +3,13 @@ import { Context } from "@azure/functions";
 import * as express from "express";
 
 import { isLeft } from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
 
 import {
+  IResponseErrorConflict,
   IResponseErrorValidation,
   IResponseSuccessJson,
+  ResponseErrorConflict,
   ResponseSuccessJson
 } from "@pagopa/ts-commons/lib/responses";
 
@@ -31,14 +34,20 @@ import {
   apiServiceToService,
   retrievedServiceToApiService
 } from "../utils/conversions";
+import { ServiceDryRun } from "../generated/definitions/ServiceDryRun";
+import { DryRunMiddleware } from "../utils/middlewares/dryRun";
 import { ServicePayloadMiddleware } from "../utils/middlewares/service";
+import { previewServiceVersion } from "../utils/serviceVersions";
 
 type ICreateServiceHandler = (
   context: Context,
   auth: IAzureApiAuthorization,
-  servicePayload: ApiService
+  servicePayload: ApiService,
+  dryRun?: boolean
 ) => Promise<
   | IResponseSuccessJson<ApiService>
+  | IResponseSuccessJson<ServiceDryRun>
+  | IResponseErrorConflict
   | IResponseErrorQuery
   | IResponseErrorValidation
 >;
@@ -48,14 +57,43 @@ export function CreateServiceHandler(
   serviceModel: ServiceModel
 ): ICreateServiceHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-  return async (context, _, servicePayload) => {
+  return async (context, _, servicePayload, dryRun) => {
     const newService = {
       ...apiServiceToService(servicePayload),
       kind: "INewService" as const
     };
+
+    if (dryRun) {
+      // the creation would fail if the service exists already
+      const errorOrMaybeExistingService = await serviceModel.findOneByServiceId(
+        newService.serviceId
+      )();
+      if (isLeft(errorOrMaybeExistingService)) {
+        return ResponseErrorQuery(
+          "Error trying to retrieve existing service",
+          errorOrMaybeExistingService.left
+        );
+      }
+      if (O.isSome(errorOrMaybeExistingService.right)) {
+        return ResponseErrorConflict(
+          `A service with id ${newService.serviceId} exists already`
+        );
+      }
+      return ResponseSuccessJson(previewServiceVersion(O.none, newService));
+    }
+
     const errorOrCreatedService = await serviceModel.create(newService)();
 
     if (isLeft(errorOrCreatedService)) {
+      // the document of the first version of the service exists already
+      if (
+        errorOrCreatedService.left.kind === "COSMOS_ERROR_RESPONSE" &&
+        errorOrCreatedService.left.error.code === 409
+      ) {
+        return ResponseErrorConflict(
+          `A service with id ${newService.serviceId} exists already`
+        );
+      }
       return ResponseErrorQuery(
         "CreateServiceHandler error",
         errorOrCreatedService.left
@@ -83,7 +121,9 @@ export function CreateService(
     // Allow only users in the ApiServiceWrite group
     AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceWrite])),
     // Extracts the Service payload from the request body
-    ServicePayloadMiddleware
+    ServicePayloadMiddleware,
+    // Extracts the optional dry-run flag
+    DryRunMiddleware
   );
 
   return wrapRequestHandler(middlewaresWrap(handler));
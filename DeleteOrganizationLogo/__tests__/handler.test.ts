@@ -0,0 +1,49 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { OrganizationFiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { BlobService } from "azure-storage";
+import { DeleteOrganizationLogoHandler } from "../handler";
+
+const anOrganizationFiscalCode = "00000000001" as OrganizationFiscalCode;
+
+const getBlobServiceMock = (blobNames: ReadonlyArray<string>): BlobService =>
+  ({
+    deleteBlobIfExists: jest.fn((_, __, cb) => cb(null, true)),
+    listBlobsSegmentedWithPrefix: jest.fn((_, __, ___, cb) =>
+      cb(null, { entries: blobNames.map(name => ({ name })) })
+    )
+  } as any);
+
+describe("DeleteOrganizationLogoHandler", () => {
+  it("should delete the logo named after the fiscal code without leading zeros", async () => {
+    const blobServiceMock = getBlobServiceMock(["1.png", "1_60.png", "12.png"]);
+    const handler = DeleteOrganizationLogoHandler(blobServiceMock);
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      anOrganizationFiscalCode
+    );
+
+    expect(response.kind).toBe("IResponseSuccessNoContent");
+    expect(blobServiceMock.deleteBlobIfExists).toHaveBeenCalledTimes(2);
+    ["1.png", "1_60.png"].forEach(blobName =>
+      expect(blobServiceMock.deleteBlobIfExists).toHaveBeenCalledWith(
+        "services",
+        blobName,
+        expect.any(Function)
+      )
+    );
+  });
+
+  it("should return a not found error if the logo does not exist", async () => {
+    const handler = DeleteOrganizationLogoHandler(getBlobServiceMock([]));
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      anOrganizationFiscalCode
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+});
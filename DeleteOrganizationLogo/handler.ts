@@ -0,0 +1,101 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import {
+  IResponse,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessNoContent
+} from "@pagopa/ts-commons/lib/responses";
+
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import { OrganizationFiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { BlobService } from "azure-storage";
+
+import {
+  deleteLogoBlobs,
+  getOrganizationLogoBaseName,
+  LOGOS_CONTAINER_NAME
+} from "../utils/logo";
+
+type IDeleteOrganizationLogoHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  organizationFiscalCode: OrganizationFiscalCode
+) => Promise<
+  | IResponse<"IResponseSuccessNoContent">
+  | IResponseErrorValidation
+  | IResponseErrorNotFound
+  | IResponseErrorInternal
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function DeleteOrganizationLogoHandler(
+  blobService: BlobService
+): IDeleteOrganizationLogoHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, organizationFiscalCode) =>
+    pipe(
+      deleteLogoBlobs(
+        blobService,
+        LOGOS_CONTAINER_NAME,
+        getOrganizationLogoBaseName(organizationFiscalCode)
+      ),
+      TE.mapLeft(err =>
+        ResponseErrorInternal(
+          `Error trying to connect to storage ${err.message}`
+        )
+      ),
+      TE.chainW(
+        TE.fromPredicate(
+          isLogoDeleted => isLogoDeleted,
+          () =>
+            ResponseErrorNotFound(
+              "Logo not found",
+              "Could not find a logo for the provided organization fiscal code"
+            )
+        )
+      ),
+      TE.map(ResponseSuccessNoContent),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a DeleteOrganizationLogo handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function DeleteOrganizationLogo(
+  blobService: BlobService
+): express.RequestHandler {
+  const handler = DeleteOrganizationLogoHandler(blobService);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceWrite group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceWrite])),
+    // Extract organization Fiscal code from path
+    RequiredParamMiddleware("organizationfiscalcode", OrganizationFiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
@@ -0,0 +1,227 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { RestError } from "@azure/ms-rest-js";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+
+import { aFiscalCode, aRetrievedService } from "../../__mocks__/mocks";
+import * as ApimUtils from "../../utils/apim";
+import { IAzureApimConfig, IServicePrincipalCreds } from "../../utils/apim";
+import { DeleteServiceHandler } from "../handler";
+
+jest.mock("@azure/arm-apimanagement");
+jest.mock("@azure/graph");
+
+const fakeServicePrincipalCredentials: IServicePrincipalCreds = {
+  clientId: "client-id",
+  secret: "secret",
+  tenantId: "tenant-id"
+};
+
+const fakeApimConfig: IAzureApimConfig = {
+  apim: "apim",
+  apimResourceGroup: "resource group",
+  subscriptionId: "subscription id"
+};
+
+const aVisibleService = {
+  ...aRetrievedService,
+  isVisible: true
+};
+
+const mockSubscriptionGet = jest.fn(() => Promise.resolve({ state: "active" }));
+const mockSubscriptionUpdate = jest.fn(() => Promise.resolve({}));
+
+const mockApiManagementClient = {
+  subscription: {
+    get: mockSubscriptionGet,
+    update: mockSubscriptionUpdate
+  }
+} as any;
+
+const spyOnGetApiClient = jest.spyOn(ApimUtils, "getApiClient");
+spyOnGetApiClient.mockImplementation(() => TE.of(mockApiManagementClient));
+
+const getServiceModelMock = (service = aVisibleService): any => ({
+  findOneByServiceId: jest.fn(() => TE.right(O.some(service))),
+  update: jest.fn((s: any) =>
+    TE.right({ ...s, version: (s.version + 1) as NonNegativeInteger })
+  )
+});
+
+const getHandler = (serviceModel: any) =>
+  DeleteServiceHandler(
+    serviceModel,
+    fakeServicePrincipalCredentials,
+    fakeApimConfig
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("DeleteServiceHandler", () => {
+  it("should store a hidden version of the service with no authorized recipients", async () => {
+    const serviceModelMock = getServiceModelMock();
+
+    const response = await getHandler(serviceModelMock)(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.none
+    );
+
+    expect(serviceModelMock.update).toHaveBeenCalledWith({
+      ...aVisibleService,
+      authorizedRecipients: new Set(),
+      isVisible: false
+    });
+    expect(spyOnGetApiClient).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        service: expect.objectContaining({
+          authorized_recipients: [],
+          is_visible: false,
+          version: aRetrievedService.version + 1
+        })
+      });
+    }
+  });
+
+  it("should not store a new version of a service already deactivated", async () => {
+    const serviceModelMock = getServiceModelMock({
+      ...aRetrievedService,
+      authorizedRecipients: new Set(),
+      isVisible: false
+    });
+
+    const response = await getHandler(serviceModelMock)(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.none
+    );
+
+    expect(serviceModelMock.update).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+  });
+
+  it("should deactivate a hidden service that still has authorized recipients", async () => {
+    const serviceModelMock = getServiceModelMock({
+      ...aRetrievedService,
+      authorizedRecipients: new Set([aFiscalCode]),
+      isVisible: false
+    });
+
+    const response = await getHandler(serviceModelMock)(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.none
+    );
+
+    expect(serviceModelMock.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        authorizedRecipients: new Set(),
+        isVisible: false
+      })
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+  });
+
+  it("should cancel the APIM subscription when requested", async () => {
+    const serviceModelMock = getServiceModelMock();
+
+    const response = await getHandler(serviceModelMock)(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.some(true)
+    );
+
+    expect(mockSubscriptionUpdate).toHaveBeenCalledWith(
+      fakeApimConfig.apimResourceGroup,
+      fakeApimConfig.apim,
+      aRetrievedService.serviceId,
+      { state: "cancelled" },
+      "*"
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toMatchObject({
+        subscription_state: "cancelled"
+      });
+    }
+  });
+
+  it("should not update an APIM subscription already cancelled", async () => {
+    mockSubscriptionGet.mockImplementationOnce(() =>
+      Promise.resolve({ state: "cancelled" })
+    );
+
+    const response = await getHandler(getServiceModelMock())(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.some(true)
+    );
+
+    expect(mockSubscriptionUpdate).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+  });
+
+  it("should return not found if the APIM subscription does not exist", async () => {
+    mockSubscriptionGet.mockImplementationOnce(() =>
+      Promise.reject(new RestError("not found", "", 404))
+    );
+
+    const response = await getHandler(getServiceModelMock())(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.some(true)
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return not found if the service does not exist", async () => {
+    const serviceModelMock = {
+      ...getServiceModelMock(),
+      findOneByServiceId: jest.fn(() => TE.right(O.none))
+    };
+
+    const response = await getHandler(serviceModelMock)(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.none
+    );
+
+    expect(serviceModelMock.update).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return a query error if the service cannot be updated", async () => {
+    const serviceModelMock = {
+      ...getServiceModelMock(),
+      update: jest.fn(() =>
+        TE.left(toCosmosErrorResponse({ kind: "COSMOS_ERROR_RESPONSE" }))
+      )
+    };
+
+    const response = await getHandler(serviceModelMock)(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aRetrievedService.serviceId,
+      O.some(true)
+    );
+
+    expect(mockSubscriptionUpdate).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseErrorQuery");
+  });
+});
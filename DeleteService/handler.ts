@@ -0,0 +1,229 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { identity, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { BooleanFromString } from "@pagopa/ts-commons/lib/booleans";
+
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import {
+  RetrievedService,
+  ServiceModel
+} from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { OptionalQueryParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/optional_query_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorQuery,
+  ResponseErrorQuery
+} from "@pagopa/io-functions-commons/dist/src/utils/response";
+
+import { ServiceDeactivation } from "../generated/definitions/ServiceDeactivation";
+import {
+  SubscriptionState,
+  SubscriptionStateEnum
+} from "../generated/definitions/SubscriptionState";
+import {
+  getApiClient,
+  getSubscription,
+  IAzureApimConfig,
+  IServicePrincipalCreds,
+  mapApimRestError,
+  updateSubscriptionState
+} from "../utils/apim";
+import { retrievedServiceToApiService } from "../utils/conversions";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+
+type IDeleteServiceHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId,
+  maybeRevokeSubscription: O.Option<boolean>
+) => Promise<
+  | IResponseSuccessJson<ServiceDeactivation>
+  | IResponseErrorValidation
+  | IResponseErrorQuery
+  | IResponseErrorNotFound
+  | IResponseErrorInternal
+>;
+
+/**
+ * A deactivated service is hidden and has no authorized recipients,
+ * so that it can no longer send messages to anyone in sandbox mode.
+ */
+const isDeactivated = (service: RetrievedService): boolean =>
+  service.isVisible === false && service.authorizedRecipients.size === 0;
+
+/**
+ * Stores a new version of the service that is deactivated,
+ * unless the latest version is already deactivated.
+ */
+const deactivateService = (
+  serviceModel: ServiceModel,
+  serviceId: ServiceId
+): TE.TaskEither<
+  IResponseErrorQuery | IResponseErrorNotFound,
+  RetrievedService
+> =>
+  pipe(
+    serviceModel.findOneByServiceId(serviceId),
+    TE.mapLeft(error =>
+      ResponseErrorQuery("Error trying to retrieve existing service", error)
+    ),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound(
+          "Error",
+          "Could not find a service with the provided serviceId"
+        )
+      )
+    ),
+    TE.chainW(existingService =>
+      isDeactivated(existingService)
+        ? TE.of(existingService)
+        : pipe(
+            serviceModel.update({
+              ...existingService,
+              authorizedRecipients: new Set(),
+              isVisible: false
+            }),
+            TE.mapLeft(error =>
+              ResponseErrorQuery("Error while deactivating the service", error)
+            )
+          )
+    )
+  );
+
+/**
+ * Cancels the APIM subscription of the service,
+ * unless it has already been cancelled.
+ */
+const revokeSubscription = (
+  servicePrincipalCreds: IServicePrincipalCreds,
+  azureApimConfig: IAzureApimConfig,
+  serviceId: ServiceId
+): TE.TaskEither<
+  IResponseErrorInternal | IResponseErrorNotFound,
+  SubscriptionState
+> =>
+  pipe(
+    getApiClient(servicePrincipalCreds, azureApimConfig.subscriptionId),
+    TE.mapLeft(e =>
+      ResponseErrorInternal(`Error while connecting to APIM ${e.message}`)
+    ),
+    TE.chain(apimClient =>
+      pipe(
+        getSubscription(
+          apimClient,
+          azureApimConfig.apimResourceGroup,
+          azureApimConfig.apim,
+          serviceId
+        ),
+        TE.chain(subscription =>
+          subscription.state === SubscriptionStateEnum.cancelled
+            ? TE.of(undefined)
+            : updateSubscriptionState(
+                apimClient,
+                azureApimConfig.apimResourceGroup,
+                azureApimConfig.apim,
+                serviceId,
+                SubscriptionStateEnum.cancelled
+              )
+        ),
+        TE.mapLeft(mapApimRestError("Subscription")),
+        TE.map(() => SubscriptionStateEnum.cancelled)
+      )
+    )
+  );
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function DeleteServiceHandler(
+  serviceModel: ServiceModel,
+  servicePrincipalCreds: IServicePrincipalCreds,
+  azureApimConfig: IAzureApimConfig
+): IDeleteServiceHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId, maybeRevokeSubscription) =>
+    pipe(
+      deactivateService(serviceModel, serviceId),
+      TE.map(retrievedServiceToApiService),
+      TE.chainW(service =>
+        pipe(
+          maybeRevokeSubscription,
+          O.filter(identity),
+          O.fold<
+            boolean,
+            TE.TaskEither<
+              IResponseErrorInternal | IResponseErrorNotFound,
+              ServiceDeactivation
+            >
+          >(
+            () => TE.of({ service }),
+            () =>
+              pipe(
+                revokeSubscription(
+                  servicePrincipalCreds,
+                  azureApimConfig,
+                  serviceId
+                ),
+                TE.map(subscriptionState => ({
+                  service,
+                  subscription_state: subscriptionState
+                }))
+              )
+          )
+        )
+      ),
+      TE.map(ResponseSuccessJson),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a DeleteService handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function DeleteService(
+  serviceModel: ServiceModel,
+  servicePrincipalCreds: IServicePrincipalCreds,
+  azureApimConfig: IAzureApimConfig
+): express.RequestHandler {
+  const handler = DeleteServiceHandler(
+    serviceModel,
+    servicePrincipalCreds,
+    azureApimConfig
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceWrite group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceWrite])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware,
+    // Extracts the optional flag to revoke the APIM subscription
+    OptionalQueryParamMiddleware("revoke_subscription", BooleanFromString)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
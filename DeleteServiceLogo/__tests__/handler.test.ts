@@ -0,0 +1,104 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import { BlobService } from "azure-storage";
+import { DeleteServiceLogoHandler } from "../handler";
+
+const aServiceId = "AServiceId" as ServiceId;
+
+const getBlobServiceMock = (
+  error: unknown,
+  blobNames: ReadonlyArray<string>
+): BlobService =>
+  ({
+    deleteBlobIfExists: jest.fn((_, __, cb) => cb(error, error === null)),
+    listBlobsSegmentedWithPrefix: jest.fn((_, __, ___, cb) =>
+      cb(null, { entries: blobNames.map(name => ({ name })) })
+    )
+  } as any);
+
+describe("DeleteServiceLogoHandler", () => {
+  it("should delete the logo along with its resized copies", async () => {
+    const blobServiceMock = getBlobServiceMock(null, [
+      "aserviceid.png",
+      "aserviceid_60.png",
+      "aserviceid_120.png",
+      // resized to a width no longer configured
+      "aserviceid_240.png",
+      // the logo of another service
+      "aserviceid2.png"
+    ]);
+    const handler = DeleteServiceLogoHandler(blobServiceMock);
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseSuccessNoContent");
+    expect(blobServiceMock.listBlobsSegmentedWithPrefix).toHaveBeenCalledWith(
+      "services",
+      "aserviceid",
+      undefined,
+      expect.any(Function)
+    );
+    expect(blobServiceMock.deleteBlobIfExists).toHaveBeenCalledTimes(4);
+    [
+      "aserviceid.png",
+      "aserviceid_60.png",
+      "aserviceid_120.png",
+      "aserviceid_240.png"
+    ].forEach(blobName =>
+      expect(blobServiceMock.deleteBlobIfExists).toHaveBeenCalledWith(
+        "services",
+        blobName,
+        expect.any(Function)
+      )
+    );
+  });
+
+  it("should return a not found error if the logo does not exist", async () => {
+    const blobServiceMock = getBlobServiceMock(null, ["aserviceid2.png"]);
+    const handler = DeleteServiceLogoHandler(blobServiceMock);
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+    expect(blobServiceMock.deleteBlobIfExists).not.toHaveBeenCalled();
+  });
+
+  it("should return an internal error if the logo cannot be deleted", async () => {
+    const handler = DeleteServiceLogoHandler(
+      getBlobServiceMock(new Error("Connection error"), ["aserviceid.png"])
+    );
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should return an internal error if the logos cannot be listed", async () => {
+    const handler = DeleteServiceLogoHandler(({
+      deleteBlobIfExists: jest.fn(),
+      listBlobsSegmentedWithPrefix: jest.fn((_, __, ___, cb) =>
+        cb(new Error("Connection error"))
+      )
+    } as any) as BlobService);
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,101 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import {
+  IResponse,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessNoContent
+} from "@pagopa/ts-commons/lib/responses";
+
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+
+import { BlobService } from "azure-storage";
+
+import {
+  deleteLogoBlobs,
+  getServiceLogoBaseName,
+  LOGOS_CONTAINER_NAME
+} from "../utils/logo";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+
+type IDeleteServiceLogoHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId
+) => Promise<
+  | IResponse<"IResponseSuccessNoContent">
+  | IResponseErrorValidation
+  | IResponseErrorNotFound
+  | IResponseErrorInternal
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function DeleteServiceLogoHandler(
+  blobService: BlobService
+): IDeleteServiceLogoHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId) =>
+    pipe(
+      deleteLogoBlobs(
+        blobService,
+        LOGOS_CONTAINER_NAME,
+        getServiceLogoBaseName(serviceId)
+      ),
+      TE.mapLeft(err =>
+        ResponseErrorInternal(
+          `Error trying to connect to storage ${err.message}`
+        )
+      ),
+      TE.chainW(
+        TE.fromPredicate(
+          isLogoDeleted => isLogoDeleted,
+          () =>
+            ResponseErrorNotFound(
+              "Logo not found",
+              "Could not find a logo for the provided serviceId"
+            )
+        )
+      ),
+      TE.map(ResponseSuccessNoContent),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a DeleteServiceLogo handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function DeleteServiceLogo(
+  blobService: BlobService
+): express.RequestHandler {
+  const handler = DeleteServiceLogoHandler(blobService);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceWrite group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceWrite])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
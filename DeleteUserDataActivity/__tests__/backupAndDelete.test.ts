@@ -27,6 +27,8 @@ import {
 } from "../../__mocks__/mocks";
 import { backupAndDeleteAllUserData } from "../backupAndDelete";
 import { IBlobServiceInfo } from "../types";
+import { generateCipherKey } from "../../utils/crypto";
+import { decryptBackupDocument } from "../../utils/userDataBackup";
 
 const asyncIteratorOf = <T>(items: T[]): AsyncIterator<T[]> => {
   const data = [...items];
@@ -139,6 +141,7 @@ const profileModel = ({
 } as unknown) as ProfileDeletableModel;
 
 // backup BlobService
+const aDataKey = generateCipherKey();
 const mockCreateBlockBlobFromText = jest.fn((_, __, ___, cb) =>
   cb(null, "any")
 );
@@ -147,6 +150,7 @@ const userDataBackup = {
     createBlockBlobFromText: mockCreateBlockBlobFromText
   } as unknown) as BlobService,
   containerName: "container",
+  dataKey: aDataKey,
   folder: "folder"
 } as IBlobServiceInfo;
 
@@ -176,6 +180,32 @@ describe(`backupAndDeleteAllUserData`, () => {
     expect(mockDeleteMessageStatusVersion).toHaveBeenCalled();
   });
 
+  it("should save every document encrypted with the key of the backup", async () => {
+    const result = await backupAndDeleteAllUserData({
+      messageContentBlobService,
+      messageModel,
+      messageStatusModel,
+      messageViewModel,
+      notificationModel,
+      notificationStatusModel,
+      profileModel,
+      servicePreferencesModel,
+      userDataBackup,
+      fiscalCode: aFiscalCode
+    })();
+
+    expect(E.isRight(result)).toBe(true);
+    const profileBackup = mockCreateBlockBlobFromText.mock.calls.find(
+      ([_, blobName]) =>
+        blobName === `folder/profile/${aRetrievedProfile.id}.json`
+    );
+    expect(profileBackup).toBeDefined();
+    expect(profileBackup[2]).not.toContain(aFiscalCode);
+    expect(decryptBackupDocument(some(aDataKey))(profileBackup[2])).toEqual(
+      E.right(JSON.stringify(aRetrievedProfile))
+    );
+  });
+
   it("should not stop if a content is not found for a message", async () => {
     mockGetContentFromBlob.mockImplementationOnce(() => TE.of(none));
     const result = await backupAndDeleteAllUserData({
@@ -18,11 +18,13 @@ import { NotificationStatusDeletableModel } from "../utils/extensions/models/not
 import { ProfileDeletableModel } from "../utils/extensions/models/profile";
 import { ServicePreferencesDeletableModel } from "../utils/extensions/models/service_preferences";
 import { MessageViewDeletableModel } from "../utils/extensions/models/message_view";
+import { getOrCreateUserDataBackupKey } from "../utils/userDataBackup";
 import { backupAndDeleteAllUserData } from "./backupAndDelete";
 import {
   ActivityInput,
   ActivityResult,
   ActivityResultSuccess,
+  BlobCreationFailure,
   InvalidInputFailure
 } from "./types";
 import { logFailure } from "./utils";
@@ -40,6 +42,8 @@ export interface IActivityHandlerInput {
   readonly messageContentBlobService: BlobService;
   readonly userDataBackupBlobService: BlobService;
   readonly userDataBackupContainerName: NonEmptyString;
+  readonly userDataBackupKeyContainerName: NonEmptyString;
+  readonly userDataBackupMasterKey: Buffer;
 }
 
 /**
@@ -56,7 +60,9 @@ export function createDeleteUserDataActivityHandler({
   profileModel,
   servicePreferencesModel,
   userDataBackupBlobService,
-  userDataBackupContainerName
+  userDataBackupContainerName,
+  userDataBackupKeyContainerName,
+  userDataBackupMasterKey
 }: IActivityHandlerInput): (
   context: Context,
   input: unknown
@@ -75,8 +81,29 @@ export function createDeleteUserDataActivityHandler({
         })
       ),
 
-      // then perform backup&delete on all user data
+      // then get the key of the user to encrypt the backup with
       TE.chainW(({ fiscalCode, backupFolder }) =>
+        pipe(
+          getOrCreateUserDataBackupKey(
+            userDataBackupBlobService,
+            userDataBackupKeyContainerName,
+            userDataBackupMasterKey,
+            fiscalCode
+          ),
+          TE.mapLeft(err => {
+            const failure = BlobCreationFailure.encode({
+              kind: "BLOB_FAILURE",
+              reason: `Cannot get the backup key: ${err.message}`
+            });
+            logFailure(context, logPrefix)(failure);
+            return failure;
+          }),
+          TE.map(dataKey => ({ backupFolder, dataKey, fiscalCode }))
+        )
+      ),
+
+      // then perform backup&delete on all user data
+      TE.chainW(({ fiscalCode, backupFolder, dataKey }) =>
         pipe(
           backupAndDeleteAllUserData({
             fiscalCode,
@@ -91,6 +118,7 @@ export function createDeleteUserDataActivityHandler({
             userDataBackup: {
               blobService: userDataBackupBlobService,
               containerName: userDataBackupContainerName,
+              dataKey,
               folder: backupFolder
             }
           }),
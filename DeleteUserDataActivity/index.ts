@@ -89,7 +89,9 @@ const activityFunctionHandler = createDeleteUserDataActivityHandler({
   profileModel,
   servicePreferencesModel,
   userDataBackupBlobService,
-  userDataBackupContainerName
+  userDataBackupContainerName,
+  userDataBackupKeyContainerName: config.USER_DATA_BACKUP_KEY_CONTAINER_NAME,
+  userDataBackupMasterKey: config.USER_DATA_BACKUP_MASTER_KEY
 });
 
 export default activityFunctionHandler;
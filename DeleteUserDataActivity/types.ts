@@ -77,5 +77,7 @@ export type DataFailure =
 export interface IBlobServiceInfo {
   readonly blobService: BlobService;
   readonly containerName: string;
+  // the data key of the backup, files are saved in plain text when missing
+  readonly dataKey?: Buffer;
   readonly folder?: NonEmptyString;
 }
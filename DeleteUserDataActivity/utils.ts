@@ -3,6 +3,7 @@ import { BlobService } from "azure-storage";
 import * as TE from "fp-ts/lib/TaskEither";
 import { CosmosErrors } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import { pipe } from "fp-ts/lib/function";
+import { encryptBackupDocument } from "../utils/userDataBackup";
 import {
   ActivityResultFailure,
   BlobCreationFailure,
@@ -91,14 +92,14 @@ export const logFailure = (context: Context, logPrefix: string) => (
 /**
  * Saves data into a dedicated blob
  *
- * @param blobServiceInfo references about where to save data
+ * @param blobServiceInfo references about where to save data and the key to encrypt it with
  * @param blobName name of the blob to be saved. It might not include a folder if specified in blobServiceInfo
  * @param data serializable data to be saved
  *
  * @returns either a blob failure or the saved object
  */
 export const saveDataToBlob = <T>(
-  { blobService, containerName, folder }: IBlobServiceInfo,
+  { blobService, containerName, dataKey, folder }: IBlobServiceInfo,
   blobName: string,
   data: T
 ): TE.TaskEither<BlobCreationFailure, T> =>
@@ -107,7 +108,9 @@ export const saveDataToBlob = <T>(
       blobService.createBlockBlobFromText(
         containerName,
         `${folder}${folder ? "/" : ""}${blobName}`,
-        JSON.stringify(data),
+        dataKey === undefined
+          ? JSON.stringify(data)
+          : encryptBackupDocument(dataKey)(JSON.stringify(data)),
         cb
       )
     )(),
@@ -0,0 +1,135 @@
+import { UserDataProcessingStatusEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingStatus";
+import { UserDataProcessingModel } from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
+import { OrchestrationRuntimeStatus } from "durable-functions/lib/src/classes";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockRaiseEvent
+} from "../../__mocks__/durable-functions";
+import { aFiscalCode, aUserDataProcessing } from "../../__mocks__/mocks";
+import { EXPEDITE_EVENT } from "../../UserDataDeleteOrchestratorV2/utils";
+import { IAzureGdprAuthorization } from "../../utils/middlewares/gdprAuth";
+import { expediteUserDataDeleteHandler } from "../handler";
+
+const anAuthorization = {
+  kind: "IAzureGdprAuthorization",
+  subscriptionId: "a-subscription-id",
+  userId: "an-admin"
+} as IAzureGdprAuthorization;
+
+const aWaitingOrchestrationStatus = {
+  customStatus: {
+    step: "WAITING_FOR_ABORT",
+    updatedAt: "2021-10-01T10:00:00.000Z",
+    wakeUpAt: "2021-10-08T10:00:00.000Z"
+  },
+  instanceId: `${aFiscalCode}-USER-DATA-DELETE`,
+  runtimeStatus: OrchestrationRuntimeStatus.Running
+};
+
+const aPendingUserDataDelete = {
+  ...aUserDataProcessing,
+  status: UserDataProcessingStatusEnum.PENDING
+};
+
+const mockUserDataProcessingModel = ({
+  createOrUpdateByNewOne: jest.fn(userDataProcessing =>
+    TE.of(userDataProcessing)
+  ),
+  findLastVersionByModelId: jest.fn(() => TE.of(O.some(aPendingUserDataDelete)))
+} as unknown) as UserDataProcessingModel;
+
+describe("expediteUserDataDeleteHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should raise the expedite event along with the admin who requested it", async () => {
+    mockGetStatus.mockImplementationOnce(
+      async () => aWaitingOrchestrationStatus
+    );
+
+    const result = await expediteUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessAccepted");
+    expect(mockGetStatus).toHaveBeenCalledWith(
+      `${aFiscalCode}-USER-DATA-DELETE`
+    );
+    expect(mockRaiseEvent).toHaveBeenCalledWith(
+      `${aFiscalCode}-USER-DATA-DELETE`,
+      EXPEDITE_EVENT,
+      {
+        requestedBy: "an-admin"
+      }
+    );
+  });
+
+  it("should save a version of the deletion request noting the admin who expedited it", async () => {
+    mockGetStatus.mockImplementationOnce(
+      async () => aWaitingOrchestrationStatus
+    );
+
+    await expediteUserDataDeleteHandler(mockUserDataProcessingModel)(
+      context,
+      anAuthorization,
+      aFiscalCode
+    );
+
+    expect(
+      mockUserDataProcessingModel.createOrUpdateByNewOne
+    ).toHaveBeenCalledWith({
+      ...aPendingUserDataDelete,
+      reason: "Abort window ended early by an-admin",
+      updatedAt: expect.any(Date)
+    });
+  });
+
+  it("should return a conflict if the orchestration is not waiting for the abort window to end", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      ...aWaitingOrchestrationStatus,
+      customStatus: {
+        step: "DELETING_DATA",
+        updatedAt: "2021-10-01T10:00:00.000Z"
+      }
+    }));
+
+    const result = await expediteUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorConflict");
+    expect(mockRaiseEvent).not.toHaveBeenCalled();
+    expect(
+      mockUserDataProcessingModel.createOrUpdateByNewOne
+    ).not.toHaveBeenCalled();
+  });
+
+  it("should return a conflict if the orchestration is not running", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      ...aWaitingOrchestrationStatus,
+      runtimeStatus: OrchestrationRuntimeStatus.Completed
+    }));
+
+    const result = await expediteUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorConflict");
+    expect(mockRaiseEvent).not.toHaveBeenCalled();
+  });
+
+  it("should return not found if no deletion has been started", async () => {
+    mockGetStatus.mockImplementationOnce(async () => undefined);
+
+    const result = await expediteUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorNotFound");
+    expect(mockRaiseEvent).not.toHaveBeenCalled();
+  });
+});
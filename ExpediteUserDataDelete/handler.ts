@@ -0,0 +1,91 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import * as df from "durable-functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { UserDataProcessingModel } from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
+import * as E from "fp-ts/lib/Either";
+import * as TE from "fp-ts/lib/TaskEither";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import {
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessAccepted,
+  ResponseSuccessAccepted
+} from "@pagopa/ts-commons/lib/responses";
+import { pipe } from "fp-ts/lib/function";
+import {
+  EXPEDITE_EVENT,
+  ExpediteEventPayload
+} from "../UserDataDeleteOrchestratorV2/utils";
+import { trackUserDataDeleteEvent } from "../utils/appinsightsEvents";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  raiseAbortWindowEvent,
+  recordAbortWindowChange
+} from "../utils/userDataDeleteAbortWindow";
+
+type Response =
+  | IResponseSuccessAccepted
+  | IResponseErrorConflict
+  | IResponseErrorInternal
+  | IResponseErrorNotFound;
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  param1: FiscalCode
+) => Promise<Response>;
+
+/**
+ * Ends the abort window of a pending deletion in advance,
+ * so that user data are deleted immediately
+ */
+export const expediteUserDataDeleteHandler = (
+  userDataProcessingModel: UserDataProcessingModel
+): IHttpHandler => async (context, auth, fiscalCode): Promise<Response> =>
+  pipe(
+    raiseAbortWindowEvent(
+      df.getClient(context),
+      fiscalCode,
+      EXPEDITE_EVENT,
+      () => E.right(ExpediteEventPayload.encode({ requestedBy: auth.userId }))
+    ),
+    TE.chainW(() =>
+      recordAbortWindowChange(
+        userDataProcessingModel,
+        fiscalCode,
+        `Abort window ended early by ${auth.userId}` as NonEmptyString
+      )
+    ),
+    TE.map(userDataProcessing => {
+      trackUserDataDeleteEvent("expedite_requested", userDataProcessing, {
+        requestedBy: auth.userId
+      });
+      return ResponseSuccessAccepted<undefined>();
+    }),
+    TE.toUnion
+  )();
+
+export const expediteUserDataDelete = (
+  userDataProcessingModel: UserDataProcessingModel
+): express.RequestHandler => {
+  const handler = expediteUserDataDeleteHandler(userDataProcessingModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("fiscalCode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,103 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as O from "fp-ts/lib/Option";
+import { right } from "fp-ts/lib/Either";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { aRetrievedService } from "../../__mocks__/mocks";
+import { parseServices } from "../../utils/servicesTransfer";
+import { ExportServicesHandler } from "../handler";
+
+const anotherRetrievedService = {
+  ...aRetrievedService,
+  departmentName: 'Dept, with "quotes"' as NonEmptyString,
+  id: "AnotherServiceId-0000000000000002" as NonEmptyString,
+  serviceId: "AnotherServiceId" as NonEmptyString,
+  serviceMetadata: { description: "multi\nline", scope: "LOCAL" } as any,
+  version: 2 as NonNegativeInteger
+};
+
+const getServiceModelMock = (): any => ({
+  getCollectionIterator: jest.fn(() => ({
+    async *[Symbol.asyncIterator]() {
+      yield [
+        right(anotherRetrievedService),
+        right(aRetrievedService),
+        right({ ...anotherRetrievedService, version: 1 })
+      ];
+    }
+  }))
+});
+
+describe("ExportServicesHandler", () => {
+  it("should export the latest version of each service as NDJSON by default", async () => {
+    const handler = ExportServicesHandler(getServiceModelMock());
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      O.none
+    );
+
+    expect(response.kind).toBe("IResponseSuccessText");
+    if (response.kind === "IResponseSuccessText") {
+      expect(response.contentType).toBe("application/x-ndjson");
+      const lines = response.value.trim().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0])).toMatchObject({
+        service_id: "AnotherServiceId",
+        version: 2
+      });
+      expect(JSON.parse(lines[1])).toMatchObject({
+        service_id: aRetrievedService.serviceId
+      });
+    }
+  });
+
+  it("should export services as CSV that can be parsed back", async () => {
+    const handler = ExportServicesHandler(getServiceModelMock());
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      O.some("csv")
+    );
+
+    expect(response.kind).toBe("IResponseSuccessText");
+    if (response.kind === "IResponseSuccessText") {
+      expect(response.contentType).toBe("text/csv");
+      expect(parseServices("csv", response.value)).toEqual(
+        right([
+          expect.objectContaining({
+            department_name: 'Dept, with "quotes"',
+            max_allowed_payment_amount: 1,
+            service_id: "AnotherServiceId",
+            service_metadata: { description: "multi\nline", scope: "LOCAL" }
+          }),
+          expect.objectContaining({
+            authorized_recipients: [],
+            is_visible: false,
+            service_id: aRetrievedService.serviceId
+          })
+        ])
+      );
+    }
+  });
+
+  it("should return a query error when services cannot be read", async () => {
+    const handler = ExportServicesHandler({
+      getCollectionIterator: jest.fn(() => ({
+        async *[Symbol.asyncIterator]() {
+          throw new Error("Query Error");
+        }
+      }))
+    } as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      O.none
+    );
+
+    expect(response.kind).toBe("IResponseErrorQuery");
+  });
+});
@@ -0,0 +1,83 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { ServiceModel } from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { OptionalQueryParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/optional_query_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { IResponseErrorQuery } from "@pagopa/io-functions-commons/dist/src/utils/response";
+
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { retrievedServiceToApiService } from "../utils/conversions";
+import { IResponseSuccessText, ResponseSuccessText } from "../utils/responses";
+import { getLatestServices } from "../utils/serviceVersions";
+import {
+  DEFAULT_SERVICES_TRANSFER_FORMAT,
+  SERVICES_TRANSFER_CONTENT_TYPES,
+  serializeServices,
+  ServicesTransferFormat
+} from "../utils/servicesTransfer";
+
+type IExportServicesHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  maybeFormat: O.Option<ServicesTransferFormat>
+) => Promise<IResponseSuccessText | IResponseErrorQuery>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function ExportServicesHandler(
+  serviceModel: ServiceModel
+): IExportServicesHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, maybeFormat) => {
+    const format = pipe(
+      maybeFormat,
+      O.getOrElse(() => DEFAULT_SERVICES_TRANSFER_FORMAT)
+    );
+    return pipe(
+      getLatestServices(serviceModel),
+      TE.map(RA.map(retrievedServiceToApiService)),
+      TE.map(services =>
+        ResponseSuccessText(
+          SERVICES_TRANSFER_CONTENT_TYPES[format],
+          serializeServices(format, services)
+        )
+      ),
+      TE.toUnion
+    )();
+  };
+}
+
+/**
+ * Wraps an ExportServices handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function ExportServices(
+  serviceModel: ServiceModel
+): express.RequestHandler {
+  const handler = ExportServicesHandler(serviceModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceRead group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceRead])),
+    // Extract the optional format of the export
+    OptionalQueryParamMiddleware("format", ServicesTransferFormat)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
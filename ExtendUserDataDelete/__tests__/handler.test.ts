@@ -0,0 +1,111 @@
+import { UserDataProcessingStatusEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingStatus";
+import { UserDataProcessingModel } from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
+import { OrchestrationRuntimeStatus } from "durable-functions/lib/src/classes";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  context,
+  mockGetStatus,
+  mockRaiseEvent
+} from "../../__mocks__/durable-functions";
+import { aFiscalCode, aUserDataProcessing } from "../../__mocks__/mocks";
+import { EXTEND_EVENT } from "../../UserDataDeleteOrchestratorV2/utils";
+import { IAzureGdprAuthorization } from "../../utils/middlewares/gdprAuth";
+import { extendUserDataDeleteHandler } from "../handler";
+
+const anAuthorization = {
+  kind: "IAzureGdprAuthorization",
+  subscriptionId: "a-subscription-id",
+  userId: "an-admin"
+} as IAzureGdprAuthorization;
+
+const aWaitingOrchestrationStatus = {
+  customStatus: {
+    step: "WAITING_FOR_ABORT",
+    updatedAt: "2021-10-01T10:00:00.000Z",
+    wakeUpAt: "2021-10-08T10:00:00.000Z"
+  },
+  instanceId: `${aFiscalCode}-USER-DATA-DELETE`,
+  runtimeStatus: OrchestrationRuntimeStatus.Running
+};
+
+const aPendingUserDataDelete = {
+  ...aUserDataProcessing,
+  status: UserDataProcessingStatusEnum.PENDING
+};
+
+const mockUserDataProcessingModel = ({
+  createOrUpdateByNewOne: jest.fn(userDataProcessing =>
+    TE.of(userDataProcessing)
+  ),
+  findLastVersionByModelId: jest.fn(() => TE.of(O.some(aPendingUserDataDelete)))
+} as unknown) as UserDataProcessingModel;
+
+describe("extendUserDataDeleteHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should raise the extend event with the new deadline and the admin who requested it", async () => {
+    const aDeadline = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    mockGetStatus.mockImplementationOnce(
+      async () => aWaitingOrchestrationStatus
+    );
+
+    const result = await extendUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode, { until: aDeadline });
+
+    expect(result.kind).toBe("IResponseSuccessAccepted");
+    expect(mockRaiseEvent).toHaveBeenCalledWith(
+      `${aFiscalCode}-USER-DATA-DELETE`,
+      EXTEND_EVENT,
+      {
+        requestedBy: "an-admin",
+        until: aDeadline.toISOString()
+      }
+    );
+    expect(
+      mockUserDataProcessingModel.createOrUpdateByNewOne
+    ).toHaveBeenCalledWith({
+      ...aPendingUserDataDelete,
+      reason: `Abort window extended until ${aDeadline.toISOString()} by an-admin`,
+      updatedAt: expect.any(Date)
+    });
+  });
+
+  it("should return a validation error if the deadline is earlier than the current end of the abort window", async () => {
+    const aWakeUpAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    mockGetStatus.mockImplementationOnce(async () => ({
+      ...aWaitingOrchestrationStatus,
+      customStatus: {
+        ...aWaitingOrchestrationStatus.customStatus,
+        wakeUpAt: aWakeUpAt.toISOString()
+      }
+    }));
+
+    const result = await extendUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode, {
+      until: new Date(aWakeUpAt.getTime() - 24 * 60 * 60 * 1000)
+    });
+
+    expect(result.kind).toBe("IResponseErrorValidation");
+    expect(mockRaiseEvent).not.toHaveBeenCalled();
+    expect(
+      mockUserDataProcessingModel.createOrUpdateByNewOne
+    ).not.toHaveBeenCalled();
+  });
+
+  it("should return a validation error if the deadline is in the past", async () => {
+    const result = await extendUserDataDeleteHandler(
+      mockUserDataProcessingModel
+    )(context, anAuthorization, aFiscalCode, {
+      until: new Date("2020-01-01T00:00:00.000Z")
+    });
+
+    expect(result.kind).toBe("IResponseErrorValidation");
+    expect(mockGetStatus).not.toHaveBeenCalled();
+    expect(mockRaiseEvent).not.toHaveBeenCalled();
+  });
+});
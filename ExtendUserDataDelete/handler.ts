@@ -0,0 +1,143 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import * as df from "durable-functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredBodyPayloadMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_body_payload";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { UserDataProcessingModel } from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
+import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
+import {
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  IResponseSuccessAccepted,
+  ResponseErrorValidation,
+  ResponseSuccessAccepted
+} from "@pagopa/ts-commons/lib/responses";
+import { pipe } from "fp-ts/lib/function";
+import {
+  EXTEND_EVENT,
+  ExtendEventPayload
+} from "../UserDataDeleteOrchestratorV2/utils";
+import { trackUserDataDeleteEvent } from "../utils/appinsightsEvents";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  raiseAbortWindowEvent,
+  recordAbortWindowChange
+} from "../utils/userDataDeleteAbortWindow";
+
+// the request body, with the new end of the abort window
+export type ExtendUserDataDeletePayload = t.TypeOf<
+  typeof ExtendUserDataDeletePayload
+>;
+export const ExtendUserDataDeletePayload = t.interface({
+  until: UTCISODateFromString
+});
+
+type Response =
+  | IResponseSuccessAccepted
+  | IResponseErrorConflict
+  | IResponseErrorInternal
+  | IResponseErrorNotFound
+  | IResponseErrorValidation;
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  param1: FiscalCode,
+  payload: ExtendUserDataDeletePayload
+) => Promise<Response>;
+
+/**
+ * Moves the end of the abort window of a pending deletion to a new deadline,
+ * which must be later than the current one
+ */
+export const extendUserDataDeleteHandler = (
+  userDataProcessingModel: UserDataProcessingModel
+): IHttpHandler => async (
+  context,
+  auth,
+  fiscalCode,
+  payload
+): Promise<Response> =>
+  pipe(
+    payload,
+    TE.fromPredicate(
+      ({ until }) => until.getTime() > Date.now(),
+      () =>
+        ResponseErrorValidation(
+          "Invalid deadline",
+          "The abort window can only be extended to a future date"
+        )
+    ),
+    TE.chainW(({ until }) =>
+      pipe(
+        raiseAbortWindowEvent(
+          df.getClient(context),
+          fiscalCode,
+          EXTEND_EVENT,
+          abortWindowEnd =>
+            pipe(
+              abortWindowEnd,
+              O.exists(end => until.getTime() <= end.getTime())
+            )
+              ? E.left(
+                  ResponseErrorValidation(
+                    "Invalid deadline",
+                    "The abort window can only be extended beyond its current end"
+                  )
+                )
+              : E.right(
+                  ExtendEventPayload.encode({ requestedBy: auth.userId, until })
+                )
+        ),
+        TE.chainW(() =>
+          recordAbortWindowChange(
+            userDataProcessingModel,
+            fiscalCode,
+            `Abort window extended until ${until.toISOString()} by ${
+              auth.userId
+            }` as NonEmptyString
+          )
+        ),
+        TE.map(userDataProcessing => {
+          trackUserDataDeleteEvent("extend_requested", userDataProcessing, {
+            requestedBy: auth.userId,
+            until: until.toISOString()
+          });
+          return ResponseSuccessAccepted<undefined>();
+        })
+      )
+    ),
+    TE.toUnion
+  )();
+
+export const extendUserDataDelete = (
+  userDataProcessingModel: UserDataProcessingModel
+): express.RequestHandler => {
+  const handler = extendUserDataDeleteHandler(userDataProcessingModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("fiscalCode", FiscalCode),
+    // Extract the new end of the abort window
+    RequiredBodyPayloadMiddleware(ExtendUserDataDeletePayload)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
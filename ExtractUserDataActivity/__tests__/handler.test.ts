@@ -5,6 +5,8 @@ import { some } from "fp-ts/lib/Option";
 import * as stream from "stream";
 import * as yaml from "yaml";
 import * as zipstream from "../../utils/zip";
+import { EncryptionMethodEnum, ZlibLevel } from "../../utils/zip";
+import { createHash, toHash } from "../../utils/crypto";
 
 import { context as contextMock } from "../../__mocks__/durable-functions";
 import {
@@ -27,13 +29,9 @@ import { BlobService } from "azure-storage";
 import * as TE from "fp-ts/lib/TaskEither";
 import { MessageModel } from "@pagopa/io-functions-commons/dist/src/models/message";
 import { MessageStatusModel } from "@pagopa/io-functions-commons/dist/src/models/message_status";
-import {
-  NotificationModel,
-  RetrievedNotification
-} from "@pagopa/io-functions-commons/dist/src/models/notification";
+import { NotificationModel } from "@pagopa/io-functions-commons/dist/src/models/notification";
 import { NotificationStatusModel } from "@pagopa/io-functions-commons/dist/src/models/notification_status";
 import { ProfileModel } from "@pagopa/io-functions-commons/dist/src/models/profile";
-import * as asyncI from "@pagopa/io-functions-commons/dist/src/utils/async";
 import { DeferredPromise } from "@pagopa/ts-commons/lib/promises";
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
@@ -48,67 +46,16 @@ import { pipe } from "fp-ts/lib/function";
 import { MessageViewModel } from "@pagopa/io-functions-commons/dist/src/models/message_view";
 import { ServicePreferencesDeletableModel } from "../../utils/extensions/models/service_preferences";
 
-const anotherRetrievedNotification: RetrievedNotification = {
-  ...aRetrievedNotification,
-  id: "ANOTHER_NOTIFICATION_ID" as NonEmptyString
-};
-
-const messageIteratorMock = {
-  next: jest.fn(() =>
-    Promise.resolve({
-      value: jest.fn(() => [E.right(aRetrievedMessageWithoutContent)])
-    })
-  )
-};
-
-jest.spyOn(asyncI, "mapAsyncIterable").mockImplementationOnce(() => {
-  return {
-    [Symbol.asyncIterator]: () => messageIteratorMock
-  };
-});
-
-const notificationIteratorMock = {
-  next: jest.fn(() =>
-    Promise.resolve({
-      value: jest.fn(() => [
-        E.right(aRetrievedNotification),
-        E.right(anotherRetrievedNotification)
-      ])
-    })
-  )
+const iteratorGenMock = async function*(arr: any[]) {
+  for (let a of arr) yield a;
 };
 
-jest.spyOn(asyncI, "mapAsyncIterable").mockImplementationOnce(() => {
-  return {
-    [Symbol.asyncIterator]: () => notificationIteratorMock
-  };
-});
-
-jest
-  .spyOn(asyncI, "asyncIterableToArray")
-  .mockImplementationOnce(() =>
-    Promise.resolve([
-      [E.right(aRetrievedNotification)],
-      [E.right(anotherRetrievedNotification)]
-    ])
-  );
-
-// eslint-disable-next-line sonarjs/no-identical-functions
-jest.spyOn(asyncI, "mapAsyncIterable").mockImplementationOnce(() => {
-  return {
-    [Symbol.asyncIterator]: () => messageIteratorMock
-  };
-});
-
-jest
-  .spyOn(asyncI, "asyncIteratorToArray")
-  .mockImplementation(() =>
-    Promise.resolve([[E.right(aRetrievedMessageWithoutContent)]])
-  );
-
 const mockGetContentFromBlob = jest.fn(() => TE.of(some(aMessageContent)));
+// a single page of messages, for each query
 const messageModelMock = ({
-  findMessages: jest.fn(() => TE.fromEither(E.right(messageIteratorMock))),
+  getQueryIterator: jest.fn(() =>
+    iteratorGenMock([[E.right(aRetrievedMessageWithoutContent)]])
+  ),
   getContentFromBlob: mockGetContentFromBlob
 } as any) as MessageModel;
 
@@ -141,15 +88,13 @@ const mockFindAllServPreferencesByFiscalCode = jest.fn<
 
 const servicePreferencesModelMock = ({
   delete: mockDeleteServicePreferences,
-  findAllByFiscalCode: mockFindAllServPreferencesByFiscalCode
+  getQueryIterator: jest.fn(() => ({
+    [Symbol.asyncIterator]: mockFindAllServPreferencesByFiscalCode
+  }))
 } as unknown) as ServicePreferencesDeletableModel;
 
-const iteratorGenMock = async function*(arr: any[]) {
-  for (let a of arr) yield a;
-};
-
 const messageViewModelMock = ({
-  getQueryIterator: jest.fn(() => iteratorGenMock([E.right(aMessageView)]))
+  getQueryIterator: jest.fn(() => iteratorGenMock([[E.right(aMessageView)]]))
 } as any) as MessageViewModel;
 
 const messageStatusModelMock = ({
@@ -168,8 +113,7 @@ const mockFindNotificationForMessage = jest.fn(() =>
   TE.of(some(aRetrievedNotification))
 );
 const notificationModelMock = ({
-  findNotificationForMessage: mockFindNotificationForMessage,
-  getQueryIterator: jest.fn(() => notificationIteratorMock)
+  findNotificationForMessage: mockFindNotificationForMessage
 } as any) as NotificationModel;
 
 const notificationStatusModelMock = ({
@@ -189,7 +133,8 @@ const setupStreamMocks = () => {
       // the following callback must be executed after zipStream.finalize
       errorOrResult.then(cb).catch();
       return aBlobStream;
-    })
+    }),
+    setBlobMetadata: jest.fn((_, __, ___, cb) => cb(null, {}))
   } as any) as BlobService;
   const aZipStream = archiver.create("zip");
   const origFinalize = aZipStream.finalize.bind(aZipStream);
@@ -200,7 +145,33 @@ const setupStreamMocks = () => {
   jest
     .spyOn(zipstream, "getEncryptedZipStream")
     .mockReturnValueOnce(aZipStream);
-  return { blobServiceMock, aZipStream };
+  return { aBlobStream, blobServiceMock, aZipStream };
+};
+
+// records the content of each file while it is streamed into the zip,
+// reading it only when the zip does, as files are read one at a time
+const recordZipEntries = (aZipStream: archiver.Archiver) => {
+  const contents: Record<string, string> = {};
+  const origAppend = aZipStream.append.bind(aZipStream);
+  const appendSpy = jest
+    .spyOn(aZipStream, "append")
+    .mockImplementation((source, data) => {
+      // eslint-disable-next-line functional/immutable-data
+      contents[data.name] = "";
+      return origAppend(
+        stream.Readable.from(
+          (async function*() {
+            for await (const chunk of source as stream.Readable) {
+              // eslint-disable-next-line functional/immutable-data
+              contents[data.name] += chunk.toString();
+              yield chunk;
+            }
+          })()
+        ),
+        data
+      );
+    });
+  return { appendSpy, contents };
 };
 
 const aUserDataContainerName = "aUserDataContainerName" as NonEmptyString;
@@ -240,15 +211,78 @@ describe("createExtractUserDataActivityHandler", () => {
     );
   });
 
+  it("should encrypt and compress the archive with the configured options", async () => {
+    const { blobServiceMock } = setupStreamMocks();
+    const handler = createExtractUserDataActivityHandler({
+      messageContentBlobService: blobServiceMock,
+      messageModel: messageModelMock,
+      messageStatusModel: messageStatusModelMock,
+      messageViewModel: messageViewModelMock,
+      notificationModel: notificationModelMock,
+      notificationStatusModel: notificationStatusModelMock,
+      profileModel: profileModelMock,
+      userDataBlobService: blobServiceMock,
+      userDataContainerName: aUserDataContainerName,
+      servicePreferencesModel: servicePreferencesModelMock,
+      zipOptions: {
+        encryptionMethod: EncryptionMethodEnum.ZIP20,
+        zlibLevel: 1 as ZlibLevel
+      }
+    });
+    const input: ActivityInput = {
+      fiscalCode: aFiscalCode
+    };
+
+    const result = await handler(contextMock, input);
+
+    expect(zipstream.getEncryptedZipStream).toHaveBeenCalledWith(
+      expect.any(String),
+      { encryptionMethod: EncryptionMethodEnum.ZIP20, zlibLevel: 1 }
+    );
+    expect(result).toEqual({
+      kind: "SUCCESS",
+      value: expect.objectContaining({
+        encryptionMethod: EncryptionMethodEnum.ZIP20
+      })
+    });
+  });
+
+  it("should encrypt the archive with AES-256 by default", async () => {
+    const { blobServiceMock } = setupStreamMocks();
+    const handler = createExtractUserDataActivityHandler({
+      messageContentBlobService: blobServiceMock,
+      messageModel: messageModelMock,
+      messageStatusModel: messageStatusModelMock,
+      messageViewModel: messageViewModelMock,
+      notificationModel: notificationModelMock,
+      notificationStatusModel: notificationStatusModelMock,
+      profileModel: profileModelMock,
+      userDataBlobService: blobServiceMock,
+      userDataContainerName: aUserDataContainerName,
+      servicePreferencesModel: servicePreferencesModelMock
+    });
+    const input: ActivityInput = {
+      fiscalCode: aFiscalCode
+    };
+
+    const result = await handler(contextMock, input);
+
+    expect(result).toEqual({
+      kind: "SUCCESS",
+      value: expect.objectContaining({
+        encryptionMethod: EncryptionMethodEnum.AES256
+      })
+    });
+  });
+
   it("should not export webhook notification data", async () => {
     const { blobServiceMock, aZipStream } = setupStreamMocks();
-    const appendSpy = jest.spyOn(aZipStream, "append");
+    const { contents } = recordZipEntries(aZipStream);
 
     const notificationWebhookModelMock = ({
       findNotificationForMessage: jest.fn(() =>
         TE.fromEither(E.right(some(aRetrievedNotification)))
-      ),
-      getQueryIterator: jest.fn(() => notificationIteratorMock)
+      )
     } as any) as NotificationModel;
 
     const handler = createExtractUserDataActivityHandler({
@@ -271,13 +305,171 @@ describe("createExtractUserDataActivityHandler", () => {
 
     expect(aZipStream.finalize).toHaveBeenCalledTimes(1);
     const allUserData: AllUserData = yaml.parse(
-      appendSpy.mock.calls[0][0].toString()
+      contents[`${aFiscalCode}.yaml`]
     );
     expect(allUserData.notifications[0].channels.WEBHOOK).toEqual({
       url: null
     });
   });
 
+  it("should export data in each of the configured formats", async () => {
+    const { blobServiceMock, aZipStream } = setupStreamMocks();
+    const { appendSpy, contents } = recordZipEntries(aZipStream);
+
+    const handler = createExtractUserDataActivityHandler({
+      exportFormats: ["csv", "json", "yaml"],
+      messageContentBlobService: blobServiceMock,
+      messageModel: messageModelMock,
+      messageStatusModel: messageStatusModelMock,
+      messageViewModel: messageViewModelMock,
+      notificationModel: notificationModelMock,
+      notificationStatusModel: notificationStatusModelMock,
+      profileModel: profileModelMock,
+      userDataBlobService: blobServiceMock,
+      userDataContainerName: aUserDataContainerName,
+      servicePreferencesModel: servicePreferencesModelMock
+    });
+    const input: ActivityInput = {
+      fiscalCode: aFiscalCode
+    };
+
+    const result = await handler(contextMock, input);
+
+    expect(result).toEqual({
+      kind: "SUCCESS",
+      value: expect.objectContaining({
+        exportFormats: ["csv", "json", "yaml"]
+      })
+    });
+    expect(appendSpy.mock.calls.map(([, { name }]) => name)).toEqual([
+      "csv/messages.csv",
+      "csv/message-statuses.csv",
+      "csv/notifications.csv",
+      "csv/notification-statuses.csv",
+      "csv/services-preferences.csv",
+      `${aFiscalCode}.json`,
+      "user-data.schema.json",
+      `${aFiscalCode}.yaml`,
+      "index.html",
+      "manifest.json"
+    ]);
+    expect(contents["csv/notification-statuses.csv"]).toContain(
+      aRetrievedNotificationStatus.notificationId
+    );
+    expect(
+      JSON.parse(contents[`${aFiscalCode}.json`]).messagesView
+    ).toHaveLength(1);
+    expect(contents["index.html"]).toContain(aMessageContent.subject);
+  });
+
+  it("should fetch the contents and the notifications of a page of messages once for all the files", async () => {
+    const { blobServiceMock } = setupStreamMocks();
+
+    const handler = createExtractUserDataActivityHandler({
+      exportFormats: ["csv", "json", "yaml"],
+      messageContentBlobService: blobServiceMock,
+      messageModel: messageModelMock,
+      messageStatusModel: messageStatusModelMock,
+      messageViewModel: messageViewModelMock,
+      notificationModel: notificationModelMock,
+      notificationStatusModel: notificationStatusModelMock,
+      profileModel: profileModelMock,
+      userDataBlobService: blobServiceMock,
+      userDataContainerName: aUserDataContainerName,
+      servicePreferencesModel: servicePreferencesModelMock
+    });
+
+    const result = await handler(contextMock, { fiscalCode: aFiscalCode });
+
+    expect(ActivityResultSuccess.is(result)).toBe(true);
+    expect(messageModelMock.getContentFromBlob).toHaveBeenCalledTimes(1);
+    expect(
+      notificationModelMock.findNotificationForMessage
+    ).toHaveBeenCalledTimes(1);
+  });
+
+  it("should add a manifest of the files and store the checksum of the archive", async () => {
+    const { aBlobStream, blobServiceMock, aZipStream } = setupStreamMocks();
+    const { appendSpy, contents } = recordZipEntries(aZipStream);
+    const archiveHash = createHash();
+    aBlobStream.on("data", chunk => archiveHash.update(chunk));
+
+    const handler = createExtractUserDataActivityHandler({
+      messageContentBlobService: blobServiceMock,
+      messageModel: messageModelMock,
+      messageStatusModel: messageStatusModelMock,
+      messageViewModel: messageViewModelMock,
+      notificationModel: notificationModelMock,
+      notificationStatusModel: notificationStatusModelMock,
+      profileModel: profileModelMock,
+      userDataBlobService: blobServiceMock,
+      userDataContainerName: aUserDataContainerName,
+      servicePreferencesModel: servicePreferencesModelMock
+    });
+    const input: ActivityInput = {
+      fiscalCode: aFiscalCode
+    };
+
+    const result = await handler(contextMock, input);
+
+    expect(ActivityResultSuccess.is(result)).toBe(true);
+    expect(appendSpy.mock.calls.map(([, { name }]) => name)).toEqual([
+      `${aFiscalCode}.yaml`,
+      "index.html",
+      "manifest.json"
+    ]);
+    const manifest = JSON.parse(contents["manifest.json"]);
+    expect(manifest.files).toEqual([
+      {
+        counts: expect.any(Object),
+        name: `${aFiscalCode}.yaml`,
+        sha256: toHash(contents[`${aFiscalCode}.yaml`])
+      },
+      { name: "index.html", sha256: toHash(contents["index.html"]) }
+    ]);
+    expect(manifest.files[0].counts).toMatchObject({
+      messages: 1,
+      messagesView: 1,
+      profiles: 1,
+      servicesPreferences: 1
+    });
+    expect(blobServiceMock.setBlobMetadata).toHaveBeenCalledWith(
+      aUserDataContainerName,
+      (result as ActivityResultSuccess).value.blobName,
+      { sha256: archiveHash.digest("hex") },
+      expect.any(Function)
+    );
+  });
+
+  it("should fail when user data cannot be read while they are exported", async () => {
+    const { blobServiceMock } = setupStreamMocks();
+    const handler = createExtractUserDataActivityHandler({
+      messageContentBlobService: blobServiceMock,
+      messageModel: messageModelMock,
+      messageStatusModel: messageStatusModelMock,
+      messageViewModel: messageViewModelMock,
+      notificationModel: ({
+        findNotificationForMessage: jest.fn(() =>
+          TE.left({ kind: "COSMOS_EMPTY_RESPONSE" })
+        )
+      } as any) as NotificationModel,
+      notificationStatusModel: notificationStatusModelMock,
+      profileModel: profileModelMock,
+      userDataBlobService: blobServiceMock,
+      userDataContainerName: aUserDataContainerName,
+      servicePreferencesModel: servicePreferencesModelMock
+    });
+    const input: ActivityInput = {
+      fiscalCode: aFiscalCode
+    };
+
+    const result = await handler(contextMock, input);
+
+    expect(result).toEqual(
+      expect.objectContaining({ kind: "ARCHIVE_GENERATION_FAILURE" })
+    );
+  });
+
   it("should query using correct data", async () => {
     const { blobServiceMock, aZipStream } = setupStreamMocks();
     const appendSpy = jest.spyOn(aZipStream, "append");
@@ -304,7 +496,22 @@ describe("createExtractUserDataActivityHandler", () => {
       blobServiceMock,
       aRetrievedMessageWithoutContent.id
     );
-    expect(messageModelMock.findMessages).toHaveBeenCalledWith(aFiscalCode);
+    // every pass reads the documents stored up to the extraction
+    expect(messageModelMock.getQueryIterator).toHaveBeenCalledWith(
+      {
+        parameters: [
+          { name: "@fiscalCode", value: aFiscalCode },
+          { name: "@extractedAt", value: expect.any(Number) }
+        ],
+        query: expect.stringContaining("m._ts <= @extractedAt")
+      },
+      expect.any(Object)
+    );
+    expect(servicePreferencesModelMock.getQueryIterator).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: expect.stringContaining("sp._ts <= @extractedAt")
+      })
+    );
     expect(
       messageStatusModelMock.findLastVersionByModelId
     ).toHaveBeenCalledWith([aRetrievedMessageWithoutContent.id]);
@@ -319,7 +526,7 @@ describe("createExtractUserDataActivityHandler", () => {
     ).toHaveBeenCalledWith(aRetrievedNotification.id, "EMAIL");
 
     expect(appendSpy).toHaveBeenCalledWith(
-      expect.any(String),
+      expect.any(stream.Readable),
       expect.any(Object)
     );
   });
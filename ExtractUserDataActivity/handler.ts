@@ -7,16 +7,17 @@ import * as t from "io-ts";
 
 import { DeferredPromise } from "@pagopa/ts-commons/lib/promises";
 
-import { sequenceS, sequenceT } from "fp-ts/lib/Apply";
+import { sequenceT } from "fp-ts/lib/Apply";
 import * as A from "fp-ts/lib/Array";
 import * as ROA from "fp-ts/lib/ReadonlyArray";
-import { flatten, rights } from "fp-ts/lib/Array";
 
 import { Context } from "@azure/functions";
+import { SqlQuerySpec } from "@azure/cosmos";
 
 import { BlobService } from "azure-storage";
 import { NotificationChannelEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/NotificationChannel";
 import {
+  defaultPageSize,
   MessageModel,
   RetrievedMessageWithoutContent
 } from "@pagopa/io-functions-commons/dist/src/models/message";
@@ -39,25 +40,46 @@ import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 
 import * as E from "fp-ts/lib/Either";
 import * as O from "fp-ts/lib/Option";
+import * as T from "fp-ts/lib/Task";
 import * as TE from "fp-ts/lib/TaskEither";
-import {
-  asyncIteratorToArray,
-  flattenAsyncIterator
-} from "@pagopa/io-functions-commons/dist/src/utils/async";
-import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
-import * as yaml from "yaml";
+import { mapAsyncIterator } from "@pagopa/io-functions-commons/dist/src/utils/async";
+import { CosmosErrors } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import { pipe, flow } from "fp-ts/lib/function";
 import { MessageViewModel } from "@pagopa/io-functions-commons/dist/src/models/message_view";
-import { getEncryptedZipStream } from "../utils/zip";
-import { AllUserData, MessageContentWithId } from "../utils/userData";
+import {
+  DEFAULT_ZIP_OPTIONS,
+  EncryptionMethod,
+  getEncryptedZipStream,
+  IZipOptions
+} from "../utils/zip";
+import { MessageContentWithId, UserDataPages } from "../utils/userData";
 import { generateStrongPassword, StrongPassword } from "../utils/random";
 import { getMessageFromCosmosErrors } from "../utils/conversions";
+import { createHash } from "../utils/crypto";
 import { ServicePreferencesDeletableModel } from "../utils/extensions/models/service_preferences";
+import {
+  getUserDataExportFiles,
+  IUserDataExportFile,
+  UserDataExportFormat
+} from "../utils/userDataExport";
+import { withUserDataManifest } from "../utils/userDataManifest";
+import {
+  renderUserDataReport,
+  USER_DATA_REPORT_FILE_NAME
+} from "../utils/userDataReport";
 
-export const ArchiveInfo = t.interface({
-  blobName: NonEmptyString,
-  password: StrongPassword
-});
+export const ArchiveInfo = t.intersection([
+  t.interface({
+    blobName: NonEmptyString,
+    password: StrongPassword
+  }),
+  t.partial({
+    // missing for archives created before the method was configurable
+    encryptionMethod: EncryptionMethod,
+    // missing for archives created before the formats were configurable
+    exportFormats: t.readonlyArray(UserDataExportFormat)
+  })
+]);
 export type ArchiveInfo = t.TypeOf<typeof ArchiveInfo>;
 
 // Activity input
@@ -355,164 +377,281 @@ export const findAllNotificationStatuses = (
     )
   );
 
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type, @typescript-eslint/no-explicit-any
+const cleanData = (v: any) => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _self, _etag, _attachments, _rid, _ts, ...clean } = v;
+  return clean;
+};
+
 /**
- * Perform all the queries to extract all data for a given user
- *
- * @param fiscalCode user identifier
- * @returns Either a failure or a hash set with all the information regarding the user
+ * Runs a query while user data pages are iterated,
+ * where failures can only be raised as errors
  */
-export const queryAllUserData = (
-  messageModel: MessageModel,
-  messageStatusModel: MessageStatusModel,
-  messageViewModel: MessageViewModel,
-  notificationModel: NotificationModel,
-  notificationStatusModel: NotificationStatusModel,
-  profileModel: ProfileModel,
-  messageContentBlobService: BlobService,
-  fiscalCode: FiscalCode,
-  servicePreferencesModel: ServicePreferencesDeletableModel
-): TE.TaskEither<
-  ActivityResultUserNotFound | ActivityResultQueryFailure,
-  AllUserData
-  // eslint-disable-next-line max-params
-> =>
+const runQuery = async <A>(
+  query: TE.TaskEither<ActivityResultQueryFailure, A>
+): Promise<A> =>
   pipe(
-    // step 0: look for the profile
-    getProfile(profileModel, fiscalCode),
-    // step 1: get messages, which can be queried by only knowing the fiscal code
-    TE.chain(profile =>
-      sequenceS(TE.ApplicativePar)({
-        // queries all messages for the user
-        messages: pipe(
-          messageModel.findMessages(fiscalCode),
-          TE.chain(iterator =>
-            TE.tryCatch(
-              () => asyncIteratorToArray(iterator),
-              toCosmosErrorResponse
-            )
-          ),
-          TE.map(flatten),
-          TE.mapLeft(_ =>
-            ActivityResultQueryFailure.encode({
-              kind: "QUERY_FAILURE",
-              query: "findMessages",
-              reason: `${_.kind}, ${getMessageFromCosmosErrors(_)}`
-            })
-          ),
-          TE.chainW(results =>
-            results.some(E.isLeft)
-              ? TE.left(
-                  ActivityResultQueryFailure.encode({
-                    kind: "QUERY_FAILURE",
-                    query: "findMessages",
-                    reason: "Some messages cannot be decoded"
-                  })
-                )
-              : TE.of(rights(results))
+    await query(),
+    E.getOrElse<ActivityResultQueryFailure, A>(failure => {
+      throw new Error(`Error ${failure.query} query error|${failure.reason}`);
+    })
+  );
+
+const toQueryFailure = (query: string) => (
+  failure: CosmosErrors
+): ActivityResultQueryFailure =>
+  ActivityResultQueryFailure.encode({
+    kind: "QUERY_FAILURE",
+    query,
+    reason: `${failure.kind}, ${getMessageFromCosmosErrors(failure)}`
+  });
+
+/**
+ * Maps every page of an iteration, once it is read
+ */
+const mapPages = <A, B>(
+  pages: AsyncIterable<A>,
+  f: (page: A) => Promise<B>
+): AsyncIterable<B> => ({
+  [Symbol.asyncIterator]: (): AsyncIterator<B> =>
+    mapAsyncIterator(pages[Symbol.asyncIterator](), f)
+});
+
+/**
+ * Iterates over the documents of a query a page at a time,
+ * failing when any of them cannot be decoded
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* findAllPages<T>(
+  query: string,
+  iterator: TE.TaskEither<
+    CosmosErrors,
+    AsyncIterator<ReadonlyArray<t.Validation<T>>>
+  >
+): AsyncIterable<ReadonlyArray<T>> {
+  const pageIterator = await runQuery(
+    pipe(iterator, TE.mapLeft(toQueryFailure(query)))
+  );
+  for await (const results of {
+    [Symbol.asyncIterator]: (): AsyncIterator<ReadonlyArray<t.Validation<T>>> =>
+      pageIterator
+  }) {
+    if (results.some(E.isLeft)) {
+      throw new Error(
+        `Error ${query} query error|Some documents cannot be decoded`
+      );
+    }
+    yield ROA.rights(results);
+  }
+}
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* fromPages<T>(
+  pages: ReadonlyArray<ReadonlyArray<T>>
+): AsyncIterable<ReadonlyArray<T>> {
+  yield* pages;
+}
+
+interface IUserDataModels {
+  readonly messageContentBlobService: BlobService;
+  readonly messageModel: MessageModel;
+  readonly messageStatusModel: MessageStatusModel;
+  readonly messageViewModel: MessageViewModel;
+  readonly notificationModel: NotificationModel;
+  readonly notificationStatusModel: NotificationStatusModel;
+  readonly servicePreferencesModel: ServicePreferencesDeletableModel;
+}
+
+// how many pages of messages the lookups of their children are kept for
+const MESSAGE_PAGES_CACHE_SIZE = 10;
+
+/**
+ * Keeps the lookups of the latest pages of messages, so that entities
+ * derived from the same page do not fetch the same documents again.
+ * Only the latest pages are kept, so that data never need to be entirely in memory.
+ */
+const memoizeByMessagePage = <A>(
+  f: (messages: ReadonlyArray<RetrievedMessageWithoutContent>) => Promise<A>
+): ((
+  messages: ReadonlyArray<RetrievedMessageWithoutContent>
+) => Promise<A>) => {
+  const cache = new Map<string, Promise<A>>();
+  return (messages): Promise<A> => {
+    const key = messages.map(({ id }) => id).join(",");
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const result = f(messages);
+    cache.set(key, result);
+    if (cache.size > MESSAGE_PAGES_CACHE_SIZE) {
+      cache.delete(cache.keys().next().value);
+    }
+    return result;
+  };
+};
+
+/**
+ * A query of the documents of a user stored up to the extraction,
+ * whose _ts is the time, in seconds, they have been stored
+ */
+const toSnapshotQuery = (
+  fiscalCode: FiscalCode,
+  extractedAt: Date,
+  query: string
+): SqlQuerySpec => ({
+  parameters: [
+    { name: "@fiscalCode", value: fiscalCode },
+    { name: "@extractedAt", value: Math.floor(extractedAt.getTime() / 1000) }
+  ],
+  query
+});
+
+/**
+ * Provides all data of a given user a page at a time, by querying them
+ * while they are read: child entities, like message statuses,
+ * are queried for a page of messages at a time.
+ *
+ * Every call starts a new pass, querying messages again: each export format,
+ * and the report, makes a pass for each entity derived from messages.
+ * Passes read the same snapshot, i.e. the documents stored up to the extraction,
+ * so that all files list the same data. The contents and the notifications
+ * of the latest pages of messages are fetched once for all the entities
+ * derived from them, so an extra pass costs a query of messages
+ * plus, for users with more than MESSAGE_PAGES_CACHE_SIZE pages of messages,
+ * the lookups of the children of each page.
+ *
+ * @param profile the profile of the user
+ * @param extractedAt when the extraction started, the time of the snapshot
+ * @returns the pages of every entity, with sensitive data removed
+ */
+export const getUserDataPages = (
+  {
+    messageContentBlobService,
+    messageModel,
+    messageStatusModel,
+    messageViewModel,
+    notificationModel,
+    notificationStatusModel,
+    servicePreferencesModel
+  }: IUserDataModels,
+  profile: Profile,
+  extractedAt: Date
+): UserDataPages => {
+  const findMessagePages = (): AsyncIterable<ReadonlyArray<
+    RetrievedMessageWithoutContent
+  >> =>
+    findAllPages(
+      "findMessages",
+      TE.right(
+        messageModel
+          .getQueryIterator(
+            toSnapshotQuery(
+              profile.fiscalCode,
+              extractedAt,
+              `SELECT * FROM m WHERE m.fiscalCode = @fiscalCode AND m._ts <= @extractedAt
+                    ORDER BY m.fiscalCode, m.id DESC`
+            ),
+            { maxItemCount: defaultPageSize }
           )
-        ),
-        messagesView: pipe(
-          messageViewModel
-            .getQueryIterator({
-              parameters: [
-                {
-                  name: "@fiscalCode",
-                  value: fiscalCode
-                }
-              ],
-              query: `SELECT * FROM m WHERE m.fiscalCode = @fiscalCode
+          [Symbol.asyncIterator]() as AsyncIterator<
+          ReadonlyArray<t.Validation<RetrievedMessageWithoutContent>>
+        >
+      )
+    );
+  const findMessageContents = memoizeByMessagePage(messages =>
+    runQuery(
+      getAllMessageContents(messageContentBlobService, messageModel, messages)
+    )
+  );
+  const findNotifications = memoizeByMessagePage(messages =>
+    runQuery(findNotificationsForAllMessages(notificationModel, messages))
+  );
+
+  // the pages of an entity derived from a page of messages at a time
+  const fromMessagePages = <A>(
+    f: (messages: ReadonlyArray<RetrievedMessageWithoutContent>) => Promise<A>
+  ) => (): AsyncIterable<A> => mapPages(findMessagePages(), f);
+
+  return {
+    messageContents: fromMessagePages(findMessageContents),
+    messageStatuses: fromMessagePages(async messages =>
+      (
+        await runQuery(getAllMessagesStatuses(messageStatusModel, messages))
+      ).map(cleanData)
+    ),
+    messages: fromMessagePages(async messages => messages.map(cleanData)),
+    messagesView: (): ReturnType<UserDataPages["messagesView"]> =>
+      mapPages(
+        findAllPages(
+          "findMessagesView",
+          TE.right(
+            messageViewModel
+              .getQueryIterator(
+                toSnapshotQuery(
+                  profile.fiscalCode,
+                  extractedAt,
+                  `SELECT * FROM m WHERE m.fiscalCode = @fiscalCode AND m._ts <= @extractedAt
                     ORDER BY m.fiscalCode, m.id DESC`
-            })
-            [Symbol.asyncIterator](),
-          TE.of,
-          TE.chain(iter =>
-            TE.tryCatch(() => asyncIteratorToArray(iter), toCosmosErrorResponse)
-          ),
-          TE.map(flatten),
-          TE.mapLeft(_ =>
-            ActivityResultQueryFailure.encode({
-              kind: "QUERY_FAILURE",
-              query: "findMessagesView",
-              reason: `${_.kind}, ${getMessageFromCosmosErrors(_)}`
-            })
-          ),
-          TE.chainW(results =>
-            results.some(E.isLeft)
-              ? TE.left(
-                  ActivityResultQueryFailure.encode({
-                    kind: "QUERY_FAILURE",
-                    query: "findMessagesView",
-                    reason: "Some messages cannot be decoded"
-                  })
                 )
-              : TE.of(rights(results))
+              )
+              [Symbol.asyncIterator]()
           )
         ),
-        profile: TE.of(profile),
-        servicesPreferences: pipe(
-          servicePreferencesModel.findAllByFiscalCode(fiscalCode),
-          flattenAsyncIterator,
-          asyncIteratorToArray,
-          promise =>
-            TE.tryCatch(
-              () => promise,
-              () =>
-                ActivityResultQueryFailure.encode({
-                  kind: "QUERY_FAILURE",
-                  reason: "Error with the async operator"
-                })
-            ),
-          // ROA.rights will return only the right values obtained from the database
-          // (left values represent malformed data inside the database)
-          TE.map(ROA.rights)
+        async messagesView => messagesView.map(cleanData)
+      ),
+    messagesWithContents: fromMessagePages(async messages => {
+      const messageContents = await findMessageContents(messages);
+      return messages.map(message => ({
+        content: messageContents.find(
+          ({ messageId }) => messageId === message.id
+        )?.content,
+        message: cleanData(message)
+      }));
+    }),
+    notificationStatuses: fromMessagePages(async messages =>
+      (
+        await runQuery(
+          findAllNotificationStatuses(
+            notificationStatusModel,
+            await findNotifications(messages)
+          )
         )
-      })
+      ).map(cleanData)
     ),
-    // step 2: queries notifications and message contents, which need message data to be queried first
-    TE.chain(({ profile, messages, messagesView, servicesPreferences }) =>
-      sequenceS(TE.ApplicativePar)({
-        messageContents: getAllMessageContents(
-          messageContentBlobService,
-          messageModel,
-          messages
-        ),
-        messageStatuses: getAllMessagesStatuses(messageStatusModel, messages),
-        messages: TE.of(messages),
-        messagesView: TE.of(messagesView),
-        notifications: findNotificationsForAllMessages(
-          notificationModel,
-          messages
-        ),
-        profile: TE.of(profile),
-        servicesPreferences: TE.of(servicesPreferences)
-      })
-    ),
-    // step 3: queries notifications statuses
-    TE.bind("notificationStatuses", ({ notifications }) =>
-      findAllNotificationStatuses(notificationStatusModel, notifications)
+    notifications: fromMessagePages(async messages =>
+      (await findNotifications(messages)).map(notification =>
+        // remove sensitive data
+        cleanData({
+          ...notification,
+          channels: { ...notification.channels, WEBHOOK: { url: undefined } }
+        })
+      )
     ),
-    TE.map(
-      ({
-        profile,
-        notifications,
-        messages,
-        messagesView,
-        messageContents,
-        messageStatuses,
-        notificationStatuses,
-        servicesPreferences
-      }) => ({
-        messageContents,
-        messageStatuses,
-        messages,
-        messagesView,
-        notificationStatuses,
-        notifications,
-        profiles: [profile],
-        servicesPreferences
-      })
-    )
-  );
+    profiles: (): ReturnType<UserDataPages["profiles"]> =>
+      fromPages([[cleanData(profile)]]),
+    servicesPreferences: (): ReturnType<UserDataPages["servicesPreferences"]> =>
+      mapPages(
+        {
+          [Symbol.asyncIterator]: () =>
+            servicePreferencesModel
+              .getQueryIterator(
+                toSnapshotQuery(
+                  profile.fiscalCode,
+                  extractedAt,
+                  `SELECT * FROM sp WHERE sp.fiscalCode = @fiscalCode AND sp._ts <= @extractedAt`
+                )
+              )
+              [Symbol.asyncIterator]()
+        },
+        // ROA.rights will return only the right values obtained from the database
+        // (left values represent malformed data inside the database)
+        async servicesPreferences =>
+          ROA.rights(servicesPreferences).map(cleanData)
+      )
+  };
+};
 
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 const getCreateWriteStreamToBlockBlob = (blobService: BlobService) => (
@@ -534,37 +673,54 @@ const getCreateWriteStreamToBlockBlob = (blobService: BlobService) => (
 
 const onStreamFinished = TE.taskify(stream.finished);
 
+// the key of the blob metadata with the checksum of the archive
+export const ARCHIVE_CHECKSUM_METADATA_KEY = "sha256";
+
+const setBlobMetadata = (
+  blobService: BlobService,
+  container: string,
+  blob: string,
+  metadata: Readonly<Record<string, string>>
+): TE.TaskEither<Error, BlobService.BlobResult> =>
+  TE.tryCatch(
+    () =>
+      new Promise((resolve, reject) =>
+        blobService.setBlobMetadata(container, blob, metadata, (err, result) =>
+          err ? reject(err) : resolve(result)
+        )
+      ),
+    E.toError
+  );
+
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+const archiveGenerationFailure = (err: Error) =>
+  ActivityResultArchiveGenerationFailure.encode({
+    kind: "ARCHIVE_GENERATION_FAILURE",
+    reason: err.message
+  });
+
 /**
- * Creates a bundle with all user data and save it to a blob on a remote storage
- *
- * @param data all extracted user data
- * @param password a password for bundle encryption
- *
- * @returns either a failure or an object with the name of the blob and the password
+ * Writes the provided files into an encrypted zip bundle on a remote storage,
+ * along with the checksum of the bundle as metadata of the blob
  */
-export const saveDataToBlob = (
+const writeZipToBlob = (
   blobService: BlobService,
   userDataContainerName: string,
-  data: AllUserData,
-  password: StrongPassword
+  blobName: NonEmptyString,
+  password: StrongPassword,
+  files: ReadonlyArray<IUserDataExportFile>,
+  exportFormats: ReadonlyArray<UserDataExportFormat>,
+  zipOptions: IZipOptions
+  // eslint-disable-next-line max-params
 ): TE.TaskEither<ActivityResultArchiveGenerationFailure, ArchiveInfo> => {
-  const profile = data.profiles[0];
-  const blobName = `${profile.fiscalCode}-${Date.now()}.zip` as NonEmptyString;
-  const fileName = `${profile.fiscalCode}.yaml` as NonEmptyString;
-
-  const zipStream = getEncryptedZipStream(password);
-
-  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-  const failure = (err: Error) =>
-    ActivityResultArchiveGenerationFailure.encode({
-      kind: "ARCHIVE_GENERATION_FAILURE",
-      reason: err.message
-    });
+  const zipStream = getEncryptedZipStream(password, zipOptions);
 
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
   const success = () =>
     ArchiveInfo.encode({
       blobName,
+      encryptionMethod: zipOptions.encryptionMethod,
+      exportFormats,
       password
     });
 
@@ -573,18 +729,21 @@ export const saveDataToBlob = (
   )(userDataContainerName, blobName);
 
   zipStream.pipe(blobStream);
-  zipStream.append(yaml.stringify(data), {
-    name: fileName
-  });
+  const archiveHash = createHash();
+  zipStream.on("data", chunk => archiveHash.update(chunk));
+  // contents are generated only when the zip stream reads them, one at a time
+  files.forEach(({ content, name }) =>
+    zipStream.append(stream.Readable.from(content), { name })
+  );
 
   const onZipStreamError = pipe(
     onStreamFinished(zipStream),
-    TE.mapLeft(failure)
+    TE.mapLeft(archiveGenerationFailure)
   );
 
   const onZipStreamFinalized = pipe(
     TE.tryCatch(() => zipStream.finalize(), E.toError),
-    TE.mapLeft(failure)
+    TE.mapLeft(archiveGenerationFailure)
   );
 
   // This task will run only when `onZipStreamFinalized` completes.
@@ -592,40 +751,85 @@ export const saveDataToBlob = (
   // until the function runtime timeout is reached
   const onBlobStreamWritten = pipe(
     fromPromiseEither(errorOrResult),
-    TE.bimap(failure, success)
+    // the whole archive has been written, so its checksum is complete
+    TE.chain(() =>
+      setBlobMetadata(blobService, userDataContainerName, blobName, {
+        [ARCHIVE_CHECKSUM_METADATA_KEY]: archiveHash.digest("hex")
+      })
+    ),
+    TE.bimap(archiveGenerationFailure, success)
   );
 
-  // run tasks in parallel
-  return pipe(
-    sequenceT(TE.ApplicativePar)(
-      onZipStreamError,
-      onZipStreamFinalized,
-      onBlobStreamWritten
-    ),
-    TE.map(([, , blobStreamResult]) => blobStreamResult)
+  const onArchiveWritten = pipe(
+    sequenceT(TE.ApplicativePar)(onZipStreamFinalized, onBlobStreamWritten),
+    TE.map(([, blobStreamResult]) => blobStreamResult)
+  );
+
+  // as user data are read while the zip is written, reading them can fail
+  // halfway: in that case the blob is never written, so we do not wait for it
+  const onZipStreamFailed = pipe(
+    onZipStreamError,
+    TE.chain(() => TE.fromTask<ArchiveInfo, never>(T.never))
   );
+
+  return T.getRaceMonoid<
+    E.Either<ActivityResultArchiveGenerationFailure, ArchiveInfo>
+  >().concat(onZipStreamFailed, onArchiveWritten);
 };
 
-export interface IActivityHandlerInput {
-  readonly messageModel: MessageModel;
-  readonly messageStatusModel: MessageStatusModel;
-  readonly messageViewModel: MessageViewModel;
-  readonly notificationModel: NotificationModel;
-  readonly notificationStatusModel: NotificationStatusModel;
+/**
+ * Creates a bundle with all user data and save it to a blob on a remote storage,
+ * reading user data while they are written into the bundle.
+ * The bundle includes a manifest of its files, as the last one.
+ *
+ * @param fiscalCode the user the data belong to
+ * @param pages all user data, a page at a time
+ * @param extractedAt when the extraction started, the time of the snapshot of the pages
+ * @param password a password for bundle encryption
+ * @param exportFormats the formats data are serialized into within the bundle
+ * @param zipOptions how the bundle is encrypted and compressed
+ *
+ * @returns either a failure or an object with the name of the blob, the password and how the bundle was made
+ */
+export const saveDataToBlob = (
+  blobService: BlobService,
+  userDataContainerName: string,
+  fiscalCode: FiscalCode,
+  pages: UserDataPages,
+  extractedAt: Date,
+  password: StrongPassword,
+  exportFormats: ReadonlyArray<UserDataExportFormat> = ["yaml"],
+  zipOptions: IZipOptions = DEFAULT_ZIP_OPTIONS
+  // eslint-disable-next-line max-params
+): TE.TaskEither<ActivityResultArchiveGenerationFailure, ArchiveInfo> =>
+  writeZipToBlob(
+    blobService,
+    userDataContainerName,
+    `${fiscalCode}-${extractedAt.getTime()}.zip` as NonEmptyString,
+    password,
+    withUserDataManifest(
+      [
+        ...getUserDataExportFiles(exportFormats, fiscalCode, pages),
+        // a summary for users to read their data without any specific tool
+        {
+          content: renderUserDataReport(pages),
+          name: USER_DATA_REPORT_FILE_NAME
+        }
+      ],
+      extractedAt
+    ),
+    exportFormats,
+    zipOptions
+  );
+
+export interface IActivityHandlerInput extends IUserDataModels {
   readonly profileModel: ProfileModel;
-  readonly messageContentBlobService: BlobService;
   readonly userDataBlobService: BlobService;
   readonly userDataContainerName: NonEmptyString;
-  readonly servicePreferencesModel: ServicePreferencesDeletableModel;
+  readonly exportFormats?: ReadonlyArray<UserDataExportFormat>;
+  readonly zipOptions?: IZipOptions;
 }
 
-// eslint-disable-next-line @typescript-eslint/explicit-function-return-type, @typescript-eslint/no-explicit-any
-const cleanData = (v: any) => {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { _self, _etag, _attachments, _rid, _ts, ...clean } = v;
-  return clean;
-};
-
 /**
  * Factory methods that builds an activity function
  */
@@ -640,7 +844,9 @@ export function createExtractUserDataActivityHandler({
   messageContentBlobService,
   userDataBlobService,
   userDataContainerName,
-  servicePreferencesModel
+  servicePreferencesModel,
+  exportFormats,
+  zipOptions
 }: IActivityHandlerInput): (
   context: Context,
   input: unknown
@@ -657,46 +863,33 @@ export function createExtractUserDataActivityHandler({
         })
       ),
       TE.fromEither,
-      TE.chainW(({ fiscalCode }) =>
-        queryAllUserData(
-          messageModel,
-          messageStatusModel,
-          messageViewModel,
-          notificationModel,
-          notificationStatusModel,
-          profileModel,
-          messageContentBlobService,
-          fiscalCode,
-          servicePreferencesModel
-        )
-      ),
-      TE.map(allUserData => {
-        // remove sensitive data
-        const notifications = allUserData.notifications.map(e =>
-          cleanData({
-            ...e,
-            channels: { ...e.channels, WEBHOOK: { url: undefined } }
-          })
-        );
-        return {
-          messageContents: allUserData.messageContents,
-          messageStatuses: allUserData.messageStatuses.map(cleanData),
-          messages: allUserData.messages.map(cleanData),
-          messagesView: allUserData.messagesView.map(cleanData),
-          notificationStatuses: allUserData.messageStatuses.map(cleanData),
-          notifications,
-          profiles: allUserData.profiles.map(cleanData),
-          servicesPreferences: allUserData.servicesPreferences.map(cleanData)
-        };
-      }),
-      TE.chainW(allUserData =>
-        saveDataToBlob(
+      TE.chainW(({ fiscalCode }) => getProfile(profileModel, fiscalCode)),
+      TE.chainW(profile => {
+        // taken once, so that every pass over user data reads the same snapshot
+        const extractedAt = new Date();
+        return saveDataToBlob(
           userDataBlobService,
           userDataContainerName,
-          allUserData,
-          generateStrongPassword()
-        )
-      ),
+          profile.fiscalCode,
+          getUserDataPages(
+            {
+              messageContentBlobService,
+              messageModel,
+              messageStatusModel,
+              messageViewModel,
+              notificationModel,
+              notificationStatusModel,
+              servicePreferencesModel
+            },
+            profile,
+            extractedAt
+          ),
+          extractedAt,
+          generateStrongPassword(),
+          exportFormats,
+          zipOptions
+        );
+      }),
       TE.bimap(
         failure => {
           logFailure(context)(failure);
@@ -74,6 +74,7 @@ const messageContentBlobService = createBlobService(config.StorageConnection);
 const userDataContainerName = config.USER_DATA_CONTAINER_NAME;
 
 const activityFunctionHandler = createExtractUserDataActivityHandler({
+  exportFormats: config.USER_DATA_EXPORT_FORMATS,
   messageContentBlobService,
   messageModel,
   messageStatusModel,
@@ -83,7 +84,11 @@ const activityFunctionHandler = createExtractUserDataActivityHandler({
   profileModel,
   servicePreferencesModel,
   userDataBlobService,
-  userDataContainerName
+  userDataContainerName,
+  zipOptions: {
+    encryptionMethod: config.USER_DATA_ARCHIVE_ENCRYPTION_METHOD,
+    zlibLevel: config.USER_DATA_ARCHIVE_COMPRESSION_LEVEL
+  }
 });
 
 export default activityFunctionHandler;
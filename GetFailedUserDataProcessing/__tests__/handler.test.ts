@@ -96,6 +96,7 @@ describe("GetFailedUserDataProcessingHandler", () => {
 
     const result = await getFailedUserDataProcessingHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE,
       fiscalCode1
     );
@@ -117,6 +118,7 @@ describe("GetFailedUserDataProcessingHandler", () => {
 
     const result = await getFailedUserDataProcessingHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE,
       fiscalCode1
     );
@@ -136,6 +138,7 @@ describe("GetFailedUserDataProcessingHandler", () => {
 
     const result = await getFailedUserDataProcessingHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE,
       fiscalCode1
     );
@@ -143,11 +146,51 @@ describe("GetFailedUserDataProcessingHandler", () => {
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUser: fiscalCode1
+        choice: UserDataProcessingChoiceEnum.DELETE,
+        fiscalCode: fiscalCode1
       });
 
       expect(result.value).not.toEqual({
-        failedDataProcessingUser: fiscalCode2
+        choice: UserDataProcessingChoiceEnum.DELETE,
+        fiscalCode: fiscalCode2
+      });
+    }
+  });
+
+  it("should return the reason and the timestamp of the failure", async () => {
+    const aTimestamp = new Date("2021-10-04T10:00:00.000Z");
+    const tableServiceMock = ({
+      retrieveEntity: jest.fn((_, __, ___, ____, cb) =>
+        cb(
+          null,
+          {
+            PartitionKey: { _: UserDataProcessingChoiceEnum.DOWNLOAD },
+            Reason: { _: "a failure reason" },
+            RowKey: { _: fiscalCode1 },
+            Timestamp: { _: aTimestamp }
+          },
+          { isSuccessful: true, statusCode: 200 }
+        )
+      )
+    } as any) as TableService;
+
+    const result = await GetFailedUserDataProcessingHandler(
+      tableServiceMock,
+      storageTableMock
+    )(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DOWNLOAD,
+      fiscalCode1
+    );
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual({
+        choice: UserDataProcessingChoiceEnum.DOWNLOAD,
+        fiscalCode: fiscalCode1,
+        reason: "a failure reason",
+        timestamp: aTimestamp
       });
     }
   });
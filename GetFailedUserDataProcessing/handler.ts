@@ -21,19 +21,21 @@ import * as TE from "fp-ts/lib/TaskEither";
 import * as O from "fp-ts/lib/Option";
 import { ResponseErrorNotFound } from "@pagopa/ts-commons/lib/responses";
 import { flow, pipe } from "fp-ts/lib/function";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  FailedUserDataProcessingEntry,
+  IFailedUserDataProcessing,
+  toFailedUserDataProcessing
+} from "../utils/failedUserDataProcessing";
 
-type TableEntry = Readonly<{
-  readonly RowKey: Readonly<{
-    readonly _: FiscalCode;
-  }>;
-}>;
-
-type ResultSet = Readonly<{
-  readonly failedDataProcessingUser: FiscalCode;
-}>;
+type ResultSet = IFailedUserDataProcessing;
 
 type IHttpHandler = (
   context: Context,
+  auth: IAzureGdprAuthorization,
   param1: UserDataProcessingChoice,
   param2: FiscalCode
 ) => Promise<
@@ -47,6 +49,7 @@ export const GetFailedUserDataProcessingHandler = (
   failedUserDataProcessingTable: NonEmptyString
 ): IHttpHandler => async (
   _,
+  __,
   choice,
   fiscalCode
 ): Promise<
@@ -57,19 +60,24 @@ export const GetFailedUserDataProcessingHandler = (
   pipe(
     TE.tryCatch(
       () =>
-        new Promise<O.Option<TableEntry>>((resolve, reject) =>
-          tableService.retrieveEntity(
-            failedUserDataProcessingTable,
-            choice,
-            fiscalCode,
-            null,
-            (error: Error, result: TableEntry, response: ServiceResponse) =>
-              response.isSuccessful
-                ? resolve(O.some(result))
-                : response.statusCode === 404
-                ? resolve(O.none)
-                : reject(error)
-          )
+        new Promise<O.Option<FailedUserDataProcessingEntry>>(
+          (resolve, reject) =>
+            tableService.retrieveEntity(
+              failedUserDataProcessingTable,
+              choice,
+              fiscalCode,
+              null,
+              (
+                error: Error,
+                result: FailedUserDataProcessingEntry,
+                response: ServiceResponse
+              ) =>
+                response.isSuccessful
+                  ? resolve(O.some(result))
+                  : response.statusCode === 404
+                  ? resolve(O.none)
+                  : reject(error)
+            )
         ),
       E.toError
     ),
@@ -79,9 +87,7 @@ export const GetFailedUserDataProcessingHandler = (
         TE.fromOption(() =>
           ResponseErrorNotFound("Not found!", "No record found.")
         ),
-        TE.map(rs => ({
-          failedDataProcessingUser: rs.RowKey._
-        }))
+        TE.map(toFailedUserDataProcessing(choice))
       )
     ),
     TE.map(ResponseSuccessJson),
@@ -99,6 +105,8 @@ export const GetFailedUserDataProcessing = (
 
   const middlewaresWrap = withRequestMiddlewares(
     ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
     RequiredParamMiddleware("choice", UserDataProcessingChoice),
     RequiredParamMiddleware("fiscalCode", FiscalCode)
   );
@@ -73,13 +73,15 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: []
+        items: [],
+        page_size: 0
       });
     }
   });
@@ -96,13 +98,17 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: [fiscalCode]
+        items: [
+          { choice: UserDataProcessingChoiceEnum.DELETE, fiscalCode }
+        ],
+        page_size: 1
       });
     }
   });
@@ -119,13 +125,15 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: []
+        items: [],
+        page_size: 0
       });
     }
   });
@@ -142,13 +150,17 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DOWNLOAD as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: [fiscalCode]
+        items: [
+          { choice: UserDataProcessingChoiceEnum.DOWNLOAD, fiscalCode }
+        ],
+        page_size: 1
       });
     }
   });
@@ -165,13 +177,15 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DOWNLOAD as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: []
+        items: [],
+        page_size: 0
       });
     }
   });
@@ -188,16 +202,20 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DELETE as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: [fiscalCode]
+        items: [
+          { choice: UserDataProcessingChoiceEnum.DELETE, fiscalCode }
+        ],
+        page_size: 1
       });
 
-      expect(result.value.failedDataProcessingUsers.length).toEqual(1);
+      expect(result.value.items.length).toEqual(1);
     }
   });
 
@@ -213,16 +231,189 @@ describe("GetFailedUserDataProcessingListHandler", () => {
 
     const result = await getFailedUserDataProcessingListHandler(
       {} as any,
+      {} as any, // Not used
       UserDataProcessingChoiceEnum.DOWNLOAD as NonEmptyString
     );
 
     expect(result.kind).toBe("IResponseSuccessJson");
     if (result.kind === "IResponseSuccessJson") {
       expect(result.value).toEqual({
-        failedDataProcessingUsers: [fiscalCode]
+        items: [
+          { choice: UserDataProcessingChoiceEnum.DOWNLOAD, fiscalCode }
+        ],
+        page_size: 1
       });
 
-      expect(result.value.failedDataProcessingUsers.length).toEqual(1);
+      expect(result.value.items.length).toEqual(1);
     }
   });
 });
+
+describe("GetFailedUserDataProcessingListHandler pagination", () => {
+  const aTimestamp = new Date("2021-10-04T10:00:00.000Z");
+  const aContinuationToken = {
+    nextPartitionKey: "DELETE",
+    nextRowKey: "VEEGON48A55Y758Z",
+    targetLocation: 0
+  };
+
+  const getTableServiceMock = (continuationToken?: typeof aContinuationToken) =>
+    (({
+      queryEntities: jest.fn((_, __, ___, cb) =>
+        cb(
+          null,
+          {
+            continuationToken,
+            entries: [
+              {
+                Reason: { _: "a failure reason" },
+                RowKey: { _: fiscalCode },
+                Timestamp: { _: aTimestamp }
+              }
+            ]
+          },
+          { isSuccessful: true }
+        )
+      )
+    } as any) as TableService);
+
+  it("should return the reason and the timestamp of each failure with the link to the next page", async () => {
+    const tableServiceMock = getTableServiceMock(aContinuationToken);
+
+    const result = await GetFailedUserDataProcessingListHandler(
+      tableServiceMock,
+      storageTableMock,
+      "apim.example.com"
+    )(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DELETE as NonEmptyString,
+      10 as any
+    );
+
+    expect(tableServiceMock.queryEntities).toHaveBeenCalledWith(
+      storageTableMock,
+      expect.objectContaining({ _top: 10 }),
+      null,
+      expect.any(Function)
+    );
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value.items).toEqual([
+        {
+          choice: UserDataProcessingChoiceEnum.DELETE,
+          fiscalCode,
+          reason: "a failure reason",
+          timestamp: aTimestamp
+        }
+      ]);
+      const next = new URL(result.value.next);
+      expect(next.pathname).toBe("/adm/user-data-processing/failed/DELETE");
+      expect(next.searchParams.get("page_size")).toBe("10");
+      expect(next.searchParams.get("continuation_token")).toEqual(
+        expect.any(String)
+      );
+    }
+  });
+
+  it("should read the page following the continuation token", async () => {
+    const tableServiceMock = getTableServiceMock(aContinuationToken);
+    const handler = GetFailedUserDataProcessingListHandler(
+      tableServiceMock,
+      storageTableMock,
+      "apim.example.com"
+    );
+    const firstPage = await handler(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DELETE as NonEmptyString
+    );
+    const continuationToken =
+      firstPage.kind === "IResponseSuccessJson"
+        ? new URL(firstPage.value.next).searchParams.get("continuation_token")
+        : undefined;
+
+    const result = await handler(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DELETE as NonEmptyString,
+      undefined,
+      continuationToken as NonEmptyString
+    );
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    expect(tableServiceMock.queryEntities).toHaveBeenLastCalledWith(
+      storageTableMock,
+      expect.anything(),
+      aContinuationToken,
+      expect.any(Function)
+    );
+  });
+
+  it("should not return a link to the next page on the last page", async () => {
+    const result = await GetFailedUserDataProcessingListHandler(
+      getTableServiceMock(),
+      storageTableMock,
+      "apim.example.com"
+    )(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DELETE as NonEmptyString
+    );
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value.next).toBeUndefined();
+    }
+  });
+
+  it("should filter failures by the provided date range", async () => {
+    const tableServiceMock = getTableServiceMock();
+
+    await GetFailedUserDataProcessingListHandler(
+      tableServiceMock,
+      storageTableMock
+    )(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DELETE as NonEmptyString,
+      undefined,
+      undefined,
+      {
+        from: new Date("2021-10-01T00:00:00.000Z"),
+        to: new Date("2021-10-31T00:00:00.000Z")
+      }
+    );
+
+    expect(tableServiceMock.queryEntities).toHaveBeenCalledWith(
+      storageTableMock,
+      expect.objectContaining({
+        _where: [
+          "PartitionKey eq 'DELETE'",
+          " and Timestamp ge datetime'2021-10-01T00:00:00.000Z'",
+          " and Timestamp le datetime'2021-10-31T00:00:00.000Z'"
+        ]
+      }),
+      null,
+      expect.any(Function)
+    );
+  });
+
+  it("should return a validation error if the continuation token is invalid", async () => {
+    const tableServiceMock = getTableServiceMock();
+
+    const result = await GetFailedUserDataProcessingListHandler(
+      tableServiceMock,
+      storageTableMock
+    )(
+      {} as any,
+      {} as any, // Not used
+      UserDataProcessingChoiceEnum.DELETE as NonEmptyString,
+      undefined,
+      "not-a-token" as NonEmptyString
+    );
+
+    expect(result.kind).toBe("IResponseErrorValidation");
+    expect(tableServiceMock.queryEntities).not.toHaveBeenCalled();
+  });
+});
@@ -11,81 +11,161 @@ import {
   wrapRequestHandler
 } from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
 import {
+  IResponseErrorValidation,
   IResponseSuccessJson,
+  ResponseErrorValidation,
   ResponseSuccessJson
 } from "@pagopa/ts-commons/lib/responses";
-import { ServiceResponse, TableQuery, TableService } from "azure-storage";
+import { ServiceResponse, TableService } from "azure-storage";
 import {
   IResponseErrorInternal,
   ResponseErrorInternal
 } from "@pagopa/ts-commons/lib/responses";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
-
-type TableEntry = Readonly<{
-  readonly RowKey: Readonly<{
-    readonly _: NonEmptyString;
-  }>;
-}>;
+import {
+  decodeTableContinuationToken,
+  encodeTableContinuationToken,
+  FailedUserDataProcessingEntry,
+  FailedUserDataProcessingFilters,
+  getFailedUserDataProcessingQuery,
+  IFailedUserDataProcessing,
+  toFailedUserDataProcessing
+} from "../utils/failedUserDataProcessing";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import { FailedUserDataProcessingFiltersMiddleware } from "../utils/middlewares/failedUserDataProcessing";
+import {
+  ContinuationTokenMiddleware,
+  PageSize,
+  PageSizeMiddleware
+} from "../utils/middlewares/pagination";
 
 type ResultSet = Readonly<{
-  readonly failedDataProcessingUsers: ReadonlyArray<NonEmptyString>;
+  readonly items: ReadonlyArray<IFailedUserDataProcessing>;
+  readonly next?: string;
+  readonly page_size: number;
 }>;
 
 type IHttpHandler = (
   context: Context,
-  param: NonEmptyString
-) => Promise<IResponseSuccessJson<ResultSet> | IResponseErrorInternal>;
+  auth: IAzureGdprAuthorization,
+  param: NonEmptyString,
+  pageSize?: PageSize,
+  continuationToken?: NonEmptyString,
+  filters?: FailedUserDataProcessingFilters
+) => Promise<
+  | IResponseSuccessJson<ResultSet>
+  | IResponseErrorValidation
+  | IResponseErrorInternal
+>;
+
+const DEFAULT_PAGE_SIZE = 100 as PageSize;
+
+/**
+ * Builds the link to the page following the provided one,
+ * preserving page size and filters
+ */
+const getNextPageLink = (
+  azureApimHost: string,
+  choice: string,
+  pageSize: PageSize,
+  filters: FailedUserDataProcessingFilters,
+  continuationToken?: TableService.TableContinuationToken
+): string | undefined =>
+  continuationToken === undefined
+    ? undefined
+    : `https://${azureApimHost}/adm/user-data-processing/failed/${choice}?${new URLSearchParams(
+        {
+          ...FailedUserDataProcessingFilters.encode(filters),
+          continuation_token: encodeTableContinuationToken(continuationToken),
+          page_size: pageSize.toString()
+        }
+      ).toString()}`;
 
 export const GetFailedUserDataProcessingListHandler = (
   tableService: TableService,
-  failedUserDataProcessingTable: NonEmptyString
+  failedUserDataProcessingTable: NonEmptyString,
+  azureApimHost?: string
 ): IHttpHandler => async (
   ctx,
-  choice
-): Promise<IResponseSuccessJson<ResultSet> | IResponseErrorInternal> => {
-  const tableQuery = new TableQuery()
-    .select("RowKey")
-    .where("PartitionKey == ?", choice);
-
-  return pipe(
-    TE.tryCatch(
-      () =>
-        new Promise<TableService.QueryEntitiesResult<TableEntry>>(
-          (resolve, reject) =>
-            tableService.queryEntities(
-              failedUserDataProcessingTable,
-              tableQuery,
-              null,
-              (
-                error: Error,
-                result: TableService.QueryEntitiesResult<TableEntry>,
-                response: ServiceResponse
-              ) => (response.isSuccessful ? resolve(result) : reject(error))
-            )
+  __,
+  choice,
+  pageSize = DEFAULT_PAGE_SIZE,
+  continuationToken,
+  filters = {}
+): Promise<
+  | IResponseSuccessJson<ResultSet>
+  | IResponseErrorValidation
+  | IResponseErrorInternal
+  // eslint-disable-next-line max-params
+> =>
+  pipe(
+    continuationToken === undefined
+      ? E.right(null)
+      : decodeTableContinuationToken(continuationToken),
+    E.mapLeft(er => ResponseErrorValidation("Bad request", er.message)),
+    TE.fromEither,
+    TE.chainW(currentToken =>
+      pipe(
+        TE.tryCatch(
+          () =>
+            new Promise<
+              TableService.QueryEntitiesResult<FailedUserDataProcessingEntry>
+            >((resolve, reject) =>
+              tableService.queryEntities(
+                failedUserDataProcessingTable,
+                getFailedUserDataProcessingQuery(choice, pageSize, filters),
+                currentToken,
+                (
+                  error: Error,
+                  result: TableService.QueryEntitiesResult<
+                    FailedUserDataProcessingEntry
+                  >,
+                  response: ServiceResponse
+                ) => (response.isSuccessful ? resolve(result) : reject(error))
+              )
+            ),
+          E.toError
         ),
-      E.toError
+        TE.mapLeft(er => ResponseErrorInternal(er.message))
+      )
     ),
     TE.map(rs => ({
-      failedDataProcessingUsers: rs.entries.map(e => e.RowKey._)
+      items: rs.entries.map(toFailedUserDataProcessing(choice)),
+      next: getNextPageLink(
+        azureApimHost,
+        choice,
+        pageSize,
+        filters,
+        rs.continuationToken
+      ),
+      page_size: rs.entries.length
     })),
-    TE.mapLeft(er => ResponseErrorInternal(er.message)),
     TE.map(ResponseSuccessJson),
     TE.toUnion
   )();
-};
 
 export const GetFailedUserDataProcessingList = (
   tableService: TableService,
-  failedUserDataProcessingTable: NonEmptyString
+  failedUserDataProcessingTable: NonEmptyString,
+  azureApimHost: string
 ): express.RequestHandler => {
   const handler = GetFailedUserDataProcessingListHandler(
     tableService,
-    failedUserDataProcessingTable
+    failedUserDataProcessingTable,
+    azureApimHost
   );
 
   const middlewaresWrap = withRequestMiddlewares(
     ContextMiddleware(),
-    RequiredParamMiddleware("choice", t.string)
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("choice", t.string),
+    PageSizeMiddleware,
+    ContinuationTokenMiddleware,
+    FailedUserDataProcessingFiltersMiddleware
   );
 
   return wrapRequestHandler(middlewaresWrap(handler));
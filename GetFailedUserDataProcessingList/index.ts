@@ -32,7 +32,11 @@ secureExpressApp(app);
 // Add express route
 app.get(
   "/adm/user-data-processing/failed/:choice",
-  GetFailedUserDataProcessingList(tableService, failedUserDataProcessingTable)
+  GetFailedUserDataProcessingList(
+    tableService,
+    failedUserDataProcessingTable,
+    config.AZURE_APIM_HOST
+  )
 );
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
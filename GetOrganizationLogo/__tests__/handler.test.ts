@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { OrganizationFiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { BlobService } from "azure-storage";
+import { GetOrganizationLogoHandler } from "../handler";
+
+const anOrganizationFiscalCode = "00000000001" as OrganizationFiscalCode;
+
+describe("GetOrganizationLogoHandler", () => {
+  it("should return the public url of the logo named after the fiscal code without leading zeros", async () => {
+    const blobServiceMock = ({
+      getBlobProperties: jest.fn((_, __, cb) =>
+        cb(
+          null,
+          {
+            contentLength: "1024",
+            etag: "anEtag",
+            lastModified: "Mon, 04 Oct 2021 10:00:00 GMT"
+          },
+          { statusCode: 200 }
+        )
+      )
+    } as any) as BlobService;
+    const handler = GetOrganizationLogoHandler(blobServiceMock, "LOGOS_URL");
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      anOrganizationFiscalCode
+    );
+
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.url).toBe("LOGOS_URL/services/1.png");
+    }
+  });
+
+  it("should return a not found error if the logo does not exist", async () => {
+    const blobServiceMock = ({
+      getBlobProperties: jest.fn((_, __, cb) =>
+        cb({ statusCode: 404 }, null, { statusCode: 404 })
+      )
+    } as any) as BlobService;
+    const handler = GetOrganizationLogoHandler(blobServiceMock, "LOGOS_URL");
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      anOrganizationFiscalCode
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+});
@@ -0,0 +1,104 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import { OrganizationFiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { BlobService } from "azure-storage";
+
+import { LogoInfo } from "../generated/definitions/LogoInfo";
+import {
+  getLogoBlobProperties,
+  getOrganizationLogoBaseName,
+  LOGOS_CONTAINER_NAME,
+  toLogoInfo
+} from "../utils/logo";
+
+type IGetOrganizationLogoHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  organizationFiscalCode: OrganizationFiscalCode
+) => Promise<
+  | IResponseSuccessJson<LogoInfo>
+  | IResponseErrorValidation
+  | IResponseErrorNotFound
+  | IResponseErrorInternal
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetOrganizationLogoHandler(
+  blobService: BlobService,
+  logosUrl: string
+): IGetOrganizationLogoHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, organizationFiscalCode) => {
+    const blobName = `${getOrganizationLogoBaseName(
+      organizationFiscalCode
+    )}.png`;
+    return pipe(
+      getLogoBlobProperties(blobService, LOGOS_CONTAINER_NAME, blobName),
+      TE.mapLeft(err =>
+        ResponseErrorInternal(
+          `Error trying to connect to storage ${err.message}`
+        )
+      ),
+      TE.chainW(
+        TE.fromOption(() =>
+          ResponseErrorNotFound(
+            "Logo not found",
+            "Could not find a logo for the provided organization fiscal code"
+          )
+        )
+      ),
+      TE.map(toLogoInfo(`${logosUrl}/${LOGOS_CONTAINER_NAME}/${blobName}`)),
+      TE.map(ResponseSuccessJson),
+      TE.toUnion
+    )();
+  };
+}
+
+/**
+ * Wraps a GetOrganizationLogo handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetOrganizationLogo(
+  blobService: BlobService,
+  logosUrl: string
+): express.RequestHandler {
+  const handler = GetOrganizationLogoHandler(blobService, logosUrl);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceRead group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceRead])),
+    // Extract organization Fiscal code from path
+    RequiredParamMiddleware("organizationfiscalcode", OrganizationFiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
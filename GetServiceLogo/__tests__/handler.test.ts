@@ -0,0 +1,84 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import { BlobService } from "azure-storage";
+import { GetServiceLogoHandler } from "../handler";
+
+const aServiceId = "AServiceId" as ServiceId;
+
+const aBlobResult = {
+  contentLength: "1024",
+  contentSettings: { contentMD5: "aMd5", contentType: "image/png" },
+  etag: "anEtag",
+  lastModified: "Mon, 04 Oct 2021 10:00:00 GMT",
+  metadata: { uploadedBy: "admin" }
+};
+
+const getBlobServiceMock = (
+  error: unknown,
+  result: unknown,
+  statusCode: number
+): BlobService =>
+  ({
+    getBlobProperties: jest.fn((_, __, cb) => cb(error, result, { statusCode }))
+  } as any);
+
+describe("GetServiceLogoHandler", () => {
+  it("should return the properties and the public url of the logo", async () => {
+    const blobServiceMock = getBlobServiceMock(null, aBlobResult, 200);
+    const handler = GetServiceLogoHandler(blobServiceMock, "LOGOS_URL");
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(blobServiceMock.getBlobProperties).toHaveBeenCalledWith(
+      "services",
+      "aserviceid.png",
+      expect.any(Function)
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        content_length: 1024,
+        content_md5: "aMd5",
+        content_type: "image/png",
+        etag: "anEtag",
+        last_modified: new Date("2021-10-04T10:00:00.000Z"),
+        metadata: { uploadedBy: "admin" },
+        url: "LOGOS_URL/services/aserviceid.png"
+      });
+    }
+  });
+
+  it("should return a not found error if the logo does not exist", async () => {
+    const handler = GetServiceLogoHandler(
+      getBlobServiceMock({ statusCode: 404 }, null, 404),
+      "LOGOS_URL"
+    );
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return an internal error if the storage cannot be reached", async () => {
+    const handler = GetServiceLogoHandler(
+      getBlobServiceMock(new Error("Connection error"), null, 500),
+      "LOGOS_URL"
+    );
+
+    const response = await handler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorInternal");
+  });
+});
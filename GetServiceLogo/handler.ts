@@ -0,0 +1,102 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+
+import { BlobService } from "azure-storage";
+
+import { LogoInfo } from "../generated/definitions/LogoInfo";
+import {
+  getLogoBlobProperties,
+  getServiceLogoBaseName,
+  LOGOS_CONTAINER_NAME,
+  toLogoInfo
+} from "../utils/logo";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+
+type IGetServiceLogoHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId
+) => Promise<
+  | IResponseSuccessJson<LogoInfo>
+  | IResponseErrorValidation
+  | IResponseErrorNotFound
+  | IResponseErrorInternal
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceLogoHandler(
+  blobService: BlobService,
+  logosUrl: string
+): IGetServiceLogoHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId) => {
+    const blobName = `${getServiceLogoBaseName(serviceId)}.png`;
+    return pipe(
+      getLogoBlobProperties(blobService, LOGOS_CONTAINER_NAME, blobName),
+      TE.mapLeft(err =>
+        ResponseErrorInternal(
+          `Error trying to connect to storage ${err.message}`
+        )
+      ),
+      TE.chainW(
+        TE.fromOption(() =>
+          ResponseErrorNotFound(
+            "Logo not found",
+            "Could not find a logo for the provided serviceId"
+          )
+        )
+      ),
+      TE.map(toLogoInfo(`${logosUrl}/${LOGOS_CONTAINER_NAME}/${blobName}`)),
+      TE.map(ResponseSuccessJson),
+      TE.toUnion
+    )();
+  };
+}
+
+/**
+ * Wraps a GetServiceLogo handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceLogo(
+  blobService: BlobService,
+  logosUrl: string
+): express.RequestHandler {
+  const handler = GetServiceLogoHandler(blobService, logosUrl);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceRead group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceRead])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
@@ -0,0 +1,73 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { aRetrievedService, aSeralizedService } from "../../__mocks__/mocks";
+import { GetServiceVersionHandler } from "../handler";
+
+const aServiceId = "MySubscriptionId" as NonEmptyString;
+const aVersion = 1 as NonNegativeInteger;
+
+describe("GetServiceVersionHandler", () => {
+  it("should return the requested version of the service", async () => {
+    const mockServiceModel = {
+      find: jest.fn(() => TE.right(some(aRetrievedService)))
+    };
+
+    const handler = GetServiceVersionHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      aVersion
+    );
+
+    expect(mockServiceModel.find).toHaveBeenCalledWith([
+      `${aServiceId}-0000000000000001`,
+      aServiceId
+    ]);
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual(aSeralizedService);
+    }
+  });
+
+  it("should return a not found error when the version does not exist", async () => {
+    const mockServiceModel = {
+      find: jest.fn(() => TE.right(none))
+    };
+
+    const handler = GetServiceVersionHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      aVersion
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return a query error when a database error occurs", async () => {
+    const mockServiceModel = {
+      find: jest.fn(() =>
+        TE.left(toCosmosErrorResponse({ kind: "COSMOS_ERROR_RESPONSE" }))
+      )
+    };
+
+    const handler = GetServiceVersionHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      aVersion
+    );
+
+    expect(response.kind).toBe("IResponseErrorQuery");
+  });
+});
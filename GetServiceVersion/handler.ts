@@ -0,0 +1,81 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import * as TE from "fp-ts/lib/TaskEither";
+import { pipe } from "fp-ts/lib/function";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import { Service as ApiService } from "@pagopa/io-functions-commons/dist/generated/definitions/Service";
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import { ServiceModel } from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { IResponseErrorQuery } from "@pagopa/io-functions-commons/dist/src/utils/response";
+
+import { retrievedServiceToApiService } from "../utils/conversions";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+import { ServiceVersionMiddleware } from "../utils/middlewares/serviceVersion";
+import { findServiceVersion } from "../utils/serviceVersions";
+
+type IGetServiceVersionHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId,
+  version: NonNegativeInteger
+) => Promise<
+  | IResponseSuccessJson<ApiService>
+  | IResponseErrorQuery
+  | IResponseErrorNotFound
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceVersionHandler(
+  serviceModel: ServiceModel
+): IGetServiceVersionHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId, version) =>
+    pipe(
+      findServiceVersion(serviceModel, serviceId, version),
+      TE.map(retrievedServiceToApiService),
+      TE.map(ResponseSuccessJson),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a GetServiceVersion handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceVersion(
+  serviceModel: ServiceModel
+): express.RequestHandler {
+  const handler = GetServiceVersionHandler(serviceModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceRead group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceRead])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware,
+    // Extracts the version from the URL path parameter
+    ServiceVersionMiddleware("version")
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
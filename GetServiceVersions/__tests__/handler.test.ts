@@ -0,0 +1,91 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { left, right } from "fp-ts/lib/Either";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { aRetrievedService } from "../../__mocks__/mocks";
+import { GetServiceVersionsHandler } from "../handler";
+
+const aServiceId = "MySubscriptionId" as NonEmptyString;
+
+const mockQueryIterator = (pages: ReadonlyArray<ReadonlyArray<any>>) =>
+  jest.fn(() =>
+    (async function*() {
+      yield* pages;
+    })()
+  );
+
+describe("GetServiceVersionsHandler", () => {
+  it("should return the versions of the service sorted by version", async () => {
+    const mockServiceModel = {
+      getQueryIterator: mockQueryIterator([
+        [
+          right({ ...aRetrievedService, _ts: 3, id: "s-2", version: 2 }),
+          right({ ...aRetrievedService, _ts: 1, id: "s-0", version: 0 })
+        ],
+        [
+          right({ ...aRetrievedService, _ts: 2, id: "s-1", version: 1 }),
+          left(new Error("invalid document"))
+        ]
+      ])
+    };
+
+    const handler = GetServiceVersionsHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(mockServiceModel.getQueryIterator).toHaveBeenCalledWith({
+      parameters: [{ name: "@serviceId", value: aServiceId }],
+      query: "SELECT * FROM c WHERE c.serviceId = @serviceId"
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        items: [
+          { id: "s-0", updated_at: new Date(1000), version: 0 },
+          { id: "s-1", updated_at: new Date(2000), version: 1 },
+          { id: "s-2", updated_at: new Date(3000), version: 2 }
+        ]
+      });
+    }
+  });
+
+  it("should return a not found error when the service has no versions", async () => {
+    const mockServiceModel = {
+      getQueryIterator: mockQueryIterator([])
+    };
+
+    const handler = GetServiceVersionsHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return a query error when a database error occurs", async () => {
+    const mockServiceModel = {
+      getQueryIterator: jest.fn(() =>
+        (async function*() {
+          throw toCosmosErrorResponse(new Error("Query Error"));
+        })()
+      )
+    };
+
+    const handler = GetServiceVersionsHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId
+    );
+
+    expect(response.kind).toBe("IResponseErrorQuery");
+  });
+});
@@ -0,0 +1,91 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import { pipe } from "fp-ts/lib/function";
+
+import {
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import { ServiceModel } from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { IResponseErrorQuery } from "@pagopa/io-functions-commons/dist/src/utils/response";
+
+import { ServiceVersionCollection } from "../generated/definitions/ServiceVersionCollection";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+import {
+  getServiceVersions,
+  retrievedServiceToServiceVersion
+} from "../utils/serviceVersions";
+
+type IGetServiceVersionsHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId
+) => Promise<
+  | IResponseSuccessJson<ServiceVersionCollection>
+  | IResponseErrorQuery
+  | IResponseErrorNotFound
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceVersionsHandler(
+  serviceModel: ServiceModel
+): IGetServiceVersionsHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId) =>
+    pipe(
+      getServiceVersions(serviceModel, serviceId),
+      TE.chainW(
+        TE.fromPredicate(RA.isNonEmpty, () =>
+          ResponseErrorNotFound(
+            "Service not found",
+            "The service you requested was not found in the system."
+          )
+        )
+      ),
+      TE.map(versions =>
+        ResponseSuccessJson({
+          items: versions.map(retrievedServiceToServiceVersion)
+        })
+      ),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a GetServiceVersions handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceVersions(
+  serviceModel: ServiceModel
+): express.RequestHandler {
+  const handler = GetServiceVersionsHandler(serviceModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceRead group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceRead])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
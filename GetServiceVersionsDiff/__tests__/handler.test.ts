@@ -0,0 +1,97 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { toAuthorizedCIDRs } from "@pagopa/io-functions-commons/dist/src/models/service";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { aRetrievedService } from "../../__mocks__/mocks";
+import { GetServiceVersionsDiffHandler } from "../handler";
+
+const aServiceId = "MySubscriptionId" as NonEmptyString;
+
+const aPreviousVersion = {
+  ...aRetrievedService,
+  _ts: 1,
+  id: "MySubscriptionId-0000000000000001",
+  version: 1
+};
+
+const aNextVersion = {
+  ...aRetrievedService,
+  _ts: 2,
+  authorizedCIDRs: toAuthorizedCIDRs(["192.168.0.1/32" as any]),
+  id: "MySubscriptionId-0000000000000002",
+  maxAllowedPaymentAmount: 1000,
+  version: 2
+};
+
+describe("GetServiceVersionsDiffHandler", () => {
+  it("should return the changed fields between two versions", async () => {
+    const mockServiceModel = {
+      find: jest
+        .fn()
+        .mockImplementationOnce(() => TE.right(some(aPreviousVersion)))
+        .mockImplementationOnce(() => TE.right(some(aNextVersion)))
+    };
+
+    const handler = GetServiceVersionsDiffHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      1 as NonNegativeInteger,
+      2 as NonNegativeInteger
+    );
+
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        changes: [
+          {
+            field: "authorized_cidrs",
+            new_value: '["192.168.0.1/32"]',
+            old_value: "[]"
+          },
+          {
+            field: "max_allowed_payment_amount",
+            new_value: "1000",
+            old_value: "1"
+          }
+        ],
+        from: {
+          id: aPreviousVersion.id,
+          updated_at: new Date(1000),
+          version: 1
+        },
+        to: {
+          id: aNextVersion.id,
+          updated_at: new Date(2000),
+          version: 2
+        }
+      });
+    }
+  });
+
+  it("should return a not found error when one of the versions does not exist", async () => {
+    const mockServiceModel = {
+      find: jest
+        .fn()
+        .mockImplementationOnce(() => TE.right(some(aPreviousVersion)))
+        .mockImplementationOnce(() => TE.right(none))
+    };
+
+    const handler = GetServiceVersionsDiffHandler(mockServiceModel as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      1 as NonNegativeInteger,
+      3 as NonNegativeInteger
+    );
+
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+});
@@ -0,0 +1,102 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import * as TE from "fp-ts/lib/TaskEither";
+import { pipe } from "fp-ts/lib/function";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import { ServiceModel } from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { IResponseErrorQuery } from "@pagopa/io-functions-commons/dist/src/utils/response";
+
+import { ServiceVersionsDiff } from "../generated/definitions/ServiceVersionsDiff";
+import { retrievedServiceToApiService } from "../utils/conversions";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+import { ServiceVersionMiddleware } from "../utils/middlewares/serviceVersion";
+import {
+  diffApiServices,
+  findServiceVersion,
+  retrievedServiceToServiceVersion
+} from "../utils/serviceVersions";
+
+type IGetServiceVersionsDiffHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId,
+  version: NonNegativeInteger,
+  otherVersion: NonNegativeInteger
+) => Promise<
+  | IResponseSuccessJson<ServiceVersionsDiff>
+  | IResponseErrorQuery
+  | IResponseErrorNotFound
+>;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceVersionsDiffHandler(
+  serviceModel: ServiceModel
+): IGetServiceVersionsDiffHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId, version, otherVersion) =>
+    pipe(
+      TE.Do,
+      TE.bind("from", () =>
+        findServiceVersion(serviceModel, serviceId, version)
+      ),
+      TE.bindW("to", () =>
+        findServiceVersion(serviceModel, serviceId, otherVersion)
+      ),
+      TE.map(({ from, to }) =>
+        ResponseSuccessJson({
+          changes: diffApiServices(
+            retrievedServiceToApiService(from),
+            retrievedServiceToApiService(to)
+          ),
+          from: retrievedServiceToServiceVersion(from),
+          to: retrievedServiceToServiceVersion(to)
+        })
+      ),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a GetServiceVersionsDiff handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function GetServiceVersionsDiff(
+  serviceModel: ServiceModel
+): express.RequestHandler {
+  const handler = GetServiceVersionsDiffHandler(serviceModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceRead group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceRead])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware,
+    // Extracts the version to compare from
+    ServiceVersionMiddleware("version"),
+    // Extracts the version to compare to
+    ServiceVersionMiddleware("otherversion")
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
@@ -1,6 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { left, right } from "fp-ts/lib/Either";
+import { some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
 import * as asyncI from "@pagopa/io-functions-commons/dist/src/utils/async";
 import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import { aRetrievedService, aSeralizedService } from "../../__mocks__/mocks";
@@ -47,7 +49,10 @@ describe("GetServices", () => {
       getCollectionIterator: symbolAsyncErrorIterator
     };
 
-    const getServicesHandler = GetServicesHandler(mockServiceModel as any);
+    const getServicesHandler = GetServicesHandler(
+      mockServiceModel as any,
+      "api.example.com"
+    );
 
     const response = await getServicesHandler(
       undefined as any, // Not used
@@ -85,7 +90,10 @@ describe("GetServices", () => {
       getCollectionIterator: symbolAsyncIterator
     };
 
-    const getServicesHandler = GetServicesHandler(mockServiceModel as any);
+    const getServicesHandler = GetServicesHandler(
+      mockServiceModel as any,
+      "api.example.com"
+    );
 
     const response = await getServicesHandler(
       undefined as any, // Not used
@@ -106,4 +114,168 @@ describe("GetServices", () => {
       });
     }
   });
+
+  it("Should return a page of services with the link to the next one", async () => {
+    const aServiceWithId = (serviceId: string, version: number) => ({
+      ...aRetrievedService,
+      serviceId,
+      version
+    });
+    const mockServiceModel = {
+      getQueryIterator: jest.fn(() =>
+        (async function*() {
+          yield [
+            right(aServiceWithId("s1", 1)),
+            right(aServiceWithId("s1", 2)),
+            right(aServiceWithId("s2", 1))
+          ];
+          yield [right(aServiceWithId("s3", 1))];
+        })()
+      )
+    };
+
+    const getServicesHandler = GetServicesHandler(
+      mockServiceModel as any,
+      "api.example.com"
+    );
+
+    const response = await getServicesHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      2 as any,
+      undefined
+    );
+
+    expect(mockServiceModel.getQueryIterator).toHaveBeenCalledWith(
+      { query: "SELECT * FROM c ORDER BY c.serviceId ASC" },
+      { maxItemCount: 2 }
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        items: [
+          { id: "s1", version: 2 },
+          { id: "s2", version: 1 }
+        ],
+        next:
+          "https://api.example.com/adm/services?continuation_token=s2&page_size=2",
+        page_size: 2
+      });
+    }
+  });
+
+  it("Should read the page following the continuation token and filter on the latest version", async () => {
+    const mockServiceModel = {
+      // the versions matching the filters, as the query returns them
+      getQueryIterator: jest.fn(() =>
+        (async function*() {
+          yield [
+            right({ ...aRetrievedService, isVisible: true, serviceId: "s3" }),
+            right({ ...aRetrievedService, isVisible: true, serviceId: "s4" })
+          ];
+        })()
+      ),
+      findOneByServiceId: jest.fn((serviceId: string) =>
+        TE.of(
+          some(
+            serviceId === "s3"
+              ? {
+                  ...aRetrievedService,
+                  isVisible: false,
+                  serviceId: "s3",
+                  version: 2
+                }
+              : { ...aRetrievedService, isVisible: true, serviceId }
+          )
+        )
+      )
+    };
+
+    const getServicesHandler = GetServicesHandler(
+      mockServiceModel as any,
+      "api.example.com"
+    );
+
+    const response = await getServicesHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      undefined,
+      "s2" as any,
+      { is_visible: true }
+    );
+
+    expect(mockServiceModel.getQueryIterator).toHaveBeenCalledWith(
+      {
+        parameters: [
+          { name: "@continuationToken", value: "s2" },
+          { name: "@isVisible", value: true }
+        ],
+        query:
+          "SELECT * FROM c WHERE c.serviceId > @continuationToken AND c.isVisible = @isVisible ORDER BY c.serviceId ASC"
+      },
+      { maxItemCount: 100 }
+    );
+    expect(mockServiceModel.findOneByServiceId).toHaveBeenCalledWith("s3");
+    expect(mockServiceModel.findOneByServiceId).toHaveBeenCalledWith("s4");
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      // s3 is left out as its latest version is not visible
+      expect(response.value).toEqual({
+        items: [{ id: "s4", version: 1 }],
+        next: undefined,
+        page_size: 1
+      });
+    }
+  });
+
+  it("Should filter on organization and department in the query", async () => {
+    const mockServiceModel = {
+      getQueryIterator: jest.fn(() =>
+        (async function*() {
+          yield [right({ ...aRetrievedService, serviceId: "s1" })];
+        })()
+      ),
+      findOneByServiceId: jest.fn(() =>
+        TE.of(some({ ...aRetrievedService, serviceId: "s1" }))
+      )
+    };
+
+    const getServicesHandler = GetServicesHandler(
+      mockServiceModel as any,
+      "api.example.com"
+    );
+
+    const response = await getServicesHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      10 as any,
+      undefined,
+      {
+        department_name: aRetrievedService.departmentName,
+        organization_fiscal_code: aRetrievedService.organizationFiscalCode
+      }
+    );
+
+    expect(mockServiceModel.getQueryIterator).toHaveBeenCalledWith(
+      {
+        parameters: [
+          {
+            name: "@organizationFiscalCode",
+            value: aRetrievedService.organizationFiscalCode
+          },
+          {
+            name: "@departmentName",
+            value: aRetrievedService.departmentName
+          }
+        ],
+        query:
+          "SELECT * FROM c WHERE c.organizationFiscalCode = @organizationFiscalCode AND c.departmentName = @departmentName ORDER BY c.serviceId ASC"
+      },
+      { maxItemCount: 10 }
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.items).toEqual([{ id: "s1", version: 1 }]);
+    }
+  });
 });
@@ -1,8 +1,12 @@
+import { SqlParameter, SqlQuerySpec } from "@azure/cosmos";
 import { Context } from "@azure/functions";
 
 import * as express from "express";
 
-import { ServiceModel } from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  RetrievedService,
+  ServiceModel
+} from "@pagopa/io-functions-commons/dist/src/models/service";
 
 import {
   AzureApiAuthMiddleware,
@@ -21,87 +25,294 @@ import {
 
 import { pipe } from "fp-ts/lib/function";
 import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
 import * as TE from "fp-ts/lib/TaskEither";
-import * as RMAP from "fp-ts/lib/ReadonlyMap";
 import * as RA from "fp-ts/lib/ReadonlyArray";
 import {
-  asyncIteratorToArray,
-  flattenAsyncIterator
+  filterAsyncIterator,
+  flattenAsyncIterator,
+  mapAsyncIterator
 } from "@pagopa/io-functions-commons/dist/src/utils/async";
 import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import {
   IResponseSuccessJson,
   ResponseSuccessJson
 } from "@pagopa/ts-commons/lib/responses";
-import { Ord } from "fp-ts/lib/string";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { ServiceCollection } from "../generated/definitions/ServiceCollection";
 import { ServiceIdWithVersion } from "../generated/definitions/ServiceIdWithVersion";
+import { getMessageFromCosmosErrors } from "../utils/conversions";
+import {
+  ContinuationTokenMiddleware,
+  PageSize,
+  PageSizeMiddleware
+} from "../utils/middlewares/pagination";
+import {
+  ServiceFilters,
+  ServiceFiltersMiddleware
+} from "../utils/middlewares/service";
+import { getLatestServices } from "../utils/serviceVersions";
 
 type IGetServicesHandlerResult =
   | IResponseErrorQuery
-  | IResponseSuccessJson<{
-      readonly items: ReadonlyArray<ServiceIdWithVersion>;
-      readonly page_size: number;
-    }>;
+  | IResponseSuccessJson<ServiceCollection>;
 
 type IGetServicesHandler = (
   context: Context,
-  auth: IAzureApiAuthorization
+  auth: IAzureApiAuthorization,
+  pageSize?: PageSize,
+  continuationToken?: NonEmptyString,
+  filters?: ServiceFilters
 ) => Promise<IGetServicesHandlerResult>;
 
+interface IServicesPage {
+  readonly items: ReadonlyArray<RetrievedService>;
+  readonly hasMoreResults: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 100 as PageSize;
+
+const isMatchingService = (filters: ServiceFilters = {}) => (
+  service: RetrievedService
+): boolean =>
+  (filters.organization_fiscal_code === undefined ||
+    service.organizationFiscalCode === filters.organization_fiscal_code) &&
+  (filters.department_name === undefined ||
+    service.departmentName === filters.department_name) &&
+  (filters.is_visible === undefined ||
+    service.isVisible === filters.is_visible) &&
+  (filters.authorized_recipient === undefined ||
+    service.authorizedRecipients.has(filters.authorized_recipient));
+
+const toServiceIdWithVersion = (
+  service: RetrievedService
+): ServiceIdWithVersion => ({
+  id: service.serviceId,
+  version: service.version
+});
+
+/**
+ * Builds the query of the versions of services following the continuation token,
+ * sorted by serviceId, that match the filters on the service properties
+ */
+const getServicesPageQuery = (
+  continuationToken?: NonEmptyString,
+  filters: ServiceFilters = {}
+): SqlQuerySpec => {
+  const conditions: ReadonlyArray<readonly [
+    string,
+    SqlParameter | undefined
+  ]> = [
+    [
+      "c.serviceId > @continuationToken",
+      continuationToken && {
+        name: "@continuationToken",
+        value: continuationToken
+      }
+    ],
+    [
+      "c.organizationFiscalCode = @organizationFiscalCode",
+      filters.organization_fiscal_code && {
+        name: "@organizationFiscalCode",
+        value: filters.organization_fiscal_code
+      }
+    ],
+    [
+      "c.departmentName = @departmentName",
+      filters.department_name && {
+        name: "@departmentName",
+        value: filters.department_name
+      }
+    ],
+    [
+      "c.isVisible = @isVisible",
+      filters.is_visible === undefined
+        ? undefined
+        : { name: "@isVisible", value: filters.is_visible }
+    ]
+  ];
+  const matchingConditions = conditions.filter(
+    ([_, parameter]) => parameter !== undefined
+  );
+  return matchingConditions.length > 0
+    ? {
+        parameters: matchingConditions.map(([_, parameter]) => parameter),
+        query: `SELECT * FROM c WHERE ${matchingConditions
+          .map(([condition]) => condition)
+          .join(" AND ")} ORDER BY c.serviceId ASC`
+      }
+    : { query: "SELECT * FROM c ORDER BY c.serviceId ASC" };
+};
+
+const hasQueryFilters = (filters: ServiceFilters = {}): boolean =>
+  filters.organization_fiscal_code !== undefined ||
+  filters.department_name !== undefined ||
+  filters.is_visible !== undefined;
+
+/**
+ * Checks a service against the filters, reading its latest version
+ * when the one provided may not be the latest.
+ *
+ * When the query filters the versions, the latest version found
+ * of a service is the latest one only if the latest one matches.
+ */
+const isLatestMatchingService = (
+  serviceModel: ServiceModel,
+  filters?: ServiceFilters
+) => async (service: RetrievedService): Promise<boolean> =>
+  isMatchingService(filters)(service) &&
+  (!hasQueryFilters(filters) ||
+    pipe(
+      await serviceModel.findOneByServiceId(service.serviceId)(),
+      E.getOrElseW(error => {
+        throw new Error(getMessageFromCosmosErrors(error));
+      }),
+      O.exists(latest => latest.version === service.version)
+    ));
+
+/**
+ * Reads a page of services from an iterator of documents sorted by serviceId.
+ *
+ * Documents are grouped by serviceId to pick the latest version of each
+ * service, then filters are applied to the latest version only.
+ * The page is closed as soon as it is full and the next serviceId shows up,
+ * so that every version of the last service in the page has been read.
+ */
+const readServicesPage = async (
+  servicesIterator: AsyncIterator<RetrievedService>,
+  pageSize: PageSize,
+  isMatching: (service: RetrievedService) => Promise<boolean>
+): Promise<IServicesPage> => {
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const items: RetrievedService[] = [];
+  // eslint-disable-next-line functional/no-let
+  let latest: RetrievedService | undefined;
+  // eslint-disable-next-line functional/no-let
+  let next = await servicesIterator.next();
+
+  while (!next.done) {
+    const service: RetrievedService = next.value;
+    if (latest === undefined || latest.serviceId === service.serviceId) {
+      latest =
+        latest === undefined || service.version > latest.version
+          ? service
+          : latest;
+    } else {
+      if (await isMatching(latest)) {
+        // eslint-disable-next-line functional/immutable-data
+        items.push(latest);
+      }
+      if (items.length >= pageSize) {
+        return { hasMoreResults: true, items };
+      }
+      latest = service;
+    }
+    next = await servicesIterator.next();
+  }
+
+  return {
+    hasMoreResults: false,
+    items:
+      latest !== undefined && (await isMatching(latest))
+        ? [...items, latest]
+        : items
+  };
+};
+
+/**
+ * Reads a page of services starting right after the serviceId
+ * carried by the continuation token.
+ * Filters on the service properties are applied by the query,
+ * so that only the versions matching them are read.
+ */
+const getServicesPage = (
+  serviceModel: ServiceModel,
+  pageSize: PageSize,
+  continuationToken?: NonEmptyString,
+  filters?: ServiceFilters
+): TE.TaskEither<IResponseErrorQuery, IServicesPage> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        readServicesPage(
+          pipe(
+            serviceModel
+              .getQueryIterator(
+                getServicesPageQuery(continuationToken, filters),
+                { maxItemCount: pageSize }
+              )
+              [Symbol.asyncIterator](),
+            flattenAsyncIterator,
+            iterator => filterAsyncIterator(iterator, E.isRight),
+            iterator => mapAsyncIterator(iterator, e => e.right)
+          ),
+          pageSize,
+          isLatestMatchingService(serviceModel, filters)
+        ),
+      toCosmosErrorResponse
+    ),
+    TE.mapLeft(error => ResponseErrorQuery("Cannot get services", error))
+  );
+
+/**
+ * Builds the link to the page following the provided one,
+ * preserving page size and filters
+ */
+const getNextPageLink = (
+  azureApimHost: string,
+  pageSize: PageSize,
+  page: IServicesPage,
+  filters: ServiceFilters = {}
+): string | undefined =>
+  page.hasMoreResults && page.items.length > 0
+    ? `https://${azureApimHost}/adm/services?${new URLSearchParams({
+        ...ServiceFilters.encode(filters),
+        continuation_token: page.items[page.items.length - 1].serviceId,
+        page_size: pageSize.toString()
+      }).toString()}`
+    : undefined;
+
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function GetServicesHandler(
-  serviceModel: ServiceModel
+  serviceModel: ServiceModel,
+  azureApimHost: string
 ): IGetServicesHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-  return async (_, __) => {
-    const allRetrievedServicesIterator = serviceModel
-      .getCollectionIterator()
-      [Symbol.asyncIterator]();
-
-    return pipe(
-      TE.tryCatch(
-        () =>
-          asyncIteratorToArray(
-            flattenAsyncIterator(allRetrievedServicesIterator)
-          ),
-        toCosmosErrorResponse
-      ),
-      TE.mapLeft(error => ResponseErrorQuery("Cannot get services", error)),
-      TE.map(results =>
-        pipe(
-          results,
-          RA.filter(E.isRight),
-          RA.map(e => e.right),
-          // create a Map (serviceId, lastVersionNumber)
-          items =>
-            RA.reduce(
-              new Map<
-                typeof items[0]["serviceId"],
-                typeof items[0]["version"]
-              >(),
-              (prev, curr: typeof items[0]) => {
-                // keep only the latest version
-                const isNewer =
-                  !prev.has(curr.serviceId) ||
-                  curr.version > prev.get(curr.serviceId);
-                return isNewer ? prev.set(curr.serviceId, curr.version) : prev;
-              }
-            )(items),
-          // format into an array of { id, version }
-          RMAP.collect(Ord)((serviceId, version) => ({
-            id: serviceId,
-            version
-          })),
-          items =>
+  return async (_, __, pageSize, continuationToken, filters) =>
+    pageSize === undefined && continuationToken === undefined
+      ? pipe(
+          getLatestServices(serviceModel),
+          TE.map(RA.filter(isMatchingService(filters))),
+          TE.map(RA.map(toServiceIdWithVersion)),
+          TE.map(items =>
             ResponseSuccessJson({
               items,
               page_size: items.length
             })
-        )
-      ),
-      TE.toUnion
-    )();
-  };
+          ),
+          TE.toUnion
+        )()
+      : pipe(
+          getServicesPage(
+            serviceModel,
+            pageSize ?? DEFAULT_PAGE_SIZE,
+            continuationToken,
+            filters
+          ),
+          TE.map(page =>
+            ResponseSuccessJson({
+              items: page.items.map(toServiceIdWithVersion),
+              next: getNextPageLink(
+                azureApimHost,
+                pageSize ?? DEFAULT_PAGE_SIZE,
+                page,
+                filters
+              ),
+              page_size: page.items.length
+            })
+          ),
+          TE.toUnion
+        )();
 }
 
 /**
@@ -109,15 +320,22 @@ export function GetServicesHandler(
  */
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function GetServices(
-  serviceModel: ServiceModel
+  serviceModel: ServiceModel,
+  azureApimHost: string
 ): express.RequestHandler {
-  const handler = GetServicesHandler(serviceModel);
+  const handler = GetServicesHandler(serviceModel, azureApimHost);
 
   const middlewaresWrap = withRequestMiddlewares(
     // Extract Azure Functions bindings
     ContextMiddleware(),
     // Allow only users in the ApiServiceList group
-    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceList]))
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceList])),
+    // Extract the optional page size, enabling pagination
+    PageSizeMiddleware,
+    // Extract the token of the page to read
+    ContinuationTokenMiddleware,
+    // Extract the filters on the latest version of services
+    ServiceFiltersMiddleware
   );
 
   return wrapRequestHandler(middlewaresWrap(handler));
@@ -39,7 +39,7 @@ const app = express();
 secureExpressApp(app);
 
 // Add express route
-app.get("/adm/services", GetServices(serviceModel));
+app.get("/adm/services", GetServices(serviceModel, config.AZURE_APIM_HOST));
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
 
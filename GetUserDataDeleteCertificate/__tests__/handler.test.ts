@@ -0,0 +1,154 @@
+import { BlobService } from "azure-storage";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mocks";
+import {
+  generateSigningKeyPair,
+  VerificationKeyFromBase64
+} from "../../utils/crypto";
+import { IAzureGdprAuthorization } from "../../utils/middlewares/gdprAuth";
+import { UserDataBackupFolder } from "../../utils/userDataBackup";
+import {
+  SignedUserDataDeleteCertificate,
+  signUserDataDeleteCertificate
+} from "../../utils/userDataDeleteCertificate";
+import { getUserDataDeleteCertificateHandler } from "../handler";
+
+const anAuthorization = {
+  kind: "IAzureGdprAuthorization",
+  subscriptionId: "a-subscription-id",
+  userId: "an-admin"
+} as IAzureGdprAuthorization;
+
+const aContainerName = "user-data-delete-certificates";
+const {
+  privateKey: aSigningKey,
+  publicKey: aVerificationKey
+} = generateSigningKeyPair();
+
+const aCertificateOf = (backupFolder: string) =>
+  signUserDataDeleteCertificate(aSigningKey)({
+    backupFolder: backupFolder as UserDataBackupFolder,
+    collections: {
+      profiles: {
+        deleted: 1 as NonNegativeInteger,
+        remaining: 0 as NonNegativeInteger
+      }
+    },
+    fiscalCode: aFiscalCode,
+    verifiedAt: new Date("2021-10-01T10:00:00.000Z")
+  });
+
+const aPreviousBackupFolder = `${aFiscalCode}-DELETE-1633082400000`;
+const aLatestBackupFolder = `${aFiscalCode}-DELETE-1633168800000`;
+
+const certificates = new Map<string, string>([
+  [
+    `${aLatestBackupFolder}.json`,
+    JSON.stringify(
+      SignedUserDataDeleteCertificate.encode(
+        aCertificateOf(aLatestBackupFolder)
+      )
+    )
+  ],
+  [
+    `${aPreviousBackupFolder}.json`,
+    JSON.stringify(
+      SignedUserDataDeleteCertificate.encode(
+        aCertificateOf(aPreviousBackupFolder)
+      )
+    )
+  ]
+]);
+
+const mockListBlobsSegmentedWithPrefix = jest.fn((_, prefix: string, __, cb) =>
+  cb(null, {
+    entries: [...certificates.keys()]
+      .filter(name => name.startsWith(prefix))
+      .map(name => ({ name }))
+  })
+);
+const mockGetBlobToText = jest.fn((_, name: string, __, cb) =>
+  certificates.has(name)
+    ? cb(null, certificates.get(name))
+    : cb({ code: "BlobNotFound", message: "not found" })
+);
+const blobService = ({
+  getBlobToText: mockGetBlobToText,
+  listBlobsSegmentedWithPrefix: mockListBlobsSegmentedWithPrefix
+} as unknown) as BlobService;
+
+describe("getUserDataDeleteCertificateHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the certificate of the latest deletion", async () => {
+    const result = await getUserDataDeleteCertificateHandler(
+      blobService,
+      aContainerName,
+      aVerificationKey
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual(
+        expect.objectContaining({
+          certificate: expect.objectContaining({
+            backupFolder: aLatestBackupFolder,
+            verifiedAt: "2021-10-01T10:00:00.000Z"
+          }),
+          isSignatureValid: true,
+          publicKey: VerificationKeyFromBase64.encode(aVerificationKey)
+        })
+      );
+    }
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledWith(
+      aContainerName,
+      `${aFiscalCode}-DELETE-`,
+      undefined,
+      expect.any(Function)
+    );
+  });
+
+  it("should report a certificate signed with another key", async () => {
+    const result = await getUserDataDeleteCertificateHandler(
+      blobService,
+      aContainerName,
+      generateSigningKeyPair().publicKey
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value.isSignatureValid).toBe(false);
+    }
+  });
+
+  it("should return not found if no deletion has been certified", async () => {
+    mockListBlobsSegmentedWithPrefix.mockImplementationOnce((_, __, ___, cb) =>
+      cb(null, { entries: [] })
+    );
+
+    const result = await getUserDataDeleteCertificateHandler(
+      blobService,
+      aContainerName,
+      aVerificationKey
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should fail when certificates cannot be listed", async () => {
+    mockListBlobsSegmentedWithPrefix.mockImplementationOnce((_, __, ___, cb) =>
+      cb(new Error("any error"))
+    );
+
+    const result = await getUserDataDeleteCertificateHandler(
+      blobService,
+      aContainerName,
+      aVerificationKey
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorInternal");
+  });
+});
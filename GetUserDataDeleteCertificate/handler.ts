@@ -0,0 +1,108 @@
+import { KeyObject } from "crypto";
+import * as express from "express";
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { VerificationKeyFromBase64 } from "../utils/crypto";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  getLatestUserDataDeleteCertificate,
+  isValidUserDataDeleteCertificate,
+  SignedUserDataDeleteCertificate
+} from "../utils/userDataDeleteCertificate";
+
+type UserDataDeleteCertificateResponse = t.OutputOf<
+  typeof SignedUserDataDeleteCertificate
+> & {
+  // whether the certificate is the one signed after the deletion
+  readonly isSignatureValid: boolean;
+  // the key to verify the signature with, base64 encoded in SPKI DER format
+  readonly publicKey: string;
+};
+
+type Response =
+  | IResponseSuccessJson<UserDataDeleteCertificateResponse>
+  | IResponseErrorInternal
+  | IResponseErrorNotFound;
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  param1: FiscalCode
+) => Promise<Response>;
+
+/**
+ * Returns the certificate of the latest deletion of the user data,
+ * along with the result of the check of its signature
+ * and the public key to check it again with
+ */
+export const getUserDataDeleteCertificateHandler = (
+  blobService: BlobService,
+  containerName: string,
+  verificationKey: KeyObject
+): IHttpHandler => async (_, __, fiscalCode): Promise<Response> =>
+  pipe(
+    getLatestUserDataDeleteCertificate(blobService, containerName, fiscalCode),
+    TE.mapLeft(error =>
+      ResponseErrorInternal(`Cannot read the certificate: ${error.message}`)
+    ),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound(
+          "Certificate not found",
+          "No deletion has been certified for the user"
+        )
+      )
+    ),
+    TE.map(signedCertificate =>
+      ResponseSuccessJson({
+        ...SignedUserDataDeleteCertificate.encode(signedCertificate),
+        isSignatureValid: isValidUserDataDeleteCertificate(verificationKey)(
+          signedCertificate
+        ),
+        publicKey: VerificationKeyFromBase64.encode(verificationKey)
+      })
+    ),
+    TE.toUnion
+  )();
+
+export const getUserDataDeleteCertificate = (
+  blobService: BlobService,
+  containerName: string,
+  verificationKey: KeyObject
+): express.RequestHandler => {
+  const handler = getUserDataDeleteCertificateHandler(
+    blobService,
+    containerName,
+    verificationKey
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("fiscalCode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,49 @@
+import * as express from "express";
+import * as winston from "winston";
+
+import { Context } from "@azure/functions";
+import { createBlobService } from "azure-storage";
+import { secureExpressApp } from "@pagopa/io-functions-commons/dist/src/utils/express";
+import { AzureContextTransport } from "@pagopa/io-functions-commons/dist/src/utils/logging";
+import { setAppContext } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import createAzureFunctionHandler from "@pagopa/express-azure-functions/dist/src/createAzureFunctionsHandler";
+import { getConfigOrThrow } from "../utils/config";
+import { getUserDataDeleteCertificate } from "./handler";
+
+const config = getConfigOrThrow();
+
+const userDataBackupBlobService = createBlobService(
+  config.UserDataBackupStorageConnection
+);
+
+// eslint-disable-next-line functional/no-let
+let logger: Context["log"] | undefined;
+const contextTransport = new AzureContextTransport(() => logger, {
+  level: "debug"
+});
+winston.add(contextTransport);
+
+// Setup Express
+const app = express();
+secureExpressApp(app);
+
+// Add express route
+app.get(
+  "/adm/user-data-processing/DELETE/:fiscalCode/certificate",
+  getUserDataDeleteCertificate(
+    userDataBackupBlobService,
+    config.USER_DATA_DELETE_CERTIFICATE_CONTAINER_NAME,
+    config.USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY
+  )
+);
+
+const azureFunctionHandler = createAzureFunctionHandler(app);
+
+// Binds the express app to an Azure Function handler
+const httpStart = (context: Context): void => {
+  logger = context.log;
+  setAppContext(app, context);
+  azureFunctionHandler(context);
+};
+
+export default httpStart;
@@ -0,0 +1,211 @@
+import {
+  CosmosErrors,
+  toCosmosErrorResponse
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { context } from "../../__mocks__/durable-functions";
+import {
+  aFiscalCode,
+  aRetrievedMessageStatus,
+  aRetrievedMessageView,
+  aRetrievedMessageWithContent,
+  aRetrievedNotification,
+  aRetrievedNotificationStatus,
+  aRetrievedProfile,
+  aRetrievedServicePreferences
+} from "../../__mocks__/mocks";
+import { IAzureGdprAuthorization } from "../../utils/middlewares/gdprAuth";
+import { IUserDataReadOnlyModels } from "../../utils/userDataDeleteImpact";
+import { getUserDataDeleteImpactHandler } from "../handler";
+
+const anAuthorization = {
+  kind: "IAzureGdprAuthorization",
+  subscriptionId: "a-subscription-id",
+  userId: "an-admin"
+} as IAzureGdprAuthorization;
+
+const aMessageContainerName = "message-content";
+
+const asyncIteratorOf = <T>(items: T[]): AsyncIterator<T[]> => {
+  const data = [...items];
+  return {
+    next: async () => {
+      const value = data.shift();
+      return {
+        done: typeof value === "undefined",
+        value: [value]
+      };
+    }
+  };
+};
+
+const mockFindMessages = jest.fn(() =>
+  TE.of(asyncIteratorOf([E.right(aRetrievedMessageWithContent)]))
+);
+const mockFindMessageView = jest.fn(() => TE.of(some(aRetrievedMessageView)));
+const mockFindNotificationForMessage = jest.fn(() =>
+  TE.of(some(aRetrievedNotification))
+);
+
+const models = ({
+  messageModel: { findMessages: mockFindMessages },
+  messageStatusModel: {
+    findAllVersionsByModelId: jest.fn(() =>
+      asyncIteratorOf([E.right(aRetrievedMessageStatus)])
+    )
+  },
+  messageViewModel: { find: mockFindMessageView },
+  notificationModel: {
+    findNotificationForMessage: mockFindNotificationForMessage
+  },
+  notificationStatusModel: {
+    findAllVersionsByNotificationId: jest.fn(() =>
+      asyncIteratorOf([E.right(aRetrievedNotificationStatus)])
+    )
+  },
+  profileModel: {
+    findAllVersionsByModelId: jest.fn(() =>
+      asyncIteratorOf([E.right(aRetrievedProfile)])
+    )
+  },
+  servicePreferencesModel: {
+    findAllByFiscalCode: jest.fn(() =>
+      asyncIteratorOf([E.right(aRetrievedServicePreferences)])
+    )
+  }
+} as unknown) as IUserDataReadOnlyModels;
+
+const mockDoesBlobExist = jest.fn((_, __, cb) => cb(null, { exists: true }));
+const messageContentBlobService = ({
+  doesBlobExist: mockDoesBlobExist
+} as unknown) as BlobService;
+
+const aReportOf = (id: string) => ({ count: 1, ids: [id] });
+
+describe("getUserDataDeleteImpactHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should report the documents a deletion would remove", async () => {
+    const result = await getUserDataDeleteImpactHandler(
+      models,
+      messageContentBlobService,
+      aMessageContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual({
+        messageContents: aReportOf(`${aRetrievedMessageWithContent.id}.json`),
+        messageStatuses: aReportOf(aRetrievedMessageStatus.id),
+        messageViews: aReportOf(aRetrievedMessageWithContent.id),
+        messages: aReportOf(aRetrievedMessageWithContent.id),
+        notificationStatuses: aReportOf(aRetrievedNotificationStatus.id),
+        notifications: aReportOf(aRetrievedNotification.id),
+        profiles: aReportOf(aRetrievedProfile.id),
+        servicePreferences: aReportOf(aRetrievedServicePreferences.id)
+      });
+    }
+    expect(mockDoesBlobExist).toHaveBeenCalledWith(
+      aMessageContainerName,
+      `${aRetrievedMessageWithContent.id}.json`,
+      expect.any(Function)
+    );
+  });
+
+  it("should not report the documents that do not exist", async () => {
+    mockFindMessageView.mockImplementationOnce(() => TE.of(none));
+    mockFindNotificationForMessage.mockImplementationOnce(() =>
+      TE.left({
+        kind: "COSMOS_ERROR_RESPONSE",
+        error: { code: 404, name: "", message: "" }
+      } as CosmosErrors)
+    );
+    mockDoesBlobExist.mockImplementationOnce((_, __, cb) =>
+      cb(null, { exists: false })
+    );
+
+    const result = await getUserDataDeleteImpactHandler(
+      models,
+      messageContentBlobService,
+      aMessageContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual(
+        expect.objectContaining({
+          messageContents: { count: 0, ids: [] },
+          messageViews: { count: 0, ids: [] },
+          notificationStatuses: { count: 0, ids: [] },
+          notifications: { count: 0, ids: [] }
+        })
+      );
+    }
+  });
+
+  it("should report the documents of every page of messages", async () => {
+    const anotherMessage = {
+      ...aRetrievedMessageWithContent,
+      id: "ANOTHER_MESSAGE_ID"
+    };
+    // a page for each message
+    mockFindMessages.mockImplementationOnce(() =>
+      TE.of(
+        asyncIteratorOf([
+          E.right(aRetrievedMessageWithContent),
+          E.right(anotherMessage)
+        ])
+      )
+    );
+
+    const result = await getUserDataDeleteImpactHandler(
+      models,
+      messageContentBlobService,
+      aMessageContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value.messages).toEqual({
+        count: 2,
+        ids: [aRetrievedMessageWithContent.id, anotherMessage.id]
+      });
+      expect(result.value.messageViews.count).toBe(2);
+      expect(result.value.notificationStatuses.count).toBe(2);
+    }
+    expect(mockDoesBlobExist).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fail when documents cannot be read", async () => {
+    mockFindMessages.mockImplementationOnce(() =>
+      TE.left(toCosmosErrorResponse(new Error("any error")))
+    );
+
+    const result = await getUserDataDeleteImpactHandler(
+      models,
+      messageContentBlobService,
+      aMessageContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorInternal");
+  });
+
+  it("should fail when some documents cannot be decoded", async () => {
+    mockFindMessages.mockImplementationOnce(() =>
+      TE.of(asyncIteratorOf([E.left([])]))
+    );
+
+    const result = await getUserDataDeleteImpactHandler(
+      models,
+      messageContentBlobService,
+      aMessageContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,92 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import {
+  IResponseErrorInternal,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  getUserDataDeleteImpactReport,
+  IUserDataDeleteImpactReport,
+  IUserDataReadOnlyModels
+} from "../utils/userDataDeleteImpact";
+
+const logPrefix = "GetUserDataDeleteImpactHandler";
+
+type Response =
+  | IResponseSuccessJson<IUserDataDeleteImpactReport>
+  | IResponseErrorInternal;
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  param1: FiscalCode
+) => Promise<Response>;
+
+/**
+ * Reports the user data a deletion would remove, without touching them
+ */
+export const getUserDataDeleteImpactHandler = (
+  models: IUserDataReadOnlyModels,
+  messageContentBlobService: BlobService,
+  messageContentContainerName: string
+): IHttpHandler => async (context, auth, fiscalCode): Promise<Response> =>
+  pipe(
+    getUserDataDeleteImpactReport(
+      models,
+      messageContentBlobService,
+      messageContentContainerName,
+      fiscalCode
+    ),
+    TE.bimap(
+      error => {
+        context.log.error(
+          `${logPrefix}|Cannot build the report|ERROR=${error.message}`
+        );
+        return ResponseErrorInternal(
+          `Cannot build the report: ${error.message}`
+        );
+      },
+      report => {
+        context.log.info(`${logPrefix}|Report requested by ${auth.userId}`);
+        return ResponseSuccessJson(report);
+      }
+    ),
+    TE.toUnion
+  )();
+
+export const getUserDataDeleteImpact = (
+  models: IUserDataReadOnlyModels,
+  messageContentBlobService: BlobService,
+  messageContentContainerName: string
+): express.RequestHandler => {
+  const handler = getUserDataDeleteImpactHandler(
+    models,
+    messageContentBlobService,
+    messageContentContainerName
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("fiscalCode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
@@ -0,0 +1,91 @@
+import * as express from "express";
+import * as winston from "winston";
+
+import { Context } from "@azure/functions";
+import { createBlobService } from "azure-storage";
+import { MESSAGE_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message";
+import { MESSAGE_STATUS_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message_status";
+import { MESSAGE_VIEW_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message_view";
+import { NOTIFICATION_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/notification";
+import { NOTIFICATION_STATUS_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/notification_status";
+import { PROFILE_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/profile";
+import { SERVICE_PREFERENCES_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/service_preference";
+import { secureExpressApp } from "@pagopa/io-functions-commons/dist/src/utils/express";
+import { AzureContextTransport } from "@pagopa/io-functions-commons/dist/src/utils/logging";
+import { setAppContext } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import createAzureFunctionHandler from "@pagopa/express-azure-functions/dist/src/createAzureFunctionsHandler";
+import { getConfigOrThrow } from "../utils/config";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { MessageDeletableModel } from "../utils/extensions/models/message";
+import { MessageStatusDeletableModel } from "../utils/extensions/models/message_status";
+import { MessageViewDeletableModel } from "../utils/extensions/models/message_view";
+import { NotificationDeletableModel } from "../utils/extensions/models/notification";
+import { NotificationStatusDeletableModel } from "../utils/extensions/models/notification_status";
+import { ProfileDeletableModel } from "../utils/extensions/models/profile";
+import { ServicePreferencesDeletableModel } from "../utils/extensions/models/service_preferences";
+import { getUserDataDeleteImpact } from "./handler";
+
+const config = getConfigOrThrow();
+
+const database = cosmosdbClient.database(config.COSMOSDB_NAME);
+
+// the same models the deletion uses, only their read operations are exposed
+const models = {
+  messageModel: new MessageDeletableModel(
+    database.container(MESSAGE_COLLECTION_NAME),
+    config.MESSAGE_CONTAINER_NAME
+  ),
+  messageStatusModel: new MessageStatusDeletableModel(
+    database.container(MESSAGE_STATUS_COLLECTION_NAME)
+  ),
+  messageViewModel: new MessageViewDeletableModel(
+    database.container(MESSAGE_VIEW_COLLECTION_NAME)
+  ),
+  notificationModel: new NotificationDeletableModel(
+    database.container(NOTIFICATION_COLLECTION_NAME)
+  ),
+  notificationStatusModel: new NotificationStatusDeletableModel(
+    database.container(NOTIFICATION_STATUS_COLLECTION_NAME)
+  ),
+  profileModel: new ProfileDeletableModel(
+    database.container(PROFILE_COLLECTION_NAME)
+  ),
+  servicePreferencesModel: new ServicePreferencesDeletableModel(
+    database.container(SERVICE_PREFERENCES_COLLECTION_NAME),
+    SERVICE_PREFERENCES_COLLECTION_NAME
+  )
+};
+
+const messageContentBlobService = createBlobService(config.StorageConnection);
+
+// eslint-disable-next-line functional/no-let
+let logger: Context["log"] | undefined;
+const contextTransport = new AzureContextTransport(() => logger, {
+  level: "debug"
+});
+winston.add(contextTransport);
+
+// Setup Express
+const app = express();
+secureExpressApp(app);
+
+// Add express route
+app.get(
+  "/adm/user-data-processing/DELETE/:fiscalCode/impact",
+  getUserDataDeleteImpact(
+    models,
+    messageContentBlobService,
+    config.MESSAGE_CONTAINER_NAME
+  )
+);
+
+const azureFunctionHandler = createAzureFunctionHandler(app);
+
+// Binds the express app to an Azure Function handler
+const httpStart = (context: Context): void => {
+  logger = context.log;
+  setAppContext(app, context);
+  azureFunctionHandler(context);
+};
+
+export default httpStart;
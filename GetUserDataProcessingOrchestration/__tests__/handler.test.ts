@@ -0,0 +1,136 @@
+import { UserDataProcessingChoiceEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingChoice";
+import { OrchestrationRuntimeStatus } from "durable-functions/lib/src/classes";
+import { context, mockGetStatus } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mocks";
+import { GetUserDataProcessingOrchestrationHandler } from "../handler";
+
+const aCreatedTime = "2021-10-01T10:00:00.000Z";
+const aLastUpdatedTime = "2021-10-01T10:05:00.000Z";
+const aWakeUpAt = "2021-10-08T10:00:00.000Z";
+
+const anOrchestrationStatus = {
+  createdTime: aCreatedTime,
+  customStatus: {
+    step: "WAITING_FOR_ABORT",
+    updatedAt: aLastUpdatedTime,
+    wakeUpAt: aWakeUpAt
+  },
+  instanceId: `${aFiscalCode}-USER-DATA-DELETE`,
+  lastUpdatedTime: aLastUpdatedTime,
+  runtimeStatus: OrchestrationRuntimeStatus.Running
+};
+
+describe("GetUserDataProcessingOrchestrationHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the progress of the orchestration", async () => {
+    mockGetStatus.mockImplementationOnce(async () => anOrchestrationStatus);
+
+    const result = await GetUserDataProcessingOrchestrationHandler()(
+      context,
+      null, // Not used
+      UserDataProcessingChoiceEnum.DELETE,
+      aFiscalCode
+    );
+
+    expect(mockGetStatus).toHaveBeenCalledWith(
+      `${aFiscalCode}-USER-DATA-DELETE`
+    );
+    expect(result).toMatchObject({
+      kind: "IResponseSuccessJson",
+      value: {
+        createdTime: new Date(aCreatedTime),
+        instanceId: `${aFiscalCode}-USER-DATA-DELETE`,
+        lastUpdatedTime: new Date(aLastUpdatedTime),
+        runtimeStatus: OrchestrationRuntimeStatus.Running,
+        step: "WAITING_FOR_ABORT",
+        wakeUpAt: new Date(aWakeUpAt)
+      }
+    });
+  });
+
+  it("should return the last failure of a failed orchestration", async () => {
+    const aFailure = {
+      activityName: "ExtractUserDataActivity",
+      kind: "ACTIVITY",
+      reason: "a reason"
+    };
+    mockGetStatus.mockImplementationOnce(async () => ({
+      ...anOrchestrationStatus,
+      customStatus: {
+        lastFailure: aFailure,
+        step: "FAILED",
+        updatedAt: aLastUpdatedTime
+      },
+      instanceId: `${aFiscalCode}-USER-DATA-DOWNLOAD`,
+      runtimeStatus: OrchestrationRuntimeStatus.Completed
+    }));
+
+    const result = await GetUserDataProcessingOrchestrationHandler()(
+      context,
+      null, // Not used
+      UserDataProcessingChoiceEnum.DOWNLOAD,
+      aFiscalCode
+    );
+
+    expect(mockGetStatus).toHaveBeenCalledWith(
+      `${aFiscalCode}-USER-DATA-DOWNLOAD`
+    );
+    expect(result).toMatchObject({
+      kind: "IResponseSuccessJson",
+      value: { lastFailure: aFailure, step: "FAILED" }
+    });
+  });
+
+  it("should return the status without the step if the orchestration does not publish it", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      ...anOrchestrationStatus,
+      customStatus: null
+    }));
+
+    const result = await GetUserDataProcessingOrchestrationHandler()(
+      context,
+      null, // Not used
+      UserDataProcessingChoiceEnum.DELETE,
+      aFiscalCode
+    );
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value.step).toBeUndefined();
+      expect(result.value.runtimeStatus).toBe(
+        OrchestrationRuntimeStatus.Running
+      );
+    }
+  });
+
+  it("should return not found if no orchestration has been started", async () => {
+    mockGetStatus.mockImplementationOnce(async () => undefined);
+
+    const result = await GetUserDataProcessingOrchestrationHandler()(
+      context,
+      null, // Not used
+      UserDataProcessingChoiceEnum.DELETE,
+      aFiscalCode
+    );
+
+    expect(result.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return an internal error if the status cannot be read", async () => {
+    mockGetStatus.mockImplementationOnce(async () => {
+      throw new Error("an error");
+    });
+
+    const result = await GetUserDataProcessingOrchestrationHandler()(
+      context,
+      null, // Not used
+      UserDataProcessingChoiceEnum.DELETE,
+      aFiscalCode
+    );
+
+    expect(result.kind).toBe("IResponseErrorInternal");
+  });
+});
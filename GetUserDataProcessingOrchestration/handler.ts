@@ -0,0 +1,95 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import * as df from "durable-functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { UserDataProcessingChoice } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingChoice";
+import * as E from "fp-ts/lib/Either";
+import * as TE from "fp-ts/lib/TaskEither";
+import { pipe } from "fp-ts/lib/function";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  IUserDataProcessingOrchestration,
+  makeUserDataProcessingOrchestratorId,
+  toUserDataProcessingOrchestration
+} from "../utils/userDataProcessingOrchestration";
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  param1: UserDataProcessingChoice,
+  param2: FiscalCode
+) => Promise<
+  | IResponseSuccessJson<IUserDataProcessingOrchestration>
+  | IResponseErrorInternal
+  | IResponseErrorNotFound
+>;
+
+/**
+ * Reads the progress of the orchestration processing
+ * the request of a user
+ */
+export const GetUserDataProcessingOrchestrationHandler = (): IHttpHandler => async (
+  context,
+  __,
+  choice,
+  fiscalCode
+): Promise<
+  | IResponseSuccessJson<IUserDataProcessingOrchestration>
+  | IResponseErrorInternal
+  | IResponseErrorNotFound
+> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        df
+          .getClient(context)
+          .getStatus(makeUserDataProcessingOrchestratorId(choice, fiscalCode)),
+      E.toError
+    ),
+    TE.mapLeft(er => ResponseErrorInternal(er.message)),
+    // the status of an unknown instance has no runtime status
+    TE.chainW(
+      TE.fromPredicate(
+        status => status?.runtimeStatus !== undefined,
+        () =>
+          ResponseErrorNotFound(
+            "Not found!",
+            "No orchestration found for the request."
+          )
+      )
+    ),
+    TE.map(toUserDataProcessingOrchestration),
+    TE.map(ResponseSuccessJson),
+    TE.toUnion
+  )();
+
+export const GetUserDataProcessingOrchestration = (): express.RequestHandler => {
+  const handler = GetUserDataProcessingOrchestrationHandler();
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("choice", UserDataProcessingChoice),
+    RequiredParamMiddleware("fiscalCode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
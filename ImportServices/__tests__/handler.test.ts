@@ -0,0 +1,140 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+
+import { aRetrievedService, aServicePayload } from "../../__mocks__/mocks";
+import { ImportServicesHandler } from "../handler";
+
+const aNewServicePayload = {
+  ...aServicePayload,
+  service_id: "NewServiceId"
+};
+
+const getServiceModelMock = () => ({
+  create: jest.fn((service: any) =>
+    TE.right({ ...aRetrievedService, ...service, version: 0 })
+  ),
+  findOneByServiceId: jest.fn((serviceId: string) =>
+    TE.right(
+      serviceId === aRetrievedService.serviceId
+        ? O.some(aRetrievedService)
+        : O.none
+    )
+  ),
+  update: jest.fn((service: any) =>
+    TE.right({ ...service, version: service.version + 1 })
+  )
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("ImportServicesHandler", () => {
+  it("should create missing services and update existing ones", async () => {
+    const serviceModelMock = getServiceModelMock();
+    const handler = ImportServicesHandler(serviceModelMock as any);
+
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      O.none,
+      [aServicePayload, aNewServicePayload]
+        .map(_ => JSON.stringify(_))
+        .join("\n")
+    );
+
+    expect(serviceModelMock.update).toHaveBeenCalledTimes(1);
+    expect(serviceModelMock.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: "INewService",
+        serviceId: "NewServiceId"
+      })
+    );
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        items: [
+          {
+            outcome: "UPDATED",
+            row: 1,
+            service_id: aServicePayload.service_id,
+            version: aRetrievedService.version + 1
+          },
+          {
+            outcome: "CREATED",
+            row: 2,
+            service_id: "NewServiceId",
+            version: 0
+          }
+        ]
+      });
+    }
+  });
+
+  it("should report invalid and failed rows without stopping the import", async () => {
+    const serviceModelMock = {
+      ...getServiceModelMock(),
+      create: jest.fn(() =>
+        TE.left(toCosmosErrorResponse(new Error("Conflict")))
+      )
+    };
+    const handler = ImportServicesHandler(serviceModelMock as any);
+
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      O.some("csv"),
+      [
+        "service_id,service_name,organization_name,organization_fiscal_code,department_name,authorized_cidrs,authorized_recipients",
+        `NewServiceId,name,org,${aServicePayload.organization_fiscal_code},dept,[],[]`,
+        `InvalidServiceId,name,org,${aServicePayload.organization_fiscal_code},dept,not-json,[]`,
+        `${aServicePayload.service_id},name,org,${aServicePayload.organization_fiscal_code},dept,[],"[""AAAAAA00A00A000A""]"`
+      ].join("\r\n")
+    );
+
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value.items).toEqual([
+        expect.objectContaining({
+          outcome: "FAILED",
+          row: 1,
+          service_id: "NewServiceId"
+        }),
+        expect.objectContaining({
+          outcome: "INVALID",
+          row: 2,
+          service_id: "InvalidServiceId"
+        }),
+        expect.objectContaining({
+          outcome: "UPDATED",
+          row: 3,
+          service_id: aServicePayload.service_id
+        })
+      ]);
+    }
+    expect(serviceModelMock.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        authorizedRecipients: new Set(["AAAAAA00A00A000A"])
+      })
+    );
+  });
+
+  it("should reject a malformed CSV payload", async () => {
+    const serviceModelMock = getServiceModelMock();
+    const handler = ImportServicesHandler(serviceModelMock as any);
+
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      O.some("csv"),
+      'service_id,service_name\n"unterminated,name'
+    );
+
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(serviceModelMock.findOneByServiceId).not.toHaveBeenCalled();
+  });
+});
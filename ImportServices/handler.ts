@@ -0,0 +1,203 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import { Service as ApiService } from "@pagopa/io-functions-commons/dist/generated/definitions/Service";
+import {
+  RetrievedService,
+  ServiceModel
+} from "@pagopa/io-functions-commons/dist/src/models/service";
+import { CosmosErrors } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { OptionalQueryParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/optional_query_param";
+import { RequiredBodyPayloadMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_body_payload";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import {
+  IResponseErrorValidation,
+  IResponseSuccessJson,
+  ResponseErrorValidation,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as T from "fp-ts/lib/Task";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+
+import { ServicesImportReport } from "../generated/definitions/ServicesImportReport";
+import {
+  OutcomeEnum,
+  ServicesImportResult
+} from "../generated/definitions/ServicesImportResult";
+import {
+  apiServiceToService,
+  getMessageFromCosmosErrors
+} from "../utils/conversions";
+import {
+  DEFAULT_SERVICES_TRANSFER_FORMAT,
+  parseServices,
+  ServicesTransferFormat
+} from "../utils/servicesTransfer";
+
+type IImportServicesHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  maybeFormat: O.Option<ServicesTransferFormat>,
+  payload: string
+) => Promise<
+  IResponseSuccessJson<ServicesImportReport> | IResponseErrorValidation
+>;
+
+/**
+ * Creates the service if it does not exist yet,
+ * otherwise writes a new version of it, as UpdateService does.
+ */
+const upsertService = (
+  serviceModel: ServiceModel,
+  service: ApiService
+): TE.TaskEither<CosmosErrors, Omit<ServicesImportResult, "row">> =>
+  pipe(
+    serviceModel.findOneByServiceId(service.service_id),
+    TE.chain(
+      O.fold<
+        RetrievedService,
+        TE.TaskEither<CosmosErrors, Omit<ServicesImportResult, "row">>
+      >(
+        () =>
+          pipe(
+            serviceModel.create({
+              ...apiServiceToService(service),
+              kind: "INewService"
+            }),
+            TE.map(createdService => ({
+              outcome: OutcomeEnum.CREATED,
+              version: createdService.version
+            }))
+          ),
+        existingService =>
+          pipe(
+            serviceModel.update({
+              ...existingService,
+              ...apiServiceToService(service)
+            }),
+            TE.map(updatedService => ({
+              outcome: OutcomeEnum.UPDATED,
+              version: updatedService.version
+            }))
+          )
+      )
+    )
+  );
+
+// the service_id of a row that cannot be validated, if any
+const getRawServiceId = (rawService: unknown): string | undefined =>
+  pipe(
+    t.type({ service_id: t.string }).decode(rawService),
+    E.fold(
+      () => undefined,
+      _ => _.service_id
+    )
+  );
+
+/**
+ * Validates a single row with the same codec used by CreateService
+ * and UpdateService, then imports it.
+ * Rows are numbered starting from 1.
+ */
+const importService = (serviceModel: ServiceModel) => (
+  index: number,
+  rawService: unknown
+): T.Task<ServicesImportResult> =>
+  pipe(
+    ApiService.decode(rawService),
+    E.mapLeft(
+      (errors): ServicesImportResult => ({
+        detail: readableReport(errors),
+        outcome: OutcomeEnum.INVALID,
+        row: index + 1,
+        service_id: getRawServiceId(rawService)
+      })
+    ),
+    TE.fromEither,
+    TE.chain(service =>
+      pipe(
+        upsertService(serviceModel, service),
+        TE.bimap(
+          (error): ServicesImportResult => ({
+            detail: getMessageFromCosmosErrors(error),
+            outcome: OutcomeEnum.FAILED,
+            row: index + 1,
+            service_id: service.service_id
+          }),
+          result => ({
+            ...result,
+            row: index + 1,
+            service_id: service.service_id
+          })
+        )
+      )
+    ),
+    TE.toUnion
+  );
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function ImportServicesHandler(
+  serviceModel: ServiceModel
+): IImportServicesHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, maybeFormat, payload) =>
+    pipe(
+      parseServices(
+        pipe(
+          maybeFormat,
+          O.getOrElse(() => DEFAULT_SERVICES_TRANSFER_FORMAT)
+        ),
+        payload
+      ),
+      E.mapLeft(error =>
+        ResponseErrorValidation("Malformed services payload", error.message)
+      ),
+      TE.fromEither,
+      // rows are imported one at a time to keep the load on cosmos low
+      TE.chainTaskK(
+        RA.traverseWithIndex(T.ApplicativeSeq)(importService(serviceModel))
+      ),
+      TE.map(items => ResponseSuccessJson({ items })),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps an ImportServices handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function ImportServices(
+  serviceModel: ServiceModel
+): express.RequestHandler {
+  const handler = ImportServicesHandler(serviceModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceWrite group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceWrite])),
+    // Extract the optional format of the payload
+    OptionalQueryParamMiddleware("format", ServicesTransferFormat),
+    // Extract the services to import, as plain text
+    RequiredBodyPayloadMiddleware(t.string)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
@@ -0,0 +1,92 @@
+import { BlobService } from "azure-storage";
+import { context } from "../../__mocks__/durable-functions";
+import { aFiscalCode } from "../../__mocks__/mocks";
+import { IAzureGdprAuthorization } from "../../utils/middlewares/gdprAuth";
+import { listUserDataBackupsHandler } from "../handler";
+
+const anAuthorization = {
+  kind: "IAzureGdprAuthorization",
+  subscriptionId: "a-subscription-id",
+  userId: "an-admin"
+} as IAzureGdprAuthorization;
+
+const aContainerName = "user-data-backup";
+
+const aPreviousBackupFolder = `${aFiscalCode}-DELETE-1633082400000`;
+const aLatestBackupFolder = `${aFiscalCode}-DELETE-1633168800000`;
+
+const mockListBlobDirectoriesSegmentedWithPrefix = jest.fn(
+  (_, prefix: string, __, cb) =>
+    cb(null, {
+      entries: [aPreviousBackupFolder, aLatestBackupFolder, "not-a-backup"]
+        .filter(name => name.startsWith(prefix))
+        .map(name => ({ name: `${name}/` }))
+    })
+);
+const blobService = ({
+  listBlobDirectoriesSegmentedWithPrefix: mockListBlobDirectoriesSegmentedWithPrefix
+} as unknown) as BlobService;
+
+describe("listUserDataBackupsHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the backups of the user, the latest first", async () => {
+    const result = await listUserDataBackupsHandler(
+      blobService,
+      aContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual({
+        items: [
+          {
+            backupFolder: aLatestBackupFolder,
+            createdAt: "2021-10-02T10:00:00.000Z"
+          },
+          {
+            backupFolder: aPreviousBackupFolder,
+            createdAt: "2021-10-01T10:00:00.000Z"
+          }
+        ]
+      });
+    }
+    expect(mockListBlobDirectoriesSegmentedWithPrefix).toHaveBeenCalledWith(
+      aContainerName,
+      `${aFiscalCode}-DELETE-`,
+      undefined,
+      expect.any(Function)
+    );
+  });
+
+  it("should return an empty list if the user has no backups", async () => {
+    mockListBlobDirectoriesSegmentedWithPrefix.mockImplementationOnce(
+      (_, __, ___, cb) => cb(null, { entries: [] })
+    );
+
+    const result = await listUserDataBackupsHandler(
+      blobService,
+      aContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual({ items: [] });
+    }
+  });
+
+  it("should fail when backups cannot be listed", async () => {
+    mockListBlobDirectoriesSegmentedWithPrefix.mockImplementationOnce(
+      (_, __, ___, cb) => cb(new Error("any error"))
+    );
+
+    const result = await listUserDataBackupsHandler(
+      blobService,
+      aContainerName
+    )(context, anAuthorization, aFiscalCode);
+
+    expect(result.kind).toBe("IResponseErrorInternal");
+  });
+});
@@ -0,0 +1,85 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import {
+  IResponseErrorInternal,
+  IResponseSuccessJson,
+  ResponseErrorInternal,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import {
+  getBackupCreationDate,
+  listUserDataBackupFolders,
+  UserDataBackupFolder
+} from "../utils/userDataBackup";
+
+interface IUserDataBackupsResponse {
+  readonly items: ReadonlyArray<{
+    // the folder to restore the backup from
+    readonly backupFolder: UserDataBackupFolder;
+    readonly createdAt: string;
+  }>;
+}
+
+type Response =
+  | IResponseSuccessJson<IUserDataBackupsResponse>
+  | IResponseErrorInternal;
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  param1: FiscalCode
+) => Promise<Response>;
+
+/**
+ * Lists the backups of the deletions of the user data, the latest first,
+ * to find the one to restore
+ */
+export const listUserDataBackupsHandler = (
+  blobService: BlobService,
+  containerName: string
+): IHttpHandler => async (_, __, fiscalCode): Promise<Response> =>
+  pipe(
+    listUserDataBackupFolders(blobService, containerName, fiscalCode),
+    TE.mapLeft(error =>
+      ResponseErrorInternal(`Cannot list the backups: ${error.message}`)
+    ),
+    TE.map(backupFolders =>
+      ResponseSuccessJson({
+        items: backupFolders.map(backupFolder => ({
+          backupFolder,
+          createdAt: getBackupCreationDate(backupFolder).toISOString()
+        }))
+      })
+    ),
+    TE.toUnion
+  )();
+
+export const listUserDataBackups = (
+  blobService: BlobService,
+  containerName: string
+): express.RequestHandler => {
+  const handler = listUserDataBackupsHandler(blobService, containerName);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("fiscalCode", FiscalCode)
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
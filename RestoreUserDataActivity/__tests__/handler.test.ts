@@ -0,0 +1,229 @@
+import { context } from "../../__mocks__/durable-functions";
+import { aRetrievedProfile } from "../../__mocks__/mocks";
+import {
+  ActivityInput,
+  ActivityResultFailure,
+  ActivityResultSuccess,
+  createRestoreUserDataActivityHandler
+} from "../handler";
+import { encrypt, generateCipherKey } from "../../utils/crypto";
+import {
+  encryptBackupDocument,
+  UserDataBackupFolder
+} from "../../utils/userDataBackup";
+
+const aBackupFolder = "AAAAAA00A00A000A-DELETE-1633082400000" as UserDataBackupFolder;
+const anEncryptedBackupFolder = "AAAAAA00A00A000A-DELETE-1633168800000" as UserDataBackupFolder;
+
+const aMasterKey = generateCipherKey();
+const aDataKey = generateCipherKey();
+
+const aBackup: Record<string, string> = {
+  [`${aBackupFolder}/message-content/A_MESSAGE_ID.json`]: JSON.stringify({
+    markdown: "a markdown",
+    subject: "a subject"
+  }),
+  [`${aBackupFolder}/profile/${aRetrievedProfile.id}.json`]: JSON.stringify({
+    ...aRetrievedProfile,
+    _etag: "an-etag",
+    _rid: "a-rid"
+  }),
+  [`${anEncryptedBackupFolder}/profile/${aRetrievedProfile.id}.json`]: encryptBackupDocument(
+    aDataKey
+  )(JSON.stringify(aRetrievedProfile))
+};
+
+// the keys of the users, apart from the backups
+const aKeyContainerName = "user-data-backup-keys";
+const aKeys: Record<string, string> = {
+  "AAAAAA00A00A000A.json": JSON.stringify(encrypt(aMasterKey, aDataKey))
+};
+
+const mockListBlobsSegmentedWithPrefix = jest.fn((_, prefix: string, __, cb) =>
+  cb(null, {
+    continuationToken: undefined,
+    entries: Object.keys(aBackup)
+      .filter(name => name.startsWith(prefix))
+      .map(name => ({ name }))
+  })
+);
+// the key is read with options, the documents without
+const mockGetBlobToText = jest.fn((containerName, name: string, ...args) => {
+  const cb = args[args.length - 1];
+  const blobs = containerName === aKeyContainerName ? aKeys : aBackup;
+  return name in blobs
+    ? cb(null, blobs[name])
+    : cb({ code: "BlobNotFound", message: "not found" });
+});
+const mockCreateBlockBlobFromText = jest.fn((_, __, ___, ____, cb) => cb(null));
+const mockCreate = jest.fn(async (document: unknown) => ({
+  resource: document
+}));
+
+const aContainer = { items: { create: mockCreate } } as any;
+
+const activityHandler = createRestoreUserDataActivityHandler({
+  containers: {
+    message: aContainer,
+    "message-status": aContainer,
+    "message-view": aContainer,
+    notification: aContainer,
+    "notification-status": aContainer,
+    profile: aContainer,
+    "service-settings": aContainer
+  },
+  messageContentBlobService: {
+    createBlockBlobFromText: mockCreateBlockBlobFromText
+  } as any,
+  messageContentContainerName: "message-content" as any,
+  userDataBackupBlobService: {
+    getBlobToText: mockGetBlobToText,
+    listBlobsSegmentedWithPrefix: mockListBlobsSegmentedWithPrefix
+  } as any,
+  userDataBackupContainerName: "user-data-backup" as any,
+  userDataBackupKeyContainerName: aKeyContainerName as any,
+  userDataBackupMasterKey: aMasterKey
+});
+
+describe("createRestoreUserDataActivityHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should create the saved documents without Cosmos system properties", async () => {
+    const result = await activityHandler(
+      context,
+      ActivityInput.encode({ backupFolder: aBackupFolder, entity: "profile" })
+    );
+
+    expect(ActivityResultSuccess.decode(result)).toMatchObject({
+      right: { kind: "SUCCESS", restored: 1, skipped: 0 }
+    });
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledWith(
+      "user-data-backup",
+      `${aBackupFolder}/profile/`,
+      undefined,
+      expect.any(Function)
+    );
+    const created = mockCreate.mock.calls[0][0] as Record<string, unknown>;
+    expect(created.id).toBe(aRetrievedProfile.id);
+    expect(created.fiscalCode).toBe(aRetrievedProfile.fiscalCode);
+    expect(created).not.toHaveProperty("_etag");
+    expect(created).not.toHaveProperty("_rid");
+  });
+
+  it("should decrypt the documents of an encrypted backup", async () => {
+    const result = await activityHandler(
+      context,
+      ActivityInput.encode({
+        backupFolder: anEncryptedBackupFolder,
+        entity: "profile"
+      })
+    );
+
+    expect(ActivityResultSuccess.decode(result)).toMatchObject({
+      right: { kind: "SUCCESS", restored: 1, skipped: 0 }
+    });
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fiscalCode: aRetrievedProfile.fiscalCode,
+        id: aRetrievedProfile.id
+      })
+    );
+  });
+
+  it("should fail when the key of an encrypted backup has been destroyed", async () => {
+    const { ["AAAAAA00A00A000A.json"]: key } = aKeys;
+    delete aKeys["AAAAAA00A00A000A.json"];
+
+    const result = activityHandler(
+      context,
+      ActivityInput.encode({
+        backupFolder: anEncryptedBackupFolder,
+        entity: "profile"
+      })
+    );
+
+    await expect(result).rejects.toMatchObject({ kind: "RESTORE_FAILURE" });
+    aKeys["AAAAAA00A00A000A.json"] = key;
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("should skip the documents that exist already", async () => {
+    mockCreate.mockImplementationOnce(async () => {
+      throw { code: 409 };
+    });
+
+    const result = await activityHandler(
+      context,
+      ActivityInput.encode({ backupFolder: aBackupFolder, entity: "profile" })
+    );
+
+    expect(ActivityResultSuccess.decode(result)).toMatchObject({
+      right: { kind: "SUCCESS", restored: 0, skipped: 1 }
+    });
+  });
+
+  it("should write message contents back to their blobs without overwriting them", async () => {
+    const result = await activityHandler(
+      context,
+      ActivityInput.encode({
+        backupFolder: aBackupFolder,
+        entity: "message-content"
+      })
+    );
+
+    expect(ActivityResultSuccess.decode(result)).toMatchObject({
+      right: { kind: "SUCCESS", restored: 1, skipped: 0 }
+    });
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockCreateBlockBlobFromText).toHaveBeenCalledWith(
+      "message-content",
+      "A_MESSAGE_ID.json",
+      aBackup[`${aBackupFolder}/message-content/A_MESSAGE_ID.json`],
+      { accessConditions: { EtagNonMatch: "*" } },
+      expect.any(Function)
+    );
+  });
+
+  it("should succeed with nothing restored when the entity has no saved documents", async () => {
+    const result = await activityHandler(
+      context,
+      ActivityInput.encode({
+        backupFolder: aBackupFolder,
+        entity: "notification"
+      })
+    );
+
+    expect(ActivityResultSuccess.decode(result)).toMatchObject({
+      right: { kind: "SUCCESS", restored: 0, skipped: 0 }
+    });
+  });
+
+  it("should throw when a document cannot be created, so that it can be retried", async () => {
+    mockCreate.mockImplementationOnce(async () => {
+      throw new Error("a cosmos error");
+    });
+
+    const result = activityHandler(
+      context,
+      ActivityInput.encode({ backupFolder: aBackupFolder, entity: "profile" })
+    );
+
+    await expect(result).rejects.toEqual({
+      kind: "RESTORE_FAILURE",
+      reason: "a cosmos error"
+    });
+  });
+
+  it("should fail on invalid input", async () => {
+    const result = await activityHandler(context, {
+      backupFolder: "../another-folder",
+      entity: "profile"
+    });
+
+    expect(ActivityResultFailure.decode(result)).toMatchObject({
+      right: { kind: "INVALID_INPUT_FAILURE" }
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * This activity restores the documents of an entity
+ * saved in the backup of a user data deletion.
+ */
+
+import { Context } from "@azure/functions";
+import { Container } from "@azure/cosmos";
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { listBlobs } from "../utils/extensions/azure_storage";
+import {
+  decryptBackupDocument,
+  getBackupDocumentId,
+  getBackupEntityPrefix,
+  getBackupFiscalCode,
+  getUserDataBackupKey,
+  UserDataBackupEntity,
+  UserDataBackupFolder
+} from "../utils/userDataBackup";
+
+const logPrefix = `RestoreUserDataActivity`;
+
+// Activity input
+export const ActivityInput = t.interface({
+  backupFolder: UserDataBackupFolder,
+  entity: UserDataBackupEntity
+});
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+// Activity success result
+export const ActivityResultSuccess = t.interface({
+  kind: t.literal("SUCCESS"),
+  // documents written back
+  restored: NonNegativeInteger,
+  // documents skipped because they exist already
+  skipped: NonNegativeInteger
+});
+export type ActivityResultSuccess = t.TypeOf<typeof ActivityResultSuccess>;
+
+// Activity failed because of invalid input
+export const InvalidInputFailure = t.interface({
+  kind: t.literal("INVALID_INPUT_FAILURE"),
+  reason: t.string
+});
+export type InvalidInputFailure = t.TypeOf<typeof InvalidInputFailure>;
+
+// Activity failed while reading the backup or writing a document,
+// thrown rather than returned as it may be transient
+export const RestoreFailure = t.interface({
+  kind: t.literal("RESTORE_FAILURE"),
+  reason: t.string
+});
+export type RestoreFailure = t.TypeOf<typeof RestoreFailure>;
+
+export const ActivityResultFailure = t.taggedUnion("kind", [
+  InvalidInputFailure,
+  RestoreFailure
+]);
+export type ActivityResultFailure = t.TypeOf<typeof ActivityResultFailure>;
+
+export const ActivityResult = t.taggedUnion("kind", [
+  ActivityResultSuccess,
+  ActivityResultFailure
+]);
+export type ActivityResult = t.TypeOf<typeof ActivityResult>;
+
+// the entities saved as documents of a Cosmos container
+export type UserDataBackupDocumentEntity = Exclude<
+  UserDataBackupEntity,
+  "message-content"
+>;
+
+export interface IActivityHandlerInput {
+  readonly containers: Record<UserDataBackupDocumentEntity, Container>;
+  readonly messageContentBlobService: BlobService;
+  readonly messageContentContainerName: NonEmptyString;
+  readonly userDataBackupBlobService: BlobService;
+  readonly userDataBackupContainerName: NonEmptyString;
+  readonly userDataBackupKeyContainerName: NonEmptyString;
+  readonly userDataBackupMasterKey: Buffer;
+}
+
+/**
+ * Writes back a saved document,
+ * resolving to false when the document exists already
+ */
+type RestoreDocument = (
+  documentId: string,
+  content: string
+) => Promise<boolean>;
+
+/**
+ * Cosmos system properties, like _rid and _etag, are assigned on creation
+ */
+const withoutSystemProperties = (
+  document: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.keys(document)
+    .filter(key => !key.startsWith("_"))
+    .reduce((result, key) => ({ ...result, [key]: document[key] }), {});
+
+const restoreToContainer = (container: Container): RestoreDocument => async (
+  _,
+  content
+): Promise<boolean> =>
+  container.items.create(withoutSystemProperties(JSON.parse(content))).then(
+    () => true,
+    error => {
+      // the document has been created again after the deletion
+      if (error.code === 409) {
+        return false;
+      }
+      throw error;
+    }
+  );
+
+/**
+ * Message contents are saved in the same format of the blobs they come from
+ */
+const restoreToBlob = (
+  blobService: BlobService,
+  containerName: string
+): RestoreDocument => (messageId, content): Promise<boolean> =>
+  new Promise((resolve, reject) =>
+    blobService.createBlockBlobFromText(
+      containerName,
+      `${messageId}.json`,
+      content,
+      // never overwrite a blob written after the deletion
+      { accessConditions: { EtagNonMatch: "*" } },
+      (error: (Error & { readonly statusCode?: number }) | null) =>
+        error === null || error === undefined
+          ? resolve(true)
+          : error.statusCode === 409
+          ? resolve(false)
+          : reject(error)
+    )
+  );
+
+const getBlobText = (
+  blobService: BlobService,
+  containerName: string,
+  blobName: string
+): Promise<string> =>
+  new Promise((resolve, reject) =>
+    blobService.getBlobToText(containerName, blobName, (error, text) =>
+      error ? reject(error) : resolve(text)
+    )
+  );
+
+/**
+ * Writes back the saved documents of an entity, one at a time
+ */
+const restoreBackupEntity = async (
+  blobService: BlobService,
+  containerName: string,
+  backupFolder: UserDataBackupFolder,
+  entity: UserDataBackupEntity,
+  dataKey: O.Option<Buffer>,
+  restoreDocument: RestoreDocument
+  // eslint-disable-next-line max-params
+): Promise<Pick<ActivityResultSuccess, "restored" | "skipped">> => {
+  // eslint-disable-next-line functional/no-let
+  let restored = 0;
+  // eslint-disable-next-line functional/no-let
+  let skipped = 0;
+  for await (const blobs of listBlobs(
+    blobService,
+    containerName,
+    getBackupEntityPrefix(backupFolder, entity)
+  )) {
+    for (const { name } of blobs) {
+      const isRestored = await restoreDocument(
+        getBackupDocumentId(backupFolder, entity, name),
+        pipe(
+          decryptBackupDocument(dataKey)(
+            await getBlobText(blobService, containerName, name)
+          ),
+          E.getOrElseW(error => {
+            throw error;
+          })
+        )
+      );
+      restored += isRestored ? 1 : 0;
+      skipped += isRestored ? 0 : 1;
+    }
+  }
+  return {
+    restored: restored as NonNegativeInteger,
+    skipped: skipped as NonNegativeInteger
+  };
+};
+
+/**
+ * Factory methods that builds an activity function
+ *
+ * Documents that exist already are left untouched,
+ * so that the activity can be safely run again on the same backup.
+ * It throws when the restore fails, so that it can be retried.
+ */
+export const createRestoreUserDataActivityHandler = ({
+  containers,
+  messageContentBlobService,
+  messageContentContainerName,
+  userDataBackupBlobService,
+  userDataBackupContainerName,
+  userDataBackupKeyContainerName,
+  userDataBackupMasterKey
+}: IActivityHandlerInput): ((
+  context: Context,
+  input: unknown
+) => Promise<ActivityResult>) => (
+  context: Context,
+  input: unknown
+): Promise<ActivityResult> =>
+  pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(reason =>
+      InvalidInputFailure.encode({
+        kind: "INVALID_INPUT_FAILURE",
+        reason: readableReport(reason)
+      })
+    ),
+    TE.chainW(({ backupFolder, entity }) =>
+      pipe(
+        // documents are decrypted with the key of the user, if any
+        getUserDataBackupKey(
+          userDataBackupBlobService,
+          userDataBackupKeyContainerName,
+          userDataBackupMasterKey,
+          getBackupFiscalCode(backupFolder)
+        ),
+        TE.chain(dataKey =>
+          TE.tryCatch(
+            () =>
+              restoreBackupEntity(
+                userDataBackupBlobService,
+                userDataBackupContainerName,
+                backupFolder,
+                entity,
+                dataKey,
+                entity === "message-content"
+                  ? restoreToBlob(
+                      messageContentBlobService,
+                      messageContentContainerName
+                    )
+                  : restoreToContainer(containers[entity])
+              ),
+            E.toError
+          )
+        ),
+        TE.map(({ restored, skipped }) => {
+          context.log.info(
+            `${logPrefix}|Restored ${entity} documents of ${backupFolder}|RESTORED=${restored}|SKIPPED=${skipped}`
+          );
+          return ActivityResultSuccess.encode({
+            kind: "SUCCESS",
+            restored,
+            skipped
+          });
+        }),
+        TE.mapLeft(error => {
+          context.log.error(
+            `${logPrefix}|Error restoring ${entity} documents of ${backupFolder}|ERROR=${error.message}`
+          );
+          // we let the activity throw, so the orchestrator can retry
+          throw RestoreFailure.encode({
+            kind: "RESTORE_FAILURE",
+            reason: error.message
+          });
+        })
+      )
+    ),
+    TE.toUnion
+  )();
@@ -0,0 +1,39 @@
+import { createBlobService } from "azure-storage";
+import { MESSAGE_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message";
+import { MESSAGE_STATUS_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message_status";
+import { MESSAGE_VIEW_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message_view";
+import { NOTIFICATION_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/notification";
+import { NOTIFICATION_STATUS_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/notification_status";
+import { PROFILE_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/profile";
+import { SERVICE_PREFERENCES_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/service_preference";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { getConfigOrThrow } from "../utils/config";
+import { createRestoreUserDataActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const database = cosmosdbClient.database(config.COSMOSDB_NAME);
+
+const activityFunctionHandler = createRestoreUserDataActivityHandler({
+  containers: {
+    message: database.container(MESSAGE_COLLECTION_NAME),
+    "message-status": database.container(MESSAGE_STATUS_COLLECTION_NAME),
+    "message-view": database.container(MESSAGE_VIEW_COLLECTION_NAME),
+    notification: database.container(NOTIFICATION_COLLECTION_NAME),
+    "notification-status": database.container(
+      NOTIFICATION_STATUS_COLLECTION_NAME
+    ),
+    profile: database.container(PROFILE_COLLECTION_NAME),
+    "service-settings": database.container(SERVICE_PREFERENCES_COLLECTION_NAME)
+  },
+  messageContentBlobService: createBlobService(config.StorageConnection),
+  messageContentContainerName: config.MESSAGE_CONTAINER_NAME,
+  userDataBackupBlobService: createBlobService(
+    config.UserDataBackupStorageConnection
+  ),
+  userDataBackupContainerName: config.USER_DATA_BACKUP_CONTAINER_NAME,
+  userDataBackupKeyContainerName: config.USER_DATA_BACKUP_KEY_CONTAINER_NAME,
+  userDataBackupMasterKey: config.USER_DATA_BACKUP_MASTER_KEY
+});
+
+export default activityFunctionHandler;
@@ -0,0 +1,141 @@
+import { OrchestrationRuntimeStatus } from "durable-functions/lib/src/classes";
+import {
+  context,
+  mockGetStatus,
+  mockStartNew,
+  mockStatusRunning
+} from "../../__mocks__/durable-functions";
+import { IAzureGdprAuthorization } from "../../utils/middlewares/gdprAuth";
+import { UserDataBackupFolder } from "../../utils/userDataBackup";
+import { restoreUserDataBackupHandler } from "../handler";
+
+const anAuthorization = {
+  kind: "IAzureGdprAuthorization",
+  subscriptionId: "a-subscription-id",
+  userId: "an-admin"
+} as IAzureGdprAuthorization;
+
+const aBackupFolder = "AAAAAA00A00A000A-DELETE-1633082400000" as UserDataBackupFolder;
+
+const aBackupBlobs = [
+  `${aBackupFolder}/profile/AAAAAA00A00A000A-0000000000000000.json`,
+  `${aBackupFolder}/message/A_MESSAGE_ID.json`,
+  `${aBackupFolder}/message-content/A_MESSAGE_ID.json`
+];
+
+const mockListBlobsSegmentedWithPrefix = jest.fn((_, __, ___, cb) =>
+  cb(null, {
+    continuationToken: undefined,
+    entries: aBackupBlobs.map(name => ({ name }))
+  })
+);
+
+const aBlobService = {
+  listBlobsSegmentedWithPrefix: mockListBlobsSegmentedWithPrefix
+} as any;
+
+const anExpectedListing = {
+  message: ["A_MESSAGE_ID"],
+  "message-content": ["A_MESSAGE_ID"],
+  "message-status": [],
+  "message-view": [],
+  notification: [],
+  "notification-status": [],
+  profile: ["AAAAAA00A00A000A-0000000000000000"],
+  "service-settings": []
+};
+
+describe("restoreUserDataBackupHandler", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should only list the documents of the backup in dry-run mode", async () => {
+    const result = await restoreUserDataBackupHandler(
+      aBlobService,
+      "user-data-backup"
+    )(context, anAuthorization, aBackupFolder, true);
+
+    expect(result.kind).toBe("IResponseSuccessJson");
+    if (result.kind === "IResponseSuccessJson") {
+      expect(result.value).toEqual(anExpectedListing);
+    }
+    expect(mockListBlobsSegmentedWithPrefix).toHaveBeenCalledWith(
+      "user-data-backup",
+      `${aBackupFolder}/`,
+      undefined,
+      expect.any(Function)
+    );
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should start the restore of the backup", async () => {
+    const result = await restoreUserDataBackupHandler(
+      aBlobService,
+      "user-data-backup"
+    )(context, anAuthorization, aBackupFolder);
+
+    expect(result.kind).toBe("IResponseSuccessAccepted");
+    if (result.kind === "IResponseSuccessAccepted") {
+      expect(result.payload).toEqual(anExpectedListing);
+    }
+    expect(mockStartNew).toHaveBeenCalledWith(
+      "UserDataRestoreOrchestrator",
+      `${aBackupFolder}-USER-DATA-RESTORE`,
+      { backupFolder: aBackupFolder }
+    );
+  });
+
+  it("should not start a restore of the backup while another one is running", async () => {
+    mockGetStatus.mockImplementationOnce(async () => mockStatusRunning);
+
+    const result = await restoreUserDataBackupHandler(
+      aBlobService,
+      "user-data-backup"
+    )(context, anAuthorization, aBackupFolder);
+
+    expect(result.kind).toBe("IResponseErrorConflict");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+
+  it("should restart a restore that has failed", async () => {
+    mockGetStatus.mockImplementationOnce(async () => ({
+      runtimeStatus: OrchestrationRuntimeStatus.Failed
+    }));
+
+    const result = await restoreUserDataBackupHandler(
+      aBlobService,
+      "user-data-backup"
+    )(context, anAuthorization, aBackupFolder);
+
+    expect(result.kind).toBe("IResponseSuccessAccepted");
+    expect(mockStartNew).toHaveBeenCalled();
+  });
+
+  it("should return not found when the backup has no documents", async () => {
+    mockListBlobsSegmentedWithPrefix.mockImplementationOnce((_, __, ___, cb) =>
+      cb(null, { continuationToken: undefined, entries: [] })
+    );
+
+    const result = await restoreUserDataBackupHandler(
+      aBlobService,
+      "user-data-backup"
+    )(context, anAuthorization, aBackupFolder, true);
+
+    expect(result.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return an error when the backup cannot be listed", async () => {
+    mockListBlobsSegmentedWithPrefix.mockImplementationOnce((_, __, ___, cb) =>
+      cb(new Error("a storage error"))
+    );
+
+    const result = await restoreUserDataBackupHandler(
+      aBlobService,
+      "user-data-backup"
+    )(context, anAuthorization, aBackupFolder);
+
+    expect(result.kind).toBe("IResponseErrorInternal");
+    expect(mockStartNew).not.toHaveBeenCalled();
+  });
+});
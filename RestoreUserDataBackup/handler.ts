@@ -0,0 +1,168 @@
+import * as express from "express";
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import * as df from "durable-functions";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as TE from "fp-ts/lib/TaskEither";
+import {
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseSuccessAccepted,
+  IResponseSuccessJson,
+  ResponseErrorConflict,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseSuccessAccepted,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+import {
+  makeUserDataRestoreOrchestratorId,
+  OrchestratorInput
+} from "../UserDataRestoreOrchestrator/handler";
+import { DryRunMiddleware } from "../utils/middlewares/dryRun";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
+import { isOrchestratorRunning } from "../utils/orchestrator";
+import {
+  isEmptyBackup,
+  listUserDataBackup,
+  UserDataBackupFolder,
+  UserDataBackupListing
+} from "../utils/userDataBackup";
+
+const logPrefix = "RestoreUserDataBackupHandler";
+
+type Response =
+  | IResponseSuccessJson<UserDataBackupListing>
+  | IResponseSuccessAccepted<UserDataBackupListing>
+  | IResponseErrorConflict
+  | IResponseErrorInternal
+  | IResponseErrorNotFound;
+
+type IHttpHandler = (
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  backupFolder: UserDataBackupFolder,
+  dryRun?: boolean
+) => Promise<Response>;
+
+/**
+ * Restores the user data saved in the backup of a deletion run.
+ * In dry-run mode the documents that would be restored are only listed.
+ *
+ * Only documents are restored: the user is left unsubscribed
+ * in the subscriptions feed and the deletion request is left CLOSED.
+ */
+export const restoreUserDataBackupHandler = (
+  userDataBackupBlobService: BlobService,
+  userDataBackupContainerName: string
+): IHttpHandler => async (
+  context,
+  auth,
+  backupFolder,
+  dryRun = false
+): Promise<Response> =>
+  pipe(
+    listUserDataBackup(
+      userDataBackupBlobService,
+      userDataBackupContainerName,
+      backupFolder
+    ),
+    TE.mapLeft(error =>
+      ResponseErrorInternal(`Cannot list the backup: ${error.message}`)
+    ),
+    TE.chainW(
+      TE.fromPredicate(
+        listing => !isEmptyBackup(listing),
+        () =>
+          ResponseErrorNotFound(
+            "Backup not found",
+            `No documents found in backup ${backupFolder}`
+          )
+      )
+    ),
+    TE.chainW(listing =>
+      dryRun
+        ? TE.of<never, Response>(ResponseSuccessJson(listing))
+        : pipe(
+            df.getClient(context),
+            client =>
+              pipe(
+                isOrchestratorRunning(
+                  client,
+                  makeUserDataRestoreOrchestratorId(backupFolder)
+                ),
+                TE.mapLeft(error =>
+                  ResponseErrorInternal(
+                    `Cannot get the status of the restore: ${error.message}`
+                  )
+                ),
+                TE.chainW(
+                  TE.fromPredicate(
+                    status => !status.isRunning,
+                    () =>
+                      ResponseErrorConflict(
+                        `A restore of backup ${backupFolder} is running already`
+                      )
+                  )
+                ),
+                TE.chainW(() =>
+                  pipe(
+                    TE.tryCatch(
+                      () =>
+                        client.startNew(
+                          "UserDataRestoreOrchestrator",
+                          makeUserDataRestoreOrchestratorId(backupFolder),
+                          OrchestratorInput.encode({ backupFolder })
+                        ),
+                      E.toError
+                    ),
+                    TE.mapLeft(error =>
+                      ResponseErrorInternal(
+                        `Cannot start the restore: ${error.message}`
+                      )
+                    )
+                  )
+                )
+              ),
+            TE.map(() => {
+              context.log.info(
+                `${logPrefix}|Restore of ${backupFolder} started by ${auth.userId}`
+              );
+              return ResponseSuccessAccepted("Restore started", listing);
+            })
+          )
+    ),
+    TE.toUnion
+  )();
+
+export const restoreUserDataBackup = (
+  userDataBackupBlobService: BlobService,
+  userDataBackupContainerName: string
+): express.RequestHandler => {
+  const handler = restoreUserDataBackupHandler(
+    userDataBackupBlobService,
+    userDataBackupContainerName
+  );
+
+  const middlewaresWrap = withRequestMiddlewares(
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    RequiredParamMiddleware("backupFolder", UserDataBackupFolder),
+    // Extract the flag to only list the documents to restore
+    DryRunMiddleware
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+};
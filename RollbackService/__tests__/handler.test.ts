@@ -0,0 +1,106 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { aRetrievedService } from "../../__mocks__/mocks";
+import { RollbackServiceHandler } from "../handler";
+
+const aServiceId = "MySubscriptionId" as NonEmptyString;
+
+const anOldVersion = {
+  ...aRetrievedService,
+  departmentName: "OldDept" as NonEmptyString,
+  id: "MySubscriptionId-0000000000000001" as NonEmptyString,
+  isVisible: true,
+  version: 1 as NonNegativeInteger
+};
+
+const aLatestVersion = {
+  ...aRetrievedService,
+  id: "MySubscriptionId-0000000000000003" as NonEmptyString,
+  serviceMetadata: { scope: "LOCAL" } as any,
+  version: 3 as NonNegativeInteger
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("RollbackServiceHandler", () => {
+  it("should write the content of the requested version on top of the latest one", async () => {
+    const serviceModelMock = {
+      find: jest.fn(() => TE.right(O.some(anOldVersion))),
+      findOneByServiceId: jest.fn(() => TE.right(O.some(aLatestVersion))),
+      update: jest.fn((service: any) =>
+        TE.right({ ...service, version: service.version + 1 })
+      )
+    };
+
+    const handler = RollbackServiceHandler(serviceModelMock as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      1 as NonNegativeInteger
+    );
+
+    expect(serviceModelMock.update).toHaveBeenCalledWith({
+      ...aLatestVersion,
+      departmentName: "OldDept",
+      isVisible: true,
+      serviceMetadata: undefined
+    });
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toMatchObject({
+        department_name: "OldDept",
+        is_visible: true,
+        version: 4
+      });
+    }
+  });
+
+  it("should return a not found error when the requested version does not exist", async () => {
+    const serviceModelMock = {
+      find: jest.fn(() => TE.right(O.none)),
+      findOneByServiceId: jest.fn(() => TE.right(O.some(aLatestVersion))),
+      update: jest.fn()
+    };
+
+    const handler = RollbackServiceHandler(serviceModelMock as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      7 as NonNegativeInteger
+    );
+
+    expect(serviceModelMock.update).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseErrorNotFound");
+  });
+
+  it("should return a query error when the update fails", async () => {
+    const serviceModelMock = {
+      find: jest.fn(() => TE.right(O.some(anOldVersion))),
+      findOneByServiceId: jest.fn(() => TE.right(O.some(aLatestVersion))),
+      update: jest.fn(() =>
+        TE.left(toCosmosErrorResponse({ kind: "COSMOS_ERROR_RESPONSE" }))
+      )
+    };
+
+    const handler = RollbackServiceHandler(serviceModelMock as any);
+    const response = await handler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServiceId,
+      1 as NonNegativeInteger
+    );
+
+    expect(response.kind).toBe("IResponseErrorQuery");
+  });
+});
@@ -0,0 +1,131 @@
+import { Context } from "@azure/functions";
+
+import * as express from "express";
+
+import * as TE from "fp-ts/lib/TaskEither";
+import { pipe } from "fp-ts/lib/function";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorNotFound,
+  IResponseSuccessJson,
+  ResponseErrorNotFound,
+  ResponseSuccessJson
+} from "@pagopa/ts-commons/lib/responses";
+
+import { Service as ApiService } from "@pagopa/io-functions-commons/dist/generated/definitions/Service";
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import { ServiceModel } from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  AzureApiAuthMiddleware,
+  IAzureApiAuthorization,
+  UserGroup
+} from "@pagopa/io-functions-commons/dist/src/utils/middlewares/azure_api_auth";
+import { ContextMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/context_middleware";
+import {
+  withRequestMiddlewares,
+  wrapRequestHandler
+} from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  IResponseErrorQuery,
+  ResponseErrorQuery
+} from "@pagopa/io-functions-commons/dist/src/utils/response";
+
+import { retrievedServiceToApiService } from "../utils/conversions";
+import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+import { ServiceVersionMiddleware } from "../utils/middlewares/serviceVersion";
+import {
+  findServiceVersion,
+  retrievedServiceToServiceContent
+} from "../utils/serviceVersions";
+
+type IRollbackServiceHandler = (
+  context: Context,
+  auth: IAzureApiAuthorization,
+  serviceId: ServiceId,
+  version: NonNegativeInteger
+) => Promise<
+  | IResponseSuccessJson<ApiService>
+  | IResponseErrorQuery
+  | IResponseErrorNotFound
+>;
+
+/**
+ * Restores the content of a previous version of a service
+ * by writing it as a new version.
+ *
+ * As in UpdateService, the new version is written on top of the latest
+ * retrieved one, so the update fails in case of concurrent modifications.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function RollbackServiceHandler(
+  serviceModel: ServiceModel
+): IRollbackServiceHandler {
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  return async (_, __, serviceId, version) =>
+    pipe(
+      TE.Do,
+      TE.bind("targetService", () =>
+        findServiceVersion(serviceModel, serviceId, version)
+      ),
+      TE.bindW("existingService", () =>
+        pipe(
+          serviceModel.findOneByServiceId(serviceId),
+          TE.mapLeft(error =>
+            ResponseErrorQuery(
+              "Error trying to retrieve existing service",
+              error
+            )
+          ),
+          TE.chainW(
+            TE.fromOption(() =>
+              ResponseErrorNotFound(
+                "Error",
+                "Could not find a service with the provided serviceId"
+              )
+            )
+          )
+        )
+      ),
+      TE.chainW(({ existingService, targetService }) =>
+        pipe(
+          serviceModel.update({
+            ...existingService,
+            ...retrievedServiceToServiceContent(targetService)
+          }),
+          TE.mapLeft(error =>
+            ResponseErrorQuery(
+              "Error while updating the existing service",
+              error
+            )
+          )
+        )
+      ),
+      TE.map(retrievedServiceToApiService),
+      TE.map(ResponseSuccessJson),
+      TE.toUnion
+    )();
+}
+
+/**
+ * Wraps a RollbackService handler inside an Express request handler.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function RollbackService(
+  serviceModel: ServiceModel
+): express.RequestHandler {
+  const handler = RollbackServiceHandler(serviceModel);
+
+  const middlewaresWrap = withRequestMiddlewares(
+    // Extract Azure Functions bindings
+    ContextMiddleware(),
+    // Allow only users in the ApiServiceWrite group
+    AzureApiAuthMiddleware(new Set([UserGroup.ApiServiceWrite])),
+    // Extracts the ServiceId from the URL path parameter
+    ServiceIdMiddleware,
+    // Extracts the version to restore from the URL path parameter
+    ServiceVersionMiddleware("version")
+  );
+
+  return wrapRequestHandler(middlewaresWrap(handler));
+}
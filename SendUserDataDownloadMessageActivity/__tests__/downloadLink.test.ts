@@ -0,0 +1,29 @@
+import { createBlobService } from "azure-storage";
+import { getSignedDownloadLink } from "../downloadLink";
+
+// the well known account of the storage emulator (Azurite)
+const aBlobService = createBlobService("UseDevelopmentStorage=true");
+const aContainerName = "user-data-download";
+const aBaseUrl = "https://example.com/user-data-download";
+const aBlobName = "any-blob-name.zip";
+const aNow = new Date("2022-01-01T00:00:00.000Z");
+
+describe("getSignedDownloadLink", () => {
+  it("should build a read-only link expiring after the provided hours", () => {
+    const { expiresAt, url } = getSignedDownloadLink(
+      aBlobService,
+      aContainerName,
+      aBaseUrl,
+      24,
+      () => aNow
+    )(aBlobName);
+
+    expect(expiresAt).toEqual(new Date("2022-01-02T00:00:00.000Z"));
+    expect(url.startsWith(`${aBaseUrl}/${aBlobName}?`)).toBe(true);
+
+    const params = new URL(url).searchParams;
+    expect(params.get("sp")).toBe("r");
+    expect(params.get("se")).toBe("2022-01-02T00:00:00Z");
+    expect(params.get("sig")).toEqual(expect.any(String));
+  });
+});
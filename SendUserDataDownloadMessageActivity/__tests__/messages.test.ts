@@ -1,8 +1,11 @@
 const marked = require("marked");
 
-const aUrl = "any-url";
-const aBlobName = "any-blob-name";
+const aDownloadLink = {
+  expiresAt: new Date("2022-01-02T09:30:00.000Z"),
+  url: "https://example.com/any-blob-name?sp=r&sig=any-signature"
+};
 
+import { EncryptionMethodEnum } from "../../utils/zip";
 import { userDataDownloadMessage } from "../messages";
 
 describe("userDataDownloadMessage", () => {
@@ -12,9 +15,56 @@ describe("userDataDownloadMessage", () => {
     ${"a password with one *"} | ${"adfafas*dasgaf"}
     ${"a password with two *"} | ${"adfafas*da*sgaf"}
   `("should render $title", async ({ password }) => {
-    const message = userDataDownloadMessage(aBlobName, password, aUrl);
+    const message = userDataDownloadMessage(aDownloadLink, password);
     const rendered = marked(message.content.markdown);
 
     expect(rendered).toEqual(expect.stringContaining(password));
   });
+
+  it("should name a tool supporting AES-256 for AES-256 archives", () => {
+    const message = userDataDownloadMessage(
+      aDownloadLink,
+      "a".repeat(18),
+      EncryptionMethodEnum.AES256
+    );
+
+    expect(message.content.markdown).toContain("AES-256");
+    expect(message.content.markdown).toContain("7-Zip");
+  });
+
+  it("should not require specific tools for archives whose encryption is not known", () => {
+    const message = userDataDownloadMessage(aDownloadLink, "a".repeat(18));
+
+    expect(message.content.markdown).not.toContain("AES-256");
+  });
+
+  it("should describe data as yaml for archives whose formats are not known", () => {
+    const message = userDataDownloadMessage(aDownloadLink, "a".repeat(18));
+
+    expect(message.content.markdown).toContain(
+      "I dati contenuti nello zip sono in formato yaml:"
+    );
+  });
+
+  it("should describe each of the formats data are exported into", () => {
+    const message = userDataDownloadMessage(
+      aDownloadLink,
+      "a".repeat(18),
+      EncryptionMethodEnum.AES256,
+      ["csv", "json", "yaml"]
+    );
+
+    expect(message.content.markdown).toContain(
+      "I dati contenuti nello zip sono nei formati csv ("
+    );
+    expect(message.content.markdown).toContain("user-data.schema.json");
+    expect(message.content.markdown).toContain(" e yaml: formati standard");
+  });
+
+  it("should include the link along with its expiry date", () => {
+    const message = userDataDownloadMessage(aDownloadLink, "a".repeat(18));
+
+    expect(message.content.markdown).toContain(`(${aDownloadLink.url})`);
+    expect(message.content.markdown).toContain("2 gennaio 2022 alle ore 10:30");
+  });
 });
@@ -0,0 +1,47 @@
+import { BlobService, BlobUtilities } from "azure-storage";
+
+// tolerates clocks of storage servers slightly behind ours
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface IDownloadLink {
+  readonly expiresAt: Date;
+  readonly url: string;
+}
+
+export type GetDownloadLink = (blobName: string) => IDownloadLink;
+
+/**
+ * Builds read-only links to the archives of user data,
+ * signed with a SAS token that expires after the provided number of hours
+ *
+ * @param blobService the storage the archives are stored in
+ * @param containerName the container the archives are stored in
+ * @param publicDownloadBaseUrl the public URL of the container
+ * @param expiryHours how long links can be used for
+ */
+export const getSignedDownloadLink = (
+  blobService: BlobService,
+  containerName: string,
+  publicDownloadBaseUrl: string,
+  expiryHours: number,
+  getNow: () => Date = (): Date => new Date()
+  // eslint-disable-next-line max-params
+): GetDownloadLink => (blobName): IDownloadLink => {
+  const now = getNow();
+  const expiresAt = new Date(now.getTime() + expiryHours * 60 * 60 * 1000);
+  const sasToken = blobService.generateSharedAccessSignature(
+    containerName,
+    blobName,
+    {
+      AccessPolicy: {
+        Expiry: expiresAt,
+        Permissions: BlobUtilities.SharedAccessPermissions.READ,
+        Start: new Date(now.getTime() - CLOCK_SKEW_MS)
+      }
+    }
+  );
+  return {
+    expiresAt,
+    url: `${publicDownloadBaseUrl}/${blobName}?${sasToken}`
+  };
+};
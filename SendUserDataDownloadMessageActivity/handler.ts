@@ -7,6 +7,9 @@ import * as E from "fp-ts/lib/Either";
 import * as TE from "fp-ts/lib/TaskEither";
 import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { pipe } from "fp-ts/lib/function";
+import { UserDataExportFormat } from "../utils/userDataExport";
+import { EncryptionMethod } from "../utils/zip";
+import { GetDownloadLink } from "./downloadLink";
 import { userDataDownloadMessage } from "./messages";
 
 /**
@@ -51,17 +54,23 @@ export const ActivityResult = t.taggedUnion("kind", [
 ]);
 export type ActivityResult = t.TypeOf<typeof ActivityResult>;
 
-export const ActivityInput = t.interface({
-  blobName: t.string,
-  fiscalCode: FiscalCode,
-  password: t.string
-});
+export const ActivityInput = t.intersection([
+  t.interface({
+    blobName: t.string,
+    fiscalCode: FiscalCode,
+    password: t.string
+  }),
+  t.partial({
+    encryptionMethod: EncryptionMethod,
+    exportFormats: t.readonlyArray(UserDataExportFormat)
+  })
+]);
 export type ActivityInput = t.TypeOf<typeof ActivityInput>;
 
 export const getActivityFunction = (
   publicApiUrl: NonEmptyString,
   publicApiKey: NonEmptyString,
-  publicDownloadBaseUrl: NonEmptyString,
+  getDownloadLink: GetDownloadLink,
   timeoutFetch: typeof fetch
 ) => (context: Context, input: unknown): Promise<ActivityResult> => {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -90,7 +99,7 @@ export const getActivityFunction = (
       )
     ),
     TE.fromEither,
-    TE.chainW(({ blobName, fiscalCode, password }) => {
+    TE.chainW(({ blobName, fiscalCode, password, ...archive }) => {
       const logPrefix = `SendUserDataDownloadMessageActivity|PROFILE=${fiscalCode}`;
       context.log.verbose(`${logPrefix}|Sending user data download message`);
 
@@ -102,7 +111,12 @@ export const getActivityFunction = (
             fiscalCode,
             publicApiUrl,
             publicApiKey,
-            userDataDownloadMessage(blobName, password, publicDownloadBaseUrl),
+            userDataDownloadMessage(
+              getDownloadLink(blobName),
+              password,
+              archive.encryptionMethod,
+              archive.exportFormats
+            ),
             timeoutFetch
           );
 
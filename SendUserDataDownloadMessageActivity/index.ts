@@ -1,5 +1,7 @@
+import { createBlobService } from "azure-storage";
 import { getConfigOrThrow } from "../utils/config";
 import { timeoutFetch } from "../utils/fetch";
+import { getSignedDownloadLink } from "./downloadLink";
 import { getActivityFunction } from "./handler";
 
 const config = getConfigOrThrow();
@@ -7,12 +9,22 @@ const config = getConfigOrThrow();
 // Needed to call notifications API
 const publicApiUrl = config.PUBLIC_API_URL;
 const publicApiKey = config.PUBLIC_API_KEY;
-const publicDownloadBaseUrl = config.PUBLIC_DOWNLOAD_BASE_URL;
+
+// Needed to sign the links to the archives, that expire after a while
+const userDataBlobService = createBlobService(
+  config.UserDataArchiveStorageConnection
+);
+const getDownloadLink = getSignedDownloadLink(
+  userDataBlobService,
+  config.USER_DATA_CONTAINER_NAME,
+  config.PUBLIC_DOWNLOAD_BASE_URL,
+  config.USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS
+);
 
 const index = getActivityFunction(
   publicApiUrl,
   publicApiKey,
-  publicDownloadBaseUrl,
+  getDownloadLink,
   timeoutFetch
 );
 
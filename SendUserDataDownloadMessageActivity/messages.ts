@@ -2,13 +2,61 @@ import { NewMessage } from "@pagopa/io-functions-commons/dist/generated/definiti
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { pipe } from "fp-ts/lib/function";
 import * as E from "fp-ts/lib/Either";
+import {
+  UserDataExportFormat,
+  USER_DATA_SCHEMA_FILE_NAME
+} from "../utils/userDataExport";
+import { EncryptionMethodEnum } from "../utils/zip";
+import { IDownloadLink } from "./downloadLink";
+
+// how users can open the archive, depending on how it is encrypted
+const ARCHIVE_TOOLS: Readonly<Record<EncryptionMethodEnum, string>> = {
+  [EncryptionMethodEnum.AES256]:
+    "Il file ZIP è protetto con cifratura AES-256: per aprirlo usa un programma che la supporti, come 7-Zip su Windows, Keka su macOS, iZip su iOS o ZArchiver su Android. Gli strumenti già presenti sul tuo dispositivo potrebbero non riuscire ad aprirlo.",
+  [EncryptionMethodEnum.ZIP20]:
+    "Puoi aprire il file ZIP con gli strumenti già presenti sul tuo dispositivo oppure con un programma come 7-Zip."
+};
+
+// what users find in the archive for each format data are exported into
+const EXPORT_FORMAT_DESCRIPTIONS: Readonly<Record<
+  UserDataExportFormat,
+  string
+>> = {
+  csv:
+    "csv (un file per ogni tipo di dato, che puoi aprire anche con un foglio di calcolo)",
+  json: `json (insieme al file ${USER_DATA_SCHEMA_FILE_NAME}, che ne descrive la struttura)`,
+  yaml: "yaml"
+};
+
+const describeExportFormats = (
+  exportFormats: ReadonlyArray<UserDataExportFormat>
+): string => {
+  const descriptions = exportFormats.map(
+    format => EXPORT_FORMAT_DESCRIPTIONS[format]
+  );
+  return descriptions.length === 1
+    ? `in formato ${descriptions[0]}: un formato standard che in informatica consente lo scambio di dati fra applicazioni diverse.`
+    : `nei formati ${descriptions.slice(0, -1).join(", ")} e ${
+        descriptions[descriptions.length - 1]
+      }: formati standard che in informatica consentono lo scambio di dati fra applicazioni diverse.`;
+};
+
+const formatExpiryDate = (date: Date): string =>
+  date.toLocaleString("it-IT", {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "Europe/Rome"
+  });
 
 // TODO: switch text based on user's preferred_language
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 export const userDataDownloadMessage = (
-  blobName: string,
+  { expiresAt, url }: IDownloadLink,
   password: string,
-  publicDownloadBaseUrl: string
+  // archives whose method is not known were encrypted with ZIP 2.0
+  encryptionMethod: EncryptionMethodEnum = EncryptionMethodEnum.ZIP20,
+  // archives whose formats are not known were exported in yaml only
+  exportFormats: ReadonlyArray<UserDataExportFormat> = ["yaml"]
 ) =>
   pipe(
     {
@@ -17,21 +65,26 @@ export const userDataDownloadMessage = (
   abbiamo completato la gestione della richiesta di accesso ai tuoi dati.
   
   Qui trovi il link per scaricare i dati personali che trattiamo tramite l’App IO.
-  I dati sono compressi in un file zip, che è disponibile per i prossimi 15 giorni.
+  I dati sono compressi in un file zip, che puoi scaricare fino al ${formatExpiryDate(
+    expiresAt
+  )}: dopo questa data il link non sarà più valido.
   
   Clicca il link qui sotto:
   
-  [Link all'archivio ZIP](${publicDownloadBaseUrl}/${blobName})
+  [Link all'archivio ZIP](${url})
   
   Oppure copia e incolla l’indirizzo nel tuo browser:
   
-  \`${publicDownloadBaseUrl}/${blobName}\`
+  \`${url}\`
   
   Per aprire il file ZIP, usa questa password:
   
   \`${password}\`
   
-  I dati contenuti nello zip sono in formato yaml: un formato standard che in informatica consente lo scambio di dati fra applicazioni diverse.
+  ${ARCHIVE_TOOLS[encryptionMethod]}
+  
+  I dati contenuti nello zip sono ${describeExportFormats(exportFormats)}
+  Per consultarli più facilmente, apri con il tuo browser il file index.html: troverai un riepilogo del tuo profilo, dei messaggi ricevuti e delle tue preferenze sui servizi.
   
   Nello zip, potrai trovare:
   - Il testo dei Messaggi da te ricevuti;
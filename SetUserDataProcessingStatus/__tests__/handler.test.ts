@@ -63,6 +63,7 @@ describe("setUserDataProcessingStatusHandler", () => {
       mockUserDataProcessingModel
     )(
       null,
+      null, // Not used
       aUserDataProcessingChoice,
       notExistingFiscalCode,
       UserDataProcessingStatusEnum.CLOSED
@@ -98,6 +99,7 @@ describe("setUserDataProcessingStatusHandler", () => {
       mockUserDataProcessingModel
     )(
       null,
+      null, // Not used
       aUserDataProcessingChoice,
       aFiscalCode,
       UserDataProcessingStatusEnum.CLOSED
@@ -144,6 +146,7 @@ describe("setUserDataProcessingStatusHandler", () => {
       mockUserDataProcessingModel
     )(
       null,
+      null, // Not used
       aUserDataProcessingChoice,
       aFiscalCode,
       UserDataProcessingStatusEnum.CLOSED
@@ -190,6 +193,7 @@ describe("setUserDataProcessingStatusHandler", () => {
       mockUserDataProcessingModel
     )(
       null,
+      null, // Not used
       aUserDataProcessingChoice,
       aFiscalCode,
       // @ts-ignore to force bad behavior
@@ -28,6 +28,10 @@ import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/u
 import { UserDataProcessingStatusEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingStatus";
 import { Option } from "fp-ts/lib/Option";
 import * as t from "io-ts/lib/index";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
 
 export type Response = ResponseSuccess | ResponseError;
 
@@ -45,6 +49,7 @@ type AllowedUserDataProcessingStatus = t.TypeOf<
 
 type IHttpHandler = (
   context: Context,
+  auth: IAzureGdprAuthorization,
   param1: UserDataProcessingChoice,
   param2: FiscalCode,
   param3: AllowedUserDataProcessingStatus
@@ -54,6 +59,7 @@ export const setUserDataProcessingStatusHandler = (
   userDataProcessingModel: UserDataProcessingModel
 ): IHttpHandler => async (
   _,
+  __,
   choice,
   fiscalCode,
   newStatus
@@ -117,6 +123,8 @@ export const setUserDataProcessingStatus = (
 
   const middlewaresWrap = withRequestMiddlewares(
     ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
     RequiredParamMiddleware("choice", UserDataProcessingChoice),
     RequiredParamMiddleware("fiscalCode", FiscalCode),
     RequiredParamMiddleware("newStatus", AllowedUserDataProcessingStatus)
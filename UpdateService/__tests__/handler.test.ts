@@ -175,4 +175,46 @@ describe("UpdateServiceHandler", () => {
       });
     }
   });
+
+  it("should preview the updated service without writing it when dryRun is set", async () => {
+    const serviceModelMock = {
+      findOneByServiceId: jest.fn(() => {
+        return TE.right(O.some(aRetrievedService));
+      }),
+      update: jest.fn()
+    };
+
+    const updateServiceHandler = UpdateServiceHandler(serviceModelMock as any);
+
+    const response = await updateServiceHandler(
+      undefined as any, // Not used
+      undefined as any, // Not used
+      aServicePayload.service_id,
+      {
+        ...aServicePayload,
+        department_name: aDepartmentName
+      },
+      true
+    );
+
+    expect(serviceModelMock.update).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseSuccessJson");
+    if (response.kind === "IResponseSuccessJson") {
+      expect(response.value).toEqual({
+        changes: [
+          {
+            field: "department_name",
+            new_value: JSON.stringify(aDepartmentName),
+            old_value: JSON.stringify(aServicePayload.department_name)
+          }
+        ],
+        service: {
+          ...aSeralizedService,
+          department_name: aDepartmentName,
+          id: `${aServicePayload.service_id}-0000000000000002`,
+          version: 2
+        }
+      });
+    }
+  });
 });
@@ -37,16 +37,21 @@ import {
   apiServiceToService,
   retrievedServiceToApiService
 } from "../utils/conversions";
+import { ServiceDryRun } from "../generated/definitions/ServiceDryRun";
+import { DryRunMiddleware } from "../utils/middlewares/dryRun";
 import { ServicePayloadMiddleware } from "../utils/middlewares/service";
 import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
+import { previewServiceVersion } from "../utils/serviceVersions";
 
 type IUpdateServiceHandler = (
   context: Context,
   auth: IAzureApiAuthorization,
   serviceId: ServiceId,
-  servicePayload: ApiService
+  servicePayload: ApiService,
+  dryRun?: boolean
 ) => Promise<
   | IResponseSuccessJson<ApiService>
+  | IResponseSuccessJson<ServiceDryRun>
   | IResponseErrorValidation
   | IResponseErrorQuery
   | IResponseErrorNotFound
@@ -58,7 +63,7 @@ export function UpdateServiceHandler(
   serviceModel: ServiceModel
 ): IUpdateServiceHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-  return async (context, _, serviceId, servicePayload) => {
+  return async (context, _, serviceId, servicePayload, dryRun) => {
     if (servicePayload.service_id !== serviceId) {
       return ResponseErrorValidation(
         "Error validating payload",
@@ -87,6 +92,12 @@ export function UpdateServiceHandler(
 
     const existingService = maybeService.value;
 
+    if (dryRun) {
+      return ResponseSuccessJson(
+        previewServiceVersion(maybeService, apiServiceToService(servicePayload))
+      );
+    }
+
     const errorOrUpdatedService = await serviceModel.update({
       ...existingService,
       ...apiServiceToService(servicePayload)
@@ -122,7 +133,9 @@ export function UpdateService(
     // Extracts the ServiceId from the URL path parameter
     ServiceIdMiddleware,
     // Extracts the Service payload from the request body
-    ServicePayloadMiddleware
+    ServicePayloadMiddleware,
+    // Extracts the optional dry-run flag
+    DryRunMiddleware
   );
 
   return wrapRequestHandler(middlewaresWrap(handler));
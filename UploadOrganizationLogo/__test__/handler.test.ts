@@ -4,10 +4,22 @@ import { OrganizationFiscalCode } from "@pagopa/ts-commons/lib/strings";
 
 import { BlobService } from "azure-storage";
 import { Logo } from "../../generated/definitions/Logo";
+import { ILogoPolicy } from "../../utils/logo";
 import { UploadOrganizationLogoHandler } from "../handler";
 
 const anOrganizationFiscalCode = "00000000000" as OrganizationFiscalCode;
 const logosUrl = "LOGOS_URL";
+const aLogoPolicy: ILogoPolicy = {
+  maxBytes: 1048576,
+  maxHeight: 4096,
+  maxWidth: 4096,
+  minHeight: 1,
+  minWidth: 1,
+  requireSquare: false,
+  resizeWidths: [],
+  transparency: "allowed"
+};
+
 describe("UploadOrganizationLogoHandler", () => {
   it("should return a validation error response if the request payload is invalid", async () => {
     const requestPayload = {
@@ -25,7 +37,8 @@ describe("UploadOrganizationLogoHandler", () => {
 
     const uploadOrganizationLogoHandler = UploadOrganizationLogoHandler(
       blobServiceMock,
-      logosUrl
+      logosUrl,
+      aLogoPolicy
     );
     const response = await uploadOrganizationLogoHandler(
       mockedContext as any,
@@ -48,7 +61,8 @@ describe("UploadOrganizationLogoHandler", () => {
     } as any) as BlobService;
     const uploadOrganizationLogoHandler = UploadOrganizationLogoHandler(
       blobServiceMock,
-      logosUrl
+      logosUrl,
+      aLogoPolicy
     );
     const response = await uploadOrganizationLogoHandler(
       mockedContext as any,
@@ -71,7 +85,8 @@ describe("UploadOrganizationLogoHandler", () => {
     } as any) as BlobService;
     const uploadOrganizationLogoHandler = UploadOrganizationLogoHandler(
       blobServiceMock,
-      logosUrl
+      logosUrl,
+      aLogoPolicy
     );
     const response = await uploadOrganizationLogoHandler(
       mockedContext as any,
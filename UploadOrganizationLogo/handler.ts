@@ -10,7 +10,6 @@ import {
   IResponseErrorValidation,
   IResponseSuccessRedirectToResource,
   ResponseErrorInternal,
-  ResponseErrorValidation,
   ResponseSuccessRedirectToResource
 } from "@pagopa/ts-commons/lib/responses";
 
@@ -30,8 +29,15 @@ import { pipe } from "fp-ts/lib/function";
 
 import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
 import { OrganizationFiscalCode } from "@pagopa/ts-commons/lib/strings";
-import * as UPNG from "upng-js";
 import { Logo as ApiLogo } from "../generated/definitions/Logo";
+import {
+  getLogoRenditions,
+  getOrganizationLogoBaseName,
+  ILogoPolicy,
+  LOGOS_CONTAINER_NAME,
+  uploadLogoRenditions,
+  validateLogo
+} from "../utils/logo";
 import { LogoPayloadMiddleware } from "../utils/middlewares/service";
 
 type IUploadOrganizationLogoHandler = (
@@ -46,13 +52,6 @@ type IUploadOrganizationLogoHandler = (
   | IResponseErrorInternal
 >;
 
-// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-const imageValidationErrorResponse = () =>
-  ResponseErrorValidation(
-    "Image not valid",
-    "The base64 representation of the logo is invalid"
-  );
-
 const upsertBlobFromImageBuffer = (
   blobService: BlobService,
   containerName: string,
@@ -69,32 +68,36 @@ const upsertBlobFromImageBuffer = (
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function UploadOrganizationLogoHandler(
   blobService: BlobService,
-  logosUrl: string
+  logosUrl: string,
+  logoPolicy: ILogoPolicy
 ): IUploadOrganizationLogoHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
   return async (_, __, organizationFiscalCode, logoPayload) => {
     const bufferImage = Buffer.from(logoPayload.logo, "base64");
-    const cleanedOrganizationFiscalCode = organizationFiscalCode.replace(
-      /^0+/,
-      ""
+    const cleanedOrganizationFiscalCode = getOrganizationLogoBaseName(
+      organizationFiscalCode
     );
     return pipe(
-      O.tryCatch(() => UPNG.decode(bufferImage)),
-      TE.fromOption(() => imageValidationErrorResponse()),
-      TE.chain(image =>
-        TE.fromPredicate(
-          (img: UPNG.Image) => img.width > 0 && img.height > 0,
-          () => imageValidationErrorResponse()
-        )(image)
-      ),
-      TE.chainW(() =>
+      bufferImage,
+      validateLogo(logoPolicy),
+      TE.fromEither,
+      TE.chainW(image =>
         pipe(
           upsertBlobFromImageBuffer(
             blobService,
-            "services",
+            LOGOS_CONTAINER_NAME,
             `${cleanedOrganizationFiscalCode}.png`,
             bufferImage
           ),
+          // store the resized copies only once the logo has been stored
+          TE.chainFirst(() =>
+            uploadLogoRenditions(
+              blobService,
+              LOGOS_CONTAINER_NAME,
+              cleanedOrganizationFiscalCode,
+              getLogoRenditions(logoPolicy, image)
+            )
+          ),
           TE.mapLeft(err =>
             ResponseErrorInternal(
               `Error trying to connect to storage ${err.message}`
@@ -131,9 +134,14 @@ export function UploadOrganizationLogoHandler(
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function UploadOrganizationLogo(
   blobService: BlobService,
-  logosUrl: string
+  logosUrl: string,
+  logoPolicy: ILogoPolicy
 ): express.RequestHandler {
-  const handler = UploadOrganizationLogoHandler(blobService, logosUrl);
+  const handler = UploadOrganizationLogoHandler(
+    blobService,
+    logosUrl,
+    logoPolicy
+  );
 
   const middlewaresWrap = withRequestMiddlewares(
     // Extract Azure Functions bindings
@@ -12,11 +12,13 @@ import createAzureFunctionHandler from "@pagopa/express-azure-functions/dist/src
 import { createBlobService } from "azure-storage";
 import * as bodyParser from "body-parser";
 import { getConfigOrThrow } from "../utils/config";
+import { getLogoPolicy } from "../utils/logo";
 
 import { UploadOrganizationLogo } from "./handler";
 
 const config = getConfigOrThrow();
 const logosUrl = config.LOGOS_URL;
+const logoPolicy = getLogoPolicy(config);
 
 const blobService = createBlobService(config.AssetsStorageConnection);
 
@@ -37,7 +39,7 @@ app.use(bodyParser.json({ limit: "5mb" }));
 // Add express route
 app.put(
   "/adm/organizations/:organizationfiscalcode/logo",
-  UploadOrganizationLogo(blobService, logosUrl)
+  UploadOrganizationLogo(blobService, logosUrl, logoPolicy)
 );
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
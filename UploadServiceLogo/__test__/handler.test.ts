@@ -9,8 +9,26 @@ import { BlobService } from "azure-storage";
 import * as TE from "fp-ts/lib/TaskEither";
 import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
 import { Logo } from "../../generated/definitions/Logo";
+import { ILogoPolicy } from "../../utils/logo";
 import { UpdateServiceLogoHandler } from "../handler";
 
+const aLogoPolicy: ILogoPolicy = {
+  maxBytes: 1048576,
+  maxHeight: 4096,
+  maxWidth: 4096,
+  minHeight: 1,
+  minWidth: 1,
+  requireSquare: false,
+  resizeWidths: [],
+  transparency: "allowed"
+};
+
+// a 1x1px PNG image
+const aValidLogoPayload = {
+  logo:
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNk+A8AAQUBAScY42YAAAAASUVORK5CYII="
+} as Logo;
+
 describe("UpdateServiceLogoHandler", () => {
   it("should return a not found error when the service is not found in the db", async () => {
     const aServiceId = "1" as NonEmptyString;
@@ -21,7 +39,8 @@ describe("UpdateServiceLogoHandler", () => {
     const updateServiceLogoHandler = UpdateServiceLogoHandler(
       mockServiceModel as any,
       undefined as any,
-      undefined as any
+      undefined as any,
+      aLogoPolicy
     );
     const response = await updateServiceLogoHandler(
       undefined as any, // Not used
@@ -47,7 +66,8 @@ describe("UpdateServiceLogoHandler", () => {
     const updateServiceLogoHandler = UpdateServiceLogoHandler(
       mockServiceModel as any,
       undefined as any,
-      undefined as any
+      undefined as any,
+      aLogoPolicy
     );
     const response = await updateServiceLogoHandler(
       undefined as any, // Not used
@@ -84,7 +104,8 @@ describe("UpdateServiceLogoHandler", () => {
     const updateServiceLogoHandler = UpdateServiceLogoHandler(
       mockServiceModel as any,
       blobServiceMock,
-      logosUrl
+      logosUrl,
+      aLogoPolicy
     );
     const response = await updateServiceLogoHandler(
       mockedContext as any,
@@ -101,10 +122,7 @@ describe("UpdateServiceLogoHandler", () => {
   });
 
   it("should return a success response if the request payload is valid", async () => {
-    const requestPayload = {
-      logo:
-        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNk+A8AAQUBAScY42YAAAAASUVORK5CYII="
-    } as Logo;
+    const requestPayload = aValidLogoPayload;
     const mockedContext = {};
     const aServiceId = "1" as NonEmptyString;
     const logosUrl = "LOGOS_URL";
@@ -117,7 +135,8 @@ describe("UpdateServiceLogoHandler", () => {
     const updateServiceLogoHandler = UpdateServiceLogoHandler(
       mockServiceModel as any,
       blobServiceMock,
-      logosUrl
+      logosUrl,
+      aLogoPolicy
     );
     const response = await updateServiceLogoHandler(
       mockedContext as any,
@@ -134,10 +153,7 @@ describe("UpdateServiceLogoHandler", () => {
   });
 
   it("should return an internal error response if blob write fails", async () => {
-    const requestPayload = {
-      logo:
-        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNk+A8AAQUBAScY42YAAAAASUVORK5CYII="
-    } as Logo;
+    const requestPayload = aValidLogoPayload;
     const mockedContext = {};
     const aServiceId = "1" as NonEmptyString;
     const logosUrl = "LOGOS_URL";
@@ -150,7 +166,8 @@ describe("UpdateServiceLogoHandler", () => {
     const updateServiceLogoHandler = UpdateServiceLogoHandler(
       mockServiceModel as any,
       blobServiceMock,
-      logosUrl
+      logosUrl,
+      aLogoPolicy
     );
     const response = await updateServiceLogoHandler(
       mockedContext as any,
@@ -166,3 +183,71 @@ describe("UpdateServiceLogoHandler", () => {
     expect(response.kind).toBe("IResponseErrorInternal");
   });
 });
+
+describe("UpdateServiceLogoHandler with a logo policy", () => {
+  it("should store the resized copies of the logo required by the policy", async () => {
+    const requestPayload = aValidLogoPayload;
+    const aServiceId = "AServiceId" as NonEmptyString;
+    const mockServiceModel = {
+      findOneByServiceId: jest.fn(() => TE.right(some({})))
+    };
+    const blobServiceMock = ({
+      createBlockBlobFromText: jest.fn((_, __, ___, cb) => cb(null, "any"))
+    } as any) as BlobService;
+    const updateServiceLogoHandler = UpdateServiceLogoHandler(
+      mockServiceModel as any,
+      blobServiceMock,
+      "LOGOS_URL",
+      { ...aLogoPolicy, resizeWidths: [60, 120] }
+    );
+    const response = await updateServiceLogoHandler(
+      {} as any,
+      undefined as any, // Not used
+      aServiceId,
+      requestPayload
+    );
+
+    expect(response.kind).toBe("IResponseSuccessRedirectToResource");
+    expect(blobServiceMock.createBlockBlobFromText).toHaveBeenCalledTimes(3);
+    expect(blobServiceMock.createBlockBlobFromText).toHaveBeenCalledWith(
+      "services",
+      "aserviceid_60.png",
+      expect.any(Buffer),
+      expect.any(Function)
+    );
+    expect(blobServiceMock.createBlockBlobFromText).toHaveBeenCalledWith(
+      "services",
+      "aserviceid_120.png",
+      expect.any(Buffer),
+      expect.any(Function)
+    );
+  });
+
+  it("should return a detailed validation error if the logo violates the policy", async () => {
+    const requestPayload = aValidLogoPayload;
+    const mockServiceModel = {
+      findOneByServiceId: jest.fn(() => TE.right(some({})))
+    };
+    const blobServiceMock = ({
+      createBlockBlobFromText: jest.fn()
+    } as any) as BlobService;
+    const updateServiceLogoHandler = UpdateServiceLogoHandler(
+      mockServiceModel as any,
+      blobServiceMock,
+      "LOGOS_URL",
+      { ...aLogoPolicy, minWidth: 60 }
+    );
+    const response = await updateServiceLogoHandler(
+      {} as any,
+      undefined as any, // Not used
+      "1" as NonEmptyString,
+      requestPayload
+    );
+
+    expect(blobServiceMock.createBlockBlobFromText).not.toHaveBeenCalled();
+    expect(response.kind).toBe("IResponseErrorValidation");
+    expect(response.detail).toContain(
+      "The logo width must be between 60px and 4096px, found 1px"
+    );
+  });
+});
@@ -9,7 +9,6 @@ import {
   IResponseSuccessRedirectToResource,
   ResponseErrorInternal,
   ResponseErrorNotFound,
-  ResponseErrorValidation,
   ResponseSuccessRedirectToResource
 } from "@pagopa/ts-commons/lib/responses";
 
@@ -34,8 +33,15 @@ import { pipe } from "fp-ts/lib/function";
 import * as O from "fp-ts/lib/Option";
 import * as E from "fp-ts/lib/Either";
 import * as TE from "fp-ts/lib/TaskEither";
-import * as UPNG from "upng-js";
 import { Logo as ApiLogo } from "../generated/definitions/Logo";
+import {
+  getLogoRenditions,
+  getServiceLogoBaseName,
+  ILogoPolicy,
+  LOGOS_CONTAINER_NAME,
+  uploadLogoRenditions,
+  validateLogo
+} from "../utils/logo";
 import { ServiceId } from "../generated/definitions/ServiceId";
 import { LogoPayloadMiddleware } from "../utils/middlewares/service";
 import { ServiceIdMiddleware } from "../utils/middlewares/serviceid";
@@ -54,13 +60,6 @@ type IUpdateServiceHandler = (
   | IResponseErrorInternal
 >;
 
-// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
-const imageValidationErrorResponse = () =>
-  ResponseErrorValidation(
-    "Image not valid",
-    "The base64 representation of the logo is invalid"
-  );
-
 const upsertBlobFromImageBuffer = (
   blobService: BlobService,
   containerName: string,
@@ -78,7 +77,8 @@ const upsertBlobFromImageBuffer = (
 export function UpdateServiceLogoHandler(
   serviceModel: ServiceModel,
   blobService: BlobService,
-  logosUrl: string
+  logosUrl: string,
+  logoPolicy: ILogoPolicy
 ): IUpdateServiceHandler {
   // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
   return async (_, __, serviceId, logoPayload) => {
@@ -101,32 +101,28 @@ export function UpdateServiceLogoHandler(
     }
 
     const bufferImage = Buffer.from(logoPayload.logo, "base64");
-    const lowerCaseServiceId = serviceId.toLowerCase();
+    const lowerCaseServiceId = getServiceLogoBaseName(serviceId);
     return pipe(
-      O.tryCatch(() => UPNG.decode(bufferImage)),
-      O.fold(
-        () =>
-          E.left<IResponseErrorValidation, UPNG.Image>(
-            imageValidationErrorResponse()
-          ),
-        img => E.right<IResponseErrorValidation, UPNG.Image>(img)
-      ),
+      bufferImage,
+      validateLogo(logoPolicy),
       TE.fromEither,
-      TE.chain(
-        TE.fromPredicate(
-          (img: UPNG.Image) => img.width > 0 && img.height > 0,
-          () => imageValidationErrorResponse()
-        )
-      ),
-      TE.chainW(() =>
+      TE.chainW(image =>
         pipe(
           upsertBlobFromImageBuffer(
             blobService,
-            "services",
+            LOGOS_CONTAINER_NAME,
             `${lowerCaseServiceId}.png`,
             bufferImage
           ),
-
+          // store the resized copies only once the logo has been stored
+          TE.chainFirst(() =>
+            uploadLogoRenditions(
+              blobService,
+              LOGOS_CONTAINER_NAME,
+              lowerCaseServiceId,
+              getLogoRenditions(logoPolicy, image)
+            )
+          ),
           TE.mapLeft(err =>
             ResponseErrorInternal(
               `Error trying to connect to storage ${err.message}`
@@ -164,9 +160,15 @@ export function UpdateServiceLogoHandler(
 export function UploadServiceLogo(
   serviceModel: ServiceModel,
   blobService: BlobService,
-  logosUrl: string
+  logosUrl: string,
+  logoPolicy: ILogoPolicy
 ): express.RequestHandler {
-  const handler = UpdateServiceLogoHandler(serviceModel, blobService, logosUrl);
+  const handler = UpdateServiceLogoHandler(
+    serviceModel,
+    blobService,
+    logosUrl,
+    logoPolicy
+  );
 
   const middlewaresWrap = withRequestMiddlewares(
     // Extract Azure Functions bindings
@@ -16,6 +16,7 @@ import createAzureFunctionHandler from "@pagopa/express-azure-functions/dist/src
 import { createBlobService } from "azure-storage";
 import * as bodyParser from "body-parser";
 import { getConfigOrThrow } from "../utils/config";
+import { getLogoPolicy } from "../utils/logo";
 import { cosmosdbClient } from "../utils/cosmosdb";
 
 import { UploadServiceLogo } from "./handler";
@@ -24,6 +25,7 @@ const config = getConfigOrThrow();
 
 const database = cosmosdbClient.database(config.COSMOSDB_NAME);
 const logosUrl = config.LOGOS_URL;
+const logoPolicy = getLogoPolicy(config);
 
 const servicesContainer = database.container(SERVICE_COLLECTION_NAME);
 
@@ -48,7 +50,7 @@ app.use(bodyParser.json({ limit: "5mb" }));
 // Add express route
 app.put(
   "/adm/services/:serviceid/logo",
-  UploadServiceLogo(serviceModel, blobService, logosUrl)
+  UploadServiceLogo(serviceModel, blobService, logosUrl, logoPolicy)
 );
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
@@ -5,7 +5,9 @@ import {
   mockOrchestratorCancelTimer,
   mockOrchestratorContext,
   mockOrchestratorGetInput,
-  mockOrchestratorTaskAny
+  mockOrchestratorSetCustomStatus,
+  mockOrchestratorTaskAny,
+  mockWaitForExternalEvent
 } from "../../__mocks__/durable-functions";
 import {
   createUserDataDeleteOrchestratorHandler,
@@ -42,7 +44,8 @@ import {
 import { ActivityResultSuccess as GetServicesPreferencesActivityResultSuccess } from "../../GetServicesPreferencesActivity/handler";
 import { ProcessableUserDataDelete } from "../../UserDataProcessingTrigger/handler";
 import { ActivityResultSuccess as SendUserDataDeleteEmailActivityResultSuccess } from "../../SendUserDataDeleteEmailActivity/handler";
-import { addDays, addHours } from "../utils";
+import { ActivityResultSuccess as VerifyUserDataDeleteActivityResultSuccess } from "../../VerifyUserDataDeleteActivity/handler";
+import { addDays, addHours, EXPEDITE_EVENT, EXTEND_EVENT } from "../utils";
 import { ServicesPreferencesModeEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/ServicesPreferencesMode";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
@@ -109,6 +112,12 @@ const deleteUserDataActivity = jest.fn().mockImplementation(() =>
   })
 );
 
+const verifyUserDataDeleteActivity = jest.fn().mockImplementation(() =>
+  VerifyUserDataDeleteActivityResultSuccess.encode({
+    kind: "SUCCESS"
+  })
+);
+
 const sendUserDataDeleteEmailActivity = jest.fn().mockImplementation(() =>
   SendUserDataDeleteEmailActivityResultSuccess.encode({
     kind: "SUCCESS"
@@ -141,6 +150,8 @@ const switchMockImplementation = (name: string, ...args: readonly unknown[]) =>
     ? setUserSessionLockActivity
     : name === "DeleteUserDataActivity"
     ? deleteUserDataActivity
+    : name === "VerifyUserDataDeleteActivity"
+    ? verifyUserDataDeleteActivity
     : name === "SendUserDataDeleteEmailActivity"
     ? sendUserDataDeleteEmailActivity
     : name === "GetProfileActivity"
@@ -457,6 +468,57 @@ describe("createUserDataDeleteOrchestratorHandler", () => {
     expect(deleteUserDataActivity).toHaveBeenCalled();
     expect(deleteUserDataActivity).toHaveBeenCalledTimes(1);
 
+    expect(verifyUserDataDeleteActivity).not.toHaveBeenCalled();
+
+    expect(sendUserDataDeleteEmailActivity).not.toHaveBeenCalled();
+
+    expect(updateSubscriptionFeed).not.toHaveBeenCalled();
+  });
+
+  it("new processing requests: should set status as FAILED if user data are left after the deletion", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce(aProcessableUserDataDelete);
+
+    verifyUserDataDeleteActivity.mockImplementationOnce(() => ({
+      kind: "USER_DATA_LEFT_FAILURE",
+      remaining: { messages: 0, profiles: 1 }
+    }));
+
+    const result = consumeOrchestrator(
+      createUserDataDeleteOrchestratorHandler(
+        waitForAbortInterval,
+        waitForDownloadInterval
+      )(context)
+    );
+
+    expect(result).toEqual({
+      activityName: "VerifyUserDataDeleteActivity",
+      extra: { remaining: { messages: 0, profiles: 1 } },
+      kind: "ACTIVITY",
+      reason: "VERIFY_USER_DATA_DELETE"
+    });
+
+    expect(deleteUserDataActivity).toHaveBeenCalledTimes(1);
+    // the deletion of the run is verified
+    const { backupFolder } = deleteUserDataActivity.mock.calls[0][1];
+    expect(verifyUserDataDeleteActivity).toHaveBeenCalledWith(
+      expect.any(String),
+      expectedRetryOptions,
+      {
+        backupFolder,
+        fiscalCode: aProcessableUserDataDelete.fiscalCode
+      }
+    );
+
+    expect(setUserDataProcessingStatusActivity).toHaveBeenCalledWith(
+      expect.any(String),
+      expectedRetryOptions,
+      expect.objectContaining({
+        failureReason:
+          "ACTIVITY(VerifyUserDataDeleteActivity)|VERIFY_USER_DATA_DELETE",
+        nextStatus: UserDataProcessingStatusEnum.FAILED
+      })
+    );
+
     expect(sendUserDataDeleteEmailActivity).not.toHaveBeenCalled();
 
     expect(updateSubscriptionFeed).not.toHaveBeenCalled();
@@ -699,11 +761,26 @@ describe("createUserDataDeleteOrchestratorHandler", () => {
     expect(deleteUserDataActivity).toHaveBeenCalled();
     expect(deleteUserDataActivity).toHaveBeenCalledTimes(1);
 
+    expect(verifyUserDataDeleteActivity).toHaveBeenCalledTimes(1);
+
     expect(sendUserDataDeleteEmailActivity).toHaveBeenCalled();
     expect(sendUserDataDeleteEmailActivity).toHaveBeenCalledTimes(1);
 
     expect(updateSubscriptionFeed).toHaveBeenCalled();
     expect(updateSubscriptionFeed).toHaveBeenCalledTimes(1);
+
+    // the progress is published at each step
+    expect(mockOrchestratorSetCustomStatus).toHaveBeenCalledWith({
+      step: "WAITING_FOR_ABORT",
+      updatedAt: context.df.currentUtcDateTime.toISOString(),
+      wakeUpAt: addDays(
+        context.df.currentUtcDateTime,
+        waitForAbortInterval
+      ).toISOString()
+    });
+    expect(mockOrchestratorSetCustomStatus).toHaveBeenLastCalledWith(
+      expect.objectContaining({ step: "COMPLETED" })
+    );
   });
 
   it("new processing requests: should not delete profile and set status as CLOSED if abort request comes before wait interval expires", () => {
@@ -1380,3 +1457,126 @@ describe("createUserDataDeleteOrchestratorHandler", () => {
     );
   });
 });
+
+describe("createUserDataDeleteOrchestratorHandler abort window", () => {
+  const anExtendedAbortWindowEnd = addDays(
+    context.df.currentUtcDateTime,
+    10 as Day
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // each event is a distinct task, the extension brings the new deadline
+    mockWaitForExternalEvent.mockImplementation((name: string) => ({
+      name,
+      result:
+        name === EXTEND_EVENT
+          ? { until: anExtendedAbortWindowEnd.toISOString() }
+          : undefined
+    }));
+  });
+
+  afterAll(() => {
+    mockWaitForExternalEvent.mockReturnValue("mockWaitForExternalEvent");
+  });
+
+  it("should delete user data without waiting the end of the abort window if the request is expedited", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce(aProcessableUserDataDelete);
+    mockOrchestratorTaskAny.mockImplementationOnce(tasks =>
+      tasks.find(task => task.name === EXPEDITE_EVENT)
+    );
+
+    const result = consumeOrchestrator(
+      createUserDataDeleteOrchestratorHandler(
+        waitForAbortInterval,
+        waitForDownloadInterval
+      )(context)
+    );
+
+    expect(OrchestratorSuccess.decode(result)).toEqual(
+      E.right({ kind: "SUCCESS", type: "DELETED" })
+    );
+    expect(context.df.createTimer).toHaveBeenCalledTimes(1);
+    expect(mockOrchestratorCancelTimer).toHaveBeenCalledTimes(1);
+    expect(deleteUserDataActivity).toHaveBeenCalledTimes(1);
+  });
+
+  it("should wait until the new deadline if the abort window is extended", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce(aProcessableUserDataDelete);
+    mockOrchestratorTaskAny.mockImplementationOnce(tasks =>
+      tasks.find(task => task.name === EXTEND_EVENT)
+    );
+
+    const result = consumeOrchestrator(
+      createUserDataDeleteOrchestratorHandler(
+        waitForAbortInterval,
+        waitForDownloadInterval
+      )(context)
+    );
+
+    expect(OrchestratorSuccess.decode(result)).toEqual(
+      E.right({ kind: "SUCCESS", type: "DELETED" })
+    );
+    expect(context.df.createTimer).toHaveBeenCalledTimes(2);
+    expect(context.df.createTimer).toHaveBeenLastCalledWith(
+      anExtendedAbortWindowEnd
+    );
+    expect(mockOrchestratorCancelTimer).toHaveBeenCalledTimes(1);
+    expect(mockOrchestratorSetCustomStatus).toHaveBeenCalledWith(
+      expect.objectContaining({
+        step: "WAITING_FOR_ABORT",
+        wakeUpAt: anExtendedAbortWindowEnd.toISOString()
+      })
+    );
+    expect(deleteUserDataActivity).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore an extension of the abort window to an earlier deadline", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce(aProcessableUserDataDelete);
+    mockWaitForExternalEvent.mockImplementation((name: string) => ({
+      name,
+      result:
+        name === EXTEND_EVENT
+          ? { until: context.df.currentUtcDateTime.toISOString() }
+          : undefined
+    }));
+    mockOrchestratorTaskAny.mockImplementationOnce(tasks =>
+      tasks.find(task => task.name === EXTEND_EVENT)
+    );
+
+    consumeOrchestrator(
+      createUserDataDeleteOrchestratorHandler(
+        waitForAbortInterval,
+        waitForDownloadInterval
+      )(context)
+    );
+
+    expect(context.df.createTimer).toHaveBeenCalledTimes(2);
+    expect(context.df.createTimer).toHaveBeenLastCalledWith(
+      addDays(context.df.currentUtcDateTime, waitForAbortInterval)
+    );
+    expect(deleteUserDataActivity).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not delete user data if the user aborts the request during an extended abort window", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce(aProcessableUserDataDelete);
+    mockOrchestratorTaskAny
+      .mockImplementationOnce(tasks =>
+        tasks.find(task => task.name === EXTEND_EVENT)
+      )
+      .mockImplementationOnce(([, abortEvent]) => abortEvent);
+
+    const result = consumeOrchestrator(
+      createUserDataDeleteOrchestratorHandler(
+        waitForAbortInterval,
+        waitForDownloadInterval
+      )(context)
+    );
+
+    expect(OrchestratorSuccess.decode(result)).toEqual(
+      E.right({ kind: "SUCCESS", type: "ABORTED" })
+    );
+    expect(mockOrchestratorCancelTimer).toHaveBeenCalledTimes(2);
+    expect(deleteUserDataActivity).not.toHaveBeenCalled();
+  });
+});
@@ -54,12 +54,27 @@ import {
 } from "../IsFailedUserDataProcessingActivity/handler";
 
 import { Input as UpdateServiceSubscriptionFeedActivityInput } from "../UpdateSubscriptionsFeedActivity/handler";
+import {
+  ActivityInput as VerifyUserDataDeleteActivityInput,
+  ActivityResultSuccess as VerifyUserDataDeleteActivityResultSuccess,
+  UserDataLeftFailure as VerifyUserDataDeleteActivityUserDataLeftFailure
+} from "../VerifyUserDataDeleteActivity/handler";
 import { ProcessableUserDataDelete } from "../UserDataProcessingTrigger/handler";
 import {
   trackUserDataDeleteEvent,
   trackUserDataDeleteException
 } from "../utils/appinsightsEvents";
-import { ABORT_EVENT, addDays, addHours } from "./utils";
+import { setOrchestrationStep } from "../utils/userDataProcessingOrchestration";
+import { UserDataBackupFolder } from "../utils/userDataBackup";
+import {
+  ABORT_EVENT,
+  addDays,
+  addHours,
+  EXPEDITE_EVENT,
+  ExpediteEventPayload,
+  EXTEND_EVENT,
+  ExtendEventPayload
+} from "./utils";
 
 const logPrefix = "UserDataDeleteOrchestrator";
 
@@ -105,6 +120,13 @@ export const OrchestratorSuccess = t.interface({
   type: t.keyof({ ABORTED: null, DELETED: null })
 });
 
+export type AbortWindowOutcome = t.TypeOf<typeof AbortWindowOutcome>;
+export const AbortWindowOutcome = t.keyof({
+  ABORTED: null,
+  EXPEDITED: null,
+  EXPIRED: null
+});
+
 export type SkippedDocument = t.TypeOf<typeof SkippedDocument>;
 export const SkippedDocument = t.interface({
   kind: t.literal("SKIPPED")
@@ -262,11 +284,9 @@ function* hasPendingDownload(
 
 function* deleteUserData(
   context: IOrchestrationFunctionContext,
-  currentRecord: UserDataProcessing
+  currentRecord: UserDataProcessing,
+  backupFolder: NonEmptyString
 ): Generator<Task> {
-  const backupFolder = `${
-    currentRecord.userDataProcessingId
-  }-${context.df.currentUtcDateTime.getTime()}` as NonEmptyString;
   const result = yield context.df.callActivity(
     "DeleteUserDataActivity",
     DeleteUserDataActivityInput.encode({
@@ -291,6 +311,39 @@ function* deleteUserData(
   );
 }
 
+function* verifyUserDataDelete(
+  context: IOrchestrationFunctionContext,
+  currentRecord: UserDataProcessing,
+  backupFolder: UserDataBackupFolder
+): Generator<Task> {
+  const result = yield context.df.callActivityWithRetry(
+    "VerifyUserDataDeleteActivity",
+    retryOptions,
+    VerifyUserDataDeleteActivityInput.encode({
+      backupFolder,
+      fiscalCode: currentRecord.fiscalCode
+    })
+  );
+  return pipe(
+    result,
+    VerifyUserDataDeleteActivityResultSuccess.decode,
+    E.getOrElseW(_ => {
+      context.log.error(
+        `${logPrefix}|ERROR|VerifyUserDataDeleteActivity fail`,
+        result
+      );
+      throw toActivityFailure(
+        { kind: "VERIFY_USER_DATA_DELETE" },
+        "VerifyUserDataDeleteActivity",
+        // the documents left, if the deletion was not complete
+        VerifyUserDataDeleteActivityUserDataLeftFailure.is(result)
+          ? { remaining: result.remaining }
+          : undefined
+      );
+    })
+  );
+}
+
 function* sendUserDataDeleteEmail(
   context: IOrchestrationFunctionContext,
   toAddress: EmailAddress,
@@ -462,6 +515,88 @@ function* getServicesPreferences(
   );
 }
 
+/**
+ * Waits for the abort window to end, unless the user aborts the request.
+ * The window can be closed in advance or extended to a later deadline
+ * by the admins; an extension with an invalid or earlier deadline is ignored.
+ */
+function* waitForAbortWindow(
+  context: IOrchestrationFunctionContext,
+  currentUserDataProcessing: ProcessableUserDataDelete,
+  abortWindowEnd: Date,
+  canceledRequestEvent: Task,
+  expeditedRequestEvent: Task
+): Generator<Task | TaskSet, AbortWindowOutcome> {
+  const intervalExpiredEvent = context.df.createTimer(abortWindowEnd);
+  const extendedRequestEvent = context.df.waitForExternalEvent(EXTEND_EVENT);
+
+  setOrchestrationStep(context, "WAITING_FOR_ABORT", {
+    wakeUpAt: abortWindowEnd
+  });
+
+  // the first that get triggered
+  const triggeredEvent = yield context.df.Task.any([
+    intervalExpiredEvent,
+    canceledRequestEvent,
+    expeditedRequestEvent,
+    extendedRequestEvent
+  ]);
+
+  if (triggeredEvent === intervalExpiredEvent) {
+    return "EXPIRED";
+  }
+
+  // stop the timer to let the orchestrator end
+  intervalExpiredEvent.cancel();
+
+  if (triggeredEvent === canceledRequestEvent) {
+    return "ABORTED";
+  }
+
+  if (triggeredEvent === expeditedRequestEvent) {
+    return "EXPEDITED";
+  }
+
+  const nextAbortWindowEnd = pipe(
+    extendedRequestEvent.result,
+    ExtendEventPayload.decode,
+    E.fold(
+      err => {
+        context.log.warn(
+          `${logPrefix}|WARN|Cannot decode the extension of the abort window: ${readableReport(
+            err
+          )}`
+        );
+        return abortWindowEnd;
+      },
+      ({ requestedBy, until }) => {
+        if (until.getTime() <= abortWindowEnd.getTime()) {
+          context.log.warn(
+            `${logPrefix}|WARN|Ignoring the extension of the abort window to an earlier deadline`
+          );
+          return abortWindowEnd;
+        }
+        context.log.verbose(
+          `${logPrefix}|VERBOSE|Abort window extended until ${until.toISOString()}`
+        );
+        trackUserDataDeleteEvent("extended", currentUserDataProcessing, {
+          ...(requestedBy === undefined ? {} : { requestedBy }),
+          until: until.toISOString()
+        });
+        return until;
+      }
+    )
+  );
+
+  return yield* waitForAbortWindow(
+    context,
+    currentUserDataProcessing,
+    nextAbortWindowEnd,
+    canceledRequestEvent,
+    expeditedRequestEvent
+  );
+}
+
 /**
  * Create a handler for the orchestrator
  *
@@ -506,6 +641,8 @@ export const createUserDataDeleteOrchestratorHandler = (
       currentUserDataProcessing
     );
 
+    setOrchestrationStep(context, "PREPARING");
+
     try {
       // retrieve user profile
       const profile = yield* getProfile(
@@ -535,31 +672,49 @@ export const createUserDataDeleteOrchestratorHandler = (
         ? (0 as Day)
         : waitForAbortInterval;
 
-      // we have an interval on which we wait for eventual cancellation by the user
-      const intervalExpiredEvent = context.df.createTimer(
-        addDays(context.df.currentUtcDateTime, gracePeriod)
-      );
-
-      // we wait for eventually abort message from the user
-      const canceledRequestEvent = context.df.waitForExternalEvent(ABORT_EVENT);
-
       context.log.verbose(
         `${logPrefix}|VERBOSE|Operation stopped for ${gracePeriod} days`
       );
 
       trackUserDataDeleteEvent("paused", currentUserDataProcessing);
 
-      // the first that get triggered
-      const triggeredEvent = yield context.df.Task.any([
-        intervalExpiredEvent,
-        canceledRequestEvent
-      ]);
+      // the admins can close the window in advance
+      const expeditedRequestEvent = context.df.waitForExternalEvent(
+        EXPEDITE_EVENT
+      );
+
+      // we have an interval on which we wait for eventual cancellation by the user
+      const abortWindowOutcome = yield* waitForAbortWindow(
+        context,
+        currentUserDataProcessing,
+        addDays(context.df.currentUtcDateTime, gracePeriod),
+        // we wait for eventually abort message from the user
+        context.df.waitForExternalEvent(ABORT_EVENT),
+        expeditedRequestEvent
+      );
 
-      if (triggeredEvent === intervalExpiredEvent) {
+      if (abortWindowOutcome !== "ABORTED") {
         context.log.verbose(
-          `${logPrefix}|VERBOSE|Operation resumed after ${gracePeriod} days`
+          `${logPrefix}|VERBOSE|Operation resumed, the abort window is ${abortWindowOutcome}`
         );
 
+        if (abortWindowOutcome === "EXPEDITED") {
+          trackUserDataDeleteEvent(
+            "expedited",
+            currentUserDataProcessing,
+            pipe(
+              ExpediteEventPayload.decode(expeditedRequestEvent.result),
+              E.fold(
+                () => ({}),
+                ({ requestedBy }) =>
+                  requestedBy === undefined ? {} : { requestedBy }
+              )
+            )
+          );
+        }
+
+        setOrchestrationStep(context, "DELETING_DATA");
+
         // lock user session
         yield* setUserSessionLock(context, {
           action: "LOCK",
@@ -584,16 +739,34 @@ export const createUserDataDeleteOrchestratorHandler = (
           context.log.verbose(
             `${logPrefix}|VERBOSE|Found an active DOWNLOAD procedure, wait for ${waitForDownloadInterval} hours`
           );
-          const waitForDownloadEvent = context.df.createTimer(
-            addHours(context.df.currentUtcDateTime, waitForDownloadInterval)
+          const downloadWaitEnd = addHours(
+            context.df.currentUtcDateTime,
+            waitForDownloadInterval
           );
+          const waitForDownloadEvent = context.df.createTimer(downloadWaitEnd);
+          setOrchestrationStep(context, "WAITING_FOR_DOWNLOAD", {
+            wakeUpAt: downloadWaitEnd
+          });
           trackUserDataDeleteEvent("postponed", currentUserDataProcessing);
           yield waitForDownloadEvent;
+          setOrchestrationStep(context, "DELETING_DATA");
         }
 
         // eslint-disable-next-line extra-rules/no-commented-out-code
         // backup&delete data
-        yield* deleteUserData(context, currentUserDataProcessing);
+        const backupFolder = `${
+          currentUserDataProcessing.userDataProcessingId
+        }-${context.df.currentUtcDateTime.getTime()}` as NonEmptyString &
+          UserDataBackupFolder;
+        yield* deleteUserData(context, currentUserDataProcessing, backupFolder);
+
+        // check that nothing is left and certify the deletion
+        setOrchestrationStep(context, "VERIFYING_DELETION");
+        yield* verifyUserDataDelete(
+          context,
+          currentUserDataProcessing,
+          backupFolder
+        );
 
         // we need user email to send email
         if (
@@ -603,6 +776,7 @@ export const createUserDataDeleteOrchestratorHandler = (
           !isFailedUserDataProcessingRequest
         ) {
           // send confirm email
+          setOrchestrationStep(context, "NOTIFYING_USER");
           yield* sendUserDataDeleteEmail(
             context,
             profile.email,
@@ -611,6 +785,7 @@ export const createUserDataDeleteOrchestratorHandler = (
         }
 
         // update subscription feed
+        setOrchestrationStep(context, "UPDATING_SUBSCRIPTIONS_FEED");
         yield* updateSubscriptionFeed(context, profile, servicesPreferences);
 
         // set as closed
@@ -626,12 +801,10 @@ export const createUserDataDeleteOrchestratorHandler = (
           fiscalCode: currentUserDataProcessing.fiscalCode
         });
 
+        setOrchestrationStep(context, "COMPLETED");
         trackUserDataDeleteEvent("deleted", currentUserDataProcessing);
         return OrchestratorSuccess.encode({ kind: "SUCCESS", type: "DELETED" });
       } else {
-        // stop the timer to let the orchestrator end
-        intervalExpiredEvent.cancel();
-
         context.log.verbose(
           `${logPrefix}|VERBOSE|Operation resumed because of abort event`
         );
@@ -643,6 +816,7 @@ export const createUserDataDeleteOrchestratorHandler = (
           UserDataProcessingStatusEnum.CLOSED
         );
 
+        setOrchestrationStep(context, "ABORTED");
         trackUserDataDeleteEvent("aborted", currentUserDataProcessing);
         return OrchestratorSuccess.encode({ kind: "SUCCESS", type: "ABORTED" });
       }
@@ -676,6 +850,10 @@ export const createUserDataDeleteOrchestratorHandler = (
           : ""
       }|${orchestrationFailure.reason}`;
 
+      setOrchestrationStep(context, "FAILED", {
+        lastFailure: orchestrationFailure
+      });
+
       pipe(
         yield context.df.callActivityWithRetry(
           "SetUserDataProcessingStatusActivity",
@@ -1,8 +1,32 @@
-import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { Day, Hour } from "@pagopa/ts-commons/lib/units";
+import * as t from "io-ts";
 
 export const ABORT_EVENT = "user-data-processing-delete-abort";
 
+// the admin who changed the abort window, kept in the orchestration history
+const AbortWindowChangeRequest = t.partial({
+  requestedBy: NonEmptyString
+});
+
+// ends the abort window in advance, the deletion starts immediately
+export const EXPEDITE_EVENT = "user-data-processing-delete-expedite";
+
+export type ExpediteEventPayload = t.TypeOf<typeof ExpediteEventPayload>;
+export const ExpediteEventPayload = AbortWindowChangeRequest;
+
+// moves the end of the abort window to a later deadline
+export const EXTEND_EVENT = "user-data-processing-delete-extend";
+
+export type ExtendEventPayload = t.TypeOf<typeof ExtendEventPayload>;
+export const ExtendEventPayload = t.intersection([
+  t.interface({
+    until: UTCISODateFromString
+  }),
+  AbortWindowChangeRequest
+]);
+
 export const makeOrchestratorId = (fiscalCode: FiscalCode): string =>
   `${fiscalCode}-USER-DATA-DELETE`;
 
@@ -6,7 +6,8 @@ import {
   mockOrchestratorCallActivity,
   mockOrchestratorCallActivityWithRetry,
   mockOrchestratorContext,
-  mockOrchestratorGetInput
+  mockOrchestratorGetInput,
+  mockOrchestratorSetCustomStatus
 } from "../../__mocks__/durable-functions";
 import { aArchiveInfo, aUserDataProcessing } from "../../__mocks__/mocks";
 import { ActivityResultSuccess as ExtractUserDataActivityResultSuccess } from "../../ExtractUserDataActivity/handler";
@@ -150,6 +151,32 @@ describe("UserDataDownloadOrchestrator", () => {
     expect(sendUserDataDownloadMessageActivity).toHaveBeenCalled();
   });
 
+  it("should tell users how the archive was made", () => {
+    extractUserDataActivity.mockImplementationOnce(() =>
+      ExtractUserDataActivityResultSuccess.encode({
+        kind: "SUCCESS",
+        value: { ...aArchiveInfo, exportFormats: ["csv", "yaml"] }
+      })
+    );
+
+    const document = {
+      ...aUserDataProcessing,
+      status: UserDataProcessingStatusEnum.PENDING
+    };
+    mockOrchestratorGetInput.mockReturnValueOnce(document);
+
+    consumeOrchestrator(handler(context));
+
+    expect(sendUserDataDownloadMessageActivity).toHaveBeenCalledWith(
+      "SendUserDataDownloadMessageActivity",
+      expectedRetryOptions,
+      expect.objectContaining({
+        blobName: aArchiveInfo.blobName,
+        exportFormats: ["csv", "yaml"]
+      })
+    );
+  });
+
   it("should set as FAILED when data extraction fails", () => {
     extractUserDataActivity.mockImplementationOnce(() => aNonSuccess);
 
@@ -176,6 +203,15 @@ describe("UserDataDownloadOrchestrator", () => {
     );
     expect(extractUserDataActivity).toHaveBeenCalled();
     expect(sendUserDataDownloadMessageActivity).not.toHaveBeenCalled();
+    expect(mockOrchestratorSetCustomStatus).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        lastFailure: expect.objectContaining({
+          activityName: "ExtractUserDataActivity",
+          kind: "ACTIVITY"
+        }),
+        step: "FAILED"
+      })
+    );
   });
 
   it("should set as FAILED when send message fails", () => {
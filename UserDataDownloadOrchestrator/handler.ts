@@ -15,6 +15,7 @@ import {
   trackUserDataDownloadEvent,
   trackUserDataDownloadException
 } from "../utils/appinsightsEvents";
+import { setOrchestrationStep } from "../utils/userDataProcessingOrchestration";
 
 const logPrefix = "UserDataDownloadOrchestrator";
 
@@ -112,6 +113,8 @@ export const handler = function*(
     invalidInputOrCurrentUserDataProcessing.right;
 
   try {
+    setOrchestrationStep(context, "PREPARING");
+
     pipe(
       yield context.df.callActivityWithRetry(
         "SetUserDataProcessingStatusActivity",
@@ -129,6 +132,7 @@ export const handler = function*(
       })
     );
 
+    setOrchestrationStep(context, "EXTRACTING_DATA");
     const bundle = pipe(
       yield context.df.callActivity("ExtractUserDataActivity", {
         fiscalCode: currentUserDataProcessing.fiscalCode
@@ -140,12 +144,15 @@ export const handler = function*(
       E.toUnion
     );
 
+    setOrchestrationStep(context, "NOTIFYING_USER");
     pipe(
       yield context.df.callActivityWithRetry(
         "SendUserDataDownloadMessageActivity",
         new RetryOptions(5000, 10),
         {
           blobName: bundle.value.blobName,
+          encryptionMethod: bundle.value.encryptionMethod,
+          exportFormats: bundle.value.exportFormats,
           fiscalCode: currentUserDataProcessing.fiscalCode,
           password: bundle.value.password
         }
@@ -173,6 +180,7 @@ export const handler = function*(
       })
     );
 
+    setOrchestrationStep(context, "COMPLETED");
     trackUserDataDownloadEvent("done", currentUserDataProcessing);
 
     return OrchestratorSuccess.encode({ kind: "SUCCESS" });
@@ -202,6 +210,10 @@ export const handler = function*(
         : ""
     }|${orchestrationFailure.reason}`;
 
+    setOrchestrationStep(context, "FAILED", {
+      lastFailure: orchestrationFailure
+    });
+
     pipe(
       yield context.df.callActivityWithRetry(
         "SetUserDataProcessingStatusActivity",
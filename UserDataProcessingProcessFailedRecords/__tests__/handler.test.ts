@@ -8,22 +8,28 @@ import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { processFailedUserDataProcessingHandler } from "../handler";
 import { SqlQuerySpec, FeedOptions } from "@azure/cosmos";
 import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
 import { Branded } from "io-ts";
 import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import * as t from "io-ts";
 import { context } from "../../__mocks__/functions";
 import { DurableOrchestrationStatus } from "durable-functions/lib/src/durableorchestrationstatus";
 
+const mockStartNew = jest.fn(
+  async (
+    orchestratorName: string,
+    orchestratorId: string,
+    orchestratorInput: string
+  ) => orchestratorId
+);
+
 jest.mock("durable-functions", () => ({
   OrchestrationRuntimeStatus: {
     Running: "Running"
   },
   getClient: (context: any) => ({
-    startNew: async (
-      orchestratorName: string,
-      orchestratorId: string,
-      orchestratorInput: string
-    ) => orchestratorId,
+    startNew: mockStartNew,
     getStatus: async (orchestratorId: string) =>
       ({
         name: orchestratorId,
@@ -38,6 +44,12 @@ jest.mock("durable-functions", () => ({
 }));
 
 const userDataProcessingRecords = [
+  // a request closed after having failed
+  {
+    choice: UserDataProcessingChoiceEnum.DELETE,
+    fiscalCode: "RCVRDD80A01H501X" as FiscalCode,
+    status: UserDataProcessingStatusEnum.FAILED
+  },
   {
     choice: UserDataProcessingChoiceEnum.DELETE,
     fiscalCode: "GCPMNL86A24H501K" as FiscalCode,
@@ -107,6 +119,11 @@ const userDataProcessingRecords = [
     choice: UserDataProcessingChoiceEnum.DOWNLOAD,
     fiscalCode: "DSRMHL85T06C640D" as FiscalCode,
     status: UserDataProcessingStatusEnum.CLOSED
+  },
+  {
+    choice: UserDataProcessingChoiceEnum.DELETE,
+    fiscalCode: "RCVRDD80A01H501X" as FiscalCode,
+    status: UserDataProcessingStatusEnum.CLOSED
   }
 ];
 
@@ -160,12 +177,39 @@ const getQueryIteratorMock = jest.fn(
     recordsIterator(query)
 );
 
+// the latest version of a request is the last of its records
+const findLastVersionByModelIdMock = jest.fn(
+  ([userDataProcessingId, fiscalCode]: readonly [string, FiscalCode]) =>
+    TE.of(
+      O.fromNullable(
+        userDataProcessingRecords
+          .map(record =>
+            recordMock(
+              record.choice,
+              record.fiscalCode,
+              record.status,
+              1 as NonNegativeInteger
+            )
+          )
+          .filter(
+            record =>
+              record.userDataProcessingId === userDataProcessingId &&
+              record.fiscalCode === fiscalCode
+          )
+          .pop()
+      )
+    )
+);
+
 // this mocked model returns an async iterable for getQueryIterator
 // that returns only records that respect a query by status value
 const userDataProcessingModelMock = ({
+  findLastVersionByModelId: findLastVersionByModelIdMock,
   getQueryIterator: getQueryIteratorMock
 } as unknown) as UserDataProcessingModel;
 
+const aMaxRetries = 50 as NonNegativeInteger;
+
 beforeEach(() => {
   jest.clearAllMocks();
 });
@@ -173,8 +217,9 @@ beforeEach(() => {
 describe("FindFailedRecords", () => {
   it("should start orchestrator only for failed results", async () => {
     const results = await processFailedUserDataProcessingHandler(
-      userDataProcessingModelMock
-    )(context);
+      userDataProcessingModelMock,
+      aMaxRetries
+    )(context, {} as any);
 
     expect(getQueryIteratorMock).toHaveBeenCalled();
 
@@ -195,4 +240,124 @@ describe("FindFailedRecords", () => {
       })
     );
   });
+
+  it("should not retry requests whose latest version is not failed", async () => {
+    const results = await processFailedUserDataProcessingHandler(
+      userDataProcessingModelMock,
+      aMaxRetries
+    )(context, {} as any, { limit: 1 as NonNegativeInteger });
+
+    expect(findLastVersionByModelIdMock).toHaveBeenCalledWith([
+      "RCVRDD80A01H501X-DELETE",
+      "RCVRDD80A01H501X"
+    ]);
+    // the closed request does not count towards the limit
+    expect(mockStartNew).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(
+      expect.objectContaining({
+        value: ["DELETE-GCPMNL86A24H501K-FAILED-USER-DATA-PROCESSING-RECOVERY"]
+      })
+    );
+  });
+
+  it("should start at most the allowed number of orchestrators", async () => {
+    const results = await processFailedUserDataProcessingHandler(
+      userDataProcessingModelMock,
+      3 as NonNegativeInteger
+    )(context, {} as any, { limit: 5 as NonNegativeInteger });
+
+    expect(mockStartNew).toHaveBeenCalledTimes(3);
+    expect(results).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: [
+          "DELETE-GCPMNL86A24H501K-FAILED-USER-DATA-PROCESSING-RECOVERY",
+          "DELETE-IOOWZZ43A99Y618X-FAILED-USER-DATA-PROCESSING-RECOVERY",
+          "DELETE-RLDBSV36A78Y792X-FAILED-USER-DATA-PROCESSING-RECOVERY"
+        ]
+      })
+    );
+  });
+
+  it("should start orchestrators up to the limit of the call", async () => {
+    const results = await processFailedUserDataProcessingHandler(
+      userDataProcessingModelMock,
+      aMaxRetries
+    )(context, {} as any, { limit: 1 as NonNegativeInteger });
+
+    expect(mockStartNew).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(
+      expect.objectContaining({
+        value: ["DELETE-GCPMNL86A24H501K-FAILED-USER-DATA-PROCESSING-RECOVERY"]
+      })
+    );
+  });
+
+  it("should stop reading the failed records once the limit is reached", async () => {
+    const pagesRead = jest.fn();
+    getQueryIteratorMock.mockImplementationOnce(query => ({
+      async *[Symbol.asyncIterator]() {
+        for await (const page of recordsIterator(query)) {
+          pagesRead();
+          yield page;
+        }
+      }
+    }));
+
+    await processFailedUserDataProcessingHandler(
+      userDataProcessingModelMock,
+      aMaxRetries
+    )(context, {} as any, { limit: 1 as NonNegativeInteger }, true);
+
+    // the closed request first, then the one still failed
+    expect(pagesRead).toHaveBeenCalledTimes(2);
+    expect(findLastVersionByModelIdMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only report the orchestrators to start in dry-run mode", async () => {
+    const results = await processFailedUserDataProcessingHandler(
+      userDataProcessingModelMock,
+      aMaxRetries
+    )(context, {} as any, { limit: 2 as NonNegativeInteger }, true);
+
+    expect(mockStartNew).not.toHaveBeenCalled();
+    expect(results).toEqual(
+      expect.objectContaining({
+        kind: "IResponseSuccessJson",
+        value: [
+          "DELETE-GCPMNL86A24H501K-FAILED-USER-DATA-PROCESSING-RECOVERY",
+          "DELETE-IOOWZZ43A99Y618X-FAILED-USER-DATA-PROCESSING-RECOVERY"
+        ]
+      })
+    );
+  });
+
+  it("should narrow the failed records by choice, fiscal codes and date window", async () => {
+    await processFailedUserDataProcessingHandler(
+      userDataProcessingModelMock,
+      aMaxRetries
+    )(
+      context,
+      {} as any,
+      {
+        choice: UserDataProcessingChoiceEnum.DOWNLOAD,
+        fiscal_codes: ["LVDNGK37A81Y071X" as FiscalCode],
+        from: new Date("2021-10-01T00:00:00.000Z"),
+        to: new Date("2021-10-31T00:00:00.000Z")
+      },
+      true
+    );
+
+    expect(getQueryIteratorMock).toHaveBeenCalledWith({
+      parameters: [
+        { name: "@status", value: "FAILED" },
+        { name: "@choice", value: UserDataProcessingChoiceEnum.DOWNLOAD },
+        { name: "@fiscalCodes", value: ["LVDNGK37A81Y071X"] },
+        { name: "@from", value: 1633046400 },
+        { name: "@to", value: 1635638400 }
+      ],
+      query:
+        "SELECT * FROM m WHERE m.status = @status AND m.choice = @choice AND ARRAY_CONTAINS(@fiscalCodes, m.fiscalCode) AND m._ts >= @from AND m._ts <= @to ORDER BY m._ts ASC"
+    });
+  });
 });
@@ -14,20 +14,35 @@ import {
   UserDataProcessing,
   UserDataProcessingModel
 } from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
-import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import {
+  CosmosErrors,
+  toCosmosErrorResponse
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { SqlParameter, SqlQuerySpec } from "@azure/cosmos";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
 import { DurableOrchestrationClient } from "durable-functions/lib/src/durableorchestrationclient";
 import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
 import { UserDataProcessingChoiceEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingChoice";
-import {
-  asyncIteratorToArray,
-  flattenAsyncIterator
-} from "@pagopa/io-functions-commons/dist/src/utils/async";
+import { UserDataProcessingStatusEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingStatus";
 import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
 import * as E from "fp-ts/lib/Either";
-import * as A from "fp-ts/lib/Array";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import { Eq } from "fp-ts/lib/Eq";
+import * as S from "fp-ts/lib/string";
 import { IResponseSuccessJson } from "@pagopa/ts-commons/lib/responses";
 import { ResponseSuccessJson } from "@pagopa/ts-commons/lib/responses";
 import { pipe } from "fp-ts/lib/function";
+import { DryRunMiddleware } from "../utils/middlewares/dryRun";
+import {
+  FailedUserDataProcessingRetryFilters,
+  FailedUserDataProcessingRetryFiltersMiddleware
+} from "../utils/middlewares/failedUserDataProcessing";
+import {
+  GdprAuthMiddleware,
+  IAzureGdprAuthorization
+} from "../utils/middlewares/gdprAuth";
 import { isOrchestratorRunning } from "../utils/orchestrator";
 
 const logPrefix = "UserDataProcessingProcessFailedRecordsHandler";
@@ -37,7 +52,10 @@ type IGetFailedUserDataProcessingHandlerResult =
   | IResponseErrorQuery;
 
 type IGetFailedUserDataProcessingHandler = (
-  context: Context
+  context: Context,
+  auth: IAzureGdprAuthorization,
+  filters?: FailedUserDataProcessingRetryFilters,
+  dryRun?: boolean
 ) => Promise<IGetFailedUserDataProcessingHandlerResult>;
 
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
@@ -71,6 +89,10 @@ const startOrchestrator = async (
     TE.toUnion
   )();
 
+const userDataProcessingIdEq: Eq<UserDataProcessing> = {
+  equals: (a, b) => S.Eq.equals(a.userDataProcessingId, b.userDataProcessingId)
+};
+
 const makeOrchestratorId = (
   choice: UserDataProcessingChoiceEnum,
   fiscalCode: FiscalCode
@@ -96,84 +118,227 @@ const startUserDataProcessingRecoveryOrchestrator = async (
   );
 };
 
+/**
+ * Builds the query of the failed requests matching the filters,
+ * the oldest failures first
+ */
+const getFailedUserDataProcessingQuery = (
+  filters: FailedUserDataProcessingRetryFilters
+): SqlQuerySpec => {
+  const conditions: ReadonlyArray<readonly [
+    string,
+    SqlParameter | undefined
+  ]> = [
+    ["m.status = @status", { name: "@status", value: "FAILED" }],
+    [
+      "m.choice = @choice",
+      filters.choice && { name: "@choice", value: filters.choice }
+    ],
+    [
+      "ARRAY_CONTAINS(@fiscalCodes, m.fiscalCode)",
+      filters.fiscal_codes && {
+        name: "@fiscalCodes",
+        value: [...filters.fiscal_codes]
+      }
+    ],
+    // _ts is the time, in seconds, each version has been stored
+    [
+      "m._ts >= @from",
+      filters.from && {
+        name: "@from",
+        value: Math.floor(filters.from.getTime() / 1000)
+      }
+    ],
+    [
+      "m._ts <= @to",
+      filters.to && {
+        name: "@to",
+        value: Math.floor(filters.to.getTime() / 1000)
+      }
+    ]
+  ];
+  const matchingConditions = conditions.filter(
+    ([_, parameter]) => parameter !== undefined
+  );
+  return {
+    parameters: matchingConditions.map(([_, parameter]) => parameter),
+    query: `SELECT * FROM m WHERE ${matchingConditions
+      .map(([condition]) => condition)
+      .join(" AND ")} ORDER BY m._ts ASC`
+  };
+};
+
+/**
+ * Adds, in order, the candidates whose latest version is still failed
+ * to the ones found already, looking them up one at a time
+ * until enough of them are found.
+ *
+ * The query matches every failed version, so a request that has been
+ * retried or closed after failing is matched by its older versions too.
+ */
+const addStillFailed = (
+  userDataProcessingModel: UserDataProcessingModel,
+  count: number,
+  found: ReadonlyArray<UserDataProcessing>
+) => (
+  candidates: ReadonlyArray<UserDataProcessing>
+): TE.TaskEither<CosmosErrors, ReadonlyArray<UserDataProcessing>> =>
+  pipe(
+    candidates,
+    RA.reduce(
+      TE.of<CosmosErrors, ReadonlyArray<UserDataProcessing>>(found),
+      (stillFailedTask, candidate) =>
+        pipe(
+          stillFailedTask,
+          TE.chain(stillFailed =>
+            stillFailed.length >= count
+              ? TE.of(stillFailed)
+              : pipe(
+                  userDataProcessingModel.findLastVersionByModelId([
+                    candidate.userDataProcessingId,
+                    candidate.fiscalCode
+                  ]),
+                  TE.map(
+                    O.fold(
+                      () => stillFailed,
+                      latest =>
+                        latest.status === UserDataProcessingStatusEnum.FAILED
+                          ? [...stillFailed, latest]
+                          : stillFailed
+                    )
+                  )
+                )
+          )
+        )
+    )
+  );
+
+/**
+ * Reads the failed versions a page at a time, keeping the requests
+ * whose latest version is still failed, and stops reading
+ * as soon as count of them are found.
+ *
+ * @param checkedIds the requests checked already, as they may have failed more than once
+ */
+const takeStillFailed = (
+  userDataProcessingModel: UserDataProcessingModel,
+  count: number
+) => (
+  pages: AsyncIterator<ReadonlyArray<t.Validation<UserDataProcessing>>>,
+  found: ReadonlyArray<UserDataProcessing> = [],
+  checkedIds: ReadonlySet<string> = new Set()
+): TE.TaskEither<CosmosErrors, ReadonlyArray<UserDataProcessing>> =>
+  found.length >= count
+    ? TE.of(found)
+    : pipe(
+        TE.tryCatch(() => pages.next(), toCosmosErrorResponse),
+        TE.chain(page =>
+          page.done
+            ? TE.of(found)
+            : pipe(
+                RA.rights(page.value),
+                RA.uniq(userDataProcessingIdEq),
+                RA.filter(
+                  candidate => !checkedIds.has(candidate.userDataProcessingId)
+                ),
+                candidates =>
+                  pipe(
+                    candidates,
+                    addStillFailed(userDataProcessingModel, count, found),
+                    TE.chain(stillFailed =>
+                      takeStillFailed(userDataProcessingModel, count)(
+                        pages,
+                        stillFailed,
+                        new Set([
+                          ...checkedIds,
+                          ...candidates.map(_ => _.userDataProcessingId)
+                        ])
+                      )
+                    )
+                  )
+              )
+        )
+      );
+
+/**
+ * Retries the failed user data processing requests matching the filters,
+ * starting one recovery orchestration at a time.
+ * At most maxRetries orchestrations, or less if a limit is provided,
+ * are started by each call.
+ * In dry-run mode the orchestrations that would be started are only reported.
+ */
 export const processFailedUserDataProcessingHandler = (
-  userDataProcessingModel: UserDataProcessingModel
+  userDataProcessingModel: UserDataProcessingModel,
+  maxRetries: NonNegativeInteger
 ): IGetFailedUserDataProcessingHandler => async (
-  context: Context
-): Promise<IGetFailedUserDataProcessingHandlerResult> => {
-  const listOfFailedUserDataProcessing = new Set<string>();
-  return pipe(
+  context: Context,
+  _,
+  filters = {},
+  dryRun = false
+): Promise<IGetFailedUserDataProcessingHandlerResult> =>
+  pipe(
     TE.tryCatch(
       // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
       async () =>
         userDataProcessingModel
-          .getQueryIterator({
-            parameters: [
-              {
-                name: "@status",
-                value: "FAILED"
-              }
-            ],
-            query: `SELECT * FROM m WHERE m.status = @status`
-          })
+          .getQueryIterator(getFailedUserDataProcessingQuery(filters))
           [Symbol.asyncIterator](),
       toCosmosErrorResponse
     ),
-    TE.map(flattenAsyncIterator),
-    TE.map(asyncIteratorToArray),
-    // type lift from promise to task either
-    TE.chain(i => TE.tryCatch(() => i, toCosmosErrorResponse)),
-    TE.chain(i =>
-      A.sequence(TE.ApplicativePar)(
-        i
-          .map(v =>
-            TE.tryCatch(
-              async () => {
-                if (E.isLeft(v)) {
-                  return;
-                }
-
-                if (
-                  listOfFailedUserDataProcessing.has(
-                    v.right.userDataProcessingId
-                  )
-                ) {
-                  return;
-                }
-
-                listOfFailedUserDataProcessing.add(
-                  v.right.userDataProcessingId
-                );
-                return startUserDataProcessingRecoveryOrchestrator(
-                  context,
-                  v.right
-                );
-              },
-              e => {
-                context.log.error(`${logPrefix}|ERROR|${e}`);
-                return toCosmosErrorResponse(e);
-              }
+    TE.chain(pages =>
+      takeStillFailed(
+        userDataProcessingModel,
+        Math.min(filters.limit ?? maxRetries, maxRetries)
+      )(pages)
+    ),
+    TE.chain(processables =>
+      dryRun
+        ? TE.of(
+            processables.map(processable =>
+              makeOrchestratorId(processable.choice, processable.fiscalCode)
             )
           )
-          .filter(Boolean)
-      )
+        : pipe(
+            processables,
+            RA.map(processable =>
+              TE.tryCatch(
+                () =>
+                  startUserDataProcessingRecoveryOrchestrator(
+                    context,
+                    processable
+                  ),
+                e => {
+                  context.log.error(`${logPrefix}|ERROR|${e}`);
+                  return toCosmosErrorResponse(e);
+                }
+              )
+            ),
+            RA.sequence(TE.ApplicativeSeq)
+          )
     ),
     TE.mapLeft(failure => ResponseErrorQuery(failure.kind, failure)),
     TE.map(success => ResponseSuccessJson(success)),
     TE.toUnion
   )();
-};
 
 export const processFailedUserDataProcessing = (
-  userDataProcessingModel: UserDataProcessingModel
+  userDataProcessingModel: UserDataProcessingModel,
+  maxRetries: NonNegativeInteger
 ): express.RequestHandler => {
   const handler = processFailedUserDataProcessingHandler(
-    userDataProcessingModel
+    userDataProcessingModel,
+    maxRetries
   );
 
   const middlewaresWrap = withRequestMiddlewares(
     // Extract Azure Functions bindings
-    ContextMiddleware()
+    ContextMiddleware(),
+    // Allow only users in the GDPR group
+    GdprAuthMiddleware,
+    // Extract the filters narrowing the requests to retry
+    FailedUserDataProcessingRetryFiltersMiddleware,
+    // Extract the flag to only report the requests to retry
+    DryRunMiddleware
   );
 
   return wrapRequestHandler(middlewaresWrap(handler));
@@ -43,7 +43,10 @@ secureExpressApp(app);
 // Add express route
 app.get(
   "/adm/user-data-processing/failed-records",
-  processFailedUserDataProcessing(userDataProcessingModel)
+  processFailedUserDataProcessing(
+    userDataProcessingModel,
+    config.FAILED_USER_DATA_PROCESSING_MAX_RETRIES
+  )
 );
 
 const azureFunctionHandler = createAzureFunctionHandler(app);
@@ -0,0 +1,112 @@
+import * as E from "fp-ts/lib/Either";
+import { IOrchestrationFunctionContext } from "durable-functions/lib/src/iorchestrationfunctioncontext";
+import {
+  mockOrchestratorCallActivityWithRetry,
+  mockOrchestratorContext,
+  mockOrchestratorGetInput
+} from "../../__mocks__/durable-functions";
+import { ActivityResultSuccess as RestoreUserDataActivityResultSuccess } from "../../RestoreUserDataActivity/handler";
+import {
+  UserDataBackupFolder,
+  USER_DATA_BACKUP_ENTITIES
+} from "../../utils/userDataBackup";
+import {
+  ActivityFailure,
+  handler,
+  InvalidInputFailure,
+  OrchestratorSuccess
+} from "../handler";
+
+const restoreUserDataActivity = jest.fn().mockImplementation(() =>
+  RestoreUserDataActivityResultSuccess.encode({
+    kind: "SUCCESS",
+    restored: 2,
+    skipped: 1
+  } as RestoreUserDataActivityResultSuccess)
+);
+
+mockOrchestratorCallActivityWithRetry.mockImplementation(
+  (name: string, _, input: unknown) =>
+    (name === "RestoreUserDataActivity" ? restoreUserDataActivity : jest.fn())(
+      input
+    )
+);
+
+/**
+ * Util function that takes an orchestrator and executes each step until is done
+ * @param orch an orchestrator
+ *
+ * @returns the last value yielded by the orchestrator
+ */
+const consumeOrchestrator = (orch: any) => {
+  // eslint-disable-next-line functional/no-let
+  let prevValue: unknown;
+  while (true) {
+    const { done, value } = orch.next(prevValue);
+    if (done) {
+      return value;
+    }
+    prevValue = value;
+  }
+};
+
+const context = (mockOrchestratorContext as unknown) as IOrchestrationFunctionContext;
+const backupFolder = "AAAAAA00A00A000A-DELETE-1633082400000" as UserDataBackupFolder;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("UserDataRestoreOrchestrator", () => {
+  it("should fail on invalid input", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce({
+      backupFolder: "../another-folder"
+    });
+    const result = consumeOrchestrator(handler(context));
+
+    expect(E.isRight(InvalidInputFailure.decode(result))).toBe(true);
+    expect(restoreUserDataActivity).not.toHaveBeenCalled();
+  });
+
+  it("should restore every entity of the backup in order", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce({ backupFolder });
+    const result = consumeOrchestrator(handler(context));
+
+    expect(restoreUserDataActivity.mock.calls.map(([input]) => input)).toEqual(
+      USER_DATA_BACKUP_ENTITIES.map(entity => ({ backupFolder, entity }))
+    );
+    const orchestratorResult = OrchestratorSuccess.decode(result);
+    expect(E.isRight(orchestratorResult)).toBe(true);
+    if (E.isRight(orchestratorResult)) {
+      expect(orchestratorResult.right.restored.profile).toEqual({
+        restored: 2,
+        skipped: 1
+      });
+    }
+  });
+
+  it("should stop at the first entity that cannot be restored", () => {
+    mockOrchestratorGetInput.mockReturnValueOnce({ backupFolder });
+    restoreUserDataActivity
+      .mockImplementationOnce(() => ({
+        kind: "SUCCESS",
+        restored: 1,
+        skipped: 0
+      }))
+      .mockImplementationOnce(() => {
+        // as the activity does once every retry has failed
+        throw new Error("a reason");
+      });
+    const result = consumeOrchestrator(handler(context));
+
+    expect(restoreUserDataActivity).toHaveBeenCalledTimes(2);
+    expect(ActivityFailure.decode(result)).toEqual(
+      E.right({
+        activityName: "RestoreUserDataActivity",
+        entity: USER_DATA_BACKUP_ENTITIES[1],
+        kind: "ACTIVITY",
+        reason: "a reason"
+      })
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import {
+  IOrchestrationFunctionContext,
+  RetryOptions
+} from "durable-functions/lib/src/classes";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import {
+  ActivityInput as RestoreUserDataActivityInput,
+  ActivityResultFailure as RestoreUserDataActivityResultFailure,
+  ActivityResultSuccess as RestoreUserDataActivityResultSuccess
+} from "../RestoreUserDataActivity/handler";
+import {
+  UserDataBackupEntity,
+  UserDataBackupFolder,
+  USER_DATA_BACKUP_ENTITIES
+} from "../utils/userDataBackup";
+
+const logPrefix = "UserDataRestoreOrchestrator";
+
+export const makeUserDataRestoreOrchestratorId = (
+  backupFolder: UserDataBackupFolder
+): string => `${backupFolder}-USER-DATA-RESTORE`;
+
+export type OrchestratorInput = t.TypeOf<typeof OrchestratorInput>;
+export const OrchestratorInput = t.interface({
+  backupFolder: UserDataBackupFolder
+});
+
+export type InvalidInputFailure = t.TypeOf<typeof InvalidInputFailure>;
+export const InvalidInputFailure = t.interface({
+  kind: t.literal("INVALID_INPUT"),
+  reason: t.string
+});
+
+export type ActivityFailure = t.TypeOf<typeof ActivityFailure>;
+export const ActivityFailure = t.interface({
+  activityName: t.string,
+  entity: UserDataBackupEntity,
+  kind: t.literal("ACTIVITY"),
+  reason: t.string
+});
+
+export type OrchestratorFailure = t.TypeOf<typeof OrchestratorFailure>;
+export const OrchestratorFailure = t.taggedUnion("kind", [
+  InvalidInputFailure,
+  ActivityFailure
+]);
+
+export type RestoredDocuments = t.TypeOf<typeof RestoredDocuments>;
+export const RestoredDocuments = t.interface({
+  restored: t.number,
+  skipped: t.number
+});
+
+export type OrchestratorSuccess = t.TypeOf<typeof OrchestratorSuccess>;
+export const OrchestratorSuccess = t.interface({
+  kind: t.literal("SUCCESS"),
+  restored: t.record(UserDataBackupEntity, RestoredDocuments)
+});
+
+export type OrchestratorResult = t.TypeOf<typeof OrchestratorResult>;
+export const OrchestratorResult = t.union([
+  OrchestratorFailure,
+  OrchestratorSuccess
+]);
+
+const retryOptions = new RetryOptions(5000, 10);
+// eslint-disable-next-line functional/immutable-data
+retryOptions.backoffCoefficient = 1.5;
+
+/**
+ * Restores the documents saved in the backup of a deletion run,
+ * one entity at a time.
+ * As the restore never overwrites existing documents,
+ * a failed restore can be started again on the same backup.
+ */
+export const handler = function*(
+  context: IOrchestrationFunctionContext
+): Generator<unknown, OrchestratorResult> {
+  const inputOrError = pipe(
+    context.df.getInput(),
+    OrchestratorInput.decode,
+    E.mapLeft(err => {
+      context.log.error(
+        `${logPrefix}|ERROR|Cannot decode input: ${readableReport(err)}`
+      );
+      return InvalidInputFailure.encode({
+        kind: "INVALID_INPUT",
+        reason: readableReport(err)
+      });
+    })
+  );
+
+  if (E.isLeft(inputOrError)) {
+    return inputOrError.left;
+  }
+
+  const { backupFolder } = inputOrError.right;
+
+  // eslint-disable-next-line functional/no-let
+  let restored = {} as Record<UserDataBackupEntity, RestoredDocuments>;
+  for (const entity of USER_DATA_BACKUP_ENTITIES) {
+    // eslint-disable-next-line functional/no-let
+    let result: unknown;
+    try {
+      result = yield context.df.callActivityWithRetry(
+        "RestoreUserDataActivity",
+        retryOptions,
+        RestoreUserDataActivityInput.encode({ backupFolder, entity })
+      );
+    } catch (error) {
+      // the activity kept failing after every retry
+      result = RestoreUserDataActivityResultFailure.encode({
+        kind: "RESTORE_FAILURE",
+        reason: E.toError(error).message
+      });
+    }
+    const successOrFailure = RestoreUserDataActivityResultSuccess.decode(
+      result
+    );
+    if (E.isLeft(successOrFailure)) {
+      context.log.error(
+        `${logPrefix}|ERROR|RestoreUserDataActivity fail|ENTITY=${entity}|result=${JSON.stringify(
+          result
+        )}`
+      );
+      return ActivityFailure.encode({
+        activityName: "RestoreUserDataActivity",
+        entity,
+        kind: "ACTIVITY",
+        reason: pipe(
+          result,
+          RestoreUserDataActivityResultFailure.decode,
+          E.fold(
+            () => readableReport(successOrFailure.left),
+            failure => failure.reason
+          )
+        )
+      });
+    }
+    restored = {
+      ...restored,
+      [entity]: {
+        restored: successOrFailure.right.restored,
+        skipped: successOrFailure.right.skipped
+      }
+    };
+  }
+
+  context.log.info(
+    `${logPrefix}|INFO|Restore finished for ${backupFolder}|${JSON.stringify(
+      restored
+    )}`
+  );
+  return OrchestratorSuccess.encode({ kind: "SUCCESS", restored });
+};
@@ -0,0 +1,223 @@
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import { none, some } from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { context } from "../../__mocks__/durable-functions";
+import {
+  aFiscalCode,
+  aRetrievedMessageView,
+  aRetrievedProfile
+} from "../../__mocks__/mocks";
+import { generateSigningKeyPair } from "../../utils/crypto";
+import { UserDataBackupFolder } from "../../utils/userDataBackup";
+import {
+  isValidUserDataDeleteCertificate,
+  SignedUserDataDeleteCertificate
+} from "../../utils/userDataDeleteCertificate";
+import { IUserDataReadOnlyModels } from "../../utils/userDataDeleteImpact";
+import {
+  ActivityResultFailure,
+  ActivityResultSuccess,
+  createVerifyUserDataDeleteActivityHandler
+} from "../handler";
+
+const aBackupFolder = `${aFiscalCode}-DELETE-1633082400000` as UserDataBackupFolder;
+const aCertificateContainerName = "user-data-delete-certificates" as NonEmptyString;
+const {
+  privateKey: aSigningKey,
+  publicKey: aVerificationKey
+} = generateSigningKeyPair();
+
+const asyncIteratorOf = <T>(items: T[]): AsyncIterator<T[]> => {
+  const data = [...items];
+  return {
+    next: async () => {
+      const value = data.shift();
+      return {
+        done: typeof value === "undefined",
+        value: [value]
+      };
+    }
+  };
+};
+
+const mockFindMessageView = jest.fn(() => TE.of(none));
+const mockProfileFindAllVersionsByModelId = jest.fn(() => asyncIteratorOf([]));
+
+const models = ({
+  messageModel: { findMessages: jest.fn(() => TE.of(asyncIteratorOf([]))) },
+  messageStatusModel: {
+    findAllVersionsByModelId: jest.fn(() => asyncIteratorOf([]))
+  },
+  messageViewModel: { find: mockFindMessageView },
+  notificationModel: {
+    findNotificationForMessage: jest.fn(() => TE.of(none))
+  },
+  notificationStatusModel: {
+    findAllVersionsByNotificationId: jest.fn(() => asyncIteratorOf([]))
+  },
+  profileModel: {
+    findAllVersionsByModelId: mockProfileFindAllVersionsByModelId
+  },
+  servicePreferencesModel: {
+    findAllByFiscalCode: jest.fn(() => asyncIteratorOf([]))
+  }
+} as unknown) as IUserDataReadOnlyModels;
+
+// the deletion has backed up a profile and a message with its content
+const aBackup = [
+  `${aBackupFolder}/key.json`,
+  `${aBackupFolder}/message/A_MESSAGE_ID.json`,
+  `${aBackupFolder}/message-content/A_MESSAGE_ID.json`,
+  `${aBackupFolder}/profile/${aRetrievedProfile.id}.json`
+];
+
+const certificates = new Map<string, string>();
+
+const mockDoesBlobExist = jest.fn((_, __, cb) => cb(null, { exists: false }));
+const mockCreateBlockBlobFromText = jest.fn(
+  (_, name: string, text: string, __, cb) => {
+    certificates.set(name, text);
+    cb(null, { name });
+  }
+);
+const userDataBackupBlobService = ({
+  createBlockBlobFromText: mockCreateBlockBlobFromText,
+  listBlobsSegmentedWithPrefix: jest.fn((_, prefix: string, __, cb) =>
+    cb(null, {
+      entries: aBackup
+        .filter(name => name.startsWith(prefix))
+        .map(name => ({ name }))
+    })
+  )
+} as unknown) as BlobService;
+
+const handler = createVerifyUserDataDeleteActivityHandler({
+  messageContentBlobService: ({
+    doesBlobExist: mockDoesBlobExist
+  } as unknown) as BlobService,
+  messageContentContainerName: "message-content" as NonEmptyString,
+  models,
+  userDataBackupBlobService,
+  userDataBackupContainerName: "user-data-backup" as NonEmptyString,
+  userDataDeleteCertificateContainerName: aCertificateContainerName,
+  userDataDeleteCertificateSigningKey: aSigningKey
+});
+
+describe("createVerifyUserDataDeleteActivityHandler", () => {
+  beforeEach(() => {
+    certificates.clear();
+    jest.clearAllMocks();
+  });
+
+  it("should save a signed certificate when no user data are left", async () => {
+    const result = await handler(context, {
+      backupFolder: aBackupFolder,
+      fiscalCode: aFiscalCode
+    });
+
+    expect(ActivityResultSuccess.is(result)).toBe(true);
+    expect(mockCreateBlockBlobFromText).toHaveBeenCalledWith(
+      aCertificateContainerName,
+      `${aBackupFolder}.json`,
+      expect.any(String),
+      expect.anything(),
+      expect.any(Function)
+    );
+    const signedCertificate = pipe(
+      JSON.parse(certificates.get(`${aBackupFolder}.json`)!),
+      SignedUserDataDeleteCertificate.decode,
+      E.getOrElseW(() => fail("Cannot decode the certificate"))
+    );
+    expect(signedCertificate.certificate).toEqual(
+      expect.objectContaining({
+        backupFolder: aBackupFolder,
+        fiscalCode: aFiscalCode,
+        verifiedAt: expect.any(Date)
+      })
+    );
+    expect(signedCertificate.certificate.collections).toEqual(
+      expect.objectContaining({
+        messageContents: { deleted: 1, remaining: 0 },
+        messageViews: { deleted: 0, remaining: 0 },
+        messages: { deleted: 1, remaining: 0 },
+        profiles: { deleted: 1, remaining: 0 }
+      })
+    );
+    expect(
+      isValidUserDataDeleteCertificate(aVerificationKey)(signedCertificate)
+    ).toBe(true);
+  });
+
+  it("should look for the documents of the deleted messages", async () => {
+    await handler(context, {
+      backupFolder: aBackupFolder,
+      fiscalCode: aFiscalCode
+    });
+
+    expect(mockFindMessageView).toHaveBeenCalledWith([
+      "A_MESSAGE_ID",
+      aFiscalCode
+    ]);
+    expect(mockDoesBlobExist).toHaveBeenCalledWith(
+      "message-content",
+      "A_MESSAGE_ID.json",
+      expect.any(Function)
+    );
+  });
+
+  it("should fail without a certificate when some user data are left", async () => {
+    mockProfileFindAllVersionsByModelId.mockImplementationOnce(() =>
+      asyncIteratorOf([E.right(aRetrievedProfile)])
+    );
+    mockFindMessageView.mockImplementationOnce(() =>
+      TE.of(some(aRetrievedMessageView))
+    );
+
+    const result = await handler(context, {
+      backupFolder: aBackupFolder,
+      fiscalCode: aFiscalCode
+    });
+
+    expect(ActivityResultFailure.is(result)).toBe(true);
+    expect(result).toEqual({
+      kind: "USER_DATA_LEFT_FAILURE",
+      remaining: expect.objectContaining({
+        messageContents: 0,
+        messageViews: 1,
+        profiles: 1
+      })
+    });
+    expect(mockCreateBlockBlobFromText).not.toHaveBeenCalled();
+  });
+
+  it("should fail when user data cannot be read", async () => {
+    mockDoesBlobExist.mockImplementationOnce((_, __, cb) =>
+      cb(new Error("any error"))
+    );
+
+    const result = await handler(context, {
+      backupFolder: aBackupFolder,
+      fiscalCode: aFiscalCode
+    });
+
+    expect(result).toEqual({
+      kind: "VERIFICATION_FAILURE",
+      reason: "any error"
+    });
+    expect(mockCreateBlockBlobFromText).not.toHaveBeenCalled();
+  });
+
+  it("should fail on invalid input", async () => {
+    const result = await handler(context, {
+      backupFolder: "not-a-backup-folder",
+      fiscalCode: aFiscalCode
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({ kind: "INVALID_INPUT_FAILURE" })
+    );
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * This activity verifies that the user data of a deletion run have been deleted
+ * and, when nothing is left, saves a signed certificate of the deletion.
+ */
+
+import { KeyObject } from "crypto";
+import { Context } from "@azure/functions";
+import { BlobService } from "azure-storage";
+import * as TE from "fp-ts/lib/TaskEither";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import {
+  listUserDataBackup,
+  USER_DATA_BACKUP_ENTITIES,
+  UserDataBackupEntity,
+  UserDataBackupFolder,
+  UserDataBackupListing
+} from "../utils/userDataBackup";
+import {
+  saveUserDataDeleteCertificate,
+  signUserDataDeleteCertificate,
+  UserDataDeleteCertificate
+} from "../utils/userDataDeleteCertificate";
+import {
+  getUserDataDeleteImpactReport,
+  IUserDataDeleteImpactReport,
+  IUserDataReadOnlyModels
+} from "../utils/userDataDeleteImpact";
+
+const logPrefix = `VerifyUserDataDeleteActivity`;
+
+// Activity input
+export const ActivityInput = t.interface({
+  backupFolder: UserDataBackupFolder,
+  fiscalCode: FiscalCode
+});
+export type ActivityInput = t.TypeOf<typeof ActivityInput>;
+
+// Activity success result
+export const ActivityResultSuccess = t.interface({
+  kind: t.literal("SUCCESS")
+});
+export type ActivityResultSuccess = t.TypeOf<typeof ActivityResultSuccess>;
+
+// Activity failed because of invalid input
+export const InvalidInputFailure = t.interface({
+  kind: t.literal("INVALID_INPUT_FAILURE"),
+  reason: t.string
+});
+export type InvalidInputFailure = t.TypeOf<typeof InvalidInputFailure>;
+
+// Activity failed because some user data have not been deleted
+export const UserDataLeftFailure = t.interface({
+  kind: t.literal("USER_DATA_LEFT_FAILURE"),
+  // the documents left, by collection
+  remaining: t.record(t.string, NonNegativeInteger)
+});
+export type UserDataLeftFailure = t.TypeOf<typeof UserDataLeftFailure>;
+
+// Activity failed while reading user data or saving the certificate
+export const VerificationFailure = t.interface({
+  kind: t.literal("VERIFICATION_FAILURE"),
+  reason: t.string
+});
+export type VerificationFailure = t.TypeOf<typeof VerificationFailure>;
+
+export const ActivityResultFailure = t.taggedUnion("kind", [
+  InvalidInputFailure,
+  UserDataLeftFailure,
+  VerificationFailure
+]);
+export type ActivityResultFailure = t.TypeOf<typeof ActivityResultFailure>;
+
+export const ActivityResult = t.taggedUnion("kind", [
+  ActivityResultSuccess,
+  ActivityResultFailure
+]);
+export type ActivityResult = t.TypeOf<typeof ActivityResult>;
+
+// the collection of the report each entity of the backup is deleted from
+const BACKUP_ENTITY_COLLECTIONS: Record<
+  UserDataBackupEntity,
+  keyof IUserDataDeleteImpactReport
+> = {
+  message: "messages",
+  "message-content": "messageContents",
+  "message-status": "messageStatuses",
+  "message-view": "messageViews",
+  notification: "notifications",
+  "notification-status": "notificationStatuses",
+  profile: "profiles",
+  "service-settings": "servicePreferences"
+};
+
+const toCollectionChecks = (
+  listing: UserDataBackupListing,
+  report: IUserDataDeleteImpactReport
+): UserDataDeleteCertificate["collections"] =>
+  USER_DATA_BACKUP_ENTITIES.reduce(
+    (collections, entity) => ({
+      ...collections,
+      [BACKUP_ENTITY_COLLECTIONS[entity]]: {
+        deleted: listing[entity].length as NonNegativeInteger,
+        remaining: report[BACKUP_ENTITY_COLLECTIONS[entity]]
+          .count as NonNegativeInteger
+      }
+    }),
+    {}
+  );
+
+export interface IActivityHandlerInput {
+  readonly messageContentBlobService: BlobService;
+  readonly messageContentContainerName: NonEmptyString;
+  readonly models: IUserDataReadOnlyModels;
+  readonly userDataBackupBlobService: BlobService;
+  readonly userDataBackupContainerName: NonEmptyString;
+  readonly userDataDeleteCertificateContainerName: NonEmptyString;
+  readonly userDataDeleteCertificateSigningKey: KeyObject;
+}
+
+/**
+ * Factory methods that builds an activity function
+ *
+ * The documents of every collection are looked for again, by fiscal code
+ * and by the ids of the messages saved in the backup of the run,
+ * so that documents of deleted messages are found too.
+ */
+export const createVerifyUserDataDeleteActivityHandler = ({
+  messageContentBlobService,
+  messageContentContainerName,
+  models,
+  userDataBackupBlobService,
+  userDataBackupContainerName,
+  userDataDeleteCertificateContainerName,
+  userDataDeleteCertificateSigningKey
+}: IActivityHandlerInput): ((
+  context: Context,
+  input: unknown
+) => Promise<ActivityResult>) => (
+  context: Context,
+  input: unknown
+): Promise<ActivityResult> =>
+  pipe(
+    input,
+    ActivityInput.decode,
+    TE.fromEither,
+    TE.mapLeft(reason =>
+      InvalidInputFailure.encode({
+        kind: "INVALID_INPUT_FAILURE",
+        reason: readableReport(reason)
+      })
+    ),
+    TE.chainW(({ backupFolder, fiscalCode }) =>
+      pipe(
+        listUserDataBackup(
+          userDataBackupBlobService,
+          userDataBackupContainerName,
+          backupFolder
+        ),
+        TE.chain(listing =>
+          pipe(
+            getUserDataDeleteImpactReport(
+              models,
+              messageContentBlobService,
+              messageContentContainerName,
+              fiscalCode,
+              listing.message,
+              // the certificate needs how many documents are left, not their ids
+              false
+            ),
+            TE.map(report => toCollectionChecks(listing, report))
+          )
+        ),
+        TE.mapLeft(error => {
+          context.log.error(
+            `${logPrefix}|Error verifying the deletion of ${backupFolder}|ERROR=${error.message}`
+          );
+          return VerificationFailure.encode({
+            kind: "VERIFICATION_FAILURE",
+            reason: error.message
+          });
+        }),
+        TE.chainW(
+          TE.fromPredicate(
+            collections =>
+              Object.keys(collections).every(
+                name => collections[name].remaining === 0
+              ),
+            collections => {
+              context.log.error(
+                `${logPrefix}|User data left after the deletion of ${backupFolder}`
+              );
+              return UserDataLeftFailure.encode({
+                kind: "USER_DATA_LEFT_FAILURE",
+                remaining: Object.keys(collections).reduce(
+                  (remaining, name) => ({
+                    ...remaining,
+                    [name]: collections[name].remaining
+                  }),
+                  {}
+                )
+              });
+            }
+          )
+        ),
+        TE.chainW(collections =>
+          pipe(
+            saveUserDataDeleteCertificate(
+              userDataBackupBlobService,
+              userDataDeleteCertificateContainerName,
+              signUserDataDeleteCertificate(
+                userDataDeleteCertificateSigningKey
+              )({
+                backupFolder,
+                collections,
+                fiscalCode,
+                verifiedAt: new Date()
+              })
+            ),
+            TE.mapLeft(error => {
+              context.log.error(
+                `${logPrefix}|Cannot save the certificate of ${backupFolder}|ERROR=${error.message}`
+              );
+              return VerificationFailure.encode({
+                kind: "VERIFICATION_FAILURE",
+                reason: `Cannot save the certificate: ${error.message}`
+              });
+            })
+          )
+        ),
+        TE.map(() => {
+          context.log.info(
+            `${logPrefix}|Deletion of ${backupFolder} verified and certified`
+          );
+          return ActivityResultSuccess.encode({ kind: "SUCCESS" });
+        })
+      )
+    ),
+    TE.toUnion
+  )();
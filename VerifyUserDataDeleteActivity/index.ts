@@ -0,0 +1,63 @@
+import { createBlobService } from "azure-storage";
+import { MESSAGE_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message";
+import { MESSAGE_STATUS_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message_status";
+import { MESSAGE_VIEW_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/message_view";
+import { NOTIFICATION_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/notification";
+import { NOTIFICATION_STATUS_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/notification_status";
+import { PROFILE_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/profile";
+import { SERVICE_PREFERENCES_COLLECTION_NAME } from "@pagopa/io-functions-commons/dist/src/models/service_preference";
+import { cosmosdbClient } from "../utils/cosmosdb";
+import { getConfigOrThrow } from "../utils/config";
+import { MessageDeletableModel } from "../utils/extensions/models/message";
+import { MessageStatusDeletableModel } from "../utils/extensions/models/message_status";
+import { MessageViewDeletableModel } from "../utils/extensions/models/message_view";
+import { NotificationDeletableModel } from "../utils/extensions/models/notification";
+import { NotificationStatusDeletableModel } from "../utils/extensions/models/notification_status";
+import { ProfileDeletableModel } from "../utils/extensions/models/profile";
+import { ServicePreferencesDeletableModel } from "../utils/extensions/models/service_preferences";
+import { createVerifyUserDataDeleteActivityHandler } from "./handler";
+
+const config = getConfigOrThrow();
+
+const database = cosmosdbClient.database(config.COSMOSDB_NAME);
+
+const activityFunctionHandler = createVerifyUserDataDeleteActivityHandler({
+  messageContentBlobService: createBlobService(config.StorageConnection),
+  messageContentContainerName: config.MESSAGE_CONTAINER_NAME,
+  // the same models the deletion uses, only their read operations are used
+  models: {
+    messageModel: new MessageDeletableModel(
+      database.container(MESSAGE_COLLECTION_NAME),
+      config.MESSAGE_CONTAINER_NAME
+    ),
+    messageStatusModel: new MessageStatusDeletableModel(
+      database.container(MESSAGE_STATUS_COLLECTION_NAME)
+    ),
+    messageViewModel: new MessageViewDeletableModel(
+      database.container(MESSAGE_VIEW_COLLECTION_NAME)
+    ),
+    notificationModel: new NotificationDeletableModel(
+      database.container(NOTIFICATION_COLLECTION_NAME)
+    ),
+    notificationStatusModel: new NotificationStatusDeletableModel(
+      database.container(NOTIFICATION_STATUS_COLLECTION_NAME)
+    ),
+    profileModel: new ProfileDeletableModel(
+      database.container(PROFILE_COLLECTION_NAME)
+    ),
+    servicePreferencesModel: new ServicePreferencesDeletableModel(
+      database.container(SERVICE_PREFERENCES_COLLECTION_NAME),
+      SERVICE_PREFERENCES_COLLECTION_NAME
+    )
+  },
+  userDataBackupBlobService: createBlobService(
+    config.UserDataBackupStorageConnection
+  ),
+  userDataBackupContainerName: config.USER_DATA_BACKUP_CONTAINER_NAME,
+  userDataDeleteCertificateContainerName:
+    config.USER_DATA_DELETE_CERTIFICATE_CONTAINER_NAME,
+  userDataDeleteCertificateSigningKey:
+    config.USER_DATA_DELETE_CERTIFICATE_SIGNING_KEY
+});
+
+export default activityFunctionHandler;
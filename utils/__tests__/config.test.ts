@@ -1,6 +1,9 @@
 import * as E from "fp-ts/lib/Either";
 import { MailerConfig } from "@pagopa/io-functions-commons/dist/src/mailer";
 import { pipe } from "fp-ts/lib/function";
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import { checkConfigConstraints, IConfig } from "../config";
+import { generateSigningKeyPair } from "../crypto";
 
 const aMailFrom = "example@test.com";
 
@@ -183,3 +186,62 @@ describe("MailerConfig", () => {
     examples.map(MailerConfig.decode).forEach(_ => expectLeft(_));
   });
 });
+
+describe("checkConfigConstraints", () => {
+  const aSigningKeyPair = generateSigningKeyPair();
+  const aConfig = ({
+    LOGO_MIN_WIDTH: 120,
+    LOGO_RESIZE_WIDTHS: [60, 120],
+    USER_DATA_ARCHIVE_RETENTION_DAYS: 15,
+    USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY: aSigningKeyPair.publicKey,
+    USER_DATA_DELETE_CERTIFICATE_SIGNING_KEY: aSigningKeyPair.privateKey,
+    USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS: 168
+  } as unknown) as IConfig;
+
+  it("should accept logo resize widths not larger than the minimum logo width", () => {
+    expectRight(checkConfigConstraints(aConfig), value => {
+      expect(value).toBe(aConfig);
+    });
+  });
+
+  it("should reject logo resize widths larger than the minimum logo width", () => {
+    expectLeft(
+      checkConfigConstraints({ ...aConfig, LOGO_RESIZE_WIDTHS: [60, 240] }),
+      errors => {
+        expect(readableReport(errors)).toContain(
+          "root.LOGO_RESIZE_WIDTHS] is not a valid [widths not larger than LOGO_MIN_WIDTH]"
+        );
+      }
+    );
+  });
+
+  it("should reject download links that outlive the archives", () => {
+    expectLeft(
+      checkConfigConstraints({
+        ...aConfig,
+        USER_DATA_ARCHIVE_RETENTION_DAYS: 1,
+        USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS: 25
+      } as IConfig),
+      errors => {
+        expect(readableReport(errors)).toContain(
+          "root.USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS] is not a valid [hours not beyond USER_DATA_ARCHIVE_RETENTION_DAYS]"
+        );
+      }
+    );
+  });
+
+  it("should reject a public key of another signing key", () => {
+    expectLeft(
+      checkConfigConstraints({
+        ...aConfig,
+        USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY: generateSigningKeyPair()
+          .publicKey
+      }),
+      errors => {
+        expect(readableReport(errors)).toContain(
+          "root.USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY] is not a valid [public key of USER_DATA_DELETE_CERTIFICATE_SIGNING_KEY]"
+        );
+      }
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as t from "io-ts";
+import {
+  getJsonSchemaPaths,
+  getJsonSchemaViolations,
+  toJsonSchema
+} from "../jsonSchema";
+
+// a custom type, whose structure cannot be inspected
+const ACustomType = new t.Type<string, string, unknown>(
+  "ACustomType",
+  t.string.is,
+  t.string.validate,
+  t.identity
+);
+
+const AnIntersection = t.intersection([
+  t.interface({ id: NonEmptyString }),
+  t.partial({ note: t.string })
+]);
+
+const AUnion = t.union([t.literal("A"), t.interface({ kind: t.number })]);
+
+describe("toJsonSchema", () => {
+  it("should require the fields of an interface and allow the ones of a partial", () => {
+    expect(toJsonSchema(AnIntersection)).toEqual({
+      allOf: [
+        {
+          properties: {
+            id: { description: NonEmptyString.name, type: "string" }
+          },
+          required: ["id"],
+          type: "object"
+        },
+        {
+          properties: { note: { type: "string" } },
+          type: "object"
+        }
+      ]
+    });
+  });
+
+  it("should allow any of the members of a union", () => {
+    expect(toJsonSchema(AUnion)).toEqual({
+      anyOf: [
+        { const: "A" },
+        {
+          properties: { kind: { type: "number" } },
+          required: ["kind"],
+          type: "object"
+        }
+      ]
+    });
+  });
+
+  it("should describe a refinement as the refined type, along with its name", () => {
+    expect(toJsonSchema(NonEmptyString)).toEqual({
+      description: NonEmptyString.name,
+      type: "string"
+    });
+  });
+
+  it.each`
+    title                   | codec
+    ${"a custom type"}      | ${ACustomType}
+    ${"an unsupported one"} | ${t.unknown}
+  `("should describe $title by name only", ({ codec }) => {
+    expect(toJsonSchema(codec)).toEqual({ description: codec.name });
+  });
+});
+
+describe("getJsonSchemaViolations", () => {
+  const aSchema = toJsonSchema(
+    t.interface({
+      custom: ACustomType,
+      items: t.readonlyArray(AnIntersection),
+      kind: AUnion
+    })
+  );
+
+  it("should find no violations for a valid value", () => {
+    expect(
+      getJsonSchemaViolations(aSchema, {
+        custom: 42,
+        items: [{ id: "an-id" }, { id: "another-id", note: "a note" }],
+        kind: "A"
+      })
+    ).toEqual([]);
+  });
+
+  it("should report each violation along with its path", () => {
+    expect(
+      getJsonSchemaViolations(aSchema, {
+        custom: null,
+        items: [{ note: 1 }],
+        kind: { kind: "1" }
+      })
+    ).toEqual([
+      "$.items[0].id: is required",
+      "$.items[0].note: expected string, found number",
+      "$.kind: does not match any of the allowed schemas"
+    ]);
+  });
+
+  it("should report a missing required field of an intersection", () => {
+    expect(
+      getJsonSchemaViolations(toJsonSchema(AnIntersection), { note: "x" })
+    ).toEqual(["$.id: is required"]);
+  });
+});
+
+describe("getJsonSchemaPaths", () => {
+  it("should list the fields of every member of intersections and unions, once", () => {
+    expect(
+      getJsonSchemaPaths(
+        toJsonSchema(
+          t.interface({
+            item: AnIntersection,
+            kind: AUnion,
+            other: t.union([AnIntersection, t.null])
+          })
+        )
+      )
+    ).toEqual(["item.id", "item.note", "kind.kind", "other.id", "other.note"]);
+  });
+});
@@ -0,0 +1,108 @@
+import * as E from "fp-ts/lib/Either";
+import * as UPNG from "upng-js";
+
+import { ILogoPolicy, resizeLogo, validateLogo } from "../logo";
+
+const aPermissivePolicy: ILogoPolicy = {
+  maxBytes: 1048576,
+  maxHeight: 4096,
+  maxWidth: 4096,
+  minHeight: 1,
+  minWidth: 1,
+  requireSquare: false,
+  resizeWidths: [],
+  transparency: "allowed"
+};
+
+// builds a PNG filled with a single RGBA color
+const aPng = (width: number, height: number, alpha = 255): Buffer =>
+  Buffer.from(
+    UPNG.encode(
+      [
+        new Uint8Array(width * height * 4).map((_, i) =>
+          i % 4 === 3 ? alpha : 128
+        ).buffer
+      ],
+      width,
+      height,
+      0
+    )
+  );
+
+const getDetail = (
+  result: ReturnType<ReturnType<typeof validateLogo>>
+): string | undefined => (E.isLeft(result) ? result.left.detail : undefined);
+
+describe("validateLogo", () => {
+  it("should accept a logo that complies with the policy", () => {
+    const result = validateLogo(aPermissivePolicy)(aPng(10, 10));
+
+    expect(E.isRight(result)).toBeTruthy();
+  });
+
+  it("should reject a payload that is not a PNG", () => {
+    const result = validateLogo(aPermissivePolicy)(Buffer.from("not a png"));
+
+    expect(getDetail(result)).toContain("base64 representation");
+  });
+
+  it("should report every violation of the policy", () => {
+    const result = validateLogo({
+      ...aPermissivePolicy,
+      maxBytes: 10,
+      minHeight: 20,
+      requireSquare: true,
+      transparency: "required"
+    })(aPng(30, 10));
+
+    expect(getDetail(result)).toEqual(
+      expect.stringContaining("The logo size must be at most 10 bytes")
+    );
+    expect(getDetail(result)).toEqual(
+      expect.stringContaining(
+        "The logo height must be between 20px and 4096px, found 10px"
+      )
+    );
+    expect(getDetail(result)).toEqual(
+      expect.stringContaining("The logo must be square, found 30x10px")
+    );
+    expect(getDetail(result)).toEqual(
+      expect.stringContaining("The logo must have a transparent background")
+    );
+  });
+
+  it("should reject a logo with transparent pixels when transparency is forbidden", () => {
+    const result = validateLogo({
+      ...aPermissivePolicy,
+      transparency: "forbidden"
+    })(aPng(10, 10, 0));
+
+    expect(getDetail(result)).toContain(
+      "The logo must not have transparent pixels"
+    );
+  });
+
+  it("should report the exact size when min and max dimensions are equal", () => {
+    const result = validateLogo({
+      ...aPermissivePolicy,
+      maxWidth: 300,
+      minWidth: 300
+    })(aPng(10, 10));
+
+    expect(getDetail(result)).toContain(
+      "The logo width must be 300px, found 10px"
+    );
+  });
+});
+
+describe("resizeLogo", () => {
+  it("should resize a logo keeping its aspect ratio", () => {
+    const resized = UPNG.decode(resizeLogo(UPNG.decode(aPng(40, 20)), 10));
+
+    expect(resized.width).toBe(10);
+    expect(resized.height).toBe(5);
+    expect(new Uint8Array(UPNG.toRGBA8(resized)[0]).slice(0, 4)).toEqual(
+      new Uint8Array([128, 128, 128, 255])
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import * as E from "fp-ts/lib/Either";
+import * as O from "fp-ts/lib/Option";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { EncryptedContent, generateCipherKey } from "../crypto";
+import {
+  decryptBackupDocument,
+  destroyUserDataBackupKey,
+  encryptBackupDocument,
+  getOrCreateUserDataBackupKey,
+  getUserDataBackupKey
+} from "../userDataBackup";
+
+const aFiscalCode = "AAAAAA00A00A000A" as FiscalCode;
+const aMasterKey = generateCipherKey();
+const aDocument = JSON.stringify({ id: "A_MESSAGE_ID" });
+
+// an in memory container of blobs
+const blobs = new Map<string, string>();
+
+const mockCreateBlockBlobFromText = jest.fn(
+  (_, name: string, text: string, __, cb) => {
+    blobs.set(name, text);
+    cb(null, { name });
+  }
+);
+const aBlobService = {
+  createBlockBlobFromText: mockCreateBlockBlobFromText,
+  deleteBlobIfExists: jest.fn((_, name: string, cb) =>
+    cb(null, blobs.delete(name))
+  ),
+  getBlobToText: jest.fn((_, name: string, __, cb) =>
+    blobs.has(name)
+      ? cb(null, blobs.get(name))
+      : cb({ code: "BlobNotFound", message: "not found" })
+  )
+} as any;
+
+describe("user data backup keys", () => {
+  beforeEach(() => {
+    blobs.clear();
+    jest.clearAllMocks();
+  });
+
+  it("should create a key wrapped with the master key", async () => {
+    const dataKey = await getOrCreateUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aMasterKey,
+      aFiscalCode
+    )();
+
+    expect(E.isRight(dataKey)).toBe(true);
+    expect(mockCreateBlockBlobFromText).toHaveBeenCalledWith(
+      "user-data-backup-keys",
+      `${aFiscalCode}.json`,
+      expect.any(String),
+      { accessConditions: { EtagNonMatch: "*" } },
+      expect.any(Function)
+    );
+    const wrappedKey = JSON.parse(blobs.get(`${aFiscalCode}.json`)!);
+    expect(EncryptedContent.is(wrappedKey)).toBe(true);
+    if (E.isRight(dataKey)) {
+      expect(wrappedKey.data).not.toEqual(dataKey.right.toString("base64"));
+    }
+  });
+
+  it("should reuse the key of a user", async () => {
+    const first = await getOrCreateUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aMasterKey,
+      aFiscalCode
+    )();
+    const second = await getOrCreateUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aMasterKey,
+      aFiscalCode
+    )();
+
+    expect(second).toEqual(first);
+    expect(mockCreateBlockBlobFromText).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not read the key with another master key", async () => {
+    await getOrCreateUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aMasterKey,
+      aFiscalCode
+    )();
+
+    const dataKey = await getUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      generateCipherKey(),
+      aFiscalCode
+    )();
+
+    expect(E.isLeft(dataKey)).toBe(true);
+  });
+
+  it("should find no key once it has been destroyed", async () => {
+    await getOrCreateUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aMasterKey,
+      aFiscalCode
+    )();
+
+    const destroyed = await destroyUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aFiscalCode
+    )();
+    const dataKey = await getUserDataBackupKey(
+      aBlobService,
+      "user-data-backup-keys",
+      aMasterKey,
+      aFiscalCode
+    )();
+
+    expect(destroyed).toEqual(E.right(true));
+    expect(dataKey).toEqual(E.right(O.none));
+  });
+});
+
+describe("backup documents encryption", () => {
+  const aDataKey = generateCipherKey();
+
+  it("should decrypt an encrypted document", () => {
+    const encrypted = encryptBackupDocument(aDataKey)(aDocument);
+
+    expect(encrypted).not.toContain("A_MESSAGE_ID");
+    expect(decryptBackupDocument(O.some(aDataKey))(encrypted)).toEqual(
+      E.right(aDocument)
+    );
+  });
+
+  it("should leave documents saved in plain text as they are", () => {
+    expect(decryptBackupDocument(O.none)(aDocument)).toEqual(
+      E.right(aDocument)
+    );
+  });
+
+  it("should fail to decrypt a document once the key has been destroyed", () => {
+    const encrypted = encryptBackupDocument(aDataKey)(aDocument);
+
+    expect(E.isLeft(decryptBackupDocument(O.none)(encrypted))).toBe(true);
+  });
+
+  it("should fail to decrypt a tampered document", () => {
+    const encrypted = JSON.parse(encryptBackupDocument(aDataKey)(aDocument));
+    const tampered = JSON.stringify({
+      ...encrypted,
+      data: Buffer.from("another content").toString("base64")
+    });
+
+    expect(E.isLeft(decryptBackupDocument(O.some(aDataKey))(tampered))).toBe(
+      true
+    );
+  });
+});
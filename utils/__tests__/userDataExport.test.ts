@@ -0,0 +1,184 @@
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as yaml from "yaml";
+import {
+  aFiscalCode,
+  aRetrievedMessageWithoutContent,
+  aServicePreference,
+  aMessageContent
+} from "../../__mocks__/mocks";
+import { parseCsv } from "../csv";
+import { getJsonSchemaViolations } from "../jsonSchema";
+import { AllUserData, UserDataPages } from "../userData";
+import {
+  getUserDataExportFiles,
+  getUserDataJsonSchema,
+  USER_DATA_SCHEMA_FILE_NAME
+} from "../userDataExport";
+
+const aUserData: AllUserData = {
+  messageContents: [
+    { content: aMessageContent, messageId: aRetrievedMessageWithoutContent.id }
+  ],
+  messageStatuses: [],
+  messagesView: [],
+  messages: [aRetrievedMessageWithoutContent],
+  notifications: [],
+  notificationStatuses: [],
+  profiles: [],
+  servicesPreferences: [aServicePreference]
+};
+
+// every entity in a single page
+const toPages = (userData: AllUserData): UserDataPages =>
+  ({
+    ...Object.fromEntries(
+      Object.entries(userData).map(([entity, items]) => [
+        entity,
+        async function*() {
+          yield items;
+        }
+      ])
+    ),
+    messagesWithContents: async function*() {
+      yield userData.messages.map(message => ({
+        content: userData.messageContents.find(
+          ({ messageId }) => messageId === message.id
+        )?.content,
+        message
+      }));
+    }
+  } as any);
+
+const readContent = async (content: AsyncIterable<string>) => {
+  let text = "";
+  for await (const chunk of content) {
+    text += chunk;
+  }
+  return text;
+};
+
+const getFile = (
+  formats: Parameters<typeof getUserDataExportFiles>[0],
+  userData: AllUserData = aUserData
+) => (name: string) =>
+  readContent(
+    getUserDataExportFiles(formats, aFiscalCode, toPages(userData)).find(
+      file => file.name === name
+    )!.content
+  );
+
+describe("getUserDataExportFiles", () => {
+  it("should export a JSON document along with its schema", async () => {
+    const file = getFile(["json"]);
+
+    const document = JSON.parse(await file(`${aFiscalCode}.json`));
+    const schema = JSON.parse(await file(USER_DATA_SCHEMA_FILE_NAME));
+
+    expect(document.$schema).toBe(`./${USER_DATA_SCHEMA_FILE_NAME}`);
+    expect(getJsonSchemaViolations(schema, document)).toEqual([]);
+    expect(schema).toEqual(getUserDataJsonSchema());
+    expect(schema).toMatchObject({
+      properties: { messages: { type: "array" } },
+      required: expect.arrayContaining(["messages", "profiles"]),
+      type: "object"
+    });
+  });
+
+  it("should not export a JSON document that does not match its schema", async () => {
+    const file = getFile(["json"], {
+      ...aUserData,
+      messages: [
+        { ...aRetrievedMessageWithoutContent, senderServiceId: undefined }
+      ]
+    } as any);
+
+    await expect(file(`${aFiscalCode}.json`)).rejects.toThrow(
+      "$.messages[0].senderServiceId: is required"
+    );
+  });
+
+  it("should leave out of the JSON document the contents that could not be retrieved", async () => {
+    const file = getFile(["json"], {
+      ...aUserData,
+      messageContents: [{ messageId: "A_MESSAGE_ID" }]
+    } as any);
+
+    const document = JSON.parse(await file(`${aFiscalCode}.json`));
+
+    expect(document.messageContents).toEqual([]);
+  });
+
+  it("should count the items written in each file", async () => {
+    const files = getUserDataExportFiles(
+      ["json", "yaml", "csv"],
+      aFiscalCode,
+      toPages({
+        ...aUserData,
+        messageContents: [
+          ...aUserData.messageContents,
+          { messageId: "A_MESSAGE_ID" }
+        ]
+      } as any)
+    );
+    const getCounts = async (name: string) => {
+      const file = files.find(_ => _.name === name)!;
+      await readContent(file.content);
+      return file.counts && Object.fromEntries(file.counts);
+    };
+
+    // contents that could not be retrieved are left out of the JSON document only
+    expect(await getCounts(`${aFiscalCode}.json`)).toMatchObject({
+      messageContents: 1,
+      messages: 1,
+      profiles: 0
+    });
+    expect(await getCounts(`${aFiscalCode}.yaml`)).toMatchObject({
+      messageContents: 2,
+      messages: 1,
+      profiles: 0
+    });
+    expect(await getCounts("csv/messages.csv")).toEqual({ messages: 1 });
+    expect(await getCounts(USER_DATA_SCHEMA_FILE_NAME)).toBeUndefined();
+  });
+
+  it("should export a YAML document with a list for each entity", async () => {
+    const file = getFile(["yaml"]);
+
+    const document = yaml.parse(await file(`${aFiscalCode}.yaml`));
+
+    expect(document.messages).toHaveLength(1);
+    expect(document.messages[0].id).toBe(aRetrievedMessageWithoutContent.id);
+    expect(document.profiles).toEqual([]);
+  });
+
+  it("should export messages as CSV along with their content", async () => {
+    const file = getFile(["csv"]);
+
+    const records = pipe(
+      parseCsv(await file("csv/messages.csv")),
+      E.getOrElseW(e => fail(e))
+    );
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        "content.markdown": aMessageContent.markdown,
+        "content.subject": aMessageContent.subject,
+        id: aRetrievedMessageWithoutContent.id
+      })
+    ]);
+    expect(await file("csv/message-statuses.csv")).toMatch(/^[^\n]*\r\n$/);
+  });
+
+  it("should export each of the requested formats", () => {
+    const names = getUserDataExportFiles(
+      ["csv", "yaml"],
+      aFiscalCode,
+      toPages(aUserData)
+    ).map(({ name }) => name);
+
+    expect(names).toContain(`${aFiscalCode}.yaml`);
+    expect(names).toContain("csv/services-preferences.csv");
+    expect(names).not.toContain(`${aFiscalCode}.json`);
+  });
+});
@@ -0,0 +1,60 @@
+import * as packageJson from "../../package.json";
+import { toHash } from "../crypto";
+import { withUserDataManifest } from "../userDataManifest";
+
+const readContent = async (content: AsyncIterable<string>) => {
+  let text = "";
+  for await (const chunk of content) {
+    text += chunk;
+  }
+  return text;
+};
+
+const aCreationDate = new Date("2022-01-01T00:00:00.000Z");
+
+describe("withUserDataManifest", () => {
+  it("should list the checksum of every file and the counts of the files of user data", async () => {
+    const counts = new Map();
+    const files = withUserDataManifest(
+      [
+        {
+          content: (async function*() {
+            counts.set("messages", 2);
+            yield "2 messages";
+          })(),
+          counts,
+          name: "a-file.txt"
+        },
+        {
+          content: (async function*() {
+            yield "a summary";
+          })(),
+          name: "another-file.txt"
+        }
+      ],
+      aCreationDate
+    );
+
+    expect(files.map(({ name }) => name)).toEqual([
+      "a-file.txt",
+      "another-file.txt",
+      "manifest.json"
+    ]);
+    const aFileContent = await readContent(files[0].content);
+    const anotherFileContent = await readContent(files[1].content);
+    const manifest = JSON.parse(await readContent(files[2].content));
+
+    expect(manifest).toEqual({
+      createdAt: aCreationDate.toISOString(),
+      files: [
+        {
+          counts: { messages: 2 },
+          name: "a-file.txt",
+          sha256: toHash(aFileContent)
+        },
+        { name: "another-file.txt", sha256: toHash(anotherFileContent) }
+      ],
+      version: packageJson.version
+    });
+  });
+});
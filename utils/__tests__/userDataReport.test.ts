@@ -0,0 +1,111 @@
+import {
+  aMessageContent,
+  aProfile,
+  aRetrievedMessageWithoutContent,
+  aServicePreference
+} from "../../__mocks__/mocks";
+import { AllUserData, IMessageWithContent, UserDataPages } from "../userData";
+import { renderUserDataReport } from "../userDataReport";
+
+const aUserData: AllUserData = {
+  messageContents: [],
+  messageStatuses: [],
+  messagesView: [],
+  messages: [],
+  notifications: [],
+  notificationStatuses: [],
+  profiles: [aProfile],
+  servicesPreferences: [aServicePreference]
+};
+
+const aNewerMessage = {
+  ...aRetrievedMessageWithoutContent,
+  createdAt: new Date("2022-01-01T00:00:00.000Z"),
+  indexedId: "A_NEWER_MESSAGE_ID"
+};
+
+const anOlderMessage = {
+  ...aRetrievedMessageWithoutContent,
+  createdAt: new Date("2021-01-01T00:00:00.000Z"),
+  indexedId: "AN_OLDER_MESSAGE_ID"
+};
+
+// every entity in a single page, messages in the provided pages
+const toPages = (
+  userData: AllUserData,
+  messagePages: ReadonlyArray<ReadonlyArray<IMessageWithContent>> = []
+): UserDataPages =>
+  ({
+    ...Object.fromEntries(
+      Object.entries(userData).map(([entity, items]) => [
+        entity,
+        async function*() {
+          yield items;
+        }
+      ])
+    ),
+    messagesWithContents: async function*() {
+      yield* messagePages;
+    }
+  } as any);
+
+const render = async (pages: UserDataPages) => {
+  let html = "";
+  for await (const chunk of renderUserDataReport(pages)) {
+    html += chunk;
+  }
+  return html;
+};
+
+describe("renderUserDataReport", () => {
+  it("should render the profile and the service preferences", async () => {
+    const html = await render(toPages(aUserData));
+
+    expect(html).toContain(`<td>${aProfile.email}</td>`);
+    expect(html).toContain(`<td>${aServicePreference.serviceId}</td>`);
+    expect(html).toContain("Nessun messaggio ricevuto.");
+  });
+
+  it("should render messages of every page with their markdown as HTML", async () => {
+    const html = await render(
+      toPages(aUserData, [
+        [
+          {
+            content: {
+              ...aMessageContent,
+              markdown: `# A title\n\n${aMessageContent.markdown}`
+            },
+            message: aNewerMessage
+          }
+        ],
+        [{ message: anOlderMessage }]
+      ] as ReadonlyArray<ReadonlyArray<IMessageWithContent>>)
+    );
+
+    expect(html).toContain("<h1>A title</h1>");
+    expect(html).toContain(`<h3>${aMessageContent.subject}</h3>`);
+    expect(html).toContain("Il contenuto del messaggio non è disponibile.");
+    expect(html.indexOf(aNewerMessage.createdAt.toISOString())).toBeLessThan(
+      html.indexOf(anOlderMessage.createdAt.toISOString())
+    );
+  });
+
+  it("should escape user provided values", async () => {
+    const html = await render(
+      toPages(aUserData, [
+        [
+          {
+            content: {
+              ...aMessageContent,
+              subject: "<script>a subject</script>"
+            },
+            message: aNewerMessage
+          }
+        ]
+      ] as ReadonlyArray<ReadonlyArray<IMessageWithContent>>)
+    );
+
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;a subject&lt;/script&gt;");
+  });
+});
@@ -2,12 +2,13 @@ import { ApiManagementClient } from "@azure/arm-apimanagement";
 import {
   GroupContract,
   SubscriptionGetResponse,
+  SubscriptionState,
   UserGetResponse
 } from "@azure/arm-apimanagement/esm/models";
 import { GraphRbacManagementClient } from "@azure/graph";
 import * as msRestNodeAuth from "@azure/ms-rest-nodeauth";
 import { toError } from "fp-ts/lib/Either";
-import { flow, identity, pipe } from "fp-ts/lib/function";
+import { constVoid, flow, identity, pipe } from "fp-ts/lib/function";
 import * as t from "io-ts";
 import * as TE from "fp-ts/lib/TaskEither";
 import * as E from "fp-ts/Either";
@@ -169,3 +170,26 @@ export const getSubscription = (
     ),
     chainApimMappedError
   );
+
+export const updateSubscriptionState = (
+  apimClient: ApiManagementClient,
+  apimResourceGroup: string,
+  apim: string,
+  serviceId: string,
+  state: SubscriptionState
+): TE.TaskEither<ApimRestError, void> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        apimClient.subscription.update(
+          apimResourceGroup,
+          apim,
+          serviceId,
+          { state },
+          "*"
+        ),
+      identity
+    ),
+    chainApimMappedError,
+    TE.map(constVoid)
+  );
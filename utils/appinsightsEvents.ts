@@ -2,16 +2,19 @@
 
 import { UserDataProcessing } from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
 import { trackEvent, trackException } from "./appinsights";
+import { toHash } from "./crypto";
 
 // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
 export const trackUserDataDeleteEvent = (
   eventName: string,
-  userDataProcessing: UserDataProcessing
+  userDataProcessing: UserDataProcessing,
+  properties: Readonly<Record<string, string>> = {}
 ) =>
   trackEvent({
     // eslint-disable-next-line sonarjs/no-duplicate-string
     name: `user.data.delete.${eventName}`,
     properties: {
+      ...properties,
       userDataProcessingId: userDataProcessing.userDataProcessingId
     },
     tagOverrides: {
@@ -72,3 +75,57 @@ export const trackUserDataDownloadException = (
       "ai.operation.parentId": userDataProcessing.userDataProcessingId
     }
   });
+
+// archive names contain the fiscal code of their owner, so they are hashed
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const trackUserDataArchiveEvent = (
+  eventName: string,
+  blobName: string,
+  properties: Readonly<Record<string, string>> = {}
+) =>
+  trackEvent({
+    name: `user.data.download.archive.${eventName}`,
+    properties: {
+      ...properties,
+      blobNameHash: toHash(blobName)
+    }
+  });
+
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const trackUserDataArchiveException = (
+  eventName: string,
+  exception: Error,
+  blobName: string
+) =>
+  trackException({
+    exception,
+    properties: {
+      blobNameHash: toHash(blobName),
+      name: `user.data.download.archive.${eventName}`
+    }
+  });
+
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const trackUserDataBackupEvent = (
+  eventName: string,
+  properties: Readonly<Record<string, string>> = {}
+) =>
+  trackEvent({
+    name: `user.data.delete.backup.${eventName}`,
+    properties
+  });
+
+// backup folders are named after the fiscal code of their owner, so they are hashed
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const trackUserDataBackupException = (
+  eventName: string,
+  exception: Error,
+  backupFolder: string
+) =>
+  trackException({
+    exception,
+    properties: {
+      backupFolderHash: toHash(backupFolder),
+      name: `user.data.delete.backup.${eventName}`
+    }
+  });
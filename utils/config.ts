@@ -9,8 +9,38 @@ import { MailerConfig } from "@pagopa/io-functions-commons/dist/src/mailer";
 import * as t from "io-ts";
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { BooleanFromString } from "@pagopa/ts-commons/lib/booleans";
+import { CommaSeparatedListOf } from "@pagopa/ts-commons/lib/comma-separated-list";
+import {
+  IntegerFromString,
+  NonNegativeInteger,
+  NonNegativeIntegerFromString,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import { withDefault } from "@pagopa/ts-commons/lib/types";
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
+import {
+  CipherKeyFromBase64,
+  SigningKeyFromBase64,
+  toVerificationKey,
+  VerificationKeyFromBase64
+} from "./crypto";
+import { LogoResizeWidthFromString, LogoTransparency } from "./logo";
+import { UserDataExportFormat } from "./userDataExport";
+import {
+  DEFAULT_ZIP_ENCRYPTION_METHOD,
+  DEFAULT_ZLIB_LEVEL,
+  EncryptionMethod,
+  ZlibLevelFromString
+} from "./zip";
+
+// links to download user data are valid for one hour at least
+const DownloadLinkExpiryHours = WithinRangeInteger(1, Number.MAX_SAFE_INTEGER);
+type DownloadLinkExpiryHours = t.TypeOf<typeof DownloadLinkExpiryHours>;
+const DownloadLinkExpiryHoursFromString = IntegerFromString.pipe(
+  DownloadLinkExpiryHours
+);
 
 // global app configuration
 export type IConfig = t.TypeOf<typeof IConfig>;
@@ -38,7 +68,38 @@ export const IConfig = t.intersection([
 
     MESSAGE_CONTAINER_NAME: NonEmptyString,
     USER_DATA_BACKUP_CONTAINER_NAME: NonEmptyString,
+    // the keys of the backups are kept apart from the backups
+    USER_DATA_BACKUP_KEY_CONTAINER_NAME: NonEmptyString,
+    // base64 encoded 256 bit key the keys of user data backups are encrypted with
+    USER_DATA_BACKUP_MASTER_KEY: CipherKeyFromBase64,
+    // how long backups of deleted user data are kept before being deleted
+    USER_DATA_BACKUP_RETENTION_DAYS: withDefault(
+      NonNegativeIntegerFromString,
+      30 as NonNegativeInteger
+    ),
+    // when true, expired backups are only reported, without deleting them
+    USER_DATA_BACKUP_CLEANUP_DRY_RUN: withDefault(BooleanFromString, false),
+    USER_DATA_DELETE_CERTIFICATE_CONTAINER_NAME: NonEmptyString,
+    // base64 encoded Ed25519 private key (PKCS#8 DER) the certificates of user data deletions are signed with
+    USER_DATA_DELETE_CERTIFICATE_SIGNING_KEY: SigningKeyFromBase64,
+    // base64 encoded Ed25519 public key (SPKI DER) the certificates are verified with
+    USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY: VerificationKeyFromBase64,
     USER_DATA_CONTAINER_NAME: NonEmptyString,
+    // comma separated formats of the data exported for download
+    USER_DATA_EXPORT_FORMATS: withDefault(
+      CommaSeparatedListOf(UserDataExportFormat),
+      ["yaml"]
+    ),
+    // how zip files with user data are encrypted: aes256 or zip20
+    USER_DATA_ARCHIVE_ENCRYPTION_METHOD: withDefault(
+      EncryptionMethod,
+      DEFAULT_ZIP_ENCRYPTION_METHOD
+    ),
+    // from 0 (no compression) to 9 (best compression)
+    USER_DATA_ARCHIVE_COMPRESSION_LEVEL: withDefault(
+      ZlibLevelFromString,
+      DEFAULT_ZLIB_LEVEL
+    ),
 
     AssetsStorageConnection: NonEmptyString,
     FailedUserDataProcessingStorageConnection: NonEmptyString,
@@ -50,13 +111,60 @@ export const IConfig = t.intersection([
     PUBLIC_API_URL: NonEmptyString,
 
     PUBLIC_DOWNLOAD_BASE_URL: NonEmptyString,
+    // how long the links sent to users to download their data are valid for
+    // they must not outlive the archives, see USER_DATA_ARCHIVE_RETENTION_DAYS
+    USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS: withDefault(
+      DownloadLinkExpiryHoursFromString,
+      168 as DownloadLinkExpiryHours
+    ),
+    // how long archives with user data are kept before being deleted
+    USER_DATA_ARCHIVE_RETENTION_DAYS: withDefault(
+      NonNegativeIntegerFromString,
+      15 as NonNegativeInteger
+    ),
+    // when true, expired archives are only reported, without deleting them
+    USER_DATA_ARCHIVE_CLEANUP_DRY_RUN: withDefault(BooleanFromString, false),
 
     SESSION_API_KEY: NonEmptyString,
     SESSION_API_URL: NonEmptyString,
 
     LOGOS_URL: NonEmptyString,
 
+    LOGO_MAX_BYTES: withDefault(
+      NonNegativeIntegerFromString,
+      1048576 as NonNegativeInteger
+    ),
+    LOGO_MAX_HEIGHT: withDefault(
+      NonNegativeIntegerFromString,
+      4096 as NonNegativeInteger
+    ),
+    LOGO_MAX_WIDTH: withDefault(
+      NonNegativeIntegerFromString,
+      4096 as NonNegativeInteger
+    ),
+    LOGO_MIN_HEIGHT: withDefault(
+      NonNegativeIntegerFromString,
+      1 as NonNegativeInteger
+    ),
+    LOGO_MIN_WIDTH: withDefault(
+      NonNegativeIntegerFromString,
+      1 as NonNegativeInteger
+    ),
+    LOGO_REQUIRE_SQUARE: withDefault(BooleanFromString, false),
+    // comma separated widths of the resized copies of logos, none by default
+    // logos are never upscaled, so they cannot be larger than LOGO_MIN_WIDTH
+    LOGO_RESIZE_WIDTHS: withDefault(
+      CommaSeparatedListOf(LogoResizeWidthFromString),
+      []
+    ),
+    LOGO_TRANSPARENCY: withDefault(LogoTransparency, "allowed"),
+
     FAILED_USER_DATA_PROCESSING_TABLE: NonEmptyString,
+    // how many recovery orchestrations a single retry call can start at most
+    FAILED_USER_DATA_PROCESSING_MAX_RETRIES: withDefault(
+      NonNegativeIntegerFromString,
+      50 as NonNegativeInteger
+    ),
     SUBSCRIPTIONS_FEED_TABLE: NonEmptyString,
     USER_DATA_DELETE_DELAY_DAYS: NonEmptyString,
 
@@ -72,8 +180,78 @@ export const envConfig = {
   isProduction: process.env.NODE_ENV === "production"
 };
 
+interface IConfigConstraint {
+  readonly description: string;
+  readonly isValid: (config: IConfig) => boolean;
+  // the value reported as not valid when the constraint does not hold
+  readonly key: keyof IConfig;
+}
+
+// constraints between configuration values, checked once they are decoded
+const CONFIG_CONSTRAINTS: ReadonlyArray<IConfigConstraint> = [
+  {
+    // every accepted logo is at least LOGO_MIN_WIDTH wide
+    description: "widths not larger than LOGO_MIN_WIDTH",
+    isValid: (config): boolean =>
+      config.LOGO_RESIZE_WIDTHS.every(width => width <= config.LOGO_MIN_WIDTH),
+    key: "LOGO_RESIZE_WIDTHS"
+  },
+  {
+    // archives are deleted once they are older than their retention
+    description: "hours not beyond USER_DATA_ARCHIVE_RETENTION_DAYS",
+    isValid: (config): boolean =>
+      config.USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS <=
+      config.USER_DATA_ARCHIVE_RETENTION_DAYS * 24,
+    key: "USER_DATA_DOWNLOAD_LINK_EXPIRY_HOURS"
+  },
+  {
+    // certificates signed with the private key are verified with the public one
+    description: "public key of USER_DATA_DELETE_CERTIFICATE_SIGNING_KEY",
+    isValid: (config): boolean =>
+      VerificationKeyFromBase64.encode(
+        toVerificationKey(config.USER_DATA_DELETE_CERTIFICATE_SIGNING_KEY)
+      ) ===
+      VerificationKeyFromBase64.encode(
+        config.USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY
+      ),
+    key: "USER_DATA_DELETE_CERTIFICATE_PUBLIC_KEY"
+  }
+];
+
+/**
+ * Checks the configuration values which depend on each other
+ *
+ * @returns either the configuration or an error for each constraint that does not hold
+ */
+export const checkConfigConstraints = (
+  config: IConfig
+): t.Validation<IConfig> => {
+  const errors = CONFIG_CONSTRAINTS.filter(
+    constraint => !constraint.isValid(config)
+  ).map(({ description, key }) => ({
+    context: [
+      { actual: config, key: "", type: IConfig },
+      {
+        actual: config[key],
+        key,
+        type: new t.Type(
+          description,
+          t.unknown.is,
+          t.unknown.validate,
+          t.identity
+        )
+      }
+    ],
+    value: config[key]
+  }));
+  return errors.length > 0 ? t.failures(errors) : t.success(config);
+};
+
 // No need to re-evaluate this object for each call
-const errorOrConfig: t.Validation<IConfig> = IConfig.decode(envConfig);
+const errorOrConfig: t.Validation<IConfig> = pipe(
+  IConfig.decode(envConfig),
+  E.chain(checkConfigConstraints)
+);
 
 /**
  * Read the application configuration and check for invalid values.
@@ -113,20 +113,25 @@ export function apiServiceToService(service: ApiService): Service {
 
 // Returns an API Service Metadata from an internal Service model
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
-export function toApiServiceMetadata(
-  service: RetrievedService
-): ApiServiceMetadata {
+export function toApiServiceMetadata(service: Service): ApiServiceMetadata {
   return service.serviceMetadata
     ? toServiceMetadata(service.serviceMetadata)
     : undefined;
 }
 
+/**
+ * A service along with the identifiers of one of its versions,
+ * either stored or not (e.g. the preview of a dry run)
+ */
+export type VersionedService = Service &
+  Pick<RetrievedService, "id" | "version">;
+
 /**
  * Converts a RetrievedService to a API Service
  */
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function retrievedServiceToApiService(
-  retrievedService: RetrievedService
+  retrievedService: VersionedService
 ): ApiService {
   return {
     authorized_cidrs: Array.from(retrievedService.authorizedCIDRs).filter(
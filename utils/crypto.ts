@@ -3,6 +3,9 @@
  */
 
 import * as crypto from "crypto";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
 
 export const toHash = (s: string): string =>
   crypto
@@ -12,3 +15,163 @@ export const toHash = (s: string): string =>
 
 export const randomBytes = (size: number): string =>
   crypto.randomBytes(size).toString("hex");
+
+/**
+ * A SHA-256 hash to be updated a chunk at a time,
+ * for contents that are not available all at once
+ */
+export const createHash = (): crypto.Hash => crypto.createHash("sha256");
+
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const CIPHER_KEY_BYTES = 32;
+// the recommended size of the initialization vector of GCM
+const CIPHER_IV_BYTES = 12;
+
+/**
+ * A content encrypted with AES-256-GCM, its fields base64 encoded
+ */
+export const EncryptedContent = t.interface({
+  alg: t.literal(CIPHER_ALGORITHM),
+  data: t.string,
+  iv: t.string,
+  tag: t.string
+});
+export type EncryptedContent = t.TypeOf<typeof EncryptedContent>;
+
+/**
+ * A base64 encoded AES-256 key
+ */
+export const CipherKeyFromBase64 = new t.Type<Buffer, string, unknown>(
+  "CipherKeyFromBase64",
+  (u): u is Buffer => Buffer.isBuffer(u) && u.length === CIPHER_KEY_BYTES,
+  (u, c) =>
+    pipe(
+      t.string.validate(u, c),
+      E.map(s => Buffer.from(s, "base64")),
+      E.chain(key =>
+        key.length === CIPHER_KEY_BYTES
+          ? t.success(key)
+          : t.failure(u, c, `A key must be ${CIPHER_KEY_BYTES} bytes long`)
+      )
+    ),
+  key => key.toString("base64")
+);
+
+export const generateCipherKey = (): Buffer =>
+  crypto.randomBytes(CIPHER_KEY_BYTES);
+
+export const encrypt = (key: Buffer, content: Buffer): EncryptedContent => {
+  const iv = crypto.randomBytes(CIPHER_IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(content), cipher.final()]);
+  return {
+    alg: CIPHER_ALGORITHM,
+    data: data.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64")
+  };
+};
+
+/**
+ * @throws when the key is wrong or the content has been tampered with
+ */
+export const decrypt = (key: Buffer, encrypted: EncryptedContent): Buffer => {
+  const decipher = crypto.createDecipheriv(
+    CIPHER_ALGORITHM,
+    key,
+    Buffer.from(encrypted.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted.data, "base64")),
+    decipher.final()
+  ]);
+};
+
+const SIGNATURE_KEY_TYPE = "ed25519";
+
+const SignatureKeyFromBase64 = (
+  name: string,
+  keyType: crypto.KeyObjectType,
+  fromDer: (der: Buffer) => crypto.KeyObject,
+  toDer: (key: crypto.KeyObject) => Buffer
+): t.Type<crypto.KeyObject, string, unknown> => {
+  const is = (u: unknown): u is crypto.KeyObject =>
+    u instanceof crypto.KeyObject &&
+    u.type === keyType &&
+    u.asymmetricKeyType === SIGNATURE_KEY_TYPE;
+  return new t.Type<crypto.KeyObject, string, unknown>(
+    name,
+    is,
+    (u, c) =>
+      pipe(
+        t.string.validate(u, c),
+        E.chain(s =>
+          pipe(
+            E.tryCatch(() => fromDer(Buffer.from(s, "base64")), E.toError),
+            E.filterOrElse(
+              is,
+              () =>
+                new Error(
+                  `A key must be an ${keyType} ${SIGNATURE_KEY_TYPE} key`
+                )
+            ),
+            E.fold(error => t.failure(u, c, error.message), t.success)
+          )
+        )
+      ),
+    key => toDer(key).toString("base64")
+  );
+};
+
+/**
+ * A base64 encoded Ed25519 private key, in PKCS#8 DER format,
+ * to sign contents with
+ */
+export const SigningKeyFromBase64 = SignatureKeyFromBase64(
+  "SigningKeyFromBase64",
+  "private",
+  key => crypto.createPrivateKey({ format: "der", key, type: "pkcs8" }),
+  key => key.export({ format: "der", type: "pkcs8" })
+);
+
+/**
+ * A base64 encoded Ed25519 public key, in SPKI DER format,
+ * to verify signatures with
+ */
+export const VerificationKeyFromBase64 = SignatureKeyFromBase64(
+  "VerificationKeyFromBase64",
+  "public",
+  key => crypto.createPublicKey({ format: "der", key, type: "spki" }),
+  key => key.export({ format: "der", type: "spki" })
+);
+
+export const generateSigningKeyPair = (): crypto.KeyPairKeyObjectResult =>
+  crypto.generateKeyPairSync(SIGNATURE_KEY_TYPE);
+
+/**
+ * The public key of a signing key, to be published for signatures to be verified
+ */
+export const toVerificationKey = (
+  signingKey: crypto.KeyObject
+): crypto.KeyObject => crypto.createPublicKey(signingKey);
+
+/**
+ * Signs a content with Ed25519
+ *
+ * @returns the base64 encoded signature
+ */
+export const sign = (signingKey: crypto.KeyObject, content: string): string =>
+  crypto.sign(null, Buffer.from(content), signingKey).toString("base64");
+
+export const isValidSignature = (
+  verificationKey: crypto.KeyObject,
+  content: string,
+  signature: string
+): boolean =>
+  crypto.verify(
+    null,
+    Buffer.from(content),
+    verificationKey,
+    Buffer.from(signature, "base64")
+  );
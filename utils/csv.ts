@@ -0,0 +1,115 @@
+/**
+ * Minimal CSV (RFC 4180) serialization and parsing utilities.
+ */
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+
+export type CsvRecord = Readonly<Record<string, string | undefined>>;
+
+const CSV_LINE_SEPARATOR = "\r\n";
+
+const escapeCsvValue = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvLine = (values: ReadonlyArray<string>): string =>
+  values.map(escapeCsvValue).join(",");
+
+/**
+ * Serializes a list of records into CSV lines, one per record,
+ * with values in the order of the provided columns.
+ * Missing values are serialized as empty strings.
+ */
+export const toCsvRows = (
+  columns: ReadonlyArray<string>,
+  records: ReadonlyArray<CsvRecord>
+): string =>
+  records
+    .map(
+      record =>
+        `${toCsvLine(
+          columns.map(column => record[column] ?? "")
+        )}${CSV_LINE_SEPARATOR}`
+    )
+    .join("");
+
+/**
+ * Serializes a list of records into a CSV document
+ * with an header line made of the provided columns.
+ * Missing values are serialized as empty strings.
+ */
+export const toCsv = (
+  columns: ReadonlyArray<string>,
+  records: ReadonlyArray<CsvRecord>
+): string =>
+  `${toCsvLine(columns)}${CSV_LINE_SEPARATOR}${toCsvRows(columns, records)}`;
+
+// a value, either quoted or not, followed by its separator
+const CSV_VALUE_REGEXP = /^(?:"((?:[^"]|"")*)"|([^",\r\n]*))(,|\r\n|\n|\r|$)/;
+
+/**
+ * Parses a CSV document into its rows of values.
+ * Quoted values can contain separators, line breaks and escaped quotes.
+ * Empty lines are skipped.
+ */
+export const parseCsvRows = (
+  text: string
+): E.Either<Error, ReadonlyArray<ReadonlyArray<string>>> => {
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const rows: Array<ReadonlyArray<string>> = [];
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const row: string[] = [];
+  // eslint-disable-next-line functional/no-let
+  let position = 0;
+
+  while (position < text.length) {
+    const match = CSV_VALUE_REGEXP.exec(text.slice(position));
+    if (match === null) {
+      return E.left(new Error(`Malformed CSV value at position ${position}`));
+    }
+    const [value, quotedValue, unquotedValue, separator] = match;
+    // eslint-disable-next-line functional/immutable-data
+    row.push(
+      quotedValue === undefined
+        ? unquotedValue
+        : quotedValue.replace(/""/g, '"')
+    );
+    if (separator !== ",") {
+      // eslint-disable-next-line functional/immutable-data
+      rows.push(row.splice(0));
+    }
+    position += value.length;
+  }
+  if (row.length > 0) {
+    // the document ends with a separator
+    // eslint-disable-next-line functional/immutable-data
+    rows.push([...row, ""]);
+  }
+
+  return E.right(rows.filter(r => r.length > 1 || r[0] !== ""));
+};
+
+/**
+ * Parses a CSV document into records, using the first line as header.
+ * Empty values are left undefined.
+ */
+export const parseCsv = (
+  text: string
+): E.Either<Error, ReadonlyArray<CsvRecord>> =>
+  pipe(
+    parseCsvRows(text),
+    E.chain(([header, ...rows]) =>
+      header === undefined
+        ? E.left(new Error("Missing CSV header"))
+        : E.right(
+            rows.map(values =>
+              header.reduce<CsvRecord>(
+                (record, column, index) =>
+                  values[index] === undefined || values[index] === ""
+                    ? record
+                    : { ...record, [column]: values[index] },
+                {}
+              )
+            )
+          )
+    )
+  );
@@ -27,3 +27,92 @@ export function deleteBlob(
     })
   );
 }
+
+/**
+ * Lists the blobs of a container a page at a time,
+ * following continuation tokens until the last page
+ *
+ * @param blobService     the Azure blob service
+ * @param containerName   the name of the Azure blob storage container
+ * @param prefix          if provided, only blobs whose name starts with it are listed
+ * @throws when a page cannot be retrieved
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export async function* listBlobs(
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  prefix?: string
+): AsyncIterable<ReadonlyArray<azureStorage.BlobService.BlobResult>> {
+  // eslint-disable-next-line functional/no-let
+  let continuationToken: azureStorage.common.ContinuationToken | undefined;
+  do {
+    const page = await new Promise<azureStorage.BlobService.ListBlobsResult>(
+      (resolve, reject) => {
+        const callback: azureStorage.ErrorOrResult<azureStorage.BlobService.ListBlobsResult> = (
+          err,
+          result
+        ) => (err ? reject(err) : resolve(result));
+        // the first page has no continuation token
+        return prefix === undefined
+          ? blobService.listBlobsSegmented(
+              containerName,
+              continuationToken,
+              callback
+            )
+          : blobService.listBlobsSegmentedWithPrefix(
+              containerName,
+              prefix,
+              continuationToken,
+              callback
+            );
+      }
+    );
+    yield page.entries;
+    continuationToken = page.continuationToken;
+  } while (continuationToken !== undefined && continuationToken !== null);
+}
+
+/**
+ * Lists the top level directories of a container a page at a time,
+ * following continuation tokens until the last page
+ *
+ * @param blobService     the Azure blob service
+ * @param containerName   the name of the Azure blob storage container
+ * @param prefix          if provided, only directories whose name starts with it are listed
+ * @throws when a page cannot be retrieved
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export async function* listBlobDirectories(
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  prefix?: string
+): AsyncIterable<ReadonlyArray<string>> {
+  // eslint-disable-next-line functional/no-let
+  let continuationToken: azureStorage.common.ContinuationToken | undefined;
+  do {
+    const page = await new Promise<
+      azureStorage.BlobService.ListBlobDirectoriesResult
+    >((resolve, reject) => {
+      const callback: azureStorage.ErrorOrResult<azureStorage.BlobService.ListBlobDirectoriesResult> = (
+        err,
+        result
+      ) => (err ? reject(err) : resolve(result));
+      // the first page has no continuation token
+      return prefix === undefined
+        ? blobService.listBlobDirectoriesSegmented(
+            containerName,
+            continuationToken,
+            callback
+          )
+        : blobService.listBlobDirectoriesSegmentedWithPrefix(
+            containerName,
+            prefix,
+            continuationToken,
+            callback
+          );
+    });
+    // directory names end with the delimiter
+    yield page.entries.map(({ name }) => name.replace(/\/$/, ""));
+    continuationToken = page.continuationToken;
+  } while (continuationToken !== undefined && continuationToken !== null);
+}
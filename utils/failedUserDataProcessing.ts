@@ -0,0 +1,128 @@
+/**
+ * Types and utils to read the FailedUserDataProcessing table,
+ * which tracks the user data processing requests ended with a failure.
+ */
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import {
+  Constants,
+  TableQuery,
+  TableService,
+  TableUtilities
+} from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+
+/**
+ * A record of the table as returned by the storage,
+ * Timestamp is the last time the record has been written
+ */
+export type FailedUserDataProcessingEntry = Readonly<{
+  readonly RowKey: Readonly<{ readonly _: string }>;
+  readonly Reason?: Readonly<{ readonly _: string }>;
+  readonly Timestamp?: Readonly<{ readonly _: Date }>;
+}>;
+
+export interface IFailedUserDataProcessing {
+  readonly choice: string;
+  readonly fiscalCode: string;
+  readonly reason?: string;
+  readonly timestamp?: Date;
+}
+
+export const toFailedUserDataProcessing = (choice: string) => (
+  entry: FailedUserDataProcessingEntry
+): IFailedUserDataProcessing => ({
+  choice,
+  fiscalCode: entry.RowKey._,
+  reason: entry.Reason?._,
+  timestamp: entry.Timestamp?._
+});
+
+/**
+ * Filters on the time the failures have been recorded, both bounds included
+ */
+export const FailedUserDataProcessingFilters = t.exact(
+  t.partial({
+    from: UTCISODateFromString,
+    to: UTCISODateFromString
+  })
+);
+export type FailedUserDataProcessingFilters = t.TypeOf<
+  typeof FailedUserDataProcessingFilters
+>;
+
+/**
+ * Builds the query of a page of failures for the provided choice
+ */
+export const getFailedUserDataProcessingQuery = (
+  choice: string,
+  pageSize: number,
+  filters: FailedUserDataProcessingFilters = {}
+): TableQuery =>
+  [
+    ...(filters.from === undefined
+      ? []
+      : [
+          TableQuery.dateFilter(
+            "Timestamp",
+            TableUtilities.QueryComparisons.GREATER_THAN_OR_EQUAL,
+            filters.from
+          )
+        ]),
+    ...(filters.to === undefined
+      ? []
+      : [
+          TableQuery.dateFilter(
+            "Timestamp",
+            TableUtilities.QueryComparisons.LESS_THAN_OR_EQUAL,
+            filters.to
+          )
+        ])
+  ].reduce(
+    (query, condition) => query.and(condition),
+    new TableQuery()
+      .select("RowKey", "Reason", "Timestamp")
+      .where("PartitionKey == ?", choice)
+      .top(pageSize)
+  );
+
+const TableContinuationTokenPayload = t.interface({
+  nextPartitionKey: t.string,
+  nextRowKey: t.string
+});
+
+/**
+ * Encodes the continuation token returned by the storage
+ * into an opaque string that can be sent to clients
+ */
+export const encodeTableContinuationToken = (
+  token: TableService.TableContinuationToken
+): NonEmptyString =>
+  Buffer.from(
+    JSON.stringify(
+      TableContinuationTokenPayload.encode({
+        nextPartitionKey: token.nextPartitionKey,
+        nextRowKey: token.nextRowKey
+      })
+    )
+  ).toString("base64") as NonEmptyString;
+
+/**
+ * Decodes a continuation token sent by a client
+ */
+export const decodeTableContinuationToken = (
+  token: string
+): E.Either<Error, TableService.TableContinuationToken> =>
+  pipe(
+    E.parseJSON(Buffer.from(token, "base64").toString(), E.toError),
+    E.chainW(TableContinuationTokenPayload.decode),
+    E.bimap(
+      () => new Error("Invalid continuation token"),
+      payload => ({
+        ...payload,
+        targetLocation: Constants.StorageLocation.PRIMARY
+      })
+    )
+  );
@@ -0,0 +1,229 @@
+/**
+ * Derives a JSON Schema (draft-07) from an io-ts codec,
+ * so that documents produced from a codec can be checked by third parties.
+ *
+ * Custom types, whose structure is not known at runtime,
+ * are described by name and accept any value.
+ */
+import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as S from "fp-ts/lib/string";
+import * as t from "io-ts";
+
+export type JsonSchema = Readonly<Record<string, unknown>>;
+
+export const JSON_SCHEMA_DRAFT = "http://json-schema.org/draft-07/schema#";
+
+// the codecs known by io-ts, the only ones whose structure can be inspected
+/* eslint-disable functional/prefer-readonly-type */
+type KnownCodec =
+  | t.ArrayType<t.Mixed>
+  | t.BooleanType
+  | t.DictionaryType<t.Mixed, t.Mixed>
+  | t.ExactType<t.Mixed>
+  | t.InterfaceType<t.Props>
+  | t.IntersectionType<t.Mixed[]>
+  | t.KeyofType<Record<string, unknown>>
+  | t.LiteralType<string | number | boolean>
+  | t.NullType
+  | t.NumberType
+  | t.PartialType<t.Props>
+  | t.ReadonlyArrayType<t.Mixed>
+  | t.ReadonlyType<t.Mixed>
+  | t.RefinementType<t.Mixed>
+  | t.StrictType<t.Props>
+  | t.StringType
+  | t.UnionType<t.Mixed[]>;
+/* eslint-enable functional/prefer-readonly-type */
+
+const isKnownCodec = (codec: t.Mixed): codec is KnownCodec & t.Mixed =>
+  // eslint-disable-next-line no-underscore-dangle
+  typeof (codec as Partial<KnownCodec>)._tag === "string";
+
+const toObjectSchema = (
+  props: t.Props,
+  required: ReadonlyArray<string>,
+  toSchema: (codec: t.Mixed) => JsonSchema
+): JsonSchema => ({
+  properties: Object.entries(props).reduce(
+    (properties, [key, codec]) => ({ ...properties, [key]: toSchema(codec) }),
+    {}
+  ),
+  ...(required.length > 0 ? { required } : {}),
+  type: "object"
+});
+
+/**
+ * Converts a codec into the JSON Schema of its encoded values
+ */
+export const toJsonSchema = (codec: t.Mixed): JsonSchema => {
+  if (!isKnownCodec(codec)) {
+    return { description: codec.name };
+  }
+  // eslint-disable-next-line no-underscore-dangle
+  switch (codec._tag) {
+    case "StringType":
+      return { type: "string" };
+    case "NumberType":
+      return { type: "number" };
+    case "BooleanType":
+      return { type: "boolean" };
+    case "NullType":
+      return { type: "null" };
+    case "LiteralType":
+      return { const: codec.value };
+    case "KeyofType":
+      return { enum: Object.keys(codec.keys), type: "string" };
+    case "InterfaceType":
+    case "StrictType":
+      return toObjectSchema(
+        codec.props,
+        Object.keys(codec.props),
+        toJsonSchema
+      );
+    case "PartialType":
+      return toObjectSchema(codec.props, [], toJsonSchema);
+    case "ExactType":
+    case "ReadonlyType":
+      return toJsonSchema(codec.type);
+    case "RefinementType":
+      return { ...toJsonSchema(codec.type), description: codec.name };
+    case "ArrayType":
+    case "ReadonlyArrayType":
+      return { items: toJsonSchema(codec.type), type: "array" };
+    case "DictionaryType":
+      return {
+        additionalProperties: toJsonSchema(codec.codomain),
+        type: "object"
+      };
+    case "IntersectionType":
+      return { allOf: codec.types.map(toJsonSchema) };
+    case "UnionType":
+      return { anyOf: codec.types.map(toJsonSchema) };
+    default:
+      return { description: (codec as t.Mixed).name };
+  }
+};
+
+const typeOf = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+/**
+ * Checks a value against a schema produced by toJsonSchema,
+ * supporting the keywords it can generate
+ *
+ * @returns the violations found, each one prefixed by the path of the value
+ */
+export const getJsonSchemaViolations = (
+  schema: JsonSchema,
+  value: unknown,
+  path: string = "$"
+): ReadonlyArray<string> => {
+  const {
+    additionalProperties,
+    allOf,
+    anyOf,
+    items,
+    properties,
+    required,
+    type
+  } = schema as Readonly<{
+    readonly additionalProperties?: JsonSchema;
+    readonly allOf?: ReadonlyArray<JsonSchema>;
+    readonly anyOf?: ReadonlyArray<JsonSchema>;
+    readonly items?: JsonSchema;
+    readonly properties?: Readonly<Record<string, JsonSchema>>;
+    readonly required?: ReadonlyArray<string>;
+    readonly type?: string;
+  }>;
+  if (type !== undefined && typeOf(value) !== type) {
+    return [`${path}: expected ${type}, found ${typeOf(value)}`];
+  }
+  if ("const" in schema && schema.const !== value) {
+    return [`${path}: expected ${JSON.stringify(schema.const)}`];
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !(schema.enum as ReadonlyArray<unknown>).includes(value)
+  ) {
+    return [`${path}: expected one of ${schema.enum.join(", ")}`];
+  }
+  const fields = (value ?? {}) as Readonly<Record<string, unknown>>;
+  const violations = RA.flatten([
+    pipe(
+      required ?? [],
+      RA.filter(key => fields[key] === undefined),
+      RA.map(key => `${path}.${key}: is required`)
+    ),
+    pipe(
+      Object.entries(properties ?? {}),
+      RA.chain(([key, propertySchema]) =>
+        fields[key] === undefined
+          ? []
+          : getJsonSchemaViolations(
+              propertySchema,
+              fields[key],
+              `${path}.${key}`
+            )
+      )
+    ),
+    additionalProperties === undefined
+      ? []
+      : pipe(
+          Object.entries(fields),
+          RA.chain(([key, field]) =>
+            getJsonSchemaViolations(
+              additionalProperties,
+              field,
+              `${path}.${key}`
+            )
+          )
+        ),
+    items === undefined || !Array.isArray(value)
+      ? []
+      : pipe(
+          value as ReadonlyArray<unknown>,
+          RA.chainWithIndex((index, item) =>
+            getJsonSchemaViolations(items, item, `${path}[${index}]`)
+          )
+        ),
+    pipe(
+      allOf ?? [],
+      RA.chain(subSchema => getJsonSchemaViolations(subSchema, value, path))
+    )
+  ]);
+  return anyOf === undefined ||
+    anyOf.some(
+      subSchema => getJsonSchemaViolations(subSchema, value, path).length === 0
+    )
+    ? violations
+    : [...violations, `${path}: does not match any of the allowed schemas`];
+};
+
+/**
+ * Lists the paths of the fields described by a schema produced by toJsonSchema,
+ * with nested object fields named by their dotted path
+ */
+export const getJsonSchemaPaths = (
+  schema: JsonSchema
+): ReadonlyArray<string> => {
+  const { allOf, anyOf, properties } = schema as Readonly<{
+    readonly allOf?: ReadonlyArray<JsonSchema>;
+    readonly anyOf?: ReadonlyArray<JsonSchema>;
+    readonly properties?: Readonly<Record<string, JsonSchema>>;
+  }>;
+  return pipe(
+    RA.flatten([
+      pipe(
+        Object.entries(properties ?? {}),
+        RA.chain(([key, propertySchema]) =>
+          pipe(getJsonSchemaPaths(propertySchema), paths =>
+            paths.length === 0 ? [key] : paths.map(path => `${key}.${path}`)
+          )
+        )
+      ),
+      pipe([...(allOf ?? []), ...(anyOf ?? [])], RA.chain(getJsonSchemaPaths))
+    ]),
+    RA.uniq(S.Eq)
+  );
+};
@@ -0,0 +1,358 @@
+/**
+ * Validation and resizing of the logos of services and organizations.
+ *
+ * Logos are PNG images checked against a configurable policy
+ * before being uploaded to the assets storage.
+ */
+
+import {
+  IntegerFromString,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorValidation,
+  ResponseErrorValidation
+} from "@pagopa/ts-commons/lib/responses";
+import { BlobService, ServiceResponse } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { constVoid, flow, identity, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import * as UPNG from "upng-js";
+
+import {
+  asyncIterableToArray,
+  flattenAsyncIterable
+} from "@pagopa/io-functions-commons/dist/src/utils/async";
+import { LogoInfo } from "../generated/definitions/LogoInfo";
+import { IConfig } from "./config";
+import { listBlobs } from "./extensions/azure_storage";
+
+export const LogoTransparency = t.keyof({
+  // no rule on transparency
+  allowed: null,
+  // every pixel must be opaque
+  forbidden: null,
+  // at least a pixel must be transparent, usually the background
+  required: null
+});
+export type LogoTransparency = t.TypeOf<typeof LogoTransparency>;
+
+// the width of a resized copy of a logo, in pixels
+export const LogoResizeWidth = WithinRangeInteger(1, Number.MAX_SAFE_INTEGER);
+export type LogoResizeWidth = t.TypeOf<typeof LogoResizeWidth>;
+export const LogoResizeWidthFromString = IntegerFromString.pipe(
+  LogoResizeWidth
+);
+
+export interface ILogoPolicy {
+  readonly maxBytes: number;
+  readonly minWidth: number;
+  readonly maxWidth: number;
+  readonly minHeight: number;
+  readonly maxHeight: number;
+  readonly requireSquare: boolean;
+  readonly transparency: LogoTransparency;
+  // the widths of the resized copies stored along with the logo
+  readonly resizeWidths: ReadonlyArray<number>;
+}
+
+export interface ILogoRendition {
+  readonly width: number;
+  readonly content: Buffer;
+}
+
+const ALPHA_OPAQUE = 255;
+const RGBA_CHANNELS = 4;
+
+const getRgbaPixels = (image: UPNG.Image): Uint8Array =>
+  new Uint8Array(UPNG.toRGBA8(image)[0]);
+
+const hasTransparentPixels = (image: UPNG.Image): boolean =>
+  getRgbaPixels(image).some(
+    (value, index) =>
+      index % RGBA_CHANNELS === RGBA_CHANNELS - 1 && value < ALPHA_OPAQUE
+  );
+
+const checkDimension = (
+  name: string,
+  value: number,
+  min: number,
+  max: number
+): ReadonlyArray<string> =>
+  value >= min && value <= max
+    ? []
+    : [
+        min === max
+          ? `The logo ${name} must be ${min}px, found ${value}px`
+          : `The logo ${name} must be between ${min}px and ${max}px, found ${value}px`
+      ];
+
+const checkTransparency = (
+  transparency: LogoTransparency,
+  image: UPNG.Image
+): ReadonlyArray<string> =>
+  transparency === "allowed"
+    ? []
+    : transparency === "required" && !hasTransparentPixels(image)
+    ? ["The logo must have a transparent background"]
+    : transparency === "forbidden" && hasTransparentPixels(image)
+    ? ["The logo must not have transparent pixels"]
+    : [];
+
+/**
+ * Lists the rules of the policy the logo does not comply with
+ */
+const getPolicyViolations = (
+  policy: ILogoPolicy,
+  content: Buffer,
+  image: UPNG.Image
+): ReadonlyArray<string> => [
+  ...(content.length > policy.maxBytes
+    ? [
+        `The logo size must be at most ${policy.maxBytes} bytes, found ${content.length} bytes`
+      ]
+    : []),
+  ...checkDimension("width", image.width, policy.minWidth, policy.maxWidth),
+  ...checkDimension("height", image.height, policy.minHeight, policy.maxHeight),
+  ...(policy.requireSquare && image.width !== image.height
+    ? [`The logo must be square, found ${image.width}x${image.height}px`]
+    : []),
+  ...checkTransparency(policy.transparency, image)
+];
+
+/**
+ * Decodes a PNG logo and checks it against the policy.
+ * Every violation of the policy is reported in the detail of the error.
+ */
+export const validateLogo = (policy: ILogoPolicy) => (
+  content: Buffer
+): E.Either<IResponseErrorValidation, UPNG.Image> =>
+  pipe(
+    E.tryCatch(() => UPNG.decode(content), E.toError),
+    E.filterOrElse(
+      image => image.width > 0 && image.height > 0,
+      () => new Error("Empty image")
+    ),
+    E.mapLeft(() =>
+      ResponseErrorValidation(
+        "Image not valid",
+        "The base64 representation of the logo is invalid"
+      )
+    ),
+    E.chain(image =>
+      pipe(getPolicyViolations(policy, content, image), violations =>
+        violations.length === 0
+          ? E.right(image)
+          : E.left(
+              ResponseErrorValidation("Image not valid", violations.join(" / "))
+            )
+      )
+    )
+  );
+
+/**
+ * Resizes an image to the provided width, keeping its aspect ratio,
+ * using bilinear interpolation.
+ */
+export const resizeLogo = (image: UPNG.Image, width: number): Buffer => {
+  const height = Math.max(1, Math.round((image.height * width) / image.width));
+  const source = getRgbaPixels(image);
+  const target = new Uint8Array(width * height * RGBA_CHANNELS);
+  const xRatio = width > 1 ? (image.width - 1) / (width - 1) : 0;
+  const yRatio = height > 1 ? (image.height - 1) / (height - 1) : 0;
+
+  const sourceAt = (x: number, y: number, channel: number): number =>
+    source[(y * image.width + x) * RGBA_CHANNELS + channel];
+
+  target.forEach((_, index) => {
+    const channel = index % RGBA_CHANNELS;
+    const pixel = Math.floor(index / RGBA_CHANNELS);
+    const x = (pixel % width) * xRatio;
+    const y = Math.floor(pixel / width) * yRatio;
+    const [x0, y0] = [Math.floor(x), Math.floor(y)];
+    const [x1, y1] = [
+      Math.min(x0 + 1, image.width - 1),
+      Math.min(y0 + 1, image.height - 1)
+    ];
+    const [dx, dy] = [x - x0, y - y0];
+    // eslint-disable-next-line functional/immutable-data
+    target[index] = Math.round(
+      sourceAt(x0, y0, channel) * (1 - dx) * (1 - dy) +
+        sourceAt(x1, y0, channel) * dx * (1 - dy) +
+        sourceAt(x0, y1, channel) * (1 - dx) * dy +
+        sourceAt(x1, y1, channel) * dx * dy
+    );
+  });
+
+  return Buffer.from(UPNG.encode([target.buffer], width, height, 0));
+};
+
+/**
+ * Builds the resized copies of the logo required by the policy
+ */
+export const getLogoRenditions = (
+  policy: ILogoPolicy,
+  image: UPNG.Image
+): ReadonlyArray<ILogoRendition> =>
+  policy.resizeWidths.map(width => ({
+    content: resizeLogo(image, width),
+    width
+  }));
+
+// logos are stored in the container of the services assets
+export const LOGOS_CONTAINER_NAME = "services";
+
+/**
+ * The name, without extension, of the blob storing the logo of a service
+ */
+export const getServiceLogoBaseName = (serviceId: string): string =>
+  serviceId.toLowerCase();
+
+/**
+ * The name, without extension, of the blob storing the logo of an organization,
+ * i.e. its fiscal code without leading zeros
+ */
+export const getOrganizationLogoBaseName = (
+  organizationFiscalCode: string
+): string => organizationFiscalCode.replace(/^0+/, "");
+
+/**
+ * The name of the blob of a resized copy of a logo,
+ * i.e. `<name>_<width>.png`
+ */
+export const getLogoRenditionBlobName = (
+  baseName: string,
+  width: number
+): string => `${baseName}_${width}.png`;
+
+/**
+ * Uploads the resized copies of a logo next to the original one
+ */
+export const uploadLogoRenditions = (
+  blobService: BlobService,
+  containerName: string,
+  baseName: string,
+  renditions: ReadonlyArray<ILogoRendition>
+): TE.TaskEither<Error, void> =>
+  pipe(
+    renditions,
+    RA.map(rendition =>
+      TE.taskify<Error, BlobService.BlobResult>(cb =>
+        blobService.createBlockBlobFromText(
+          containerName,
+          getLogoRenditionBlobName(baseName, rendition.width),
+          rendition.content,
+          cb
+        )
+      )()
+    ),
+    RA.sequence(TE.ApplicativeSeq),
+    TE.map(constVoid)
+  );
+
+/**
+ * Reads the properties and the metadata of a logo blob,
+ * none when the blob does not exist
+ */
+export const getLogoBlobProperties = (
+  blobService: BlobService,
+  containerName: string,
+  blobName: string
+): TE.TaskEither<Error, O.Option<BlobService.BlobResult>> =>
+  TE.tryCatch(
+    () =>
+      new Promise((resolve, reject) =>
+        blobService.getBlobProperties(
+          containerName,
+          blobName,
+          (err: Error, result: BlobService.BlobResult, res: ServiceResponse) =>
+            res?.statusCode === 404
+              ? resolve(O.none)
+              : err
+              ? reject(err)
+              : resolve(O.some(result))
+        )
+      ),
+    E.toError
+  );
+
+/**
+ * Whether a blob is a logo or one of its resized copies,
+ * whatever the widths they have been resized to
+ */
+const isLogoBlobName = (baseName: string, blobName: string): boolean =>
+  blobName === `${baseName}.png` ||
+  (blobName.startsWith(baseName) &&
+    /^_\d+\.png$/.test(blobName.slice(baseName.length)));
+
+/**
+ * Deletes a logo along with its resized copies, including those
+ * resized to widths that are no longer configured.
+ * Resolves to false when the logo does not exist.
+ */
+export const deleteLogoBlobs = (
+  blobService: BlobService,
+  containerName: string,
+  baseName: string
+): TE.TaskEither<Error, boolean> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(listBlobs(blobService, containerName, baseName))
+        ),
+      E.toError
+    ),
+    TE.map(
+      RA.filterMap(({ name }) =>
+        isLogoBlobName(baseName, name) ? O.some(name) : O.none
+      )
+    ),
+    TE.chain(
+      flow(
+        RA.map(blobName =>
+          pipe(
+            TE.taskify<Error, boolean>(cb =>
+              blobService.deleteBlobIfExists(containerName, blobName, cb)
+            )(),
+            TE.map(isDeleted => isDeleted && blobName === `${baseName}.png`)
+          )
+        ),
+        RA.sequence(TE.ApplicativeSeq)
+      )
+    ),
+    // the outcome of the original logo only
+    TE.map(RA.some(identity))
+  );
+
+/**
+ * Converts the properties of a logo blob into its API representation
+ */
+export const toLogoInfo = (logoUrl: string) => (
+  blob: BlobService.BlobResult
+): LogoInfo => ({
+  content_length: Number(blob.contentLength),
+  content_md5: blob.contentSettings?.contentMD5,
+  content_type: blob.contentSettings?.contentType,
+  etag: blob.etag,
+  last_modified: new Date(blob.lastModified),
+  metadata: blob.metadata,
+  url: logoUrl
+});
+
+/**
+ * Reads the logo policy from the application configuration
+ */
+export const getLogoPolicy = (config: IConfig): ILogoPolicy => ({
+  maxBytes: config.LOGO_MAX_BYTES,
+  maxHeight: config.LOGO_MAX_HEIGHT,
+  maxWidth: config.LOGO_MAX_WIDTH,
+  minHeight: config.LOGO_MIN_HEIGHT,
+  minWidth: config.LOGO_MIN_WIDTH,
+  requireSquare: config.LOGO_REQUIRE_SQUARE,
+  resizeWidths: config.LOGO_RESIZE_WIDTHS,
+  transparency: config.LOGO_TRANSPARENCY
+});
@@ -0,0 +1,99 @@
+import * as express from "express";
+
+import * as E from "fp-ts/lib/Either";
+
+import {
+  FailedUserDataProcessingFiltersMiddleware,
+  FailedUserDataProcessingRetryFiltersMiddleware
+} from "../failedUserDataProcessing";
+
+describe("FailedUserDataProcessingFiltersMiddleware", () => {
+  it("should return the date range if the dates are valid", async () => {
+    const request = ({
+      query: {
+        from: "2021-10-01T00:00:00.000Z",
+        to: "2021-10-31T00:00:00.000Z"
+      }
+    } as unknown) as express.Request;
+
+    const result = await FailedUserDataProcessingFiltersMiddleware(request);
+
+    expect(result).toEqual(
+      E.right({
+        from: new Date("2021-10-01T00:00:00.000Z"),
+        to: new Date("2021-10-31T00:00:00.000Z")
+      })
+    );
+  });
+
+  it("should return a validation error if a date is not valid", async () => {
+    const request = ({
+      query: { from: "yesterday" }
+    } as unknown) as express.Request;
+
+    const result = await FailedUserDataProcessingFiltersMiddleware(request);
+
+    expect(E.isLeft(result)).toBe(true);
+  });
+
+  it("should return a validation error if the range is inverted", async () => {
+    const request = ({
+      query: {
+        from: "2021-10-31T00:00:00.000Z",
+        to: "2021-10-01T00:00:00.000Z"
+      }
+    } as unknown) as express.Request;
+
+    const result = await FailedUserDataProcessingFiltersMiddleware(request);
+
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
+
+describe("FailedUserDataProcessingRetryFiltersMiddleware", () => {
+  it("should return the filters of the retry", async () => {
+    const request = ({
+      query: {
+        choice: "DELETE",
+        fiscal_codes: "GCPMNL86A24H501K,IOOWZZ43A99Y618X",
+        limit: "10"
+      }
+    } as unknown) as express.Request;
+
+    const result = await FailedUserDataProcessingRetryFiltersMiddleware(
+      request
+    );
+
+    expect(result).toEqual(
+      E.right({
+        choice: "DELETE",
+        fiscal_codes: ["GCPMNL86A24H501K", "IOOWZZ43A99Y618X"],
+        limit: 10
+      })
+    );
+  });
+
+  it("should return a validation error if the limit is zero", async () => {
+    const request = ({
+      query: { limit: "0" }
+    } as unknown) as express.Request;
+
+    const result = await FailedUserDataProcessingRetryFiltersMiddleware(
+      request
+    );
+
+    expect(E.isLeft(result)).toBe(true);
+  });
+
+  it("should return a validation error if a fiscal code is not valid", async () => {
+    const request = ({
+      query: { fiscal_codes: "GCPMNL86A24H501K,not-a-fiscal-code" }
+    } as unknown) as express.Request;
+
+    const result = await FailedUserDataProcessingRetryFiltersMiddleware(
+      request
+    );
+
+    expect(E.isLeft(result)).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import * as express from "express";
+
+import * as E from "fp-ts/lib/Either";
+
+import { GdprAuthMiddleware } from "../gdprAuth";
+
+const getRequest = (headers: Record<string, string>): express.Request =>
+  (({
+    header: (name: string) => headers[name]
+  } as unknown) as express.Request);
+
+const anAuthenticatedUser = {
+  "x-subscription-id": "aSubscriptionId",
+  "x-user-id": "aUserId"
+};
+
+describe("GdprAuthMiddleware", () => {
+  it("should allow the members of the GDPR group", async () => {
+    const result = await GdprAuthMiddleware(
+      getRequest({
+        ...anAuthenticatedUser,
+        "x-user-groups": "ApiServiceRead, ApiGdprAdmin"
+      })
+    );
+
+    expect(result).toEqual(
+      E.right({
+        kind: "IAzureGdprAuthorization",
+        subscriptionId: "aSubscriptionId",
+        userId: "aUserId"
+      })
+    );
+  });
+
+  it("should forbid anonymous users", async () => {
+    const result = await GdprAuthMiddleware(
+      getRequest({ "x-user-groups": "ApiGdprAdmin" })
+    );
+
+    expect(E.isLeft(result) && result.left.kind).toBe(
+      "IResponseErrorForbiddenAnonymousUser"
+    );
+  });
+
+  it("should forbid users without groups", async () => {
+    const result = await GdprAuthMiddleware(getRequest(anAuthenticatedUser));
+
+    expect(E.isLeft(result) && result.left.kind).toBe(
+      "IResponseErrorForbiddenNoAuthorizationGroups"
+    );
+  });
+
+  it("should forbid users outside the GDPR group", async () => {
+    const result = await GdprAuthMiddleware(
+      getRequest({
+        ...anAuthenticatedUser,
+        "x-user-groups": "ApiServiceRead,ApiServiceWrite"
+      })
+    );
+
+    expect(E.isLeft(result) && result.left.kind).toBe(
+      "IResponseErrorForbiddenNotAuthorized"
+    );
+  });
+});
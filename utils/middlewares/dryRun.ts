@@ -0,0 +1,24 @@
+/**
+ * Middleware that extracts the dry-run flag from a request query string.
+ */
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+
+import { BooleanFromString } from "@pagopa/ts-commons/lib/booleans";
+import { IRequestMiddleware } from "@pagopa/ts-commons/lib/request_middleware";
+import { ResponseErrorFromValidationErrors } from "@pagopa/ts-commons/lib/responses";
+
+/**
+ * Extracts the `dryRun` query parameter, false when missing
+ */
+export const DryRunMiddleware: IRequestMiddleware<
+  "IResponseErrorValidation",
+  boolean
+> = async request =>
+  request.query.dryRun === undefined
+    ? E.right(false)
+    : pipe(
+        request.query.dryRun,
+        BooleanFromString.decode,
+        E.mapLeft(ResponseErrorFromValidationErrors(BooleanFromString))
+      );
@@ -0,0 +1,88 @@
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+
+import { UserDataProcessingChoice } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingChoice";
+import { CommaSeparatedListOf } from "@pagopa/ts-commons/lib/comma-separated-list";
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
+import {
+  IntegerFromString,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import { IRequestMiddleware } from "@pagopa/ts-commons/lib/request_middleware";
+import {
+  IResponseErrorValidation,
+  ResponseErrorFromValidationErrors,
+  ResponseErrorValidation
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+
+import { FailedUserDataProcessingFilters } from "../failedUserDataProcessing";
+
+const isValidDateRange = ({
+  from,
+  to
+}: {
+  readonly from?: Date;
+  readonly to?: Date;
+}): boolean => from === undefined || to === undefined || from <= to;
+
+const invalidDateRangeResponse = (): IResponseErrorValidation =>
+  ResponseErrorValidation(
+    "Invalid date range",
+    "The from date must not follow the to date"
+  );
+
+/**
+ * A middleware that extracts the date range of the failures
+ * from the query string.
+ */
+export const FailedUserDataProcessingFiltersMiddleware: IRequestMiddleware<
+  "IResponseErrorValidation",
+  FailedUserDataProcessingFilters
+> = async request =>
+  pipe(
+    FailedUserDataProcessingFilters.decode(request.query),
+    E.mapLeft(
+      ResponseErrorFromValidationErrors(FailedUserDataProcessingFilters)
+    ),
+    E.filterOrElse(isValidDateRange, invalidDateRangeResponse)
+  );
+
+// a limit of no requests would retry nothing
+const RetryLimit = WithinRangeInteger(1, Number.MAX_SAFE_INTEGER);
+const RetryLimitFromString = IntegerFromString.pipe(RetryLimit);
+
+/**
+ * Narrows a retry of failed user data processing requests
+ */
+export const FailedUserDataProcessingRetryFilters = t.exact(
+  t.partial({
+    choice: UserDataProcessingChoice,
+    // comma separated fiscal codes
+    fiscal_codes: CommaSeparatedListOf(FiscalCode),
+    // bounds of the time the requests have failed, both included
+    from: UTCISODateFromString,
+    // how many requests to retry at most
+    limit: RetryLimitFromString,
+    to: UTCISODateFromString
+  })
+);
+export type FailedUserDataProcessingRetryFilters = t.TypeOf<
+  typeof FailedUserDataProcessingRetryFilters
+>;
+
+/**
+ * A middleware that extracts the filters of a retry from the query string.
+ */
+export const FailedUserDataProcessingRetryFiltersMiddleware: IRequestMiddleware<
+  "IResponseErrorValidation",
+  FailedUserDataProcessingRetryFilters
+> = async request =>
+  pipe(
+    FailedUserDataProcessingRetryFilters.decode(request.query),
+    E.mapLeft(
+      ResponseErrorFromValidationErrors(FailedUserDataProcessingRetryFilters)
+    ),
+    E.filterOrElse(isValidDateRange, invalidDateRangeResponse)
+  );
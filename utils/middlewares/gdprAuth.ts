@@ -0,0 +1,64 @@
+/**
+ * A middleware that allows only the members of the GDPR user group,
+ * in charge of the user data processing requests.
+ *
+ * The group is unknown to io-functions-commons, whose AzureApiAuthMiddleware
+ * discards any group outside its own enumeration, so it's looked up by name
+ * in the x-user-groups header set by the API Management gateway.
+ */
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import { sequenceS } from "fp-ts/lib/Apply";
+
+import { IRequestMiddleware } from "@pagopa/ts-commons/lib/request_middleware";
+import {
+  ResponseErrorForbiddenAnonymousUser,
+  ResponseErrorForbiddenNoAuthorizationGroups,
+  ResponseErrorForbiddenNotAuthorized
+} from "@pagopa/ts-commons/lib/responses";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+export const GDPR_USER_GROUP = "ApiGdprAdmin";
+
+/**
+ * Azure authorization info of a member of the GDPR user group
+ */
+export interface IAzureGdprAuthorization {
+  readonly kind: "IAzureGdprAuthorization";
+  readonly userId: NonEmptyString;
+  readonly subscriptionId: NonEmptyString;
+}
+
+export const GdprAuthMiddleware: IRequestMiddleware<
+  | "IResponseErrorForbiddenNotAuthorized"
+  | "IResponseErrorForbiddenAnonymousUser"
+  | "IResponseErrorForbiddenNoAuthorizationGroups",
+  IAzureGdprAuthorization
+> = async request =>
+  pipe(
+    sequenceS(E.Apply)({
+      subscriptionId: NonEmptyString.decode(
+        request.header("x-subscription-id")
+      ),
+      userId: NonEmptyString.decode(request.header("x-user-id"))
+    }),
+    E.mapLeft(() => ResponseErrorForbiddenAnonymousUser),
+    E.chainW(({ subscriptionId, userId }) =>
+      pipe(
+        NonEmptyString.decode(request.header("x-user-groups")),
+        E.mapLeft(() => ResponseErrorForbiddenNoAuthorizationGroups),
+        E.map(groupsHeader => groupsHeader.split(",").map(g => g.trim())),
+        E.filterOrElseW(
+          groups => groups.includes(GDPR_USER_GROUP),
+          () => ResponseErrorForbiddenNotAuthorized
+        ),
+        E.map(
+          (): IAzureGdprAuthorization => ({
+            kind: "IAzureGdprAuthorization",
+            subscriptionId,
+            userId
+          })
+        )
+      )
+    )
+  );
@@ -0,0 +1,44 @@
+/**
+ * Middlewares that extract pagination parameters from a request query string.
+ */
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+
+import { WithinRangeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { IRequestMiddleware } from "@pagopa/ts-commons/lib/request_middleware";
+import { ResponseErrorFromValidationErrors } from "@pagopa/ts-commons/lib/responses";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+/**
+ * The number of items a client can ask for in a single page
+ */
+export const PageSize = WithinRangeInteger(1, 101);
+export type PageSize = t.TypeOf<typeof PageSize>;
+
+export const PageSizeMiddleware: IRequestMiddleware<
+  "IResponseErrorValidation",
+  PageSize
+> = async request =>
+  request.query.page_size
+    ? pipe(
+        Number(request.query.page_size),
+        PageSize.decode,
+        E.mapLeft(ResponseErrorFromValidationErrors(PageSize))
+      )
+    : E.right(undefined);
+
+/**
+ * Extracts the opaque token returned in the `next` link of a previous page
+ */
+export const ContinuationTokenMiddleware: IRequestMiddleware<
+  "IResponseErrorValidation",
+  NonEmptyString
+> = async request =>
+  request.query.continuation_token
+    ? pipe(
+        request.query.continuation_token,
+        NonEmptyString.decode,
+        E.mapLeft(ResponseErrorFromValidationErrors(NonEmptyString))
+      )
+    : E.right(undefined);
@@ -1,9 +1,16 @@
 import * as E from "fp-ts/lib/Either";
 import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
 
 import { Service as ApiService } from "@pagopa/io-functions-commons/dist/generated/definitions/Service";
 import { IRequestMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import { BooleanFromString } from "@pagopa/ts-commons/lib/booleans";
 import { ResponseErrorFromValidationErrors } from "@pagopa/ts-commons/lib/responses";
+import {
+  FiscalCode,
+  NonEmptyString,
+  OrganizationFiscalCode
+} from "@pagopa/ts-commons/lib/strings";
 
 import { Logo as ApiLogo } from "../../generated/definitions/Logo";
 
@@ -30,3 +37,29 @@ export const LogoPayloadMiddleware: IRequestMiddleware<
     ApiLogo.decode(request.body),
     E.mapLeft(ResponseErrorFromValidationErrors(ApiService))
   );
+
+/**
+ * The filters that can be applied when listing services.
+ * They always refer to the latest version of each service.
+ */
+export const ServiceFilters = t.exact(
+  t.partial({
+    authorized_recipient: FiscalCode,
+    department_name: NonEmptyString,
+    is_visible: BooleanFromString,
+    organization_fiscal_code: OrganizationFiscalCode
+  })
+);
+export type ServiceFilters = t.TypeOf<typeof ServiceFilters>;
+
+/**
+ * A middleware that extracts the services filters from the query string.
+ */
+export const ServiceFiltersMiddleware: IRequestMiddleware<
+  "IResponseErrorValidation",
+  ServiceFilters
+> = async request =>
+  pipe(
+    ServiceFilters.decode(request.query),
+    E.mapLeft(ResponseErrorFromValidationErrors(ServiceFilters))
+  );
@@ -0,0 +1,15 @@
+import { RequiredParamMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/middlewares/required_param";
+import { IRequestMiddleware } from "@pagopa/io-functions-commons/dist/src/utils/request_middleware";
+import {
+  NonNegativeInteger,
+  NonNegativeIntegerFromString
+} from "@pagopa/ts-commons/lib/numbers";
+
+/**
+ * Returns a middleware that extracts a service version
+ * from the provided URL path parameter.
+ */
+export const ServiceVersionMiddleware = (
+  name: string
+): IRequestMiddleware<"IResponseErrorValidation", NonNegativeInteger> =>
+  RequiredParamMiddleware(name, NonNegativeIntegerFromString);
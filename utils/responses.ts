@@ -0,0 +1,37 @@
+/**
+ * Responses not provided by @pagopa/ts-commons
+ */
+import {
+  HttpStatusCodeEnum,
+  IResponse
+} from "@pagopa/ts-commons/lib/responses";
+
+/**
+ * Interface for a successful response returning a plain text document.
+ */
+export interface IResponseSuccessText
+  extends IResponse<"IResponseSuccessText"> {
+  readonly contentType: string;
+  readonly value: string;
+}
+
+/**
+ * Returns a successful response with the provided text and content type.
+ *
+ * @param contentType The MIME type of the document
+ * @param text The document to return to the client
+ */
+export const ResponseSuccessText = (
+  contentType: string,
+  text: string
+): IResponseSuccessText => ({
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+  apply: res =>
+    res
+      .status(HttpStatusCodeEnum.HTTP_STATUS_200)
+      .set("Content-Type", contentType)
+      .send(text),
+  contentType,
+  kind: "IResponseSuccessText",
+  value: text
+});
@@ -0,0 +1,272 @@
+/**
+ * Utilities to read and compare the stored versions of a service.
+ *
+ * Every update of a service writes a new document with an incremented
+ * version, so the history of a service is the set of documents sharing
+ * the same serviceId.
+ */
+
+import { Service as ApiService } from "@pagopa/io-functions-commons/dist/generated/definitions/Service";
+import { ServiceId } from "@pagopa/io-functions-commons/dist/generated/definitions/ServiceId";
+import {
+  RetrievedService,
+  Service,
+  ServiceModel
+} from "@pagopa/io-functions-commons/dist/src/models/service";
+import {
+  asyncIteratorToArray,
+  flattenAsyncIterator
+} from "@pagopa/io-functions-commons/dist/src/utils/async";
+import { toCosmosErrorResponse } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import {
+  generateVersionedModelId,
+  incVersion
+} from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model_versioned";
+import {
+  IResponseErrorQuery,
+  ResponseErrorQuery
+} from "@pagopa/io-functions-commons/dist/src/utils/response";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponseErrorNotFound,
+  ResponseErrorNotFound
+} from "@pagopa/ts-commons/lib/responses";
+import { pipe } from "fp-ts/lib/function";
+import * as N from "fp-ts/lib/number";
+import * as O from "fp-ts/lib/Option";
+import * as Ord from "fp-ts/lib/Ord";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as RMAP from "fp-ts/lib/ReadonlyMap";
+import * as S from "fp-ts/lib/string";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { ServiceDryRun } from "../generated/definitions/ServiceDryRun";
+import { ServiceFieldChange } from "../generated/definitions/ServiceFieldChange";
+import { ServiceVersion } from "../generated/definitions/ServiceVersion";
+import { retrievedServiceToApiService, VersionedService } from "./conversions";
+
+const ordServiceByVersion = pipe(
+  N.Ord,
+  Ord.contramap((service: RetrievedService) => service.version)
+);
+
+/**
+ * Converts a RetrievedService to the API representation of its version
+ */
+export const retrievedServiceToServiceVersion = (
+  retrievedService: RetrievedService
+): ServiceVersion => ({
+  id: retrievedService.id,
+  // eslint-disable-next-line no-underscore-dangle
+  updated_at: new Date(retrievedService._ts * 1000),
+  version: retrievedService.version
+});
+
+/**
+ * Extracts the content of a stored service, leaving out
+ * the metadata of the document (id, version, cosmos fields).
+ *
+ * Every field is always present, so that spreading the result over
+ * another version also clears the optional fields not set here.
+ */
+export const retrievedServiceToServiceContent = (
+  retrievedService: RetrievedService
+): Service => ({
+  authorizedCIDRs: retrievedService.authorizedCIDRs,
+  authorizedRecipients: retrievedService.authorizedRecipients,
+  departmentName: retrievedService.departmentName,
+  isVisible: retrievedService.isVisible,
+  maxAllowedPaymentAmount: retrievedService.maxAllowedPaymentAmount,
+  organizationFiscalCode: retrievedService.organizationFiscalCode,
+  organizationName: retrievedService.organizationName,
+  requireSecureChannels: retrievedService.requireSecureChannels,
+  serviceId: retrievedService.serviceId,
+  serviceMetadata: retrievedService.serviceMetadata,
+  serviceName: retrievedService.serviceName
+});
+
+/**
+ * Reads every stored version of a service, sorted by version number.
+ * Documents that cannot be decoded are skipped.
+ */
+export const getServiceVersions = (
+  serviceModel: ServiceModel,
+  serviceId: ServiceId
+): TE.TaskEither<IResponseErrorQuery, ReadonlyArray<RetrievedService>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIteratorToArray(
+          flattenAsyncIterator(
+            serviceModel
+              .getQueryIterator({
+                parameters: [{ name: "@serviceId", value: serviceId }],
+                query: "SELECT * FROM c WHERE c.serviceId = @serviceId"
+              })
+              [Symbol.asyncIterator]()
+          )
+        ),
+      toCosmosErrorResponse
+    ),
+    TE.mapLeft(error =>
+      ResponseErrorQuery("Error while retrieving the service versions", error)
+    ),
+    TE.map(RA.rights),
+    TE.map(RA.sort(ordServiceByVersion))
+  );
+
+/**
+ * Reads the latest version of every service from the whole collection,
+ * sorted by serviceId. Documents that cannot be decoded are skipped.
+ */
+export const getLatestServices = (
+  serviceModel: ServiceModel
+): TE.TaskEither<IResponseErrorQuery, ReadonlyArray<RetrievedService>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIteratorToArray(
+          flattenAsyncIterator(
+            serviceModel.getCollectionIterator()[Symbol.asyncIterator]()
+          )
+        ),
+      toCosmosErrorResponse
+    ),
+    TE.mapLeft(error => ResponseErrorQuery("Cannot get services", error)),
+    TE.map(RA.rights),
+    // create a Map (serviceId, latest version of the service)
+    TE.map(
+      RA.reduce(
+        new Map<RetrievedService["serviceId"], RetrievedService>(),
+        (prev, curr) => {
+          // keep only the latest version
+          const latest = prev.get(curr.serviceId);
+          const isNewer = latest === undefined || curr.version > latest.version;
+          return isNewer ? prev.set(curr.serviceId, curr) : prev;
+        }
+      )
+    ),
+    // keep the services sorted by serviceId
+    TE.map(RMAP.collect(S.Ord)((_, service) => service))
+  );
+
+/**
+ * Reads a specific version of a service
+ */
+export const findServiceVersion = (
+  serviceModel: ServiceModel,
+  serviceId: ServiceId,
+  version: NonNegativeInteger
+): TE.TaskEither<
+  IResponseErrorQuery | IResponseErrorNotFound,
+  RetrievedService
+> =>
+  pipe(
+    serviceModel.find([
+      generateVersionedModelId<RetrievedService, "serviceId">(
+        serviceId,
+        version
+      ),
+      serviceId
+    ]),
+    TE.mapLeft(error =>
+      ResponseErrorQuery("Error while retrieving the service version", error)
+    ),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound(
+          "Service version not found",
+          `Could not find version ${version} of the service ${serviceId}`
+        )
+      )
+    )
+  );
+
+// the identifiers of the document change at every version
+const NOT_COMPARED_FIELDS: ReadonlySet<string> = new Set(["id", "version"]);
+
+const isNestedObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Flattens an object into a map of dot-separated paths and leaf values.
+ * Arrays are considered leaf values.
+ */
+const flattenFields = (
+  obj: Record<string, unknown>,
+  prefix: string = ""
+): Record<string, unknown> =>
+  Object.keys(obj).reduce(
+    (fields, key) =>
+      isNestedObject(obj[key])
+        ? {
+            ...fields,
+            ...flattenFields(
+              obj[key] as Record<string, unknown>,
+              `${prefix}${key}.`
+            )
+          }
+        : obj[key] === undefined
+        ? fields
+        : { ...fields, [`${prefix}${key}`]: obj[key] },
+    {}
+  );
+
+/**
+ * Computes the field-by-field differences between two API services.
+ * The identifiers of the documents (id and version) are not compared.
+ */
+export const diffApiServices = (
+  from: Partial<ApiService>,
+  to: ApiService
+): ReadonlyArray<ServiceFieldChange> => {
+  const flatFrom = flattenFields(from as Record<string, unknown>);
+  const flatTo = flattenFields(to as Record<string, unknown>);
+  return pipe(
+    [...new Set([...Object.keys(flatFrom), ...Object.keys(flatTo)])].sort(),
+    RA.filter(field => !NOT_COMPARED_FIELDS.has(field)),
+    RA.filter(
+      field => JSON.stringify(flatFrom[field]) !== JSON.stringify(flatTo[field])
+    ),
+    RA.map(field => ({
+      field,
+      new_value: field in flatTo ? JSON.stringify(flatTo[field]) : undefined,
+      old_value: field in flatFrom ? JSON.stringify(flatFrom[field]) : undefined
+    }))
+  );
+};
+
+/**
+ * Previews the version of a service that would be stored on top of
+ * the current one, if any, along with the changes it would introduce.
+ */
+export const previewServiceVersion = (
+  maybeCurrentService: O.Option<RetrievedService>,
+  service: Service
+): ServiceDryRun => {
+  const currentService = O.toUndefined(maybeCurrentService);
+  const version =
+    currentService === undefined
+      ? (0 as NonNegativeInteger)
+      : incVersion(currentService.version);
+  // the preview is never stored, so it lacks the cosmos metadata
+  const nextVersion: VersionedService = {
+    ...currentService,
+    ...service,
+    id: generateVersionedModelId<RetrievedService, "serviceId">(
+      service.serviceId,
+      version
+    ),
+    version
+  };
+  const nextService = retrievedServiceToApiService(nextVersion);
+  return {
+    changes: diffApiServices(
+      currentService === undefined
+        ? {}
+        : retrievedServiceToApiService(currentService),
+      nextService
+    ),
+    service: nextService
+  };
+};
@@ -0,0 +1,159 @@
+/**
+ * Serialization of services for bulk export and import.
+ *
+ * Services are exchanged in their API representation, either as NDJSON
+ * (one service per line) or as CSV (one service per row, with the fields
+ * of service_metadata flattened into dot-separated columns).
+ */
+
+import { Service as ApiService } from "@pagopa/io-functions-commons/dist/generated/definitions/Service";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as t from "io-ts";
+
+import { CsvRecord, parseCsv, toCsv } from "./csv";
+
+export const ServicesTransferFormat = t.keyof({
+  csv: null,
+  ndjson: null
+});
+export type ServicesTransferFormat = t.TypeOf<typeof ServicesTransferFormat>;
+
+export const DEFAULT_SERVICES_TRANSFER_FORMAT: ServicesTransferFormat =
+  "ndjson";
+
+export const SERVICES_TRANSFER_CONTENT_TYPES: Record<
+  ServicesTransferFormat,
+  string
+> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson"
+};
+
+const SERVICE_CSV_COLUMNS: ReadonlyArray<string> = [
+  "service_id",
+  "service_name",
+  "organization_name",
+  "organization_fiscal_code",
+  "department_name",
+  "authorized_cidrs",
+  "authorized_recipients",
+  "is_visible",
+  "max_allowed_payment_amount",
+  "require_secure_channels",
+  "service_metadata.scope",
+  "service_metadata.category",
+  "service_metadata.custom_special_flow",
+  "service_metadata.description",
+  "service_metadata.address",
+  "service_metadata.app_android",
+  "service_metadata.app_ios",
+  "service_metadata.cta",
+  "service_metadata.email",
+  "service_metadata.pec",
+  "service_metadata.phone",
+  "service_metadata.privacy_url",
+  "service_metadata.support_url",
+  "service_metadata.token_name",
+  "service_metadata.tos_url",
+  "service_metadata.web_url"
+];
+
+// CSV cells only hold strings, other values are encoded as JSON
+const JSON_ENCODED_CSV_COLUMNS: ReadonlySet<string> = new Set([
+  "authorized_cidrs",
+  "authorized_recipients",
+  "is_visible",
+  "max_allowed_payment_amount",
+  "require_secure_channels"
+]);
+
+const isNestedObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getPath = (obj: unknown, path: ReadonlyArray<string>): unknown =>
+  path.reduce<unknown>(
+    (value, key) => (isNestedObject(value) ? value[key] : undefined),
+    obj
+  );
+
+const setPath = (
+  obj: Record<string, unknown>,
+  [key, ...path]: ReadonlyArray<string>,
+  value: unknown
+): Record<string, unknown> => ({
+  ...obj,
+  [key]:
+    path.length === 0
+      ? value
+      : setPath(
+          isNestedObject(obj[key]) ? (obj[key] as Record<string, unknown>) : {},
+          path,
+          value
+        )
+});
+
+/**
+ * Parses a JSON value, falling back to the raw text
+ * so that the validation of the service reports the wrong value.
+ */
+const parseJsonOrRaw = (text: string): unknown =>
+  pipe(
+    E.parseJSON(text, E.toError),
+    E.getOrElseW(() => text)
+  );
+
+const apiServiceToCsvRecord = (service: ApiService): CsvRecord =>
+  SERVICE_CSV_COLUMNS.reduce<CsvRecord>((record, column) => {
+    const value = getPath(service, column.split("."));
+    return value === undefined
+      ? record
+      : {
+          ...record,
+          [column]: JSON_ENCODED_CSV_COLUMNS.has(column)
+            ? JSON.stringify(value)
+            : String(value)
+        };
+  }, {});
+
+const csvRecordToRawService = (record: CsvRecord): unknown =>
+  Object.keys(record).reduce(
+    (service, column) =>
+      setPath(
+        service,
+        column.split("."),
+        JSON_ENCODED_CSV_COLUMNS.has(column)
+          ? parseJsonOrRaw(record[column])
+          : record[column]
+      ),
+    {}
+  );
+
+/**
+ * Serializes a list of services in the provided format
+ */
+export const serializeServices = (
+  format: ServicesTransferFormat,
+  services: ReadonlyArray<ApiService>
+): string =>
+  format === "csv"
+    ? toCsv(SERVICE_CSV_COLUMNS, services.map(apiServiceToCsvRecord))
+    : services.map(service => `${JSON.stringify(service)}\n`).join("");
+
+/**
+ * Parses a document in the provided format into the list of its rows.
+ * Rows are not validated, so that each one can be reported on its own.
+ */
+export const parseServices = (
+  format: ServicesTransferFormat,
+  text: string
+): E.Either<Error, ReadonlyArray<unknown>> =>
+  format === "csv"
+    ? pipe(parseCsv(text), E.map(RA.map(csvRecordToRawService)))
+    : E.right(
+        text
+          .split(/\r?\n/)
+          .filter(line => line.trim() !== "")
+          .map(parseJsonOrRaw)
+      );
@@ -62,3 +62,22 @@ export const AllUserData = t.interface({
   )
 });
 export type AllUserData = t.TypeOf<typeof AllUserData>;
+
+// a message along with its content, when it could be retrieved
+export interface IMessageWithContent {
+  readonly message: AllUserData["messages"][number];
+  readonly content?: MessageContent;
+}
+
+/**
+ * User data provided a page at a time, so that they never need to be
+ * entirely in memory. Every call starts a new iteration over the pages
+ * of an entity, querying them again.
+ */
+export type UserDataPages = {
+  readonly [K in keyof AllUserData]: () => AsyncIterable<AllUserData[K]>;
+} & {
+  readonly messagesWithContents: () => AsyncIterable<
+    ReadonlyArray<IMessageWithContent>
+  >;
+};
@@ -0,0 +1,351 @@
+/**
+ * Utilities to read back the documents saved in the backup of a user data deletion.
+ *
+ * Every deletion run saves the deleted documents in a dedicated folder,
+ * named after the deletion request and the time of the run,
+ * as <folder>/<entity>/<document id>.json blobs,
+ * encrypted with a data key of the user.
+ * Data keys are saved apart from the backups, in a container of their own,
+ * as <fiscal code>.json blobs wrapped with a master key.
+ */
+import { BlobService } from "azure-storage";
+import * as D from "fp-ts/lib/Date";
+import * as E from "fp-ts/lib/Either";
+import { identity, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as Ord from "fp-ts/lib/Ord";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { FiscalCode, PatternString } from "@pagopa/ts-commons/lib/strings";
+import {
+  asyncIterableToArray,
+  flattenAsyncIterable
+} from "@pagopa/io-functions-commons/dist/src/utils/async";
+import {
+  decrypt,
+  encrypt,
+  EncryptedContent,
+  generateCipherKey
+} from "./crypto";
+import {
+  deleteBlob,
+  getBlobAsObject,
+  listBlobDirectories,
+  listBlobs,
+  upsertBlobFromObject
+} from "./extensions/azure_storage";
+
+const BACKUP_BLOB_SUFFIX = ".json";
+
+/**
+ * The folder of a deletion run, <fiscal code>-DELETE-<time in milliseconds>
+ */
+export const UserDataBackupFolder = PatternString("^[A-Z0-9]+-DELETE-[0-9]+$");
+export type UserDataBackupFolder = t.TypeOf<typeof UserDataBackupFolder>;
+
+export const UserDataBackupEntity = t.keyof({
+  message: null,
+  "message-content": null,
+  "message-status": null,
+  "message-view": null,
+  notification: null,
+  "notification-status": null,
+  profile: null,
+  "service-settings": null
+});
+export type UserDataBackupEntity = t.TypeOf<typeof UserDataBackupEntity>;
+
+/**
+ * The entities of a backup, in the order they are restored:
+ * documents referring to a message come after the message itself
+ */
+export const USER_DATA_BACKUP_ENTITIES: ReadonlyArray<UserDataBackupEntity> = [
+  "profile",
+  "service-settings",
+  "message",
+  "message-content",
+  "message-view",
+  "message-status",
+  "notification",
+  "notification-status"
+];
+
+// the ids of the documents saved in a backup, by entity
+export type UserDataBackupListing = Record<
+  UserDataBackupEntity,
+  ReadonlyArray<string>
+>;
+
+export const getBackupEntityPrefix = (
+  backupFolder: UserDataBackupFolder,
+  entity: UserDataBackupEntity
+): string => `${backupFolder}/${entity}/`;
+
+/**
+ * Extracts the id of the saved document from the name of a backup blob
+ */
+export const getBackupDocumentId = (
+  backupFolder: UserDataBackupFolder,
+  entity: UserDataBackupEntity,
+  blobName: string
+): string =>
+  blobName.slice(
+    getBackupEntityPrefix(backupFolder, entity).length,
+    blobName.endsWith(BACKUP_BLOB_SUFFIX)
+      ? -BACKUP_BLOB_SUFFIX.length
+      : undefined
+  );
+
+/**
+ * Lists the documents saved in the backup of a deletion run
+ *
+ * @param blobService the storage the backups are saved in
+ * @param containerName the container the backups are saved in
+ * @param backupFolder the folder of the deletion run
+ */
+export const listUserDataBackup = (
+  blobService: BlobService,
+  containerName: string,
+  backupFolder: UserDataBackupFolder
+): TE.TaskEither<Error, UserDataBackupListing> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(
+            listBlobs(blobService, containerName, `${backupFolder}/`)
+          )
+        ),
+      E.toError
+    ),
+    TE.map(blobs =>
+      pipe(
+        blobs,
+        RA.filterMap(({ name }) =>
+          pipe(
+            // blob names are <folder>/<entity>/<document id>.json
+            UserDataBackupEntity.decode(name.split("/")[1]),
+            E.map(entity => ({
+              entity,
+              id: getBackupDocumentId(backupFolder, entity, name)
+            })),
+            O.fromEither
+          )
+        ),
+        documents =>
+          USER_DATA_BACKUP_ENTITIES.reduce(
+            (listing, entity) => ({
+              ...listing,
+              [entity]: documents
+                .filter(document => document.entity === entity)
+                .map(document => document.id)
+            }),
+            {} as UserDataBackupListing
+          )
+      )
+    )
+  );
+
+export const isEmptyBackup = (listing: UserDataBackupListing): boolean =>
+  USER_DATA_BACKUP_ENTITIES.every(entity => listing[entity].length === 0);
+
+const getBackupKeyBlobName = (fiscalCode: FiscalCode): string =>
+  `${fiscalCode}${BACKUP_BLOB_SUFFIX}`;
+
+/**
+ * Reads the data key the backups of a user are encrypted with,
+ * unwrapping it with the master key.
+ * None when the user has no key, because it has been destroyed
+ * or because their backups have been saved before backups were encrypted.
+ *
+ * @param blobService the storage the keys are saved in
+ * @param keyContainerName the container the keys are saved in
+ * @param masterKey the key data keys are wrapped with
+ * @param fiscalCode the user whose data have been deleted
+ */
+export const getUserDataBackupKey = (
+  blobService: BlobService,
+  keyContainerName: string,
+  masterKey: Buffer,
+  fiscalCode: FiscalCode
+  // eslint-disable-next-line max-params
+): TE.TaskEither<Error, O.Option<Buffer>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        getBlobAsObject(
+          EncryptedContent,
+          blobService,
+          keyContainerName,
+          getBackupKeyBlobName(fiscalCode)
+        ),
+      E.toError
+    ),
+    TE.chainEitherK(identity),
+    TE.chainEitherK(wrappedKey =>
+      E.tryCatch(
+        () =>
+          pipe(
+            wrappedKey,
+            O.map(k => decrypt(masterKey, k))
+          ),
+        E.toError
+      )
+    )
+  );
+
+/**
+ * Reads the data key of a user, creating a new one on the first backup.
+ * An existing key is never replaced, as documents encrypted with it
+ * would become unreadable.
+ *
+ * @param blobService the storage the keys are saved in
+ * @param keyContainerName the container the keys are saved in
+ * @param masterKey the key data keys are wrapped with
+ * @param fiscalCode the user whose data are deleted
+ */
+export const getOrCreateUserDataBackupKey = (
+  blobService: BlobService,
+  keyContainerName: string,
+  masterKey: Buffer,
+  fiscalCode: FiscalCode
+  // eslint-disable-next-line max-params
+): TE.TaskEither<Error, Buffer> =>
+  pipe(
+    getUserDataBackupKey(blobService, keyContainerName, masterKey, fiscalCode),
+    TE.chain(
+      O.fold(() => {
+        const dataKey = generateCipherKey();
+        return pipe(
+          TE.tryCatch(
+            () =>
+              upsertBlobFromObject(
+                blobService,
+                keyContainerName,
+                getBackupKeyBlobName(fiscalCode),
+                encrypt(masterKey, dataKey),
+                { accessConditions: { EtagNonMatch: "*" } }
+              ),
+            E.toError
+          ),
+          TE.chainEitherK(identity),
+          TE.map(() => dataKey)
+        );
+      }, TE.of)
+    )
+  );
+
+/**
+ * Destroys the data key of a user, which makes all their backups unreadable
+ * without having to delete their documents one by one
+ *
+ * @param blobService the storage the keys are saved in
+ * @param keyContainerName the container the keys are saved in
+ * @param fiscalCode the user whose data have been deleted
+ */
+export const destroyUserDataBackupKey = (
+  blobService: BlobService,
+  keyContainerName: string,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, true> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        deleteBlob(
+          blobService,
+          keyContainerName,
+          getBackupKeyBlobName(fiscalCode)
+        ),
+      E.toError
+    ),
+    TE.chainEitherK(identity)
+  );
+
+/**
+ * Encrypts the content of a backup document with the data key of the backup
+ */
+export const encryptBackupDocument = (dataKey: Buffer) => (
+  content: string
+): string => JSON.stringify(encrypt(dataKey, Buffer.from(content, "utf8")));
+
+/**
+ * Decrypts the content of a backup document,
+ * leaving the documents saved before backups were encrypted as they are
+ *
+ * @param dataKey the data key of the backup, if any
+ */
+export const decryptBackupDocument = (dataKey: O.Option<Buffer>) => (
+  content: string
+): E.Either<Error, string> =>
+  pipe(
+    E.parseJSON(content, E.toError),
+    E.chain(json =>
+      EncryptedContent.is(json)
+        ? pipe(
+            dataKey,
+            E.fromOption(
+              () =>
+                new Error(
+                  "The document is encrypted but the key of the backup has been destroyed"
+                )
+            ),
+            E.chain(key =>
+              E.tryCatch(() => decrypt(key, json).toString("utf8"), E.toError)
+            )
+          )
+        : E.right(content)
+    )
+  );
+
+/**
+ * The time of a deletion run, the last part of the name of its folder
+ */
+export const getBackupCreationDate = (
+  backupFolder: UserDataBackupFolder
+): Date =>
+  new Date(Number(backupFolder.slice(backupFolder.lastIndexOf("-") + 1)));
+
+/**
+ * The user of a deletion run, the first part of the name of its folder
+ */
+export const getBackupFiscalCode = (
+  backupFolder: UserDataBackupFolder
+): FiscalCode =>
+  backupFolder.slice(0, backupFolder.indexOf("-DELETE-")) as FiscalCode;
+
+// the latest backups first
+const ordBackupByLatestCreation = pipe(
+  Ord.reverse(D.Ord),
+  Ord.contramap(getBackupCreationDate)
+);
+
+/**
+ * Lists the backups of the deletion runs of a user, the latest first
+ *
+ * @param blobService the storage the backups are saved in
+ * @param containerName the container the backups are saved in
+ * @param fiscalCode the user whose data have been deleted
+ */
+export const listUserDataBackupFolders = (
+  blobService: BlobService,
+  containerName: string,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, ReadonlyArray<UserDataBackupFolder>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(
+            listBlobDirectories(
+              blobService,
+              containerName,
+              `${fiscalCode}-DELETE-`
+            )
+          )
+        ),
+      E.toError
+    ),
+    TE.map(RA.filter(UserDataBackupFolder.is)),
+    TE.map(RA.sort(ordBackupByLatestCreation))
+  );
@@ -0,0 +1,77 @@
+/**
+ * Utilities shared by the nightly cleanups of the user data
+ * kept for a retention period, i.e. download archives and deletion backups.
+ */
+import { Context } from "@azure/functions";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// what a cleanup did with an item older than the retention period
+export type CleanupOutcome = "DELETED" | "EXPIRED" | "FAILED";
+
+export interface ICleanupSummary {
+  // items that have been deleted
+  readonly deleted: number;
+  // items that would have been deleted, in dry-run mode
+  readonly expired: number;
+  // items that could not be deleted, or not completely
+  readonly failed: number;
+  readonly isDryRun: boolean;
+}
+
+/**
+ * Items created before the returned date are beyond the retention period
+ */
+export const getExpiredBefore = (retentionDays: number): Date =>
+  new Date(Date.now() - retentionDays * DAY_MS);
+
+export const getEmptyCleanupSummary = (isDryRun: boolean): ICleanupSummary => ({
+  deleted: 0,
+  expired: 0,
+  failed: 0,
+  isDryRun
+});
+
+export const countOutcomes = (
+  summary: ICleanupSummary,
+  outcomes: ReadonlyArray<CleanupOutcome>
+): ICleanupSummary => ({
+  ...summary,
+  deleted: summary.deleted + outcomes.filter(_ => _ === "DELETED").length,
+  expired: summary.expired + outcomes.filter(_ => _ === "EXPIRED").length,
+  failed: summary.failed + outcomes.filter(_ => _ === "FAILED").length
+});
+
+/**
+ * Logs how many items a cleanup has deleted, or would have deleted
+ *
+ * @param context the context of the cleanup function
+ * @param logPrefix the prefix of the log line
+ * @param items what has been cleaned up, e.g. Archives
+ * @param expiredBefore the date items created before are expired
+ * @param summary the outcomes of the cleanup
+ */
+export const logCleanupSummary = (
+  context: Context,
+  logPrefix: string,
+  items: string,
+  expiredBefore: Date,
+  summary: ICleanupSummary
+): void =>
+  context.log.info(
+    `${logPrefix}|${items} older than ${expiredBefore.toISOString()} cleaned up|DELETED=${
+      summary.deleted
+    }|EXPIRED=${summary.expired}|FAILED=${summary.failed}`
+  );
+
+// the summary as the properties of a tracked event
+export const toCleanupEventProperties = (
+  expiredBefore: Date,
+  summary: ICleanupSummary
+): Readonly<Record<string, string>> => ({
+  deleted: String(summary.deleted),
+  expired: String(summary.expired),
+  expiredBefore: expiredBefore.toISOString(),
+  failed: String(summary.failed),
+  isDryRun: String(summary.isDryRun)
+});
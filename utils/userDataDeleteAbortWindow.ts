@@ -0,0 +1,132 @@
+/**
+ * Changes to the abort window of a deletion request, requested by the admins
+ * while the deletion orchestration is waiting for the window to end.
+ */
+
+import { UserDataProcessingChoiceEnum } from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingChoice";
+import {
+  makeUserDataProcessingId,
+  UserDataProcessing,
+  UserDataProcessingModel
+} from "@pagopa/io-functions-commons/dist/src/models/user_data_processing";
+import {
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  ResponseErrorConflict,
+  ResponseErrorInternal,
+  ResponseErrorNotFound
+} from "@pagopa/ts-commons/lib/responses";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import * as df from "durable-functions";
+import { DurableOrchestrationClient } from "durable-functions/lib/src/classes";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as TE from "fp-ts/lib/TaskEither";
+
+import { makeOrchestratorId } from "../UserDataDeleteOrchestratorV2/utils";
+import { UserDataProcessingOrchestrationCustomStatus } from "./userDataProcessingOrchestration";
+
+// the end of the abort window, provided the orchestration is waiting for it
+const getAbortWindowEnd = (customStatus: unknown): O.Option<O.Option<Date>> =>
+  pipe(
+    UserDataProcessingOrchestrationCustomStatus.decode(customStatus),
+    O.fromEither,
+    O.filter(({ step }) => step === "WAITING_FOR_ABORT"),
+    O.map(({ wakeUpAt }) => O.fromNullable(wakeUpAt))
+  );
+
+/**
+ * Raises an event on the deletion orchestration of a user,
+ * provided it is still waiting for the abort window to end
+ *
+ * @param getEventData builds the data of the event from the current end of the window,
+ *                     or fails when the change is not allowed
+ */
+export const raiseAbortWindowEvent = <L>(
+  dfClient: DurableOrchestrationClient,
+  fiscalCode: FiscalCode,
+  eventName: string,
+  getEventData: (abortWindowEnd: O.Option<Date>) => E.Either<L, unknown>
+): TE.TaskEither<
+  L | IResponseErrorConflict | IResponseErrorInternal | IResponseErrorNotFound,
+  void
+> =>
+  pipe(
+    TE.tryCatch(
+      () => dfClient.getStatus(makeOrchestratorId(fiscalCode)),
+      E.toError
+    ),
+    TE.mapLeft(er => ResponseErrorInternal(er.message)),
+    TE.chainW(
+      TE.fromPredicate(
+        status => status?.runtimeStatus !== undefined,
+        () =>
+          ResponseErrorNotFound(
+            "Not found!",
+            "No deletion orchestration found for the user."
+          )
+      )
+    ),
+    TE.chainW(status =>
+      pipe(
+        status.runtimeStatus === df.OrchestrationRuntimeStatus.Running
+          ? getAbortWindowEnd(status.customStatus)
+          : O.none,
+        TE.fromOption(() =>
+          ResponseErrorConflict(
+            "The deletion is not waiting for the abort window to end"
+          )
+        ),
+        TE.chainEitherKW(getEventData),
+        TE.chainW(eventData =>
+          pipe(
+            TE.tryCatch(
+              () =>
+                dfClient.raiseEvent(status.instanceId, eventName, eventData),
+              E.toError
+            ),
+            TE.mapLeft(er => ResponseErrorInternal(er.message))
+          )
+        )
+      )
+    )
+  );
+
+/**
+ * Records a change to the abort window in a new version of the deletion request,
+ * noting in its reason what has been changed and by whom
+ *
+ * @param note the change, e.g. the new end of the window and the admin who asked for it
+ */
+export const recordAbortWindowChange = (
+  userDataProcessingModel: UserDataProcessingModel,
+  fiscalCode: FiscalCode,
+  note: NonEmptyString
+): TE.TaskEither<
+  IResponseErrorInternal | IResponseErrorNotFound,
+  UserDataProcessing
+> =>
+  pipe(
+    userDataProcessingModel.findLastVersionByModelId([
+      makeUserDataProcessingId(UserDataProcessingChoiceEnum.DELETE, fiscalCode),
+      fiscalCode
+    ]),
+    TE.mapLeft(e => ResponseErrorInternal(e.kind)),
+    TE.chainW(
+      TE.fromOption(() =>
+        ResponseErrorNotFound("Not Found", "No user data processing found")
+      )
+    ),
+    TE.chainW(lastVersion =>
+      pipe(
+        userDataProcessingModel.createOrUpdateByNewOne({
+          ...lastVersion,
+          reason: note,
+          updatedAt: new Date()
+        }),
+        TE.mapLeft(e => ResponseErrorInternal(e.kind))
+      )
+    )
+  );
@@ -0,0 +1,182 @@
+/**
+ * Utilities to certify that the user data of a deletion run have been deleted.
+ *
+ * Once a deletion has been verified, a certificate with the counts of
+ * the documents checked in every collection is signed and saved
+ * as <backup folder>.json, to be shown to auditors as evidence of the deletion.
+ * Certificates are signed with a private key, so that anyone
+ * with the published public key can verify them but none can forge them.
+ */
+import { KeyObject } from "crypto";
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { identity, pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import {
+  asyncIterableToArray,
+  flattenAsyncIterable
+} from "@pagopa/io-functions-commons/dist/src/utils/async";
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import { isValidSignature, sign } from "./crypto";
+import {
+  getBlobAsObject,
+  listBlobs,
+  upsertBlobFromObject
+} from "./extensions/azure_storage";
+import { getBackupCreationDate, UserDataBackupFolder } from "./userDataBackup";
+
+const CERTIFICATE_BLOB_SUFFIX = ".json";
+
+// the documents of a collection found before and after a deletion
+export const UserDataDeleteCollectionCheck = t.interface({
+  deleted: NonNegativeInteger,
+  remaining: NonNegativeInteger
+});
+export type UserDataDeleteCollectionCheck = t.TypeOf<
+  typeof UserDataDeleteCollectionCheck
+>;
+
+export const UserDataDeleteCertificate = t.interface({
+  // the deletion run, named after its backup
+  backupFolder: UserDataBackupFolder,
+  collections: t.record(t.string, UserDataDeleteCollectionCheck),
+  fiscalCode: FiscalCode,
+  verifiedAt: UTCISODateFromString
+});
+export type UserDataDeleteCertificate = t.TypeOf<
+  typeof UserDataDeleteCertificate
+>;
+
+export const SignedUserDataDeleteCertificate = t.interface({
+  certificate: UserDataDeleteCertificate,
+  signature: t.interface({
+    alg: t.literal("Ed25519"),
+    // base64 encoded
+    value: t.string
+  })
+});
+export type SignedUserDataDeleteCertificate = t.TypeOf<
+  typeof SignedUserDataDeleteCertificate
+>;
+
+// the content that is signed, as the certificate is serialized
+const toSignedContent = (certificate: UserDataDeleteCertificate): string =>
+  JSON.stringify(UserDataDeleteCertificate.encode(certificate));
+
+export const signUserDataDeleteCertificate = (signingKey: KeyObject) => (
+  certificate: UserDataDeleteCertificate
+): SignedUserDataDeleteCertificate => ({
+  certificate,
+  signature: {
+    alg: "Ed25519",
+    value: sign(signingKey, toSignedContent(certificate))
+  }
+});
+
+export const isValidUserDataDeleteCertificate = (
+  verificationKey: KeyObject
+) => ({ certificate, signature }: SignedUserDataDeleteCertificate): boolean =>
+  isValidSignature(
+    verificationKey,
+    toSignedContent(certificate),
+    signature.value
+  );
+
+const getCertificateBlobName = (backupFolder: UserDataBackupFolder): string =>
+  `${backupFolder}${CERTIFICATE_BLOB_SUFFIX}`;
+
+/**
+ * Saves the certificate of a deletion run,
+ * replacing the one of a previous attempt of the same run
+ *
+ * @param blobService the storage certificates are saved in
+ * @param containerName the container certificates are saved in
+ * @param signedCertificate the certificate to save
+ */
+export const saveUserDataDeleteCertificate = (
+  blobService: BlobService,
+  containerName: string,
+  signedCertificate: SignedUserDataDeleteCertificate
+): TE.TaskEither<Error, O.Option<BlobService.BlobResult>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        upsertBlobFromObject(
+          blobService,
+          containerName,
+          getCertificateBlobName(signedCertificate.certificate.backupFolder),
+          SignedUserDataDeleteCertificate.encode(signedCertificate)
+        ),
+      E.toError
+    ),
+    TE.chainEitherK(identity)
+  );
+
+/**
+ * Reads the certificate of the latest deletion of a user
+ *
+ * @param blobService the storage certificates are saved in
+ * @param containerName the container certificates are saved in
+ * @param fiscalCode the user whose data have been deleted
+ */
+export const getLatestUserDataDeleteCertificate = (
+  blobService: BlobService,
+  containerName: string,
+  fiscalCode: FiscalCode
+): TE.TaskEither<Error, O.Option<SignedUserDataDeleteCertificate>> =>
+  pipe(
+    TE.tryCatch(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(
+            listBlobs(blobService, containerName, `${fiscalCode}-DELETE-`)
+          )
+        ),
+      E.toError
+    ),
+    TE.map(
+      RA.filterMap(({ name }) =>
+        pipe(
+          name.slice(0, -CERTIFICATE_BLOB_SUFFIX.length),
+          UserDataBackupFolder.decode,
+          O.fromEither
+        )
+      )
+    ),
+    // the latest run is the one with the latest creation date
+    TE.map(
+      RA.reduce(O.none as O.Option<UserDataBackupFolder>, (latest, folder) =>
+        pipe(
+          latest,
+          O.filter(
+            _ => getBackupCreationDate(_) > getBackupCreationDate(folder)
+          ),
+          O.alt(() => O.some(folder))
+        )
+      )
+    ),
+    TE.chain(
+      O.fold(
+        () => TE.of(O.none),
+        backupFolder =>
+          pipe(
+            TE.tryCatch(
+              () =>
+                getBlobAsObject(
+                  SignedUserDataDeleteCertificate,
+                  blobService,
+                  containerName,
+                  getCertificateBlobName(backupFolder)
+                ),
+              E.toError
+            ),
+            TE.chainEitherK(identity)
+          )
+      )
+    )
+  );
@@ -0,0 +1,315 @@
+/**
+ * Utilities to report the user data a deletion is going to remove,
+ * exploring them the same way the deletion does but without touching them.
+ */
+import { BlobService } from "azure-storage";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as O from "fp-ts/lib/Option";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as TE from "fp-ts/lib/TaskEither";
+import * as t from "io-ts";
+import { asyncIterableToArray } from "@pagopa/io-functions-commons/dist/src/utils/async";
+import { CosmosErrors } from "@pagopa/io-functions-commons/dist/src/utils/cosmosdb_model";
+import { FiscalCode, NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { getMessageFromCosmosErrors } from "./conversions";
+import { MessageDeletableModel } from "./extensions/models/message";
+import { MessageStatusDeletableModel } from "./extensions/models/message_status";
+import { MessageViewDeletableModel } from "./extensions/models/message_view";
+import { NotificationDeletableModel } from "./extensions/models/notification";
+import { NotificationStatusDeletableModel } from "./extensions/models/notification_status";
+import { ProfileDeletableModel } from "./extensions/models/profile";
+import { ServicePreferencesDeletableModel } from "./extensions/models/service_preferences";
+
+// how many messages are looked into at the same time
+const MESSAGE_CONCURRENCY = 10;
+
+// the documents of a kind a deletion is going to remove
+export interface IDeletedDocuments {
+  readonly count: number;
+  // left out when only counts are asked for
+  readonly ids?: ReadonlyArray<string>;
+}
+
+export interface IUserDataDeleteImpactReport {
+  // blobs of the message contents, in the message content container
+  readonly messageContents: IDeletedDocuments;
+  readonly messageStatuses: IDeletedDocuments;
+  readonly messageViews: IDeletedDocuments;
+  readonly messages: IDeletedDocuments;
+  readonly notificationStatuses: IDeletedDocuments;
+  readonly notifications: IDeletedDocuments;
+  readonly profiles: IDeletedDocuments;
+  readonly servicePreferences: IDeletedDocuments;
+}
+
+type DocumentKind = keyof IUserDataDeleteImpactReport;
+
+/**
+ * The deletable models, restricted to their read operations
+ */
+export interface IUserDataReadOnlyModels {
+  readonly messageModel: Pick<MessageDeletableModel, "findMessages">;
+  readonly messageStatusModel: Pick<
+    MessageStatusDeletableModel,
+    "findAllVersionsByModelId"
+  >;
+  readonly messageViewModel: Pick<MessageViewDeletableModel, "find">;
+  readonly notificationModel: Pick<
+    NotificationDeletableModel,
+    "findNotificationForMessage"
+  >;
+  readonly notificationStatusModel: Pick<
+    NotificationStatusDeletableModel,
+    "findAllVersionsByNotificationId"
+  >;
+  readonly profileModel: Pick<
+    ProfileDeletableModel,
+    "findAllVersionsByModelId"
+  >;
+  readonly servicePreferencesModel: Pick<
+    ServicePreferencesDeletableModel,
+    "findAllByFiscalCode"
+  >;
+}
+
+const DOCUMENT_KINDS: ReadonlyArray<DocumentKind> = [
+  "messageContents",
+  "messageStatuses",
+  "messageViews",
+  "messages",
+  "notificationStatuses",
+  "notifications",
+  "profiles",
+  "servicePreferences"
+];
+
+/**
+ * Collects the documents found while exploring user data,
+ * keeping their ids only when they are asked for
+ */
+const collectDocuments = (
+  withIds: boolean
+): {
+  readonly add: (kind: DocumentKind, ids: ReadonlyArray<string>) => void;
+  readonly toReport: () => IUserDataDeleteImpactReport;
+} => {
+  const counts = new Map<DocumentKind, number>();
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const allIds = new Map<DocumentKind, string[]>();
+  return {
+    add: (kind, ids): void => {
+      counts.set(kind, (counts.get(kind) ?? 0) + ids.length);
+      if (withIds) {
+        const kindIds = allIds.get(kind) ?? [];
+        // eslint-disable-next-line functional/immutable-data
+        kindIds.push(...ids);
+        allIds.set(kind, kindIds);
+      }
+    },
+    toReport: (): IUserDataDeleteImpactReport =>
+      DOCUMENT_KINDS.reduce(
+        (report, kind) => ({
+          ...report,
+          [kind]: {
+            count: counts.get(kind) ?? 0,
+            ...(withIds ? { ids: allIds.get(kind) ?? [] } : {})
+          }
+        }),
+        {} as IUserDataDeleteImpactReport
+      )
+  };
+};
+
+const fromCosmosErrors = (error: CosmosErrors): Error =>
+  new Error(getMessageFromCosmosErrors(error));
+
+const getOrThrow = async <A>(
+  task: TE.TaskEither<CosmosErrors, A>
+): Promise<A> =>
+  pipe(
+    await task(),
+    E.getOrElseW(error => {
+      throw fromCosmosErrors(error);
+    })
+  );
+
+/**
+ * Reads documents a page at a time, failing like the deletion does
+ * when some of them cannot be decoded
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* readPages<T>(
+  iterator: AsyncIterator<ReadonlyArray<t.Validation<T>>>
+): AsyncIterable<ReadonlyArray<T>> {
+  for (
+    // eslint-disable-next-line functional/no-let
+    let result = await iterator.next();
+    !result.done;
+    result = await iterator.next()
+  ) {
+    if (result.value.some(E.isLeft)) {
+      throw new Error("Some documents cannot be decoded");
+    }
+    yield RA.rights(result.value);
+  }
+}
+
+const readAll = async <T>(
+  iterator: AsyncIterator<ReadonlyArray<t.Validation<T>>>
+): Promise<ReadonlyArray<T>> =>
+  RA.flatten(await asyncIterableToArray(readPages(iterator)));
+
+const doesBlobExist = (
+  blobService: BlobService,
+  containerName: string,
+  blobName: string
+): Promise<boolean> =>
+  new Promise((resolve, reject) =>
+    blobService.doesBlobExist(containerName, blobName, (error, result) =>
+      error ? reject(error) : resolve(result.exists === true)
+    )
+  );
+
+/**
+ * Finds the documents a deletion of the user data is going to remove,
+ * following the deletion from messages to their children, then to profiles.
+ * Messages are explored a page at a time, a few of them at once.
+ *
+ * @param models the models to read the documents with
+ * @param messageContentBlobService the storage message contents are stored in
+ * @param messageContentContainerName the container message contents are stored in
+ * @param fiscalCode the owner of the user data
+ * @param deletedMessageIds messages deleted already, whose documents are looked for too
+ * @param withIds whether the ids of the documents are reported along with their count
+ */
+export const getUserDataDeleteImpactReport = (
+  {
+    messageModel,
+    messageStatusModel,
+    messageViewModel,
+    notificationModel,
+    notificationStatusModel,
+    profileModel,
+    servicePreferencesModel
+  }: IUserDataReadOnlyModels,
+  messageContentBlobService: BlobService,
+  messageContentContainerName: string,
+  fiscalCode: FiscalCode,
+  deletedMessageIds: ReadonlyArray<string> = [],
+  withIds: boolean = true
+  // eslint-disable-next-line max-params
+): TE.TaskEither<Error, IUserDataDeleteImpactReport> =>
+  TE.tryCatch(async () => {
+    const documents = collectDocuments(withIds);
+
+    const exploreMessageView = async (messageId: string): Promise<void> =>
+      documents.add(
+        "messageViews",
+        O.isSome(
+          await getOrThrow(
+            messageViewModel.find([messageId as NonEmptyString, fiscalCode])
+          )
+        )
+          ? [messageId]
+          : []
+      );
+
+    const exploreMessageContent = async (messageId: string): Promise<void> => {
+      const contentBlobName = `${messageId}.json`;
+      documents.add(
+        "messageContents",
+        (await doesBlobExist(
+          messageContentBlobService,
+          messageContentContainerName,
+          contentBlobName
+        ))
+          ? [contentBlobName]
+          : []
+      );
+    };
+
+    const exploreMessageStatuses = async (messageId: string): Promise<void> =>
+      documents.add(
+        "messageStatuses",
+        (
+          await readAll(
+            messageStatusModel.findAllVersionsByModelId(
+              messageId as NonEmptyString
+            )
+          )
+        ).map(status => status.id)
+      );
+
+    const exploreNotification = async (messageId: string): Promise<void> => {
+      // like the deletion, a missing notification is not an error
+      const notification = await pipe(
+        notificationModel.findNotificationForMessage(messageId),
+        TE.orElse(error =>
+          error.kind === "COSMOS_ERROR_RESPONSE" && error.error.code === 404
+            ? TE.of(O.none)
+            : TE.left(error)
+        ),
+        getOrThrow
+      );
+      if (O.isSome(notification)) {
+        documents.add("notifications", [notification.value.id]);
+        documents.add(
+          "notificationStatuses",
+          (
+            await readAll(
+              notificationStatusModel.findAllVersionsByNotificationId(
+                notification.value.id
+              )
+            )
+          ).map(status => status.id)
+        );
+      }
+    };
+
+    const exploreMessages = async (
+      messageIds: ReadonlyArray<string>
+    ): Promise<void> => {
+      for (const someMessageIds of RA.chunksOf(MESSAGE_CONCURRENCY)(
+        messageIds
+      )) {
+        await Promise.all(
+          someMessageIds.map(messageId =>
+            Promise.all([
+              exploreMessageView(messageId),
+              exploreMessageContent(messageId),
+              exploreMessageStatuses(messageId),
+              exploreNotification(messageId)
+            ])
+          )
+        );
+      }
+    };
+
+    const foundMessageIds = new Set<string>();
+    for await (const messages of readPages(
+      await getOrThrow(messageModel.findMessages(fiscalCode))
+    )) {
+      const pageMessageIds = messages.map(message => message.id);
+      pageMessageIds.forEach(messageId => foundMessageIds.add(messageId));
+      documents.add("messages", pageMessageIds);
+      await exploreMessages(pageMessageIds);
+    }
+    await exploreMessages(
+      deletedMessageIds.filter(messageId => !foundMessageIds.has(messageId))
+    );
+
+    documents.add(
+      "profiles",
+      (await readAll(profileModel.findAllVersionsByModelId(fiscalCode))).map(
+        profile => profile.id
+      )
+    );
+    documents.add(
+      "servicePreferences",
+      (
+        await readAll(servicePreferencesModel.findAllByFiscalCode(fiscalCode))
+      ).map(servicePreference => servicePreference.id)
+    );
+    return documents.toReport();
+  }, E.toError);
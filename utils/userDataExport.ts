@@ -0,0 +1,332 @@
+/**
+ * The formats user data are exported into, within the archive
+ * the users download when they ask for their data.
+ *
+ * Data are serialized a page at a time while the archive reads them,
+ * so that the export of a user does not need to fit in memory.
+ */
+import { MessageContent } from "@pagopa/io-functions-commons/dist/generated/definitions/MessageContent";
+import { pipe } from "fp-ts/lib/function";
+import * as RA from "fp-ts/lib/ReadonlyArray";
+import * as S from "fp-ts/lib/string";
+import * as t from "io-ts";
+import * as yaml from "yaml";
+
+import { CsvRecord, toCsv, toCsvRows } from "./csv";
+import {
+  getJsonSchemaPaths,
+  getJsonSchemaViolations,
+  JSON_SCHEMA_DRAFT,
+  JsonSchema,
+  toJsonSchema
+} from "./jsonSchema";
+import { AllUserData, UserDataPages } from "./userData";
+
+export const UserDataExportFormat = t.keyof({
+  // a CSV file for each entity
+  csv: null,
+  // a JSON document along with its JSON Schema
+  json: null,
+  yaml: null
+});
+export type UserDataExportFormat = t.TypeOf<typeof UserDataExportFormat>;
+
+export interface IUserDataExportFile {
+  readonly name: string;
+  // generated while it is read
+  readonly content: AsyncIterable<string>;
+  // the items of each entity written in the file, complete once it is read
+  readonly counts?: ReadonlyMap<keyof AllUserData, number>;
+}
+
+// eslint-disable-next-line functional/prefer-readonly-type
+type ItemCounts = Map<keyof AllUserData, number>;
+
+const addItemCount = (
+  counts: ItemCounts,
+  entity: keyof AllUserData,
+  count: number
+): void => {
+  counts.set(entity, (counts.get(entity) ?? 0) + count);
+};
+
+// a file of user data, counting the items it is made of
+const toCountedFile = (
+  name: string,
+  getContent: (counts: ItemCounts) => AsyncIterable<string>
+): IUserDataExportFile => {
+  const counts: ItemCounts = new Map();
+  return { content: getContent(counts), counts, name };
+};
+
+export const USER_DATA_SCHEMA_FILE_NAME = "user-data.schema.json";
+
+// the entities of the exported documents, in the order they are written
+export const USER_DATA_ENTITIES = Object.keys(
+  AllUserData.props
+) as ReadonlyArray<keyof AllUserData>;
+
+/**
+ * The JSON Schema of the exported JSON document
+ */
+export const getUserDataJsonSchema = (): JsonSchema => ({
+  $schema: JSON_SCHEMA_DRAFT,
+  title: "IO user data",
+  ...toJsonSchema(AllUserData)
+});
+
+// the JSON Schema of a single item of an entity
+const getEntityJsonSchema = (entity: keyof AllUserData): JsonSchema =>
+  toJsonSchema(AllUserData.props[entity].type);
+
+// the data as they are serialized, i.e. dates as ISO strings
+type PlainEntity = Readonly<Record<string, unknown>>;
+const toPlainData = (
+  entities: ReadonlyArray<unknown>
+): ReadonlyArray<PlainEntity> => JSON.parse(JSON.stringify(entities));
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* fromString(text: string): AsyncIterable<string> {
+  yield text;
+}
+
+/**
+ * A single YAML document with a list for each entity
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* toYamlContent(
+  pages: UserDataPages,
+  counts: ItemCounts
+): AsyncIterable<string> {
+  for (const entity of USER_DATA_ENTITIES) {
+    // eslint-disable-next-line functional/no-let
+    let isEmpty = true;
+    addItemCount(counts, entity, 0);
+    for await (const page of pages[entity]()) {
+      addItemCount(counts, entity, page.length);
+      if (page.length > 0) {
+        // list items can be at the same indentation of their key
+        yield `${isEmpty ? `${entity}:\n` : ""}${yaml.stringify(page)}`;
+        isEmpty = false;
+      }
+    }
+    if (isEmpty) {
+      yield `${entity}: []\n`;
+    }
+  }
+}
+
+// placeholders are stored for contents that could not be retrieved
+const isMessageContentPlaceholder = (
+  entity: keyof AllUserData,
+  item: PlainEntity
+): boolean => entity === "messageContents" && item.content === undefined;
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* toJsonItems(
+  pages: UserDataPages,
+  entity: keyof AllUserData
+): AsyncIterable<PlainEntity> {
+  for await (const page of pages[entity]()) {
+    yield* toPlainData(page).filter(
+      item => !isMessageContentPlaceholder(entity, item)
+    );
+  }
+}
+
+/**
+ * Serializes an item of the JSON document, once checked against its schema
+ */
+const toJsonItem = (
+  schema: JsonSchema,
+  item: PlainEntity,
+  path: string
+): string => {
+  const violations = getJsonSchemaViolations(schema, item, path);
+  if (violations.length > 0) {
+    throw new Error(
+      `The JSON export does not match its schema: ${violations.join(", ")}`
+    );
+  }
+  return JSON.stringify(item, null, 2).replace(/^/gm, "    ");
+};
+
+/**
+ * A JSON document referencing its schema,
+ * made of items that have been checked against the schema
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* toJsonContent(
+  pages: UserDataPages,
+  counts: ItemCounts
+): AsyncIterable<string> {
+  yield `{\n  "$schema": "./${USER_DATA_SCHEMA_FILE_NAME}"`;
+  for (const entity of USER_DATA_ENTITIES) {
+    const entitySchema = getEntityJsonSchema(entity);
+    yield `,\n  "${entity}": [`;
+    // eslint-disable-next-line functional/no-let
+    let count = 0;
+    for await (const item of toJsonItems(pages, entity)) {
+      yield `${count === 0 ? "" : ","}\n${toJsonItem(
+        entitySchema,
+        item,
+        `$.${entity}[${count}]`
+      )}`;
+      count++;
+    }
+    addItemCount(counts, entity, count);
+    yield count === 0 ? "]" : "\n  ]";
+  }
+  yield "\n}\n";
+}
+
+/**
+ * Flattens an entity into a CSV record:
+ * nested fields are named by their path, lists are serialized as JSON
+ */
+const toFlatCsvRecord = (value: unknown, prefix: string = ""): CsvRecord =>
+  value === null || value === undefined
+    ? {}
+    : Array.isArray(value)
+    ? { [prefix]: JSON.stringify(value) }
+    : typeof value === "object"
+    ? Object.entries(value as Record<string, unknown>).reduce(
+        (record, [key, field]) => ({
+          ...record,
+          ...toFlatCsvRecord(field, prefix === "" ? key : `${prefix}.${key}`)
+        }),
+        {}
+      )
+    : { [prefix]: String(value) };
+
+/**
+ * A CSV document of the entities of the provided pages.
+ * As the header comes first, columns are the fields described by the schema
+ * along with the ones found in the first page.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* toEntityCsvContent(
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  schema: JsonSchema,
+  onPage: (count: number) => void
+): AsyncIterable<string> {
+  // eslint-disable-next-line functional/no-let
+  let columns: ReadonlyArray<string> | undefined;
+  onPage(0);
+  for await (const page of pages) {
+    onPage(page.length);
+    const records = toPlainData(page).map(entity => toFlatCsvRecord(entity));
+    if (columns === undefined && records.length > 0) {
+      columns = pipe(
+        [...getJsonSchemaPaths(schema), ...RA.chain(Object.keys)(records)],
+        RA.uniq(S.Eq),
+        RA.sort(S.Ord)
+      );
+      yield toCsv(columns, []);
+    }
+    if (columns !== undefined) {
+      yield toCsvRows(columns, records);
+    }
+  }
+  if (columns === undefined) {
+    yield toCsv(pipe(getJsonSchemaPaths(schema), RA.sort(S.Ord)), []);
+  }
+}
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* toMessagesWithContentPages(
+  pages: UserDataPages
+): AsyncIterable<ReadonlyArray<unknown>> {
+  for await (const page of pages.messagesWithContents()) {
+    // message contents are exported along with their messages
+    yield page.map(({ message, content }) => ({ ...message, content }));
+  }
+}
+
+// a CSV file of the items of an entity
+const toEntityCsvFile = (
+  name: string,
+  entity: keyof AllUserData,
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  schema: JsonSchema
+): IUserDataExportFile =>
+  toCountedFile(name, counts =>
+    toEntityCsvContent(pages, schema, count =>
+      addItemCount(counts, entity, count)
+    )
+  );
+
+const toCsvFiles = (
+  pages: UserDataPages
+): ReadonlyArray<IUserDataExportFile> => [
+  toEntityCsvFile(
+    "csv/messages.csv",
+    "messages",
+    toMessagesWithContentPages(pages),
+    {
+      allOf: [
+        getEntityJsonSchema("messages"),
+        { properties: { content: toJsonSchema(MessageContent) } }
+      ]
+    }
+  ),
+  toEntityCsvFile(
+    "csv/message-statuses.csv",
+    "messageStatuses",
+    pages.messageStatuses(),
+    getEntityJsonSchema("messageStatuses")
+  ),
+  toEntityCsvFile(
+    "csv/notifications.csv",
+    "notifications",
+    pages.notifications(),
+    getEntityJsonSchema("notifications")
+  ),
+  toEntityCsvFile(
+    "csv/notification-statuses.csv",
+    "notificationStatuses",
+    pages.notificationStatuses(),
+    getEntityJsonSchema("notificationStatuses")
+  ),
+  toEntityCsvFile(
+    "csv/services-preferences.csv",
+    "servicesPreferences",
+    pages.servicesPreferences(),
+    getEntityJsonSchema("servicesPreferences")
+  )
+];
+
+/**
+ * The files of each of the provided formats,
+ * whose content is serialized from user data while they are read
+ * and whose items are counted as they are written
+ */
+export const getUserDataExportFiles = (
+  formats: ReadonlyArray<UserDataExportFormat>,
+  fiscalCode: string,
+  pages: UserDataPages
+): ReadonlyArray<IUserDataExportFile> =>
+  pipe(
+    formats,
+    RA.chain(format =>
+      format === "yaml"
+        ? [
+            toCountedFile(`${fiscalCode}.yaml`, counts =>
+              toYamlContent(pages, counts)
+            )
+          ]
+        : format === "json"
+        ? [
+            toCountedFile(`${fiscalCode}.json`, counts =>
+              toJsonContent(pages, counts)
+            ),
+            {
+              content: fromString(
+                JSON.stringify(getUserDataJsonSchema(), null, 2)
+              ),
+              name: USER_DATA_SCHEMA_FILE_NAME
+            }
+          ]
+        : toCsvFiles(pages)
+    )
+  );
@@ -0,0 +1,96 @@
+/**
+ * A manifest of the archive users download when they ask for their data,
+ * to prove what has been delivered to them: it lists the checksum of every
+ * file and, for the files of user data, how many items of each entity
+ * they are made of, as they have been written.
+ */
+import * as packageJson from "../package.json";
+import { createHash } from "./crypto";
+import { AllUserData } from "./userData";
+import { IUserDataExportFile } from "./userDataExport";
+
+export const USER_DATA_MANIFEST_FILE_NAME = "manifest.json";
+
+export interface IUserDataManifest {
+  // when data have been extracted
+  readonly createdAt: string;
+  readonly files: ReadonlyArray<{
+    readonly counts?: Readonly<Partial<Record<keyof AllUserData, number>>>;
+    readonly name: string;
+    readonly sha256: string;
+  }>;
+  // the version of the application that extracted data
+  readonly version: string;
+}
+
+/**
+ * Computes the checksum of a content, once it is completely read
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* withChecksum(
+  content: AsyncIterable<string>,
+  onChecksum: (sha256: string) => void
+): AsyncIterable<string> {
+  const hash = createHash();
+  for await (const chunk of content) {
+    hash.update(chunk);
+    yield chunk;
+  }
+  onChecksum(hash.digest("hex"));
+}
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* toManifestContent(
+  files: ReadonlyArray<IUserDataExportFile>,
+  checksums: ReadonlyMap<string, string>,
+  createdAt: Date
+): AsyncIterable<string> {
+  const manifest: IUserDataManifest = {
+    createdAt: createdAt.toISOString(),
+    files: files.map(({ counts, name }) => ({
+      ...(counts === undefined
+        ? {}
+        : {
+            counts: Array.from(counts).reduce(
+              (fileCounts, [entity, count]) => ({
+                ...fileCounts,
+                [entity]: count
+              }),
+              {}
+            )
+          }),
+      name,
+      sha256: checksums.get(name) ?? ""
+    })),
+    version: packageJson.version
+  };
+  yield JSON.stringify(manifest, null, 2);
+}
+
+/**
+ * Adds a manifest to the files generated from user data.
+ * As files are read one after the other, the manifest must be the last one:
+ * the checksums and the counts it lists are collected while files are read.
+ *
+ * @param files the files of the archive, generated from user data
+ * @param createdAt when data have been extracted
+ * @returns the files along with the manifest, as the last one
+ */
+export const withUserDataManifest = (
+  files: ReadonlyArray<IUserDataExportFile>,
+  createdAt: Date
+): ReadonlyArray<IUserDataExportFile> => {
+  const checksums = new Map<string, string>();
+  return [
+    ...files.map(file => ({
+      ...file,
+      content: withChecksum(file.content, sha256 =>
+        checksums.set(file.name, sha256)
+      )
+    })),
+    {
+      content: toManifestContent(files, checksums, createdAt),
+      name: USER_DATA_MANIFEST_FILE_NAME
+    }
+  ];
+};
@@ -0,0 +1,141 @@
+/**
+ * The progress of the orchestrations processing user data requests.
+ *
+ * Each orchestrator publishes its current step as the custom status
+ * of the durable instance, so that it can be inspected while running.
+ */
+
+import {
+  UserDataProcessingChoice,
+  UserDataProcessingChoiceEnum
+} from "@pagopa/io-functions-commons/dist/generated/definitions/UserDataProcessingChoice";
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
+import { FiscalCode } from "@pagopa/ts-commons/lib/strings";
+import {
+  DurableOrchestrationStatus,
+  IOrchestrationFunctionContext
+} from "durable-functions/lib/src/classes";
+import * as E from "fp-ts/lib/Either";
+import { pipe } from "fp-ts/lib/function";
+import * as t from "io-ts";
+
+import { makeOrchestratorId as makeDeleteOrchestratorId } from "../UserDataDeleteOrchestratorV2/utils";
+import { makeOrchestratorId as makeDownloadOrchestratorId } from "../UserDataDownloadOrchestrator/utils";
+
+export const UserDataProcessingOrchestrationStep = t.keyof({
+  // the orchestration has been aborted by the user
+  ABORTED: null,
+  // the orchestration ended successfully
+  COMPLETED: null,
+  // user data are being deleted, after being backed up
+  DELETING_DATA: null,
+  // user data are being collected into the archive to download
+  EXTRACTING_DATA: null,
+  // the orchestration ended with a failure
+  FAILED: null,
+  // the user is being informed about the outcome of the request
+  NOTIFYING_USER: null,
+  // the data needed to process the request are being retrieved
+  PREPARING: null,
+  // the subscriptions of the user to services are being removed
+  UPDATING_SUBSCRIPTIONS_FEED: null,
+  // deleted user data are being looked for again, to certify the deletion
+  VERIFYING_DELETION: null,
+  // the request can still be aborted by the user until the wake-up time
+  WAITING_FOR_ABORT: null,
+  // a download of the same user is in progress, the deletion is postponed
+  WAITING_FOR_DOWNLOAD: null
+});
+export type UserDataProcessingOrchestrationStep = t.TypeOf<
+  typeof UserDataProcessingOrchestrationStep
+>;
+
+export const UserDataProcessingOrchestrationFailure = t.intersection([
+  t.interface({
+    kind: t.string,
+    reason: t.string
+  }),
+  t.partial({ activityName: t.string })
+]);
+export type UserDataProcessingOrchestrationFailure = t.TypeOf<
+  typeof UserDataProcessingOrchestrationFailure
+>;
+
+export const UserDataProcessingOrchestrationCustomStatus = t.intersection([
+  t.interface({
+    step: UserDataProcessingOrchestrationStep,
+    updatedAt: UTCISODateFromString
+  }),
+  t.partial({
+    // the failure that made the orchestration end
+    lastFailure: UserDataProcessingOrchestrationFailure,
+    // when the orchestration is going to resume, for waiting steps
+    wakeUpAt: UTCISODateFromString
+  })
+]);
+export type UserDataProcessingOrchestrationCustomStatus = t.TypeOf<
+  typeof UserDataProcessingOrchestrationCustomStatus
+>;
+
+/**
+ * Publishes the current step of an orchestration as its custom status
+ */
+export const setOrchestrationStep = (
+  context: IOrchestrationFunctionContext,
+  step: UserDataProcessingOrchestrationStep,
+  details: Omit<
+    UserDataProcessingOrchestrationCustomStatus,
+    "step" | "updatedAt"
+  > = {}
+): void =>
+  context.df.setCustomStatus(
+    UserDataProcessingOrchestrationCustomStatus.encode({
+      ...details,
+      step,
+      updatedAt: context.df.currentUtcDateTime
+    })
+  );
+
+/**
+ * The id of the orchestration processing the request of a user,
+ * at most one per choice is running at a time
+ */
+export const makeUserDataProcessingOrchestratorId = (
+  choice: UserDataProcessingChoice,
+  fiscalCode: FiscalCode
+): string =>
+  choice === UserDataProcessingChoiceEnum.DELETE
+    ? makeDeleteOrchestratorId(fiscalCode)
+    : makeDownloadOrchestratorId(fiscalCode);
+
+export interface IUserDataProcessingOrchestration {
+  readonly instanceId: string;
+  readonly runtimeStatus: string;
+  readonly createdTime: Date;
+  readonly lastUpdatedTime: Date;
+  readonly step?: UserDataProcessingOrchestrationStep;
+  readonly wakeUpAt?: Date;
+  readonly lastFailure?: UserDataProcessingOrchestrationFailure;
+}
+
+/**
+ * Converts the status of a durable instance into the progress of the request,
+ * the step is missing for instances not publishing it
+ */
+export const toUserDataProcessingOrchestration = (
+  status: DurableOrchestrationStatus
+): IUserDataProcessingOrchestration =>
+  pipe(
+    UserDataProcessingOrchestrationCustomStatus.decode(status.customStatus),
+    E.fold(
+      () => ({}),
+      ({ step, wakeUpAt, lastFailure }) => ({ lastFailure, step, wakeUpAt })
+    ),
+    progress => ({
+      createdTime: new Date(status.createdTime),
+      instanceId: status.instanceId,
+      lastUpdatedTime: new Date(status.lastUpdatedTime),
+      runtimeStatus: status.runtimeStatus,
+      ...progress
+    })
+  );
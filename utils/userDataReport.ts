@@ -0,0 +1,198 @@
+/**
+ * A summary of user data readable by non-technical users,
+ * rendered as a standalone HTML page within the archive they download.
+ */
+import { markdownToHtml } from "@pagopa/io-functions-commons/dist/src/utils/markdown";
+
+import { IMessageWithContent, UserDataPages } from "./userData";
+
+export const USER_DATA_REPORT_FILE_NAME = "index.html";
+
+const HTML_ENTITIES: Readonly<Record<string, string>> = {
+  '"': "&quot;",
+  "&": "&amp;",
+  "'": "&#39;",
+  "<": "&lt;",
+  ">": "&gt;"
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/["&'<>]/g, char => HTML_ENTITIES[char]);
+
+const toText = (value: unknown): string =>
+  value === undefined || value === null
+    ? "-"
+    : value instanceof Date
+    ? value.toISOString()
+    : typeof value === "boolean"
+    ? value
+      ? "Sì"
+      : "No"
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+const renderRows = (rows: ReadonlyArray<ReadonlyArray<unknown>>): string =>
+  rows
+    .map(
+      row =>
+        `<tr>${row
+          .map(value => `<td>${escapeHtml(toText(value))}</td>`)
+          .join("")}</tr>\n`
+    )
+    .join("");
+
+const renderTableHead = (headers: ReadonlyArray<string>): string =>
+  `<table>\n<thead><tr>${headers
+    .map(header => `<th>${escapeHtml(header)}</th>`)
+    .join("")}</tr></thead>\n<tbody>\n`;
+
+const TABLE_END = "</tbody>\n</table>\n";
+
+const NO_DATA = "<p>Nessun dato presente.</p>\n";
+
+/**
+ * Renders a table whose rows are provided a page at a time
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* renderTable(
+  headers: ReadonlyArray<string>,
+  rowPages: AsyncIterable<ReadonlyArray<ReadonlyArray<unknown>>>
+): AsyncIterable<string> {
+  // eslint-disable-next-line functional/no-let
+  let isEmpty = true;
+  for await (const rows of rowPages) {
+    if (rows.length > 0) {
+      yield `${isEmpty ? renderTableHead(headers) : ""}${renderRows(rows)}`;
+      isEmpty = false;
+    }
+  }
+  yield isEmpty ? NO_DATA : TABLE_END;
+}
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* mapPages<A, B>(
+  pages: AsyncIterable<ReadonlyArray<A>>,
+  f: (a: A) => B
+): AsyncIterable<ReadonlyArray<B>> {
+  for await (const page of pages) {
+    yield page.map(f);
+  }
+}
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* fromArray<A>(page: ReadonlyArray<A>): AsyncIterable<A> {
+  yield* page;
+}
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* renderProfiles(pages: UserDataPages): AsyncIterable<string> {
+  for await (const profiles of pages.profiles()) {
+    for (const profile of profiles) {
+      yield* renderTable(
+        ["Dato", "Valore"],
+        fromArray([
+          Object.entries(profile).filter(([, value]) => value !== undefined)
+        ])
+      );
+    }
+  }
+}
+
+const renderMessage = async ({
+  message,
+  content
+}: IMessageWithContent): Promise<string> => {
+  const { body, subject } =
+    content === undefined
+      ? {
+          body: "<p>Il contenuto del messaggio non è disponibile.</p>",
+          subject: "Messaggio senza contenuto"
+        }
+      : {
+          body: String(await markdownToHtml.process(content.markdown)),
+          subject: content.subject
+        };
+  return `<article>
+<h3>${escapeHtml(subject)}</h3>
+<p class="meta">Ricevuto il ${escapeHtml(
+    toText(message.createdAt)
+  )} dal servizio ${escapeHtml(message.senderServiceId)}</p>
+<div class="content">${body}</div>
+</article>
+`;
+};
+
+/**
+ * Renders messages from the newest to the oldest,
+ * each one along with its content when it could be retrieved
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* renderMessages(pages: UserDataPages): AsyncIterable<string> {
+  // eslint-disable-next-line functional/no-let
+  let isEmpty = true;
+  for await (const page of pages.messagesWithContents()) {
+    for (const messageWithContent of page) {
+      yield await renderMessage(messageWithContent);
+      isEmpty = false;
+    }
+  }
+  if (isEmpty) {
+    yield "<p>Nessun messaggio ricevuto.</p>\n";
+  }
+}
+
+const renderServicesPreferences = (
+  pages: UserDataPages
+): AsyncIterable<string> =>
+  renderTable(
+    [
+      "Servizio",
+      "Messaggi",
+      "Email",
+      "Webhook",
+      "Conferma di lettura",
+      "Versione delle preferenze"
+    ],
+    mapPages(pages.servicesPreferences(), preference => [
+      preference.serviceId,
+      preference.isInboxEnabled,
+      preference.isEmailEnabled,
+      preference.isWebhookEnabled,
+      preference.accessReadMessageStatus,
+      preference.settingsVersion
+    ])
+  );
+
+/**
+ * Renders the profile, the messages and the service preferences of a user
+ * into a standalone HTML page, a section at a time while it is read
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export async function* renderUserDataReport(
+  pages: UserDataPages
+): AsyncIterable<string> {
+  yield `<!DOCTYPE html>
+<html lang="it">
+<head>
+<meta charset="utf-8">
+<title>IO - I tuoi dati</title>
+<style>
+body { font-family: sans-serif; margin: 2em auto; max-width: 60em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 0.4em; text-align: left; }
+article { border-bottom: 1px solid #ccc; }
+.meta { color: #555; }
+</style>
+</head>
+<body>
+<h1>I tuoi dati su IO</h1>
+<h2>Profilo</h2>
+`;
+  yield* renderProfiles(pages);
+  yield "<h2>Messaggi</h2>\n";
+  yield* renderMessages(pages);
+  yield "<h2>Preferenze sui servizi</h2>\n";
+  yield* renderServicesPreferences(pages);
+  yield "</body>\n</html>\n";
+}
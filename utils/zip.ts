@@ -1,4 +1,10 @@
 import * as archiver from "archiver";
+import {
+  IntegerFromString,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import { enumType } from "@pagopa/ts-commons/lib/types";
+import * as t from "io-ts";
 import { StrongPassword } from "./random";
 
 const initArchiverZipEncryptedPlugin = {
@@ -23,19 +29,41 @@ export enum EncryptionMethodEnum {
   AES256 = "aes256"
 }
 
-export const DEFAULT_ZIP_ENCRYPTION_METHOD = EncryptionMethodEnum.ZIP20;
-export const DEFAULT_ZLIB_LEVEL = 8;
+export const EncryptionMethod = enumType<EncryptionMethodEnum>(
+  EncryptionMethodEnum,
+  "EncryptionMethod"
+);
+export type EncryptionMethod = t.TypeOf<typeof EncryptionMethod>;
+
+// zlib compression levels, from 0 (no compression) to 9 (best compression)
+export const ZlibLevel = WithinRangeInteger(0, 10);
+export type ZlibLevel = t.TypeOf<typeof ZlibLevel>;
+export const ZlibLevelFromString = IntegerFromString.pipe(ZlibLevel);
+
+export const DEFAULT_ZIP_ENCRYPTION_METHOD = EncryptionMethodEnum.AES256;
+export const DEFAULT_ZLIB_LEVEL = 8 as ZlibLevel;
+
+export interface IZipOptions {
+  readonly encryptionMethod: EncryptionMethodEnum;
+  readonly zlibLevel: ZlibLevel;
+}
+
+export const DEFAULT_ZIP_OPTIONS: IZipOptions = {
+  encryptionMethod: DEFAULT_ZIP_ENCRYPTION_METHOD,
+  zlibLevel: DEFAULT_ZLIB_LEVEL
+};
 
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function getEncryptedZipStream(
-  password: StrongPassword
+  password: StrongPassword,
+  { encryptionMethod, zlibLevel }: IZipOptions = DEFAULT_ZIP_OPTIONS
 ): archiver.Archiver {
   initArchiverZipEncryptedPlugin.run();
   return archiver.create("zip-encrypted", {
-    encryptionMethod: DEFAULT_ZIP_ENCRYPTION_METHOD,
+    encryptionMethod,
     password,
     zlib: {
-      level: DEFAULT_ZLIB_LEVEL
+      level: zlibLevel
     }
     // following cast due to incomplete archive typings
     // eslint-disable-next-line @typescript-eslint/no-explicit-any